@@ -13,6 +13,30 @@ import { ElasticsearchModule } from './modules/elasticsearch/elasticsearch.modul
 // ==================== Communication Domain ====================
 import { WebsocketModule } from './modules/websocket/websocket.module';
 
+// ==================== Conversion ====================
+import { ConversionModule } from './modules/conversion/conversion.module';
+
+// ==================== Nutrition ====================
+import { NutritionModule } from './modules/nutrition/nutrition.module';
+
+// ==================== Shopping List ====================
+import { ShoppingListModule } from './modules/shopping-list/shopping-list.module';
+
+// ==================== Meal Plan ====================
+import { MealPlanModule } from './modules/meal-plan/meal-plan.module';
+
+// ==================== Pantry ====================
+import { PantryModule } from './modules/pantry/pantry.module';
+
+// ==================== Allergen ====================
+import { AllergenModule } from './modules/allergen/allergen.module';
+
+// ==================== Dietary ====================
+import { DietaryModule } from './modules/dietary/dietary.module';
+
+// ==================== Analytics ====================
+import { AnalyticsModule } from './modules/analytics/analytics.module';
+
 // ==================== Health Check ====================
 import { HealthModule } from './modules/health/health.module';
 
@@ -36,6 +60,30 @@ import { HealthModule } from './modules/health/health.module';
     // ==================== Communication Domain ====================
     WebsocketModule,
 
+    // ==================== Conversion ====================
+    ConversionModule,
+
+    // ==================== Nutrition ====================
+    NutritionModule,
+
+    // ==================== Shopping List ====================
+    ShoppingListModule,
+
+    // ==================== Meal Plan ====================
+    MealPlanModule,
+
+    // ==================== Pantry ====================
+    PantryModule,
+
+    // ==================== Allergen ====================
+    AllergenModule,
+
+    // ==================== Dietary ====================
+    DietaryModule,
+
+    // ==================== Analytics ====================
+    AnalyticsModule,
+
     // ==================== Health Check ====================
     HealthModule,
   ],
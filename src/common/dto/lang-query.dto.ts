@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+import { RECIPE_LANGUAGES, RecipeLanguage } from '../../modules/langchain/types/langchain.types';
+
+export class LangQueryDto {
+    @ApiProperty({ required: false, default: 'ko', enum: RECIPE_LANGUAGES, description: 'Language of returned recipe fields and explanations' })
+    @IsOptional()
+    @IsIn(RECIPE_LANGUAGES)
+    lang?: RecipeLanguage;
+}
@@ -0,0 +1,24 @@
+import { BadRequestException } from '@nestjs/common';
+import { RequestUtil } from './request.util';
+
+describe('RequestUtil', () => {
+  describe('toStringArray', () => {
+    it('accepts repeated and comma-separated parameters', () => {
+      expect(RequestUtil.toStringArray({ value: ['한식', '빠른요리'] })).toEqual(['한식', '빠른요리']);
+      expect(RequestUtil.toStringArray({ value: '견과류, 밀,,' })).toEqual(['견과류', '밀']);
+    });
+
+    it('treats an empty parameter as missing', () => {
+      expect(RequestUtil.toStringArray({ value: '' })).toBeUndefined();
+      expect(RequestUtil.toStringArray({ value: undefined })).toBeUndefined();
+    });
+  });
+
+  describe('requireUserId', () => {
+    it('rejects a missing userId', () => {
+      expect(() => RequestUtil.requireUserId(undefined)).toThrow(BadRequestException);
+      expect(() => RequestUtil.requireUserId('')).toThrow(BadRequestException);
+      expect(() => RequestUtil.requireUserId('u1')).not.toThrow();
+    });
+  });
+});
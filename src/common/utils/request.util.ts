@@ -0,0 +1,24 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * 컨트롤러/DTO 공통 요청 파라미터 처리
+ */
+export class RequestUtil {
+  /**
+   * 쿼리스트링 배열 파라미터 (?tags=a&tags=b 또는 ?tags=a,b) 정규화 - @Transform 에 사용
+   */
+  static toStringArray({ value }: { value: unknown }): string[] | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const values = Array.isArray(value) ? value : String(value).split(',');
+    return values.map(v => String(v).trim()).filter(v => v.length > 0);
+  }
+
+  /**
+   * 사용자별 API 의 userId 필수 검사
+   */
+  static requireUserId(userId?: string): asserts userId is string {
+    if (!userId) {
+      throw new BadRequestException('userId is required');
+    }
+  }
+}
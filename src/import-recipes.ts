@@ -0,0 +1,82 @@
+import { NestFactory } from '@nestjs/core';
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { RecipeModule } from './modules/recipe/recipe.module';
+import { RecipeImportService, RecipeImportFormat } from './modules/recipe/services/recipe-import.service';
+
+/**
+ * 레시피 일괄 가져오기 명령
+ * 사용법: npm run import:recipes -- <file.jsonl|file.csv> [--format jsonl|csv] [--dry-run] [--chunk-size 500]
+ */
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      envFilePath: '.env',
+    }),
+    RecipeModule,
+  ],
+})
+class ImportRecipesModule {}
+
+function parseArgs(argv: string[]): { file?: string; format?: RecipeImportFormat; dryRun: boolean; chunkSize?: number } {
+  const args: { file?: string; format?: RecipeImportFormat; dryRun: boolean; chunkSize?: number } = { dryRun: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--dry-run') {
+      args.dryRun = true;
+    } else if (arg === '--format') {
+      args.format = argv[++i] as RecipeImportFormat;
+    } else if (arg === '--chunk-size') {
+      args.chunkSize = parseInt(argv[++i] ?? '', 10) || undefined;
+    } else if (arg && !arg.startsWith('--')) {
+      args.file = arg;
+    }
+  }
+
+  return args;
+}
+
+async function run() {
+  const logger = new Logger('ImportRecipes');
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!args.file) {
+    logger.error('❌ Usage: npm run import:recipes -- <file.jsonl|file.csv> [--format jsonl|csv] [--dry-run] [--chunk-size 500]');
+    process.exit(1);
+  }
+
+  const format = args.format ?? (extname(args.file).toLowerCase() === '.csv' ? 'csv' : 'jsonl');
+  if (format !== 'jsonl' && format !== 'csv') {
+    logger.error(`❌ Unsupported format: ${format}`);
+    process.exit(1);
+  }
+
+  const app = await NestFactory.createApplicationContext(ImportRecipesModule, { logger: ['error', 'warn', 'log'] });
+
+  try {
+    const report = await app.get(RecipeImportService).importRecipes(readFileSync(args.file, 'utf8'), {
+      format,
+      dryRun: args.dryRun,
+      chunkSize: args.chunkSize,
+    });
+
+    logger.log(`📦 ${args.file} (${format}${report.dryRun ? ', dry-run' : ''}) - total: ${report.totalRows}, accepted: ${report.acceptedCount}, rejected: ${report.rejectedCount}, duplicates: ${report.duplicateCount}`);
+    [...report.rejected, ...report.duplicates]
+      .sort((a, b) => a.row - b.row)
+      .forEach(result => {
+        const reasons = result.reasons.map(reason => `${reason.field} ${reason.code}: ${reason.message}`).join('; ');
+        logger.warn(`⚠️ row ${result.row} ${result.status} ${result.name ?? result.recipeId ?? ''} - ${reasons}`);
+      });
+  } catch (error) {
+    logger.error('❌ Import failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await app.close();
+  }
+}
+
+void run();
@@ -3,6 +3,7 @@ import { AppModule } from './app.module';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { IoAdapter } from '@nestjs/platform-socket.io';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { Server, ServerOptions } from 'socket.io';
 
 class ConfiguredIoAdapter extends IoAdapter {
@@ -37,7 +38,10 @@ async function bootstrap() {
   const logger = new Logger('Bootstrap');
 
   try {
-    const app = await NestFactory.create(AppModule);
+    const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+    // 레시피 일괄 가져오기(JSONL/CSV 본문)를 위해 JSON 본문 크기 제한 확대
+    app.useBodyParser('json', { limit: process.env.JSON_BODY_LIMIT || '10mb' });
 
     // WebSocket 어댑터 설정
     app.useWebSocketAdapter(new ConfiguredIoAdapter(app));
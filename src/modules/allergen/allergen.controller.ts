@@ -0,0 +1,31 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { AllergenService } from './allergen.service';
+import { AllergyQueryDto } from './dto/allergen.dto';
+import { AllergenGroup, RecipeAllergenCheck, ResolvedAllergy } from './interfaces/allergen.interface';
+
+@ApiTags('Allergens')
+@Controller('allergens')
+export class AllergenController {
+  constructor(private readonly allergenService: AllergenService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List allergen groups and the ingredients they cover' })
+  getTaxonomy(): AllergenGroup[] {
+    return this.allergenService.getTaxonomy();
+  }
+
+  @Get('resolve')
+  @ApiOperation({ summary: 'Expand allergies into the ingredient terms used for filtering' })
+  resolve(@Query() allergyDto: AllergyQueryDto): ResolvedAllergy[] {
+    return this.allergenService.resolve(allergyDto.allergies);
+  }
+
+  @Get('check/:recipeId')
+  @ApiOperation({ summary: 'Check a recipe against allergies and explain any match' })
+  @ApiResponse({ status: 200, description: 'Safety result with matched ingredients' })
+  @ApiResponse({ status: 404, description: 'Recipe not found' })
+  async checkRecipe(@Param('recipeId') recipeId: string, @Query() allergyDto: AllergyQueryDto): Promise<RecipeAllergenCheck> {
+    return this.allergenService.checkRecipe(recipeId, allergyDto.allergies, allergyDto.lang);
+  }
+}
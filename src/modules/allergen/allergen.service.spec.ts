@@ -0,0 +1,114 @@
+import { NotFoundException } from '@nestjs/common';
+import { ElasticsearchService } from '../elasticsearch/elasticsearch.service';
+import { AllergenService } from './allergen.service';
+
+describe('AllergenService', () => {
+  let elasticsearchService: any;
+  let service: AllergenService;
+
+  beforeEach(() => {
+    elasticsearchService = { getRecipeById: jest.fn(async () => null) };
+    service = new AllergenService(elasticsearchService as ElasticsearchService);
+  });
+
+  describe('resolve', () => {
+    it('expands a group alias and keeps unknown input as-is', () => {
+      const [nuts, kiwi] = service.resolve(['견과류', ' 키위 ', '']);
+
+      expect(nuts).toMatchObject({ input: '견과류', groupId: 'tree_nuts' });
+      expect(nuts?.terms).toEqual(expect.arrayContaining(['호두', 'almond']));
+      expect(kiwi).toEqual({ input: '키위', groupId: null, groupName: '키위', terms: ['키위'] });
+    });
+  });
+
+  describe('expandExclusions', () => {
+    it('carries the group exceptions with each term', () => {
+      const exclusions = service.expandExclusions(['우유']);
+
+      expect(exclusions).toContainEqual({ term: '버터', exceptions: expect.arrayContaining(['땅콩버터', '코코넛밀크']) });
+    });
+
+    it('drops an exception when another group excludes the same term without it', () => {
+      expect(service.expandExclusions(['밀'])).toContainEqual({ term: '간장', exceptions: expect.arrayContaining(['쌀국수']) });
+
+      const exclusions = service.expandExclusions(['밀', '대두']);
+      expect(exclusions.filter(exclusion => exclusion.term === '간장')).toEqual([{ term: '간장', exceptions: [] }]);
+    });
+  });
+
+  describe('findMatches', () => {
+    it('finds synonyms and reports the longest term', () => {
+      const matches = service.findMatches({ name: '땅콩 쿠키', ingredients: ['땅콩버터 2큰술', '밀가루 100g'] }, ['땅콩']);
+
+      expect(matches).toEqual([
+        expect.objectContaining({ allergy: '땅콩', term: '땅콩버터', source: 'ingredient', text: '땅콩버터 2큰술' }),
+      ]);
+    });
+
+    it('skips exceptions of the group', () => {
+      expect(service.findMatches({ name: '땅콩버터 토스트', ingredients: ['땅콩버터 1큰술'] }, ['우유'])).toEqual([]);
+      expect(service.findMatches({ name: '쌀국수', ingredients: ['쌀국수 200g'] }, ['밀'])).toEqual([]);
+    });
+
+    it('still checks the rest of a line that also names an exception', () => {
+      expect(service.findMatches({ name: '라떼', ingredients: ['우유 또는 두유 200ml'] }, ['우유'])).toEqual([
+        expect.objectContaining({ term: '우유', text: '우유 또는 두유 200ml' }),
+      ]);
+      expect(service.findMatches({ name: '돈가스', ingredients: ['글루텐프리 빵가루 또는 밀가루'] }, ['밀'])).toEqual([
+        expect.objectContaining({ term: '밀가루', text: '글루텐프리 빵가루 또는 밀가루' }),
+      ]);
+      expect(service.findMatches({ name: '카레', ingredients: ['coconut milk or whole milk 1 cup'] }, ['milk'])).toEqual([
+        expect.objectContaining({ term: 'milk' }),
+      ]);
+    });
+
+    it('falls back to the recipe name', () => {
+      expect(service.findMatches({ name: '새우볶음밥', ingredients: ['밥 1공기'] }, ['갑각류'])).toEqual([
+        expect.objectContaining({ source: 'name', term: '새우' }),
+      ]);
+    });
+  });
+
+  describe('filterRecipes', () => {
+    const recipes = [
+      { id: 'r1', name: '호두 파이', ingredients: ['호두 50g', '밀가루 200g'] },
+      { id: 'r2', name: '된장찌개', ingredients: ['된장 2큰술', '두부 1모'] },
+    ];
+
+    it('keeps safe recipes and explains each exclusion', () => {
+      const result = service.filterRecipes(recipes, recipe => recipe, ['견과류']);
+
+      expect(result.recipes.map(recipe => recipe.id)).toEqual(['r2']);
+      expect(result.exclusions).toEqual([
+        expect.objectContaining({ recipeId: 'r1', explanation: "견과류 알레르기: '호두 50g'에 호두 포함" }),
+      ]);
+    });
+
+    it('explains exclusions in English when asked', () => {
+      const result = service.filterRecipes(recipes, recipe => recipe, ['nuts', '밀'], 'en');
+
+      expect(result.exclusions[0]?.explanation).toBe(
+        "nuts(Tree nuts) allergy: '호두 50g' contains 호두; 밀(Wheat) allergy: '밀가루 200g' contains 밀가루"
+      );
+    });
+
+    it('returns everything when no allergy is given', () => {
+      expect(service.filterRecipes(recipes, recipe => recipe).recipes).toHaveLength(2);
+    });
+  });
+
+  describe('checkRecipe', () => {
+    it('rejects an unknown recipe', async () => {
+      await expect(service.checkRecipe('missing', ['우유'])).rejects.toThrow(NotFoundException);
+    });
+
+    it('reports a safe recipe', async () => {
+      elasticsearchService.getRecipeById.mockResolvedValue({ id: 'r1', nameKo: '오이무침', ingredientsKo: ['오이 1개'] });
+
+      await expect(service.checkRecipe('r1', ['우유'])).resolves.toMatchObject({ safe: true, matches: [] });
+      await expect(service.checkRecipe('r1', ['우유'], 'en')).resolves.toMatchObject({
+        explanation: 'No ingredients contain the given allergens',
+      });
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ElasticsearchRecipe, ElasticsearchService, IngredientExclusion } from '../elasticsearch/elasticsearch.service';
+import { IngredientParserUtil } from '../langchain/utils/ingredient-parser.util';
+import { RecipeLanguage } from '../langchain/types/langchain.types';
+import { ALLERGEN_GROUPS } from './constants/allergen-taxonomy.constants';
+import {
+  AllergenCheckTarget,
+  AllergenGroup,
+  AllergenMatch,
+  AllergyExclusion,
+  AllergyFilterResult,
+  RecipeAllergenCheck,
+  ResolvedAllergy,
+} from './interfaces/allergen.interface';
+
+/**
+ * 🥜 알레르기 유발 성분 분류와 동의어 기반 레시피 필터링
+ * "견과류" → 땅콩/호두/아몬드, "밀" → 밀가루/간장/빵가루 처럼 상위 분류를 재료로 펼쳐서 검사
+ */
+@Injectable()
+export class AllergenService {
+  private readonly logger = new Logger(AllergenService.name);
+
+  // 검사 결과 문장 (언어별)
+  private static readonly MESSAGES = {
+    ko: {
+      safe: '입력한 알레르기 성분이 포함된 재료가 없습니다',
+      match: (allergy: string, where: string, term: string) => `${allergy} 알레르기: ${where}에 ${term} 포함`,
+      recipeName: (name: string) => `레시피 이름 '${name}'`,
+    },
+    en: {
+      safe: 'No ingredients contain the given allergens',
+      match: (allergy: string, where: string, term: string) => `${allergy} allergy: ${where} contains ${term}`,
+      recipeName: (name: string) => `recipe name '${name}'`,
+    },
+  };
+
+  constructor(private readonly elasticsearchService: ElasticsearchService) {}
+
+  getTaxonomy(): AllergenGroup[] {
+    return ALLERGEN_GROUPS;
+  }
+
+  /**
+   * 사용자 입력 알레르기 → 분류와 검사할 재료 목록 (분류에 없는 입력은 그대로 사용)
+   */
+  resolve(allergies: string[] = []): ResolvedAllergy[] {
+    return allergies
+      .map(allergy => allergy.trim())
+      .filter(Boolean)
+      .map(input => {
+        const normalized = input.toLowerCase();
+        const group = ALLERGEN_GROUPS.find(candidate =>
+          candidate.aliases.some(alias => alias.toLowerCase() === normalized)
+        );
+
+        return group
+          ? { input, groupId: group.id, groupName: group.nameKo, terms: group.ingredients }
+          : { input, groupId: null, groupName: input, terms: [input] };
+      });
+  }
+
+  /**
+   * Elasticsearch must_not 에 넣을 재료 목록 (분류의 예외 표기 포함, 중복 제거)
+   * 여러 분류에 같은 재료가 있으면 모든 분류에 공통인 예외만 유지
+   */
+  expandExclusions(allergies: string[] = []): IngredientExclusion[] {
+    const exclusions = new Map<string, IngredientExclusion>();
+    for (const resolved of this.resolve(allergies)) {
+      const exceptions = ALLERGEN_GROUPS.find(group => group.id === resolved.groupId)?.exceptions ?? [];
+      for (const term of resolved.terms) {
+        const current = exclusions.get(term)?.exceptions;
+        exclusions.set(term, { term, exceptions: current ? current.filter(exception => exceptions.includes(exception)) : exceptions });
+      }
+    }
+    return [...exclusions.values()];
+  }
+
+  /**
+   * 레시피 이름/재료에서 알레르기 성분 찾기
+   */
+  findMatches(target: Omit<AllergenCheckTarget, 'id'>, allergies: string[] | ResolvedAllergy[]): AllergenMatch[] {
+    const resolvedAllergies = this.toResolved(allergies);
+    const matches: AllergenMatch[] = [];
+    const sources: Array<{ source: AllergenMatch['source']; text: string }> = [
+      ...target.ingredients.map(text => ({ source: 'ingredient' as const, text })),
+      { source: 'name', text: target.name },
+    ];
+
+    for (const resolved of resolvedAllergies) {
+      const group = resolved.groupId ? ALLERGEN_GROUPS.find(candidate => candidate.id === resolved.groupId) : undefined;
+
+      for (const { source, text } of sources) {
+        // 예외 표기 부분만 빼고 검사 ("우유 또는 두유" 는 두유를 뺀 나머지에서 우유를 찾음)
+        const checked = this.removeExceptions(text, group?.exceptions);
+
+        // 긴 재료명을 먼저 보고해서 "땅콩버터"가 "땅콩"보다 우선
+        const term = [...resolved.terms]
+          .sort((a, b) => b.length - a.length)
+          .find(candidate => IngredientParserUtil.containsTerm(checked, candidate));
+        if (term) {
+          matches.push({ allergy: resolved.input, groupId: resolved.groupId, groupName: resolved.groupName, term, source, text });
+        }
+      }
+    }
+
+    // 재료에서 이미 찾은 알레르기는 이름 일치를 중복 보고하지 않음
+    return matches.filter(match =>
+      match.source === 'ingredient' ||
+      !matches.some(other => other.source === 'ingredient' && other.allergy === match.allergy)
+    );
+  }
+
+  /**
+   * 예외 표기를 공백으로 바꾼 텍스트 (긴 표기부터 제거, 단어 경계 유지)
+   */
+  private removeExceptions(text: string, exceptions: string[] = []): string {
+    return [...exceptions]
+      .sort((a, b) => b.length - a.length)
+      .reduce((remaining, exception) => remaining.split(exception.toLowerCase()).join(' '), text.toLowerCase());
+  }
+
+  /**
+   * 알레르기 성분이 있는 레시피를 제외하고 제외 사유 반환
+   */
+  filterRecipes<T>(
+    recipes: T[],
+    describe: (recipe: T) => AllergenCheckTarget,
+    allergies: string[] = [],
+    lang: RecipeLanguage = 'ko',
+  ): AllergyFilterResult<T> {
+    const resolved = this.resolve(allergies);
+    if (resolved.length === 0) {
+      return { recipes, exclusions: [] };
+    }
+
+    const kept: T[] = [];
+    const exclusions: AllergyExclusion[] = [];
+    for (const recipe of recipes) {
+      const target = describe(recipe);
+      const matches = this.findMatches(target, resolved);
+      if (matches.length === 0) {
+        kept.push(recipe);
+      } else {
+        exclusions.push({ recipeId: target.id, recipeName: target.name, matches, explanation: this.explain(matches, lang) });
+      }
+    }
+
+    if (exclusions.length > 0) {
+      this.logger.log(`🥜 Excluded ${exclusions.length}/${recipes.length} recipes for allergies: ${allergies.join(', ')}`);
+    }
+    return { recipes: kept, exclusions };
+  }
+
+  /**
+   * 저장된 레시피의 알레르기 안전 여부와 사유
+   */
+  async checkRecipe(recipeId: string, allergies: string[], lang: RecipeLanguage = 'ko'): Promise<RecipeAllergenCheck> {
+    const recipe = await this.elasticsearchService.getRecipeById(recipeId);
+    if (!recipe) {
+      throw new NotFoundException(`Recipe not found: ${recipeId}`);
+    }
+
+    const resolvedAllergies = this.resolve(allergies);
+    const target = this.describeRecipe(recipe);
+    const matches = this.findMatches(target, resolvedAllergies);
+
+    return {
+      recipeId,
+      recipeName: target.name,
+      safe: matches.length === 0,
+      resolvedAllergies,
+      matches,
+      explanation: matches.length > 0 ? this.explain(matches, lang) : AllergenService.MESSAGES[lang].safe,
+    };
+  }
+
+  /**
+   * 색인 레시피 → 검사 대상 (한/영 재료 모두)
+   */
+  describeRecipe(recipe: ElasticsearchRecipe): AllergenCheckTarget {
+    return {
+      id: recipe.id,
+      name: recipe.nameKo || recipe.nameEn || recipe.id,
+      ingredients: [...(recipe.ingredientsKo || []), ...(recipe.ingredientsEn || [])],
+    };
+  }
+
+  /**
+   * 제외 사유 문장 ("견과류 알레르기: '땅콩버터 2큰술'에 땅콩버터 포함", "Tree nuts allergy: '2 tbsp peanut butter' contains peanut butter")
+   */
+  explain(matches: AllergenMatch[], lang: RecipeLanguage = 'ko'): string {
+    const messages = AllergenService.MESSAGES[lang];
+    return matches
+      .map(match => {
+        const group = match.groupId ? ALLERGEN_GROUPS.find(candidate => candidate.id === match.groupId) : undefined;
+        const groupName = lang === 'en' ? group?.nameEn ?? match.groupName : match.groupName;
+        const allergy = group && groupName.toLowerCase() !== match.allergy.toLowerCase()
+          ? `${match.allergy}(${groupName})`
+          : match.allergy;
+        const where = match.source === 'name' ? messages.recipeName(match.text) : `'${match.text}'`;
+        return messages.match(allergy, where, match.term);
+      })
+      .join('; ');
+  }
+
+  private toResolved(allergies: string[] | ResolvedAllergy[]): ResolvedAllergy[] {
+    return allergies.length > 0 && typeof allergies[0] === 'string'
+      ? this.resolve(allergies as string[])
+      : allergies as ResolvedAllergy[];
+  }
+}
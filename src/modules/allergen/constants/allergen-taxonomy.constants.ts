@@ -0,0 +1,144 @@
+import { AllergenGroup } from '../interfaces/allergen.interface';
+
+/**
+ * 알레르기 유발 성분 분류 (식품 알레르기 표시 대상 + 상위 분류)
+ * 한 글자 재료명(밀, 콩, 게 ...)은 단어 첫머리에서만 일치
+ */
+export const ALLERGEN_GROUPS: AllergenGroup[] = [
+  {
+    id: 'egg', nameKo: '난류', nameEn: 'Egg',
+    aliases: ['난류', '알류', '달걀', '계란', 'egg', 'eggs'],
+    ingredients: ['달걀', '계란', '메추리알', '노른자', '흰자', '마요네즈', 'egg', 'eggs', 'mayonnaise'],
+  },
+  {
+    id: 'milk', nameKo: '우유', nameEn: 'Milk',
+    aliases: ['우유', '유제품', '유당', 'milk', 'dairy', 'lactose'],
+    ingredients: [
+      '우유', '치즈', '버터', '생크림', '휘핑크림', '요거트', '요구르트', '연유', '분유', '크림치즈', '모짜렐라', '파마산',
+      'milk', 'cheese', 'butter', 'cream', 'yogurt', 'mozzarella', 'parmesan',
+    ],
+    exceptions: ['땅콩버터', '코코넛밀크', '두유', '아몬드밀크', 'peanut butter', 'coconut milk', 'soy milk', 'almond milk'],
+  },
+  {
+    id: 'buckwheat', nameKo: '메밀', nameEn: 'Buckwheat',
+    aliases: ['메밀', 'buckwheat'],
+    ingredients: ['메밀', '메밀면', '메밀국수', '소바', 'buckwheat', 'soba'],
+  },
+  {
+    id: 'peanut', nameKo: '땅콩', nameEn: 'Peanut',
+    aliases: ['땅콩', 'peanut', 'peanuts'],
+    ingredients: ['땅콩', '땅콩버터', '피넛', 'peanut', 'peanuts', 'peanut butter'],
+  },
+  {
+    id: 'tree_nuts', nameKo: '견과류', nameEn: 'Tree nuts',
+    aliases: ['견과류', '견과', 'nuts', 'tree nuts'],
+    ingredients: [
+      '땅콩', '호두', '아몬드', '잣', '캐슈넛', '피스타치오', '헤이즐넛', '마카다미아', '피칸', '브라질너트',
+      'peanut', 'walnut', 'almond', 'pine nut', 'cashew', 'pistachio', 'hazelnut', 'macadamia', 'pecan',
+    ],
+  },
+  {
+    id: 'walnut', nameKo: '호두', nameEn: 'Walnut',
+    aliases: ['호두', 'walnut', 'walnuts'],
+    ingredients: ['호두', 'walnut', 'walnuts'],
+  },
+  {
+    id: 'pine_nut', nameKo: '잣', nameEn: 'Pine nut',
+    aliases: ['잣', 'pine nut', 'pine nuts'],
+    ingredients: ['잣', 'pine nut', 'pine nuts'],
+  },
+  {
+    id: 'soy', nameKo: '대두', nameEn: 'Soy',
+    aliases: ['대두', '콩', 'soy', 'soybean', 'soya'],
+    ingredients: [
+      '대두', '콩', '두부', '순두부', '유부', '된장', '청국장', '간장', '고추장', '쌈장', '두유', '콩나물', '낫토', '콩가루',
+      'soy', 'soybean', 'tofu', 'edamame', 'miso', 'soy sauce', 'natto',
+    ],
+  },
+  {
+    id: 'wheat', nameKo: '밀', nameEn: 'Wheat',
+    aliases: ['밀', '소맥', '글루텐', 'wheat', 'gluten'],
+    ingredients: [
+      '밀', '밀가루', '통밀', '중력분', '박력분', '강력분', '부침가루', '튀김가루', '빵가루', '빵', '식빵', '국수', '소면', '칼국수',
+      '라면', '우동', '파스타', '스파게티', '만두피', '간장', '고추장', '글루텐', '맥주',
+      'wheat', 'flour', 'bread', 'breadcrumbs', 'pasta', 'spaghetti', 'noodle', 'noodles', 'udon', 'soy sauce', 'gluten', 'beer',
+    ],
+    exceptions: ['쌀국수', '쌀가루', '쌀빵', '글루텐프리', 'rice flour', 'rice noodle', 'gluten-free', 'gluten free'],
+  },
+  {
+    id: 'crustacean', nameKo: '갑각류', nameEn: 'Crustacean',
+    aliases: ['갑각류', 'crustacean', 'crustaceans'],
+    ingredients: ['새우', '새우젓', '게', '꽃게', '대게', '킹크랩', '게맛살', '랍스터', '가재', 'shrimp', 'prawn', 'crab', 'lobster', 'crayfish'],
+  },
+  {
+    id: 'shrimp', nameKo: '새우', nameEn: 'Shrimp',
+    aliases: ['새우', 'shrimp', 'prawn'],
+    ingredients: ['새우', '새우젓', '건새우', '칵테일새우', 'shrimp', 'prawn', 'prawns'],
+  },
+  {
+    id: 'crab', nameKo: '게', nameEn: 'Crab',
+    aliases: ['게', 'crab'],
+    ingredients: ['게', '꽃게', '대게', '킹크랩', '게맛살', 'crab'],
+  },
+  {
+    id: 'shellfish', nameKo: '조개류', nameEn: 'Shellfish',
+    aliases: ['조개류', '조개', '패류', 'shellfish', 'mollusc', 'mollusk'],
+    ingredients: [
+      '조개', '바지락', '홍합', '굴', '전복', '가리비', '모시조개', '재첩', '꼬막', '굴소스',
+      'clam', 'mussel', 'oyster', 'abalone', 'scallop', 'oyster sauce',
+    ],
+  },
+  {
+    id: 'squid', nameKo: '오징어', nameEn: 'Squid',
+    aliases: ['오징어', 'squid'],
+    ingredients: ['오징어', '한치', '꼴뚜기', 'squid', 'calamari'],
+  },
+  {
+    id: 'fish', nameKo: '생선', nameEn: 'Fish',
+    aliases: ['생선', '어류', 'fish'],
+    ingredients: [
+      '생선', '고등어', '연어', '참치', '멸치', '대구', '명태', '황태', '동태', '갈치', '삼치', '꽁치', '어묵', '액젓', '피시소스',
+      'fish', 'mackerel', 'salmon', 'tuna', 'anchovy', 'cod', 'fish sauce',
+    ],
+  },
+  {
+    id: 'mackerel', nameKo: '고등어', nameEn: 'Mackerel',
+    aliases: ['고등어', 'mackerel'],
+    ingredients: ['고등어', 'mackerel'],
+  },
+  {
+    id: 'pork', nameKo: '돼지고기', nameEn: 'Pork',
+    aliases: ['돼지고기', '돼지', 'pork'],
+    ingredients: ['돼지고기', '돼지', '삼겹살', '목살', '앞다리살', '베이컨', '햄', '소시지', '스팸', '라드', 'pork', 'bacon', 'ham', 'sausage', 'lard'],
+  },
+  {
+    id: 'beef', nameKo: '쇠고기', nameEn: 'Beef',
+    aliases: ['쇠고기', '소고기', 'beef'],
+    ingredients: ['쇠고기', '소고기', '한우', '차돌박이', '사골', '우둔', 'beef'],
+  },
+  {
+    id: 'chicken', nameKo: '닭고기', nameEn: 'Chicken',
+    aliases: ['닭고기', '닭', 'chicken'],
+    ingredients: ['닭', '닭고기', '닭가슴살', '닭다리', '치킨스톡', 'chicken'],
+  },
+  {
+    id: 'peach', nameKo: '복숭아', nameEn: 'Peach',
+    aliases: ['복숭아', 'peach'],
+    ingredients: ['복숭아', '황도', '백도', 'peach'],
+  },
+  {
+    id: 'tomato', nameKo: '토마토', nameEn: 'Tomato',
+    aliases: ['토마토', 'tomato'],
+    ingredients: ['토마토', '방울토마토', '케첩', '케찹', '토마토소스', 'tomato', 'ketchup'],
+  },
+  {
+    id: 'sulfite', nameKo: '아황산류', nameEn: 'Sulfites',
+    aliases: ['아황산류', '아황산', 'sulfite', 'sulfites'],
+    ingredients: ['와인', '건포도', '건살구', 'wine', 'raisin', 'sulfite'],
+  },
+  {
+    id: 'sesame', nameKo: '참깨', nameEn: 'Sesame',
+    aliases: ['참깨', '깨', 'sesame'],
+    ingredients: ['참깨', '깨', '통깨', '깨소금', '참기름', '타히니', 'sesame', 'tahini'],
+  },
+];
@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { ArrayNotEmpty, IsArray, IsString } from 'class-validator';
+import { LangQueryDto } from '../../../common/dto/lang-query.dto';
+import { RequestUtil } from '../../../common/utils/request.util';
+
+export class AllergyQueryDto extends LangQueryDto {
+    @ApiProperty({ type: [String], example: ['견과류', '밀'] })
+    @Transform(RequestUtil.toStringArray)
+    @IsArray()
+    @ArrayNotEmpty()
+    @IsString({ each: true })
+    allergies!: string[];
+}
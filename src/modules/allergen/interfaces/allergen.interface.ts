@@ -0,0 +1,56 @@
+// Allergen taxonomy interface definitions
+
+export interface AllergenGroup {
+  id: string;
+  nameKo: string;
+  nameEn: string;
+  // 사용자가 알레르기로 입력하는 이름
+  aliases: string[];
+  // 이 알레르기 유발 성분을 포함하는 재료 (한/영)
+  ingredients: string[];
+  // 재료 이름에 성분명이 들어 있어도 해당하지 않는 예외 (예: 땅콩버터의 "버터")
+  exceptions?: string[];
+}
+
+export interface ResolvedAllergy {
+  input: string;
+  groupId: string | null;
+  groupName: string;
+  terms: string[];
+}
+
+export interface AllergenMatch {
+  allergy: string;
+  groupId: string | null;
+  groupName: string;
+  term: string;
+  source: 'ingredient' | 'name';
+  text: string;
+}
+
+export interface AllergyExclusion {
+  recipeId: string;
+  recipeName: string;
+  matches: AllergenMatch[];
+  explanation: string;
+}
+
+export interface AllergyFilterResult<T> {
+  recipes: T[];
+  exclusions: AllergyExclusion[];
+}
+
+export interface AllergenCheckTarget {
+  id: string;
+  name: string;
+  ingredients: string[];
+}
+
+export interface RecipeAllergenCheck {
+  recipeId: string;
+  recipeName: string;
+  safe: boolean;
+  resolvedAllergies: ResolvedAllergy[];
+  matches: AllergenMatch[];
+  explanation: string;
+}
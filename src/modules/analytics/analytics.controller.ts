@@ -0,0 +1,24 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { AnalyticsService } from './analytics.service';
+import { RecipeAggregationResult, SystemStats } from '../recipe/interfaces/recipe.interface';
+
+@ApiTags('Admin Analytics')
+@Controller('admin/analytics')
+export class AnalyticsController {
+  constructor(private readonly analyticsService: AnalyticsService) {}
+
+  @Get('recipes')
+  @ApiOperation({ summary: 'Get recipe catalog aggregations' })
+  @ApiResponse({ status: 200, description: 'Catalog aggregations retrieved successfully' })
+  async getRecipeAggregations(): Promise<RecipeAggregationResult> {
+    return this.analyticsService.getRecipeAggregations();
+  }
+
+  @Get('stats')
+  @ApiOperation({ summary: 'Get system usage stats' })
+  @ApiResponse({ status: 200, description: 'System stats retrieved successfully' })
+  async getSystemStats(): Promise<SystemStats> {
+    return this.analyticsService.getSystemStats();
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AnalyticsController } from './analytics.controller';
+import { AnalyticsService } from './analytics.service';
+import { ElasticsearchModule } from '../elasticsearch/elasticsearch.module';
+import { RecipeModule } from '../recipe/recipe.module';
+
+@Module({
+  imports: [ElasticsearchModule, RecipeModule],
+  controllers: [AnalyticsController],
+  providers: [AnalyticsService],
+})
+export class AnalyticsModule {}
@@ -0,0 +1,134 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ElasticsearchService } from '../elasticsearch/elasticsearch.service';
+import { RecipeEventService } from '../recipe/services/recipe-event.service';
+import { RecipeInteractionService } from '../recipe/services/recipe-interaction.service';
+import { RecipeAggregationResult, SystemStats } from '../recipe/interfaces/recipe.interface';
+
+/**
+ * 📊 레시피 카탈로그 분석 서비스
+ * 레시피 인덱스 집계 결과와 상호작용 이벤트 건수를 합쳐 통계를 구성
+ */
+@Injectable()
+export class AnalyticsService {
+  private readonly logger = new Logger(AnalyticsService.name);
+  private static readonly TOP_TERMS_SIZE = 20;
+  private static readonly TOP_RECIPES_SIZE = 10;
+
+  // 조리 시간 구간 (분)
+  private static readonly COOKING_TIME_RANGES = [
+    { key: '15분 이하', to: 15.01 },
+    { key: '15~30분', from: 15.01, to: 30.01 },
+    { key: '30~60분', from: 30.01, to: 60.01 },
+    { key: '60분 초과', from: 60.01 },
+  ];
+
+  constructor(
+    private readonly elasticsearchService: ElasticsearchService,
+    private readonly recipeEventService: RecipeEventService,
+    private readonly recipeInteractionService: RecipeInteractionService,
+  ) {}
+
+  /**
+   * 카테고리/난이도/조리시간/재료/태그별 카탈로그 집계
+   */
+  async getRecipeAggregations(): Promise<RecipeAggregationResult> {
+    this.logger.log('📊 Aggregating recipe catalog');
+
+    const avgRating = { avgRating: { avg: { field: 'averageRating' } } };
+    const aggregations = await this.elasticsearchService.aggregateRecipes({
+      byCategory: {
+        terms: { field: 'category.keyword', size: 100 },
+        aggs: avgRating,
+      },
+      byDifficulty: {
+        terms: { field: 'difficulty.keyword', size: 10 },
+        aggs: avgRating,
+      },
+      byCookingTime: {
+        range: { field: 'cookingTime', ranges: AnalyticsService.COOKING_TIME_RANGES },
+        aggs: avgRating,
+      },
+      topIngredients: {
+        terms: { field: 'ingredientsKo.keyword', size: AnalyticsService.TOP_TERMS_SIZE },
+      },
+      topTags: {
+        terms: { field: 'tags.keyword', size: AnalyticsService.TOP_TERMS_SIZE },
+      },
+    });
+
+    const bucketsOf = (name: string): any[] => aggregations[name]?.buckets ?? [];
+    const roundRating = (bucket: any) => Math.round((bucket.avgRating?.value ?? 0) * 10) / 10;
+
+    return {
+      byCategory: bucketsOf('byCategory').map(bucket => ({
+        category: bucket.key,
+        count: bucket.doc_count,
+        avgRating: roundRating(bucket),
+      })),
+      byDifficulty: bucketsOf('byDifficulty').map(bucket => ({
+        difficulty: bucket.key,
+        count: bucket.doc_count,
+        avgRating: roundRating(bucket),
+      })),
+      byCookingTime: bucketsOf('byCookingTime').map(bucket => ({
+        range: bucket.key,
+        count: bucket.doc_count,
+        avgRating: roundRating(bucket),
+      })),
+      topIngredients: bucketsOf('topIngredients').map(bucket => ({
+        ingredient: bucket.key,
+        count: bucket.doc_count,
+      })),
+      topTags: bucketsOf('topTags').map(bucket => ({
+        tag: bucket.key,
+        count: bucket.doc_count,
+      })),
+    };
+  }
+
+  /**
+   * 시스템 전체 통계 (레시피 집계 + 상호작용 이벤트)
+   */
+  async getSystemStats(): Promise<SystemStats> {
+    this.logger.log('📊 Building system stats');
+
+    const topHits = (field: string) => ({
+      top_hits: {
+        size: AnalyticsService.TOP_RECIPES_SIZE,
+        _source: false,
+        sort: [{ [field]: { order: 'desc', unmapped_type: field === 'createdAt' ? 'date' : 'float', missing: '_last' } }],
+      },
+    });
+
+    const [totalRecipes, aggregations, eventCounts, totalLikes] = await Promise.all([
+      this.elasticsearchService.getRecipeCount(),
+      this.elasticsearchService.aggregateRecipes({
+        totalViews: { sum: { field: 'viewCount' } },
+        totalBookmarks: { sum: { field: 'bookmarkCount' } },
+        totalRatings: { sum: { field: 'ratingCount' } },
+        // 평점 수로 가중한 전체 평균
+        weightedRating: { weighted_avg: { value: { field: 'averageRating' }, weight: { field: 'ratingCount' } } },
+        topRated: topHits('averageRating'),
+        mostViewed: topHits('viewCount'),
+        recentlyAdded: topHits('createdAt'),
+      }),
+      this.recipeEventService.countEventsByAction(),
+      this.recipeInteractionService.countPositiveRatings(),
+    ]);
+
+    const hitIds = (name: string): string[] => (aggregations[name]?.hits?.hits ?? []).map((hit: any) => hit._id);
+
+    return {
+      totalRecipes,
+      // 이벤트 로그가 있으면 이벤트 기준, 없으면 레시피 문서의 카운터 합계
+      totalViews: eventCounts.view ?? aggregations.totalViews?.value ?? 0,
+      totalLikes,
+      totalBookmarks: aggregations.totalBookmarks?.value ?? 0,
+      averageRating: Math.round((aggregations.weightedRating?.value ?? 0) * 10) / 10,
+      totalRatings: aggregations.totalRatings?.value ?? 0,
+      topRatedRecipeIds: hitIds('topRated'),
+      mostViewedRecipeIds: hitIds('mostViewed'),
+      recentlyAddedRecipeIds: hitIds('recentlyAdded'),
+    };
+  }
+}
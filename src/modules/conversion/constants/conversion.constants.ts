@@ -0,0 +1,70 @@
+// 부피 단위 → ml (컵은 한국 계량컵 200ml 기준, 미국 컵은 us_cup)
+export const VOLUME_IN_ML: Record<string, number> = {
+  ml: 1,
+  l: 1000,
+  tsp: 5,
+  tbsp: 15,
+  cup: 200,
+  us_cup: 236.6,
+  fl_oz: 29.57,
+};
+
+// 무게 단위 → g (1근 = 600g)
+export const WEIGHT_IN_G: Record<string, number> = {
+  mg: 0.001,
+  g: 1,
+  kg: 1000,
+  oz: 28.35,
+  lb: 453.59,
+  geun: 600,
+};
+
+export const TEMPERATURE_UNITS = ['celsius', 'fahrenheit'] as const;
+
+// 변환 전용 단위 별칭 (재료 파서 단위 외)
+export const CONVERSION_UNIT_ALIASES: Record<string, string> = {
+  'us cup': 'us_cup',
+  'us cups': 'us_cup',
+  '미국컵': 'us_cup',
+  // 단독 'c' 는 컵(C)으로 해석되므로 섭씨는 °C/℃/celsius 로만 인식
+  '°c': 'celsius',
+  '℃': 'celsius',
+  '도': 'celsius',
+  '섭씨': 'celsius',
+  'celsius': 'celsius',
+  'f': 'fahrenheit',
+  '°f': 'fahrenheit',
+  '℉': 'fahrenheit',
+  '화씨': 'fahrenheit',
+  'fahrenheit': 'fahrenheit',
+};
+
+/**
+ * 재료별 밀도 (g/ml) - 계량컵/스푼으로 가볍게 떠 담은 기준
+ */
+export const INGREDIENT_DENSITIES: Array<{ name: string; aliases: string[]; gramsPerMl: number }> = [
+  { name: '물', aliases: ['물', '육수', 'water', 'stock'], gramsPerMl: 1.0 },
+  { name: '우유', aliases: ['우유', 'milk'], gramsPerMl: 1.03 },
+  { name: '밀가루', aliases: ['밀가루', '중력분', '박력분', '강력분', 'flour'], gramsPerMl: 0.53 },
+  { name: '설탕', aliases: ['설탕', '백설탕', 'sugar'], gramsPerMl: 0.85 },
+  { name: '흑설탕', aliases: ['흑설탕', '황설탕', 'brown sugar'], gramsPerMl: 0.83 },
+  { name: '소금', aliases: ['소금', '꽃소금', 'salt'], gramsPerMl: 1.2 },
+  { name: '굵은소금', aliases: ['굵은소금', '천일염', 'coarse salt'], gramsPerMl: 0.95 },
+  { name: '간장', aliases: ['간장', '진간장', '국간장', 'soy sauce'], gramsPerMl: 1.15 },
+  { name: '식용유', aliases: ['식용유', '포도씨유', '카놀라유', 'vegetable oil', 'oil'], gramsPerMl: 0.92 },
+  { name: '올리브유', aliases: ['올리브유', '올리브오일', 'olive oil'], gramsPerMl: 0.91 },
+  { name: '참기름', aliases: ['참기름', '들기름', 'sesame oil'], gramsPerMl: 0.92 },
+  { name: '꿀', aliases: ['꿀', 'honey'], gramsPerMl: 1.42 },
+  { name: '물엿', aliases: ['물엿', '올리고당', 'corn syrup'], gramsPerMl: 1.38 },
+  { name: '버터', aliases: ['버터', 'butter'], gramsPerMl: 0.96 },
+  { name: '쌀', aliases: ['쌀', '백미', 'rice'], gramsPerMl: 0.85 },
+  { name: '고춧가루', aliases: ['고춧가루', 'gochugaru', 'chili powder'], gramsPerMl: 0.45 },
+  { name: '고추장', aliases: ['고추장', 'gochujang'], gramsPerMl: 1.25 },
+  { name: '된장', aliases: ['된장', 'doenjang', 'soybean paste'], gramsPerMl: 1.2 },
+  { name: '식초', aliases: ['식초', 'vinegar'], gramsPerMl: 1.01 },
+  { name: '맛술', aliases: ['맛술', '미림', 'mirin'], gramsPerMl: 1.05 },
+  { name: '전분', aliases: ['전분', '감자전분', '옥수수전분', 'starch', 'cornstarch'], gramsPerMl: 0.6 },
+  { name: '빵가루', aliases: ['빵가루', 'breadcrumbs'], gramsPerMl: 0.25 },
+  { name: '다진 마늘', aliases: ['다진 마늘', '다진마늘', 'minced garlic'], gramsPerMl: 0.9 },
+  { name: '깨', aliases: ['깨', '통깨', 'sesame seeds'], gramsPerMl: 0.6 },
+];
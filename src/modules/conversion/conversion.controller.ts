@@ -0,0 +1,39 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { ConversionService } from './conversion.service';
+import { ConvertTextDto, ConvertUnitDto } from './dto/conversion.dto';
+import { ConversionResult, SupportedUnits } from './interfaces/conversion.interface';
+
+@ApiTags('Conversion')
+@Controller('conversion')
+export class ConversionController {
+  constructor(private readonly conversionService: ConversionService) {}
+
+  @Get('convert')
+  @ApiOperation({ summary: 'Convert between volume, weight and temperature units' })
+  @ApiResponse({ status: 200, description: 'Conversion result' })
+  @ApiResponse({ status: 400, description: 'Unsupported or incompatible units' })
+  convert(@Query() convertDto: ConvertUnitDto): ConversionResult {
+    return this.conversionService.convert(convertDto);
+  }
+
+  @Get('parse')
+  @ApiOperation({ summary: 'Convert a natural-language request (e.g. "2큰술이 몇 ml야?")' })
+  @ApiResponse({ status: 200, description: 'Conversion result' })
+  @ApiResponse({ status: 400, description: 'Request could not be understood' })
+  convertText(@Query() textDto: ConvertTextDto): ConversionResult {
+    return this.conversionService.convertFromText(textDto.q);
+  }
+
+  @Get('units')
+  @ApiOperation({ summary: 'List supported units' })
+  getUnits(): SupportedUnits {
+    return this.conversionService.getSupportedUnits();
+  }
+
+  @Get('densities')
+  @ApiOperation({ summary: 'List ingredient densities used for volume ↔ weight conversion' })
+  getDensities() {
+    return this.conversionService.getDensities();
+  }
+}
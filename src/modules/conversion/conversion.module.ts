@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ConversionController } from './conversion.controller';
+import { ConversionService } from './conversion.service';
+
+@Module({
+  controllers: [ConversionController],
+  providers: [ConversionService],
+  exports: [ConversionService],
+})
+export class ConversionModule {}
@@ -0,0 +1,59 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConversionService } from './conversion.service';
+
+describe('ConversionService', () => {
+  const service = new ConversionService();
+
+  describe('resolveUnit', () => {
+    it('reads a bare "c" as a cup, not a temperature', () => {
+      expect(service.resolveUnit('c')).toBe('cup');
+      expect(service.resolveUnit('C')).toBe('cup');
+    });
+
+    it('reads explicit celsius and fahrenheit notations', () => {
+      expect(service.resolveUnit('°C')).toBe('celsius');
+      expect(service.resolveUnit('℃')).toBe('celsius');
+      expect(service.resolveUnit('celsius')).toBe('celsius');
+      expect(service.resolveUnit('°F')).toBe('fahrenheit');
+    });
+
+    it('rejects unknown units', () => {
+      expect(() => service.resolveUnit('handspan')).toThrow(BadRequestException);
+    });
+  });
+
+  describe('convert', () => {
+    it('converts "2 c" as a volume', () => {
+      expect(service.convert({ value: 2, from: 'c', to: 'ml' })).toMatchObject({ result: 400, method: 'volume' });
+    });
+
+    it('converts temperatures', () => {
+      expect(service.convert({ value: 180, from: '°C', to: '°F' })).toMatchObject({ result: 356, method: 'temperature' });
+    });
+
+    it('uses ingredient density between volume and weight', () => {
+      expect(service.convert({ value: 1, from: 'cup', to: 'g', ingredient: '밀가루' })).toMatchObject({
+        result: 106, method: 'density', ingredient: '밀가루',
+      });
+    });
+
+    it('requires an ingredient between volume and weight', () => {
+      expect(() => service.convert({ value: 1, from: 'cup', to: 'g' })).toThrow(BadRequestException);
+    });
+
+    it('does not mix temperatures with other units', () => {
+      expect(() => service.convert({ value: 1, from: 'celsius', to: 'ml' })).toThrow(BadRequestException);
+    });
+  });
+
+  describe('convertFromText', () => {
+    it('reads spoon and temperature questions', () => {
+      expect(service.convertFromText('2큰술이 몇 ml야?')).toMatchObject({ from: 'tbsp', to: 'ml', result: 30 });
+      expect(service.convertFromText('350°F는 몇 도?')).toMatchObject({ from: 'fahrenheit', to: 'celsius', result: 176.67 });
+    });
+
+    it('reads "2 c" as cups', () => {
+      expect(service.convertFromText('2 c water in ml')).toMatchObject({ from: 'cup', to: 'ml', result: 400 });
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { INGREDIENT_UNITS, IngredientParserUtil } from '../langchain/utils/ingredient-parser.util';
+import {
+  CONVERSION_UNIT_ALIASES,
+  INGREDIENT_DENSITIES,
+  TEMPERATURE_UNITS,
+  VOLUME_IN_ML,
+  WEIGHT_IN_G,
+} from './constants/conversion.constants';
+import { ConversionRequest, ConversionResult, SupportedUnits } from './interfaces/conversion.interface';
+
+/**
+ * 📏 계량 단위 변환 (부피/무게/온도, 재료 밀도 기반 부피↔무게)
+ * LLM 추측 대신 결정적 계산 결과를 제공
+ */
+@Injectable()
+export class ConversionService {
+  private readonly logger = new Logger(ConversionService.name);
+
+  /**
+   * 단위 변환
+   */
+  convert(request: ConversionRequest): ConversionResult {
+    const from = this.resolveUnit(request.from);
+    const to = this.resolveUnit(request.to);
+    const { value } = request;
+
+    if (this.isTemperature(from) || this.isTemperature(to)) {
+      if (!this.isTemperature(from) || !this.isTemperature(to)) {
+        throw new BadRequestException(`Cannot convert ${request.from} to ${request.to}`);
+      }
+      const result = this.round(from === to ? value : from === 'celsius' ? value * 9 / 5 + 32 : (value - 32) * 5 / 9);
+      return {
+        value, from, to, result,
+        method: 'temperature',
+        explanation: `${value}${this.label(from)} = ${result}${this.label(to)}`,
+      };
+    }
+
+    const fromVolume = VOLUME_IN_ML[from];
+    const toVolume = VOLUME_IN_ML[to];
+    const fromWeight = WEIGHT_IN_G[from];
+    const toWeight = WEIGHT_IN_G[to];
+
+    if (fromVolume !== undefined && toVolume !== undefined) {
+      const result = this.round(value * fromVolume / toVolume);
+      return { value, from, to, result, method: 'volume', explanation: `${value}${this.label(from)} = ${result}${this.label(to)}` };
+    }
+    if (fromWeight !== undefined && toWeight !== undefined) {
+      const result = this.round(value * fromWeight / toWeight);
+      return { value, from, to, result, method: 'weight', explanation: `${value}${this.label(from)} = ${result}${this.label(to)}` };
+    }
+
+    // 부피 ↔ 무게는 재료 밀도가 있어야 변환 가능
+    if ((fromVolume !== undefined && toWeight !== undefined) || (fromWeight !== undefined && toVolume !== undefined)) {
+      const density = request.ingredient ? this.findDensity(request.ingredient) : null;
+      if (!density) {
+        throw new BadRequestException(
+          request.ingredient
+            ? `No density data for ingredient: ${request.ingredient}`
+            : 'ingredient is required to convert between volume and weight'
+        );
+      }
+
+      const grams = fromVolume !== undefined ? value * fromVolume * density.gramsPerMl : value * (fromWeight ?? 1);
+      const result = this.round(toWeight !== undefined ? grams / toWeight : grams / density.gramsPerMl / (toVolume ?? 1));
+      return {
+        value, from, to, result,
+        method: 'density',
+        ingredient: density.name,
+        gramsPerMl: density.gramsPerMl,
+        explanation: `${density.name} ${value}${this.label(from)} ≈ ${result}${this.label(to)} (밀도 ${density.gramsPerMl}g/ml 기준)`,
+      };
+    }
+
+    throw new BadRequestException(`Cannot convert ${request.from} to ${request.to}`);
+  }
+
+  /**
+   * 자연어 질문에서 변환 요청 추출 후 변환 ("2큰술이 몇 ml야?", "350°F는 몇 도?", "1컵 밀가루 g")
+   */
+  convertFromText(text: string): ConversionResult {
+    const request = this.parseRequest(text);
+    if (!request) {
+      throw new BadRequestException(`Unable to understand conversion request: ${text}`);
+    }
+    this.logger.log(`📏 Converting from text: ${request.value} ${request.from} → ${request.to}${request.ingredient ? ` (${request.ingredient})` : ''}`);
+    return this.convert(request);
+  }
+
+  getSupportedUnits(): SupportedUnits {
+    return {
+      volume: Object.keys(VOLUME_IN_ML),
+      weight: Object.keys(WEIGHT_IN_G),
+      temperature: [...TEMPERATURE_UNITS],
+    };
+  }
+
+  getDensities(): Array<{ name: string; aliases: string[]; gramsPerMl: number }> {
+    return INGREDIENT_DENSITIES;
+  }
+
+  /**
+   * 단위 별칭 → 표준 단위 키
+   */
+  resolveUnit(unit: string): string {
+    const normalized = unit.trim().replace(/\s+/g, ' ');
+    const resolved = CONVERSION_UNIT_ALIASES[normalized.toLowerCase()]
+      ?? IngredientParserUtil.resolveUnit(normalized)
+      ?? (VOLUME_IN_ML[normalized] !== undefined || WEIGHT_IN_G[normalized] !== undefined ? normalized : null);
+
+    if (!resolved || (VOLUME_IN_ML[resolved] === undefined && WEIGHT_IN_G[resolved] === undefined && !this.isTemperature(resolved))) {
+      throw new BadRequestException(`Unsupported unit: ${unit}`);
+    }
+    return resolved;
+  }
+
+  private parseRequest(text: string): ConversionRequest | null {
+    // 온도: "350°F", "180℃", "화씨 350도", "180도" (대상 단위가 없으면 반대 단위로)
+    const temperature = text.match(/(화씨|섭씨)?\s*(-?\d+(?:\.\d+)?)\s*(°\s*[cf]|℃|℉|화씨|섭씨|도)/i);
+    if (temperature && temperature[2] && temperature[3]) {
+      const unitText = temperature[3].replace(/\s+/g, '');
+      const from = this.resolveUnit(unitText === '도' && temperature[1] ? temperature[1] : unitText);
+      return { value: Number(temperature[2]), from, to: from === 'celsius' ? 'fahrenheit' : 'celsius' };
+    }
+
+    const parsed = IngredientParserUtil.parse(text);
+    if (parsed.quantity === null || !parsed.unit) {
+      return null;
+    }
+
+    // 원래 단위 이후에 언급된 다른 단위를 대상 단위로 사용 (없으면 ml/g 기본)
+    const remainder = parsed.name.toLowerCase();
+    const target = Object.keys({ ...VOLUME_IN_ML, ...WEIGHT_IN_G })
+      .flatMap(unit => [unit, ...(INGREDIENT_UNITS[unit]?.aliases ?? [])].map(alias => ({ unit, alias })))
+      .sort((a, b) => b.alias.length - a.alias.length)
+      .find(({ alias }) => new RegExp(`(^|[^a-zA-Z])${alias.toLowerCase()}([^a-zA-Z]|$)`).test(remainder));
+
+    const density = this.findDensity(parsed.name);
+    const isVolume = VOLUME_IN_ML[parsed.unit] !== undefined;
+    const to = target?.unit ?? (isVolume === !density ? 'ml' : 'g');
+
+    return { value: parsed.quantity, from: parsed.unit, to, ingredient: density?.name };
+  }
+
+  private findDensity(ingredient: string): { name: string; gramsPerMl: number } | null {
+    const normalized = ingredient.toLowerCase();
+    const match = INGREDIENT_DENSITIES
+      .flatMap(density => density.aliases.map(alias => ({ density, alias })))
+      .sort((a, b) => b.alias.length - a.alias.length)
+      .find(({ alias }) => normalized.includes(alias.toLowerCase()));
+    return match ? { name: match.density.name, gramsPerMl: match.density.gramsPerMl } : null;
+  }
+
+  private isTemperature(unit: string): boolean {
+    return (TEMPERATURE_UNITS as readonly string[]).includes(unit);
+  }
+
+  private label(unit: string): string {
+    if (unit === 'celsius') return '°C';
+    if (unit === 'fahrenheit') return '°F';
+    if (unit === 'us_cup') return ' US cup';
+    return INGREDIENT_UNITS[unit]?.label ?? unit;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
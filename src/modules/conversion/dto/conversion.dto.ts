@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsNumber, IsOptional, IsString, IsNotEmpty } from 'class-validator';
+
+export class ConvertUnitDto {
+    @ApiProperty({ example: 2 })
+    @Type(() => Number)
+    @IsNumber()
+    value!: number;
+
+    @ApiProperty({ example: '큰술', description: 'Source unit (큰술, tbsp, 컵, g, oz, °F ...)' })
+    @IsString()
+    @IsNotEmpty()
+    from!: string;
+
+    @ApiProperty({ example: 'ml', description: 'Target unit' })
+    @IsString()
+    @IsNotEmpty()
+    to!: string;
+
+    @ApiProperty({ required: false, example: '밀가루', description: 'Ingredient for volume ↔ weight conversion' })
+    @IsOptional()
+    @IsString()
+    ingredient?: string;
+}
+
+export class ConvertTextDto {
+    @ApiProperty({ example: '2큰술이 몇 ml야?' })
+    @IsString()
+    @IsNotEmpty()
+    q!: string;
+}
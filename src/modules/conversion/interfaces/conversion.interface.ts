@@ -0,0 +1,27 @@
+// Unit conversion interface definitions
+
+export type ConversionMethod = 'volume' | 'weight' | 'temperature' | 'density';
+
+export interface ConversionRequest {
+  value: number;
+  from: string;
+  to: string;
+  ingredient?: string;
+}
+
+export interface ConversionResult {
+  value: number;
+  from: string;
+  to: string;
+  result: number;
+  method: ConversionMethod;
+  ingredient?: string;
+  gramsPerMl?: number;
+  explanation: string;
+}
+
+export interface SupportedUnits {
+  volume: string[];
+  weight: string[];
+  temperature: string[];
+}
@@ -0,0 +1,123 @@
+import { DietaryProfile, DietaryRule } from '../interfaces/dietary.interface';
+
+/**
+ * 지원 식단 (분류 순서 = 응답 순서)
+ */
+export const DIETARY_PROFILES: DietaryProfile[] = [
+  {
+    id: 'vegan', nameKo: '비건', nameEn: 'Vegan',
+    description: '고기, 해산물, 유제품, 달걀, 꿀 등 동물성 재료를 사용하지 않음',
+    aliases: ['비건', '완전채식', '식물성', 'vegan', 'plant-based'],
+  },
+  {
+    id: 'vegetarian', nameKo: '채식', nameEn: 'Vegetarian',
+    description: '고기와 해산물을 사용하지 않음 (유제품, 달걀은 허용)',
+    aliases: ['채식', '베지테리언', '락토오보', '고기 없는', '고기없는', 'vegetarian', 'veggie'],
+  },
+  {
+    id: 'pescatarian', nameKo: '페스코', nameEn: 'Pescatarian',
+    description: '고기를 사용하지 않음 (해산물, 유제품, 달걀은 허용)',
+    aliases: ['페스코', '페스카테리언', '페스코테리언', 'pescatarian', 'pescetarian'],
+  },
+  {
+    id: 'gluten_free', nameKo: '글루텐프리', nameEn: 'Gluten-free',
+    description: '밀, 보리, 호밀과 이를 원료로 한 재료(간장, 빵가루 등)를 사용하지 않음',
+    aliases: ['글루텐프리', '글루텐 프리', '글루텐free', 'gluten-free', 'gluten free'],
+  },
+  {
+    id: 'halal', nameKo: '할랄', nameEn: 'Halal',
+    description: '돼지고기, 알코올, 젤라틴을 사용하지 않음 (도축 방식은 재료명으로 확인할 수 없음)',
+    aliases: ['할랄', 'halal'],
+  },
+];
+
+/**
+ * 재료 분류별 제외 식단 규칙
+ * 한 글자 재료명(닭, 햄, 게, 굴, 꿀, 밀, 빵)은 단어 첫머리에서만 일치
+ */
+export const DIETARY_RULES: DietaryRule[] = [
+  {
+    id: 'meat', nameKo: '육류', nameEn: 'Meat',
+    terms: [
+      '고기', '소고기', '쇠고기', '돼지고기', '닭고기', '닭', '오리', '양고기', '삼겹살', '목살', '갈비', '차돌박이', '등심', '안심',
+      '베이컨', '햄', '소시지', '스팸', '사골', '라드', '우지',
+      'meat', 'beef', 'pork', 'chicken', 'duck', 'lamb', 'turkey', 'bacon', 'ham', 'sausage', 'prosciutto', 'pepperoni',
+      'salami', 'chorizo', 'lard',
+    ],
+    exceptions: ['콩고기', '대체육', '물고기', '오리엔탈', '비건', '식물성', 'plant-based', 'vegan', 'vegetarian'],
+    excludes: ['vegan', 'vegetarian', 'pescatarian'],
+  },
+  {
+    id: 'seafood', nameKo: '해산물', nameEn: 'Seafood',
+    terms: [
+      '생선', '물고기', '고등어', '연어', '참치', '멸치', '대구', '명태', '황태', '북어', '코다리', '갈치', '삼치', '장어', '꽁치',
+      '새우', '오징어', '문어', '낙지', '쭈꾸미', '주꾸미', '조개', '바지락', '홍합', '전복', '굴', '게', '꽃게', '관자', '가리비',
+      '어묵', '맛살', '가쓰오부시', '액젓', '젓갈', '새우젓', '굴소스', '피시소스',
+      'fish', 'salmon', 'tuna', 'anchovy', 'anchovies', 'cod', 'mackerel', 'shrimp', 'prawn', 'squid', 'octopus', 'clam',
+      'oyster', 'mussel', 'crab', 'lobster', 'scallop', 'fish sauce', 'oyster sauce', 'bonito',
+    ],
+    exceptions: ['비건', '식물성', 'vegan'],
+    excludes: ['vegan', 'vegetarian'],
+  },
+  {
+    id: 'dairy', nameKo: '유제품', nameEn: 'Dairy',
+    terms: [
+      '우유', '치즈', '버터', '생크림', '휘핑크림', '요거트', '요구르트', '연유', '분유', '크림치즈', '모짜렐라', '파마산', '기버터',
+      'milk', 'cheese', 'butter', 'cream', 'yogurt', 'ghee', 'mozzarella', 'parmesan',
+    ],
+    exceptions: [
+      '땅콩버터', '코코넛밀크', '코코넛크림', '두유', '아몬드밀크', '귀리우유', '오트밀크', '비건',
+      'peanut butter', 'coconut milk', 'coconut cream', 'soy milk', 'almond milk', 'oat milk', 'vegan',
+    ],
+    excludes: ['vegan'],
+  },
+  {
+    id: 'egg', nameKo: '달걀', nameEn: 'Egg',
+    terms: ['달걀', '계란', '메추리알', '노른자', '흰자', '마요네즈', 'egg', 'eggs', 'mayonnaise'],
+    exceptions: ['비건', 'vegan'],
+    excludes: ['vegan'],
+  },
+  {
+    id: 'honey', nameKo: '꿀', nameEn: 'Honey',
+    terms: ['꿀', '벌꿀', 'honey'],
+    exceptions: ['꿀참외'],
+    excludes: ['vegan'],
+  },
+  {
+    id: 'gelatin', nameKo: '젤라틴', nameEn: 'Gelatin',
+    terms: ['젤라틴', '판젤라틴', 'gelatin', 'gelatine'],
+    excludes: ['vegan', 'vegetarian', 'pescatarian', 'halal'],
+  },
+  {
+    id: 'pork', nameKo: '돼지고기', nameEn: 'Pork',
+    terms: [
+      '돼지고기', '삼겹살', '목살', '앞다리살', '돈까스', '족발', '베이컨', '햄', '소시지', '스팸', '라드',
+      'pork', 'bacon', 'ham', 'prosciutto', 'pepperoni', 'salami', 'chorizo', 'lard',
+    ],
+    exceptions: ['콩고기', '비건', '식물성', '할랄', 'halal', 'vegan', 'turkey ham', 'turkey bacon'],
+    excludes: ['halal'],
+  },
+  {
+    id: 'alcohol', nameKo: '알코올', nameEn: 'Alcohol',
+    terms: [
+      '맛술', '미림', '청주', '정종', '소주', '와인', '맥주', '막걸리', '럼', '브랜디', '위스키', '사케',
+      'wine', 'beer', 'mirin', 'sake', 'rum', 'brandy', 'whisky', 'whiskey', 'vodka', 'liqueur', 'sherry',
+    ],
+    exceptions: ['와인식초', '와인비네거', 'wine vinegar', 'non-alcoholic', '무알코올'],
+    excludes: ['halal'],
+  },
+  {
+    id: 'gluten', nameKo: '글루텐 곡물', nameEn: 'Gluten grains',
+    terms: [
+      '밀', '밀가루', '통밀', '부침가루', '튀김가루', '빵가루', '빵', '국수', '소면', '중면', '칼국수', '우동', '라면', '수제비',
+      '만두피', '파스타', '스파게티', '마카로니', '또띠아', '보리', '호밀', '맥주', '간장', '밀떡',
+      'wheat', 'flour', 'bread', 'breadcrumbs', 'panko', 'pasta', 'spaghetti', 'macaroni', 'noodle', 'udon', 'ramen',
+      'tortilla', 'couscous', 'barley', 'rye', 'beer', 'soy sauce', 'seitan',
+    ],
+    exceptions: [
+      '밀크', '쌀가루', '옥수수가루', '찹쌀가루', '쌀국수', '쌀떡', '당면', '글루텐프리', '타마리',
+      'rice flour', 'corn flour', 'almond flour', 'rice noodle', 'gluten-free', 'gluten free', 'tamari',
+    ],
+    excludes: ['gluten_free'],
+  },
+];
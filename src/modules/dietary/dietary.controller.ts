@@ -0,0 +1,46 @@
+import { Controller, Get, Param, Post, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { DietaryService } from './dietary.service';
+import {
+  DietaryProfile,
+  DietaryReclassifyResult,
+  DietaryRule,
+  RecipeDietaryClassification,
+} from './interfaces/dietary.interface';
+import { LangQueryDto } from '../../common/dto/lang-query.dto';
+
+@ApiTags('Dietary')
+@Controller('dietary')
+export class DietaryController {
+  constructor(private readonly dietaryService: DietaryService) {}
+
+  @Get('profiles')
+  @ApiOperation({ summary: 'List supported dietary profiles' })
+  getProfiles(): DietaryProfile[] {
+    return this.dietaryService.getProfiles();
+  }
+
+  @Get('rules')
+  @ApiOperation({ summary: 'List the ingredient rules used to classify recipes' })
+  getRules(): DietaryRule[] {
+    return this.dietaryService.getRules();
+  }
+
+  @Get('recipes/:recipeId')
+  @ApiOperation({ summary: 'Classify a recipe against every dietary profile and explain each result' })
+  @ApiResponse({ status: 200, description: 'Eligible labels and the disqualifying ingredients per profile' })
+  @ApiResponse({ status: 404, description: 'Recipe not found' })
+  async classifyRecipe(
+    @Param('recipeId') recipeId: string,
+    @Query() langDto: LangQueryDto,
+  ): Promise<RecipeDietaryClassification> {
+    return this.dietaryService.classifyRecipe(recipeId, langDto.lang);
+  }
+
+  @Post('reclassify')
+  @ApiOperation({ summary: 'Recompute stored dietary labels for every indexed recipe' })
+  @ApiResponse({ status: 201, description: 'Number of recipes processed and updated' })
+  async reclassifyAll(): Promise<DietaryReclassifyResult> {
+    return this.dietaryService.reclassifyAll();
+  }
+}
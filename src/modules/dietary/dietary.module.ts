@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { DietaryController } from './dietary.controller';
+import { DietaryService } from './dietary.service';
+import { ElasticsearchModule } from '../elasticsearch/elasticsearch.module';
+
+@Module({
+  imports: [ElasticsearchModule],
+  controllers: [DietaryController],
+  providers: [DietaryService],
+  exports: [DietaryService],
+})
+export class DietaryModule {}
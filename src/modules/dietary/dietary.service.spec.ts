@@ -0,0 +1,142 @@
+import { NotFoundException } from '@nestjs/common';
+import { ElasticsearchRecipe, ElasticsearchService } from '../elasticsearch/elasticsearch.service';
+import { DietaryService } from './dietary.service';
+
+describe('DietaryService', () => {
+  let elasticsearchService: any;
+  let service: DietaryService;
+
+  beforeEach(() => {
+    elasticsearchService = {
+      getRecipeById: jest.fn(async () => null),
+      forEachRecipeBatch: jest.fn(),
+      bulkUpdateRecipeFields: jest.fn(async (items: Array<{ id: string }>) => items.map(({ id }) => ({ id, status: 200 }))),
+    };
+    service = new DietaryService(elasticsearchService as ElasticsearchService);
+  });
+
+  describe('classify', () => {
+    it('labels a plant-based recipe for every diet', () => {
+      expect(service.classify(['두부 1모', '애호박 1개', '소금 약간']).labels)
+        .toEqual(['vegan', 'vegetarian', 'pescatarian', 'gluten_free', 'halal']);
+    });
+
+    it('explains why a recipe does not fit a diet', () => {
+      const { labels, profiles } = service.classify(['돼지고기 200g', '간장 2큰술']);
+      const vegan = profiles.find(result => result.profile === 'vegan');
+
+      expect(labels).toEqual([]);
+      expect(vegan?.explanation).toContain("'돼지고기 200g'에 돼지고기");
+    });
+
+    it('explains in English when asked', () => {
+      const { profiles } = service.classify(['돼지고기 200g', '두부 1모'], 'en');
+
+      expect(profiles.find(result => result.profile === 'vegan')?.explanation)
+        .toBe("Not Vegan: '돼지고기 200g' contains 돼지고기 (meat)");
+      expect(profiles.find(result => result.profile === 'gluten_free')?.explanation)
+        .toBe('No ingredients conflict with a Gluten-free diet');
+    });
+
+    it('skips rule exceptions such as plant-based meat', () => {
+      expect(service.classify(['콩고기 200g']).labels).toContain('vegan');
+    });
+  });
+
+  describe('detectProfiles', () => {
+    it('prefers the longest alias', () => {
+      expect(service.detectProfiles('완전채식 파스타 알려줘')).toEqual(['vegan']);
+      expect(service.detectProfiles('채식이면서 글루텐 프리')).toEqual(['vegetarian', 'gluten_free']);
+    });
+  });
+
+  describe('filterRecipes', () => {
+    it('keeps recipes that fit every requested diet', () => {
+      const recipes = [
+        { id: 'r1', name: '비빔밥', ingredients: ['밥 1공기', '달걀 1개'] },
+        { id: 'r2', name: '나물', ingredients: ['시금치 1단'] },
+      ];
+
+      const result = service.filterRecipes(recipes, recipe => recipe, ['vegan']);
+
+      expect(result.recipes.map(recipe => recipe.id)).toEqual(['r2']);
+      expect(result.exclusions[0]).toMatchObject({ recipeId: 'r1', profiles: ['vegan'] });
+    });
+  });
+
+  describe('classifyRecipe', () => {
+    it('rejects an unknown recipe', async () => {
+      await expect(service.classifyRecipe('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('reclassifyAll', () => {
+    const batches: ElasticsearchRecipe[][] = [
+      [
+        { id: 'unchanged', ingredientsKo: ['시금치 1단'], dietaryLabels: ['vegan', 'vegetarian', 'pescatarian', 'gluten_free', 'halal'] },
+        { id: 'legacy', ingredientsKo: ['두부 1모'] },
+      ] as ElasticsearchRecipe[],
+      [
+        { id: 'stale', ingredientsKo: ['돼지고기 200g'], dietaryLabels: ['vegan'] },
+        { id: 'no-diet', ingredientsKo: ['돼지고기 200g', '밀가루 100g'] },
+      ] as ElasticsearchRecipe[],
+    ];
+
+    beforeEach(() => {
+      elasticsearchService.forEachRecipeBatch.mockImplementation(async (_size: number, handler: (recipes: ElasticsearchRecipe[]) => Promise<void>) => {
+        for (const batch of batches) await handler(batch);
+        return batches.flat().length;
+      });
+    });
+
+    it('updates only changed labels with one bulk request per batch', async () => {
+      const result = await service.reclassifyAll();
+
+      expect(result).toEqual({ processed: 4, updated: 2, failed: 0 });
+      expect(elasticsearchService.bulkUpdateRecipeFields).toHaveBeenCalledTimes(2);
+      expect(elasticsearchService.bulkUpdateRecipeFields.mock.calls.flat(2).map((item: { id: string }) => item.id))
+        .toEqual(['legacy', 'stale']);
+    });
+
+    it('reports failed updates', async () => {
+      elasticsearchService.bulkUpdateRecipeFields.mockResolvedValueOnce([{ id: 'legacy', status: 409, error: 'version_conflict' }]);
+
+      await expect(service.reclassifyAll()).resolves.toEqual({ processed: 4, updated: 1, failed: 1 });
+    });
+
+    it('limits the scan to recipes without labels when asked', async () => {
+      await service.reclassifyAll(true);
+
+      expect(elasticsearchService.forEachRecipeBatch).toHaveBeenCalledWith(
+        expect.any(Number),
+        expect.any(Function),
+        { bool: { must_not: { exists: { field: 'dietaryLabels' } } } }
+      );
+    });
+  });
+
+  describe('onApplicationBootstrap', () => {
+    const originalSource = process.env.RECIPE_DATA_SOURCE;
+
+    afterEach(() => {
+      process.env.RECIPE_DATA_SOURCE = originalSource;
+    });
+
+    it('backfills unlabeled recipes without blocking startup', () => {
+      delete process.env.RECIPE_DATA_SOURCE;
+      elasticsearchService.forEachRecipeBatch.mockReturnValue(new Promise(() => undefined));
+
+      service.onApplicationBootstrap();
+
+      expect(elasticsearchService.forEachRecipeBatch).toHaveBeenCalledWith(expect.any(Number), expect.any(Function), expect.anything());
+    });
+
+    it('does nothing with sample data', () => {
+      process.env.RECIPE_DATA_SOURCE = 'sample';
+
+      service.onApplicationBootstrap();
+
+      expect(elasticsearchService.forEachRecipeBatch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import { Injectable, Logger, NotFoundException, OnApplicationBootstrap } from '@nestjs/common';
+import { ElasticsearchRecipe, ElasticsearchService } from '../elasticsearch/elasticsearch.service';
+import { IngredientParserUtil } from '../langchain/utils/ingredient-parser.util';
+import { RecipeLanguage } from '../langchain/types/langchain.types';
+import { DIETARY_PROFILES, DIETARY_RULES } from './constants/dietary-rules.constants';
+import {
+  DietaryCheckTarget,
+  DietaryClassification,
+  DietaryExclusion,
+  DietaryFilterResult,
+  DietaryProfile,
+  DietaryProfileId,
+  DietaryProfileResult,
+  DietaryReclassifyResult,
+  DietaryRule,
+  DietaryViolation,
+  RecipeDietaryClassification,
+} from './interfaces/dietary.interface';
+
+/**
+ * 🥗 식단(비건/채식/페스코/글루텐프리/할랄) 분류
+ * 재료 분류 규칙표로 레시피가 어떤 식단에 맞는지 판정하고, 맞지 않으면 어떤 재료 때문인지 설명
+ */
+@Injectable()
+export class DietaryService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(DietaryService.name);
+  private static readonly RECLASSIFY_BATCH_SIZE = 500;
+
+  // 판정 사유 문장 (언어별)
+  private static readonly MESSAGES = {
+    ko: {
+      eligible: (profile: string) => `${profile} 식단에 맞지 않는 재료가 없습니다`,
+      ineligible: (profile: string, reasons: string) => `${profile} 불가: ${reasons}`,
+      contains: (ingredient: string, term: string) => `'${ingredient}'에 ${term} 포함`,
+      term: (term: string, rule: string) => `${term}(${rule})`,
+    },
+    en: {
+      eligible: (profile: string) => `No ingredients conflict with a ${profile} diet`,
+      ineligible: (profile: string, reasons: string) => `Not ${profile}: ${reasons}`,
+      contains: (ingredient: string, term: string) => `'${ingredient}' contains ${term}`,
+      term: (term: string, rule: string) => `${term} (${rule.toLowerCase()})`,
+    },
+  };
+
+  constructor(private readonly elasticsearchService: ElasticsearchService) {}
+
+  getProfiles(): DietaryProfile[] {
+    return DIETARY_PROFILES;
+  }
+
+  getRules(): DietaryRule[] {
+    return DIETARY_RULES;
+  }
+
+  /**
+   * 식단 ID 또는 별칭 → 식단 ID (알 수 없는 입력은 무시)
+   */
+  resolveProfiles(inputs: string[] = []): DietaryProfileId[] {
+    const resolved = inputs
+      .map(input => input.trim().toLowerCase())
+      .filter(Boolean)
+      .map(input => DIETARY_PROFILES.find(profile =>
+        profile.id === input || profile.aliases.some(alias => alias.toLowerCase() === input)
+      )?.id)
+      .filter((id): id is DietaryProfileId => !!id);
+
+    return [...new Set(resolved)];
+  }
+
+  /**
+   * 대화 메시지에서 식단 조건 찾기 ("비건 파스타", "채식 레시피 추천해줘")
+   * 긴 별칭을 먼저 찾아서 "완전채식"이 "채식"으로 함께 잡히지 않도록 함
+   */
+  detectProfiles(message: string): DietaryProfileId[] {
+    let remaining = message.toLowerCase();
+    const detected = new Set<DietaryProfileId>();
+
+    const aliases = DIETARY_PROFILES
+      .flatMap(profile => profile.aliases.map(alias => ({ alias: alias.toLowerCase(), id: profile.id })))
+      .sort((a, b) => b.alias.length - a.alias.length);
+
+    for (const { alias, id } of aliases) {
+      if (remaining.includes(alias)) {
+        detected.add(id);
+        remaining = remaining.split(alias).join(' ');
+      }
+    }
+
+    return DIETARY_PROFILES.map(profile => profile.id).filter(id => detected.has(id));
+  }
+
+  /**
+   * 재료 목록을 모든 식단에 대해 판정 (사유 문장은 lang 으로 작성)
+   */
+  classify(ingredients: string[], lang: RecipeLanguage = 'ko'): DietaryClassification {
+    const violations = this.findViolations(ingredients);
+
+    const profiles: DietaryProfileResult[] = DIETARY_PROFILES.map(profile => {
+      const profileViolations = violations.filter(violation =>
+        DIETARY_RULES.find(rule => rule.id === violation.ruleId)?.excludes.includes(profile.id)
+      );
+      return {
+        profile: profile.id,
+        nameKo: profile.nameKo,
+        eligible: profileViolations.length === 0,
+        violations: profileViolations,
+        explanation: this.explain(profile, profileViolations, lang),
+      };
+    });
+
+    return {
+      labels: profiles.filter(result => result.eligible).map(result => result.profile),
+      profiles,
+    };
+  }
+
+  /**
+   * 색인할 레시피의 식단 라벨 (한/영 재료 모두 검사)
+   */
+  labelRecipe(recipe: Pick<ElasticsearchRecipe, 'ingredientsKo' | 'ingredientsEn'>): DietaryProfileId[] {
+    return this.classify([...(recipe.ingredientsKo || []), ...(recipe.ingredientsEn || [])]).labels;
+  }
+
+  /**
+   * 요청한 식단에 맞지 않는 레시피를 제외하고 제외 사유 반환
+   */
+  filterRecipes<T>(
+    recipes: T[],
+    describe: (recipe: T) => DietaryCheckTarget,
+    profiles: DietaryProfileId[] = [],
+    lang: RecipeLanguage = 'ko',
+  ): DietaryFilterResult<T> {
+    if (profiles.length === 0) {
+      return { recipes, exclusions: [] };
+    }
+
+    const kept: T[] = [];
+    const exclusions: DietaryExclusion[] = [];
+    for (const recipe of recipes) {
+      const target = describe(recipe);
+      const failed = this.classify(target.ingredients, lang).profiles
+        .filter(result => profiles.includes(result.profile) && !result.eligible);
+
+      if (failed.length === 0) {
+        kept.push(recipe);
+      } else {
+        exclusions.push({
+          recipeId: target.id,
+          recipeName: target.name,
+          profiles: failed.map(result => result.profile),
+          explanation: failed.map(result => result.explanation).join('; '),
+        });
+      }
+    }
+
+    if (exclusions.length > 0) {
+      this.logger.log(`🥗 Excluded ${exclusions.length}/${recipes.length} recipes for diets: ${profiles.join(', ')}`);
+    }
+    return { recipes: kept, exclusions };
+  }
+
+  /**
+   * 저장된 레시피의 식단별 판정과 사유
+   */
+  async classifyRecipe(recipeId: string, lang: RecipeLanguage = 'ko'): Promise<RecipeDietaryClassification> {
+    const recipe = await this.elasticsearchService.getRecipeById(recipeId);
+    if (!recipe) {
+      throw new NotFoundException(`Recipe not found: ${recipeId}`);
+    }
+
+    const target = this.describeRecipe(recipe);
+    return {
+      recipeId,
+      recipeName: target.name,
+      storedLabels: recipe.dietaryLabels ?? [],
+      ...this.classify(target.ingredients, lang),
+    };
+  }
+
+  /**
+   * 색인 레시피 → 검사 대상 (한/영 재료 모두)
+   */
+  describeRecipe(recipe: ElasticsearchRecipe): DietaryCheckTarget {
+    return {
+      id: recipe.id,
+      name: recipe.nameKo || recipe.nameEn || recipe.id,
+      ingredients: [...(recipe.ingredientsKo || []), ...(recipe.ingredientsEn || [])],
+    };
+  }
+
+  /**
+   * 라벨 없이 색인된 레시피는 식단 필터(dietaryLabels)에서 빠지므로 시작할 때 백그라운드로 보정
+   */
+  onApplicationBootstrap(): void {
+    if (process.env.RECIPE_DATA_SOURCE === 'sample') return;
+
+    this.reclassifyAll(true).catch(error => {
+      this.logger.warn('⚠️ Dietary label backfill failed:', error instanceof Error ? error.message : error);
+    });
+  }
+
+  /**
+   * 색인된 레시피 재분류 (규칙표 변경 후 또는 라벨 없이 색인된 레시피 보정, onlyUnlabeled 면 라벨 없는 레시피만)
+   */
+  async reclassifyAll(onlyUnlabeled: boolean = false): Promise<DietaryReclassifyResult> {
+    let updated = 0;
+    let failed = 0;
+    const query = onlyUnlabeled ? { bool: { must_not: { exists: { field: 'dietaryLabels' } } } } : undefined;
+
+    const processed = await this.elasticsearchService.forEachRecipeBatch(DietaryService.RECLASSIFY_BATCH_SIZE, async recipes => {
+      const changes = recipes
+        .map(recipe => ({ recipe, labels: this.labelRecipe(recipe) }))
+        .filter(({ recipe, labels }) => {
+          const stored = recipe.dietaryLabels ?? [];
+          return labels.length !== stored.length || labels.some(label => !stored.includes(label));
+        })
+        .map(({ recipe, labels }) => ({ id: recipe.id, fields: { dietaryLabels: labels } }));
+
+      const results = await this.elasticsearchService.bulkUpdateRecipeFields(changes);
+      const errors = results.filter(result => result.error);
+      errors.forEach(result => this.logger.warn(`⚠️ Dietary label update failed for ${result.id}: ${result.error}`));
+      updated += results.length - errors.length;
+      failed += errors.length;
+    }, query);
+
+    this.logger.log(`🥗 Reclassified ${onlyUnlabeled ? 'unlabeled ' : ''}recipes: ${updated}/${processed} updated${failed > 0 ? `, ${failed} failed` : ''}`);
+    return { processed, updated, failed };
+  }
+
+  /**
+   * 재료별로 해당하는 분류 찾기 (긴 재료명을 먼저 보고해서 "돼지고기"가 "고기"보다 우선)
+   */
+  private findViolations(ingredients: string[]): DietaryViolation[] {
+    const violations: DietaryViolation[] = [];
+
+    for (const rule of DIETARY_RULES) {
+      const terms = [...rule.terms].sort((a, b) => b.length - a.length);
+
+      for (const ingredient of ingredients) {
+        if (rule.exceptions?.some(exception => ingredient.toLowerCase().includes(exception.toLowerCase()))) continue;
+
+        const term = terms.find(candidate => IngredientParserUtil.containsTerm(ingredient, candidate));
+        if (term) {
+          violations.push({ ruleId: rule.id, ruleName: rule.nameKo, term, ingredient });
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * 판정 사유 문장 ("비건 불가: '파마산 치즈'에 파마산(유제품) 포함", "Not Vegan: 'parmesan' contains parmesan (dairy)")
+   */
+  private explain(profile: DietaryProfile, violations: DietaryViolation[], lang: RecipeLanguage): string {
+    const messages = DietaryService.MESSAGES[lang];
+    const profileName = lang === 'en' ? profile.nameEn : profile.nameKo;
+    if (violations.length === 0) {
+      return messages.eligible(profileName);
+    }
+
+    const reasons = violations.map(violation => {
+      const rule = DIETARY_RULES.find(candidate => candidate.id === violation.ruleId);
+      const ruleName = lang === 'en' ? rule?.nameEn ?? violation.ruleName : violation.ruleName;
+      const term = violation.term.toLowerCase() === ruleName.toLowerCase() ? violation.term : messages.term(violation.term, ruleName);
+      return messages.contains(violation.ingredient, term);
+    });
+    return messages.ineligible(profileName, reasons.join(', '));
+  }
+}
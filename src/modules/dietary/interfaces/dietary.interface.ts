@@ -0,0 +1,77 @@
+// Dietary profile interface definitions
+
+export const DIETARY_PROFILE_IDS = ['vegan', 'vegetarian', 'pescatarian', 'gluten_free', 'halal'] as const;
+
+export type DietaryProfileId = typeof DIETARY_PROFILE_IDS[number];
+
+export interface DietaryProfile {
+  id: DietaryProfileId;
+  nameKo: string;
+  nameEn: string;
+  description: string;
+  // 사용자가 대화/설정에서 쓰는 이름 ("채식", "비건" ...)
+  aliases: string[];
+}
+
+export interface DietaryRule {
+  id: string;
+  nameKo: string;
+  nameEn: string;
+  // 이 분류에 속하는 재료 (한/영)
+  terms: string[];
+  // 재료 이름에 분류명이 들어 있어도 해당하지 않는 예외 (예: 콩고기의 "고기")
+  exceptions?: string[];
+  // 이 분류의 재료가 있으면 해당하지 않는 식단
+  excludes: DietaryProfileId[];
+}
+
+export interface DietaryViolation {
+  ruleId: string;
+  ruleName: string;
+  term: string;
+  ingredient: string;
+}
+
+export interface DietaryProfileResult {
+  profile: DietaryProfileId;
+  nameKo: string;
+  eligible: boolean;
+  violations: DietaryViolation[];
+  explanation: string;
+}
+
+export interface DietaryClassification {
+  labels: DietaryProfileId[];
+  profiles: DietaryProfileResult[];
+}
+
+export interface RecipeDietaryClassification extends DietaryClassification {
+  recipeId: string;
+  recipeName: string;
+  // 색인에 저장된 라벨 (재분류 전이면 계산 결과와 다를 수 있음)
+  storedLabels: string[];
+}
+
+export interface DietaryCheckTarget {
+  id: string;
+  name: string;
+  ingredients: string[];
+}
+
+export interface DietaryExclusion {
+  recipeId: string;
+  recipeName: string;
+  profiles: DietaryProfileId[];
+  explanation: string;
+}
+
+export interface DietaryFilterResult<T> {
+  recipes: T[];
+  exclusions: DietaryExclusion[];
+}
+
+export interface DietaryReclassifyResult {
+  processed: number;
+  updated: number;
+  failed: number;
+}
@@ -0,0 +1,110 @@
+import { ElasticsearchService } from './elasticsearch.service';
+
+const search = jest.fn();
+const openPointInTime = jest.fn();
+const closePointInTime = jest.fn();
+
+jest.mock('@elastic/elasticsearch', () => ({
+  Client: jest.fn().mockImplementation(() => ({
+    search,
+    openPointInTime,
+    closePointInTime,
+    cluster: { health: jest.fn(async () => ({ status: 'green' })) },
+  })),
+}));
+
+describe('ElasticsearchService', () => {
+  let service: ElasticsearchService;
+
+  // Lucene 정규식 중 &, ~ 가 없는 패턴은 전체 일치 JS 정규식으로 확인
+  const matches = (pattern: string, text: string) => new RegExp(`^(?:${pattern})$`, 'i').test(text);
+
+  const mustNotPatterns = async (excludeIngredients: Parameters<ElasticsearchService['searchRecipesWithFilters']>[0]['excludeIngredients']) => {
+    search.mockResolvedValueOnce({ hits: { hits: [], total: { value: 0 } } });
+    await service.searchRecipesWithFilters({ excludeIngredients });
+    const { must_not: mustNot } = search.mock.calls[search.mock.calls.length - 1][0].body.query.bool;
+    return mustNot.map((clause: any) => clause.bool.should[0].regexp['ingredientsKo.keyword'].value as string);
+  };
+
+  beforeEach(() => {
+    search.mockReset();
+    openPointInTime.mockReset().mockResolvedValue({ id: 'pit-1' });
+    closePointInTime.mockReset().mockResolvedValue({});
+    service = new ElasticsearchService();
+  });
+
+  describe('searchRecipesWithFilters excludeIngredients', () => {
+    it('checks names and both ingredient languages', async () => {
+      search.mockResolvedValueOnce({ hits: { hits: [], total: { value: 0 } } });
+      await service.searchRecipesWithFilters({ excludeIngredients: ['땅콩'] });
+
+      const [clause] = search.mock.calls[0][0].body.query.bool.must_not;
+      expect(clause.bool.should.map((should: any) => Object.keys(should.regexp)[0]))
+        .toEqual(['ingredientsKo.keyword', 'ingredientsEn.keyword', 'nameKo.keyword', 'nameEn.keyword']);
+    });
+
+    it('matches Korean terms inside compound words', async () => {
+      const [pattern] = await mustNotPatterns(['땅콩']);
+
+      expect(matches(pattern!, '땅콩버터 2큰술')).toBe(true);
+      expect(matches(pattern!, '호두 30g')).toBe(false);
+    });
+
+    it('matches one-letter Korean terms only at the start of a word', async () => {
+      const [pattern] = await mustNotPatterns(['밀']);
+
+      expect(matches(pattern!, '밀 200g')).toBe(true);
+      expect(matches(pattern!, '통 밀가루')).toBe(true);
+      expect(matches(pattern!, '꿀밀')).toBe(false);
+    });
+
+    it('matches English terms on word boundaries including plurals', async () => {
+      const [pattern] = await mustNotPatterns(['egg']);
+
+      expect(matches(pattern!, '2 Eggs, beaten')).toBe(true);
+      expect(matches(pattern!, 'egg')).toBe(true);
+      expect(matches(pattern!, '1 eggplant')).toBe(false);
+    });
+
+    it('leaves out ingredient lines containing an exception', async () => {
+      const [pattern] = await mustNotPatterns([{ term: '버터', exceptions: ['땅콩버터'] }]);
+
+      expect(pattern).toBe('(.*버터.*)&~(.*(땅콩버터).*)');
+    });
+
+    it('escapes regular expression characters in terms', async () => {
+      const [pattern] = await mustNotPatterns(['a.b']);
+
+      expect(pattern).toBe('.*a\\.b.*');
+    });
+  });
+
+  describe('forEachRecipeBatch', () => {
+    const hit = (id: string) => ({ _id: id, _source: { nameKo: id }, sort: [id] });
+
+    it('pages with search_after inside a point in time and closes it', async () => {
+      search
+        .mockResolvedValueOnce({ pit_id: 'pit-2', hits: { hits: [hit('a'), hit('b')] } })
+        .mockResolvedValueOnce({ pit_id: 'pit-3', hits: { hits: [hit('c')] } });
+      const batches: string[][] = [];
+
+      const processed = await service.forEachRecipeBatch(2, async recipes => {
+        batches.push(recipes.map(recipe => recipe.id));
+      });
+
+      expect(processed).toBe(3);
+      expect(batches).toEqual([['a', 'b'], ['c']]);
+      expect(search.mock.calls[1][0]).toMatchObject({ pit: { id: 'pit-2' }, search_after: ['b'] });
+      expect(closePointInTime).toHaveBeenCalledWith({ id: 'pit-3' });
+    });
+
+    it('closes the point in time when a batch fails', async () => {
+      search.mockResolvedValueOnce({ hits: { hits: [hit('a')] } });
+
+      await expect(service.forEachRecipeBatch(2, async () => {
+        throw new Error('bulk failed');
+      })).rejects.toThrow('bulk failed');
+      expect(closePointInTime).toHaveBeenCalledWith({ id: 'pit-1' });
+    });
+  });
+});
@@ -1,13 +1,16 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Client } from '@elastic/elasticsearch';
+import type { RecipeLanguage } from '../langchain/types/langchain.types';
 
 interface ElasticsearchHit {
   _id: string;
+  _score?: number | null;
   _source: ElasticsearchRecipe;
 }
 
 interface ElasticsearchResponse {
   hits: {
+    total?: number | { value: number };
     hits: ElasticsearchHit[];
   };
 }
@@ -33,6 +36,67 @@ export interface ElasticsearchRecipe {
     carbs?: number;
     fat?: number;
   };
+  author?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  bookmarkCount?: number;
+  averageRating?: number;
+  ratingCount?: number;
+  viewCount?: number;
+  // 재료 분류 규칙으로 판정한 식단 라벨 (vegan, vegetarian ...)
+  dietaryLabels?: string[];
+}
+
+/**
+ * 검색에서 제외할 재료 (exceptions 표기가 들어 있는 재료 줄은 제외하지 않음)
+ */
+export interface IngredientExclusion {
+  term: string;
+  exceptions?: string[];
+}
+
+export interface RecipeSearchOptions {
+  query?: string;
+  ids?: string[];
+  excludeIds?: string[];
+  category?: string;
+  from?: number;
+  size?: number;
+  excludeIngredients?: Array<string | IngredientExclusion>;
+  // 이 재료 중 하나 이상을 포함하는 레시피만 (알레르기 제외 사유 조회용)
+  matchAnyIngredients?: Array<string | IngredientExclusion>;
+  preferences?: string[];
+  maxCookingTime?: number;
+  difficulty?: string;
+  tags?: string[];
+  // 모든 식단 라벨을 가진 레시피만
+  dietaryLabels?: string[];
+  sortBy?: 'relevance' | 'rating' | 'time' | 'popularity';
+  sortOrder?: 'asc' | 'desc';
+  // 검색어 가중치를 줄 언어 필드 (기본 ko)
+  lang?: RecipeLanguage;
+}
+
+export interface RecipeSearchPage {
+  recipes: ElasticsearchRecipe[];
+  total: number;
+}
+
+export interface ScoredRecipe {
+  recipe: ElasticsearchRecipe;
+  score: number;
+}
+
+export interface BulkIndexItemResult {
+  id?: string;
+  status: number;
+  error?: string;
+}
+
+export interface DocumentSearchResult<T> {
+  documents: Array<T & { _id: string }>;
+  total: number;
+  aggregations?: Record<string, any>;
 }
 
 @Injectable()
@@ -88,45 +152,12 @@ export class ElasticsearchService {
   /**
    * 레시피 검색 (텍스트 기반)
    */
-  async searchRecipes(query: string, size: number = 10): Promise<ElasticsearchRecipe[]> {
+  async searchRecipes(query: string, size: number = 10, lang: RecipeLanguage = 'ko'): Promise<ElasticsearchRecipe[]> {
     try {
-      this.logger.log(`🔎 Searching recipes for: "${query}"`);
+      this.logger.log(`🔎 Searching recipes for: "${query}" (${lang})`);
 
       const searchBody = {
-        query: {
-          bool: {
-            should: [
-              {
-                multi_match: {
-                  query: query,
-                  fields: [
-                    'nameKo^3',
-                    'nameEn^2',
-                    'descriptionKo^2',
-                    'descriptionEn',
-                    'ingredientsKo^2',
-                    'ingredientsEn',
-                    'stepsKo',
-                    'stepsEn',
-                    'tags^1.5',
-                    'category^1.5'
-                  ],
-                  type: 'best_fields' as const,
-                  fuzziness: 'AUTO'
-                }
-              },
-              {
-                match: {
-                  'ingredientsKo': {
-                    query: query,
-                    boost: 2
-                  }
-                }
-              }
-            ],
-            minimum_should_match: 1
-          }
-        },
+        query: this.buildTextQuery(query, lang),
         size: size,
         _source: {
           excludes: ['@timestamp', '@version']
@@ -152,6 +183,150 @@ export class ElasticsearchService {
     }
   }
 
+  /**
+   * 필터/정렬/페이지네이션을 지원하는 레시피 검색
+   */
+  async searchRecipesWithFilters(options: RecipeSearchOptions): Promise<RecipeSearchPage> {
+    const { query, from = 0, size = 10, sortBy = 'relevance', sortOrder = 'desc', lang = 'ko' } = options;
+
+    try {
+      this.logger.log(`🔎 Filtered search - query: "${query || ''}", sort: ${sortBy} ${sortOrder}, from: ${from}, size: ${size}`);
+
+      const filterClauses: Record<string, any>[] = [];
+      if (options.ids) {
+        filterClauses.push({ ids: { values: options.ids } });
+      }
+      if (options.category) {
+        filterClauses.push({ term: { 'category.keyword': options.category } });
+      }
+      if (options.maxCookingTime) {
+        filterClauses.push({ range: { cookingTime: { lte: options.maxCookingTime } } });
+      }
+      if (options.difficulty) {
+        filterClauses.push({ match: { difficulty: options.difficulty } });
+      }
+      (options.tags || []).forEach(tag => {
+        filterClauses.push({ match: { tags: { query: tag, operator: 'and' as const } } });
+      });
+      (options.dietaryLabels || []).forEach(label => {
+        filterClauses.push({ term: { 'dietaryLabels.keyword': label } });
+      });
+      if (options.matchAnyIngredients && options.matchAnyIngredients.length > 0) {
+        filterClauses.push({
+          bool: {
+            should: options.matchAnyIngredients.map(ingredient => this.buildIngredientTermQuery(ingredient)),
+            minimum_should_match: 1
+          }
+        });
+      }
+
+      const mustNotClauses: Record<string, any>[] = (options.excludeIngredients || [])
+        .map(ingredient => this.buildIngredientTermQuery(ingredient));
+      if (options.excludeIds && options.excludeIds.length > 0) {
+        mustNotClauses.push({ ids: { values: options.excludeIds } });
+      }
+
+      // 선호 태그/카테고리는 필터가 아닌 가산점으로 반영
+      const shouldClauses = (options.preferences || []).map(preference => ({
+        multi_match: {
+          query: preference,
+          fields: ['tags^2', 'category^2', 'nameKo', 'nameEn', lang === 'en' ? 'descriptionEn' : 'descriptionKo'],
+          boost: 1.5
+        }
+      }));
+
+      const response = await this.client.search({
+        index: this.indexName,
+        body: {
+          query: {
+            bool: {
+              must: query ? [this.buildTextQuery(query, lang)] : [{ match_all: {} }],
+              should: shouldClauses,
+              filter: filterClauses,
+              must_not: mustNotClauses
+            }
+          },
+          from: from,
+          size: size,
+          track_total_hits: true,
+          sort: this.buildSort(sortBy, sortOrder),
+          _source: {
+            excludes: ['@timestamp', '@version']
+          }
+        },
+      });
+
+      const hits = (response as ElasticsearchResponse).hits;
+      const recipes: ElasticsearchRecipe[] = hits.hits.map((hit: ElasticsearchHit) => ({
+        ...hit._source,
+        id: hit._id,
+      }));
+      const total = typeof hits.total === 'number' ? hits.total : hits.total?.value ?? recipes.length;
+
+      this.logger.log(`📋 Found ${total} recipes (returned ${recipes.length})`);
+      return { recipes, total };
+
+    } catch (error) {
+      this.logger.error('❌ Filtered recipe search error:', error instanceof Error ? error.message : error);
+      return { recipes: [], total: 0 };
+    }
+  }
+
+  /**
+   * 특정 레시피와 유사한 레시피 검색 (more_like_this)
+   */
+  async findSimilarRecipes(
+    recipeId: string,
+    fields: string[],
+    excludeIds: string[] = [],
+    size: number = 6
+  ): Promise<ScoredRecipe[]> {
+    try {
+      this.logger.log(`🧬 Finding recipes similar to ${recipeId} on [${fields.join(', ')}]`);
+
+      const response = await this.client.search({
+        index: this.indexName,
+        body: {
+          query: {
+            bool: {
+              must: [
+                {
+                  more_like_this: {
+                    fields: fields,
+                    like: [{ _index: this.indexName, _id: recipeId }],
+                    min_term_freq: 1,
+                    min_doc_freq: 1,
+                    max_query_terms: 30,
+                    minimum_should_match: '20%'
+                  }
+                }
+              ],
+              must_not: [
+                { ids: { values: [recipeId, ...excludeIds] } }
+              ]
+            }
+          },
+          size: size,
+          _source: {
+            excludes: ['@timestamp', '@version']
+          }
+        },
+      });
+
+      const results: ScoredRecipe[] = (response as ElasticsearchResponse).hits.hits.map((hit: ElasticsearchHit) => ({
+        recipe: { ...hit._source, id: hit._id },
+        score: hit._score ?? 0,
+      }));
+
+      this.logger.log(`📋 Found ${results.length} similar recipes`);
+      return results;
+
+    } catch (error) {
+      this.logger.error('❌ Find similar recipes error:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
   /**
    * 레시피 ID로 상세 조회
    */
@@ -183,6 +358,401 @@ export class ElasticsearchService {
     }
   }
 
+  /**
+   * 여러 레시피 ID로 일괄 조회 (요청한 ID 순서 유지)
+   */
+  async getRecipesByIds(ids: string[]): Promise<ElasticsearchRecipe[]> {
+    if (ids.length === 0) return [];
+
+    try {
+      const response = await this.client.mget<ElasticsearchRecipe>({
+        index: this.indexName,
+        ids: ids,
+      });
+
+      const recipes: ElasticsearchRecipe[] = [];
+      response.docs.forEach(doc => {
+        if ('found' in doc && doc.found && doc._source) {
+          recipes.push({ ...doc._source, id: doc._id });
+        }
+      });
+
+      this.logger.log(`📋 Retrieved ${recipes.length}/${ids.length} recipes by ID`);
+      return recipes;
+
+    } catch (error) {
+      this.logger.error('❌ Get recipes by IDs error:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  /**
+   * 레시피 문서의 일부 필드 갱신 (북마크 수 등 집계 값)
+   */
+  async updateRecipeFields(id: string, fields: Partial<ElasticsearchRecipe>): Promise<void> {
+    try {
+      await this.client.update({
+        index: this.indexName,
+        id: id,
+        doc: fields,
+        retry_on_conflict: 3,
+      });
+    } catch (error) {
+      this.logger.error(`❌ Update recipe fields error for ${id}:`, error instanceof Error ? error.message : error);
+      throw error;
+    }
+  }
+
+  /**
+   * 레시피 문서의 카운터 필드 증가 (조회수 등)
+   */
+  async incrementRecipeCounter(id: string, field: keyof ElasticsearchRecipe, amount: number = 1): Promise<void> {
+    try {
+      await this.client.update({
+        index: this.indexName,
+        id: id,
+        script: {
+          source: `ctx._source['${field}'] = (ctx._source['${field}'] == null ? 0 : ctx._source['${field}']) + params.amount`,
+          params: { amount },
+        },
+        retry_on_conflict: 3,
+      });
+    } catch (error) {
+      this.logger.warn(`⚠️ Increment ${String(field)} failed for ${id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * 레시피 문서 생성 (id 지정 시 동일 ID 문서가 있으면 실패)
+   */
+  async createRecipe(document: Omit<ElasticsearchRecipe, 'id'>, id?: string): Promise<string> {
+    try {
+      const response = await this.client.index({
+        index: this.indexName,
+        id,
+        document,
+        op_type: id ? 'create' : undefined,
+        refresh: 'wait_for',
+      });
+      this.logger.log(`✅ Recipe created: ${response._id}`);
+      return response._id;
+    } catch (error) {
+      this.logger.error('❌ Create recipe error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  }
+
+  /**
+   * 레시피 문서 전체 교체
+   */
+  async replaceRecipe(id: string, document: Omit<ElasticsearchRecipe, 'id'>): Promise<void> {
+    try {
+      await this.client.index({
+        index: this.indexName,
+        id,
+        document,
+        refresh: 'wait_for',
+      });
+      this.logger.log(`✅ Recipe replaced: ${id}`);
+    } catch (error) {
+      this.logger.error(`❌ Replace recipe error for ${id}:`, error instanceof Error ? error.message : error);
+      throw error;
+    }
+  }
+
+  /**
+   * 레시피 문서 삭제 (없으면 false)
+   */
+  async deleteRecipe(id: string): Promise<boolean> {
+    try {
+      await this.client.delete({ index: this.indexName, id, refresh: 'wait_for' });
+      this.logger.log(`🗑️ Recipe deleted: ${id}`);
+      return true;
+    } catch (error) {
+      if (this.isNotFoundError(error)) return false;
+      this.logger.error(`❌ Delete recipe error for ${id}:`, error instanceof Error ? error.message : error);
+      throw error;
+    }
+  }
+
+  /**
+   * 레시피 문서 일괄 색인 (id 지정 문서는 create 로 넣어 중복 시 409)
+   * 요청 순서와 같은 순서로 항목별 결과 반환
+   */
+  async bulkIndexRecipes(items: Array<{ id?: string; document: Omit<ElasticsearchRecipe, 'id'> }>): Promise<BulkIndexItemResult[]> {
+    if (items.length === 0) return [];
+
+    try {
+      const operations = items.flatMap(({ id, document }) => [
+        id ? { create: { _index: this.indexName, _id: id } } : { index: { _index: this.indexName } },
+        document,
+      ]);
+      const response = await this.client.bulk({ operations, refresh: 'wait_for' });
+
+      this.logger.log(`📦 Bulk indexed ${items.length} recipes (errors: ${response.errors})`);
+      return response.items.map(item => {
+        const result = item.create ?? item.index;
+        return {
+          id: result?._id ?? undefined,
+          status: result?.status ?? 500,
+          error: result?.error ? `${result.error.type}: ${result.error.reason}` : undefined,
+        };
+      });
+    } catch (error) {
+      this.logger.error('❌ Bulk index recipes error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  }
+
+  /**
+   * 레시피 필드 일괄 부분 수정 (항목별 결과 반환)
+   */
+  async bulkUpdateRecipeFields(items: Array<{ id: string; fields: Partial<ElasticsearchRecipe> }>): Promise<BulkIndexItemResult[]> {
+    if (items.length === 0) return [];
+
+    try {
+      const operations = items.flatMap(({ id, fields }) => [
+        { update: { _index: this.indexName, _id: id, retry_on_conflict: 3 } },
+        { doc: fields },
+      ]);
+      const response = await this.client.bulk({ operations });
+
+      this.logger.log(`📦 Bulk updated ${items.length} recipes (errors: ${response.errors})`);
+      return response.items.map(item => ({
+        id: item.update?._id ?? undefined,
+        status: item.update?.status ?? 500,
+        error: item.update?.error ? `${item.update.error.type}: ${item.update.error.reason}` : undefined,
+      }));
+    } catch (error) {
+      this.logger.error('❌ Bulk update recipes error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  }
+
+  /**
+   * 레시피 전체 배치 순회 (point in time + search_after, from/size 의 10,000건 제한 없음)
+   * query 를 주면 해당 레시피만 순회하고, 순회한 레시피 수 반환
+   */
+  async forEachRecipeBatch(
+    batchSize: number,
+    handler: (recipes: ElasticsearchRecipe[]) => Promise<void>,
+    query: Record<string, any> = { match_all: {} },
+  ): Promise<number> {
+    let pitId = (await this.client.openPointInTime({ index: this.indexName, keep_alive: '1m' })).id;
+    let searchAfter: Array<string | number> | undefined;
+    let processed = 0;
+
+    try {
+      for (;;) {
+        const response = await this.client.search({
+          pit: { id: pitId, keep_alive: '1m' },
+          query,
+          size: batchSize,
+          sort: [{ _shard_doc: 'asc' }],
+          search_after: searchAfter,
+          _source: { excludes: ['@timestamp', '@version'] },
+        });
+        pitId = response.pit_id ?? pitId;
+
+        const hits = response.hits.hits;
+        if (hits.length > 0) {
+          await handler(hits.map(hit => ({ ...(hit._source as Omit<ElasticsearchRecipe, 'id'>), id: hit._id ?? '' })));
+          processed += hits.length;
+        }
+        if (hits.length < batchSize) break;
+        searchAfter = hits[hits.length - 1]?.sort as Array<string | number> | undefined;
+      }
+    } catch (error) {
+      this.logger.error('❌ Recipe batch scan error:', error instanceof Error ? error.message : error);
+      throw error;
+    } finally {
+      await this.client.closePointInTime({ id: pitId }).catch(() => undefined);
+    }
+
+    return processed;
+  }
+
+  /**
+   * 레시피 이름(한국어/영어) 정확 일치 조회 (중복 확인용)
+   */
+  async findRecipesByNames(names: string[]): Promise<ElasticsearchRecipe[]> {
+    if (names.length === 0) return [];
+
+    try {
+      const response = await this.client.search({
+        index: this.indexName,
+        body: {
+          query: {
+            bool: {
+              should: [
+                { terms: { 'nameKo.keyword': names } },
+                { terms: { 'nameEn.keyword': names } },
+              ],
+              minimum_should_match: 1,
+            },
+          },
+          size: names.length * 2,
+        },
+      });
+
+      return (response as ElasticsearchResponse).hits.hits.map((hit: ElasticsearchHit) => ({
+        ...hit._source,
+        id: hit._id,
+      }));
+    } catch (error) {
+      this.logger.error('❌ Find recipes by names error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  }
+
+  /**
+   * 보조 인덱스 문서 조회 (사용자 상호작용 등)
+   */
+  async getDocument<T>(index: string, id: string): Promise<T | null> {
+    try {
+      const response = await this.client.get<T>({ index, id });
+      return response.found && response._source ? response._source : null;
+    } catch (error) {
+      if (this.isNotFoundError(error)) return null;
+      this.logger.error(`❌ Get document error (${index}/${id}):`, error instanceof Error ? error.message : error);
+      throw error;
+    }
+  }
+
+  /**
+   * 보조 인덱스 문서 저장 (id 미지정 시 자동 생성)
+   * 로그성 문서는 waitForRefresh=false 로 저장해 응답 지연을 줄임
+   */
+  async saveDocument<T>(index: string, id: string | undefined, document: T, waitForRefresh: boolean = true): Promise<string> {
+    try {
+      const response = await this.client.index({
+        index,
+        id,
+        document,
+        refresh: waitForRefresh ? 'wait_for' : false,
+      });
+      return response._id;
+    } catch (error) {
+      this.logger.error(`❌ Save document error (${index}):`, error instanceof Error ? error.message : error);
+      throw error;
+    }
+  }
+
+  /**
+   * 보조 인덱스 문서 일괄 생성 (같은 ID 가 이미 있으면 덮어쓰지 않고 409, 항목별 결과 반환)
+   */
+  async bulkCreateDocuments<T>(index: string, items: Array<{ id: string; document: T }>, waitForRefresh: boolean = true): Promise<BulkIndexItemResult[]> {
+    if (items.length === 0) return [];
+
+    try {
+      const operations = items.flatMap(({ id, document }) => [
+        { create: { _index: index, _id: id } },
+        document as Record<string, unknown>,
+      ]);
+      const response = await this.client.bulk({ operations, refresh: waitForRefresh ? 'wait_for' : false });
+      return response.items.map(item => ({
+        id: item.create?._id ?? undefined,
+        status: item.create?.status ?? 500,
+        error: item.create?.error ? `${item.create.error.type}: ${item.create.error.reason}` : undefined,
+      }));
+    } catch (error) {
+      this.logger.error(`❌ Bulk create documents error (${index}):`, error instanceof Error ? error.message : error);
+      throw error;
+    }
+  }
+
+  /**
+   * 보조 인덱스 문서 삭제
+   */
+  async deleteDocument(index: string, id: string): Promise<boolean> {
+    try {
+      await this.client.delete({ index, id, refresh: 'wait_for' });
+      return true;
+    } catch (error) {
+      if (this.isNotFoundError(error)) return false;
+      this.logger.error(`❌ Delete document error (${index}/${id}):`, error instanceof Error ? error.message : error);
+      throw error;
+    }
+  }
+
+  /**
+   * 보조 인덱스 문서 검색 (인덱스가 아직 없으면 빈 결과)
+   */
+  async searchDocuments<T>(index: string, body: Record<string, any>): Promise<DocumentSearchResult<T>> {
+    try {
+      const response = await this.client.search<T>({
+        index,
+        body: { track_total_hits: true, ...body },
+      });
+
+      const documents = response.hits.hits
+        .filter(hit => hit._source)
+        .map(hit => ({ ...(hit._source as T), _id: hit._id as string }));
+      const total = typeof response.hits.total === 'number'
+        ? response.hits.total
+        : response.hits.total?.value ?? documents.length;
+
+      return {
+        documents,
+        total,
+        aggregations: response.aggregations as Record<string, any> | undefined,
+      };
+    } catch (error) {
+      if (this.isNotFoundError(error)) return { documents: [], total: 0 };
+      this.logger.error(`❌ Search documents error (${index}):`, error instanceof Error ? error.message : error);
+      throw error;
+    }
+  }
+
+  /**
+   * 보조 인덱스 문서 개수 조회
+   */
+  async countDocuments(index: string, query: Record<string, any>): Promise<number> {
+    try {
+      const response = await this.client.count({ index, query });
+      return response.count || 0;
+    } catch (error) {
+      if (this.isNotFoundError(error)) return 0;
+      this.logger.error(`❌ Count documents error (${index}):`, error instanceof Error ? error.message : error);
+      throw error;
+    }
+  }
+
+  /**
+   * 전체 레시피 목록 조회
+   */
+  async getAllRecipes(size: number = 100, from: number = 0): Promise<ElasticsearchRecipe[]> {
+    try {
+      this.logger.log(`📚 Getting recipes (from: ${from}, size: ${size})`);
+
+      const response = await this.client.search({
+        index: this.indexName,
+        body: {
+          query: {
+            match_all: {}
+          },
+          from: from,
+          size: size,
+          _source: {
+            excludes: ['@timestamp', '@version']
+          }
+        },
+      });
+
+      const recipes: ElasticsearchRecipe[] = (response as ElasticsearchResponse).hits.hits.map((hit: ElasticsearchHit) => ({
+        ...hit._source,
+        id: hit._id,
+      }));
+
+      this.logger.log(`📋 Retrieved ${recipes.length} recipes`);
+      return recipes;
+
+    } catch (error) {
+      this.logger.error('❌ Get all recipes error:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
   /**
    * 카테고리별 레시피 조회
    */
@@ -221,19 +791,20 @@ export class ElasticsearchService {
 
   /**
    * 재료 기반 레시피 검색 (알레르기 필터링 포함)
+   * 재료 중 하나 이상만 일치해도 반환하며, 많이 일치할수록 점수가 높음
    */
   async searchRecipesByIngredients(
     ingredients: string[], 
-    excludeIngredients?: string[], 
+    excludeIngredients?: Array<string | IngredientExclusion>, 
     size: number = 10
   ): Promise<ElasticsearchRecipe[]> {
     try {
       this.logger.log(`🥘 Searching recipes with ingredients: ${ingredients.join(', ')}`);
       if (excludeIngredients && excludeIngredients.length > 0) {
-        this.logger.log(`🚫 Excluding ingredients: ${excludeIngredients.join(', ')}`);
+        this.logger.log(`🚫 Excluding ingredients: ${excludeIngredients.map(item => (typeof item === 'string' ? item : item.term)).join(', ')}`);
       }
 
-      const mustClauses = ingredients.map(ingredient => ({
+      const shouldClauses = ingredients.map(ingredient => ({
         multi_match: {
           query: ingredient,
           fields: ['ingredientsKo^2', 'ingredientsEn^2', 'nameKo', 'nameEn'],
@@ -241,20 +812,16 @@ export class ElasticsearchService {
         }
       }));
 
-      const mustNotClauses = excludeIngredients ? excludeIngredients.map(ingredient => ({
-        multi_match: {
-          query: ingredient,
-          fields: ['ingredientsKo', 'ingredientsEn'],
-          fuzziness: 'AUTO'
-        }
-      })) : [];
+      // 알레르기 재료는 퍼지 매칭 없이 제외 (분류 확장은 호출 측에서)
+      const mustNotClauses = (excludeIngredients || []).map(ingredient => this.buildIngredientTermQuery(ingredient));
 
       const response = await this.client.search({
         index: this.indexName,
         body: {
           query: {
             bool: {
-              must: mustClauses,
+              should: shouldClauses,
+              minimum_should_match: 1,
               must_not: mustNotClauses
             }
           },
@@ -293,8 +860,11 @@ export class ElasticsearchService {
             match_all: {}
           },
           size: size,
+          // 북마크/평점 집계 값 기준 정렬 (값이 없는 문서는 뒤로)
           sort: [
-            { '_score': { order: 'desc' } },
+            { 'bookmarkCount': { order: 'desc', unmapped_type: 'float', missing: '_last' } },
+            { 'averageRating': { order: 'desc', unmapped_type: 'float', missing: '_last' } },
+            { 'ratingCount': { order: 'desc', unmapped_type: 'float', missing: '_last' } },
             { 'cookingTime': { order: 'asc' } }
           ]
         },
@@ -333,6 +903,31 @@ export class ElasticsearchService {
     }
   }
 
+  /**
+   * 레시피 인덱스 집계 실행
+   */
+  async aggregateRecipes(
+    aggs: Record<string, any>,
+    query: Record<string, any> = { match_all: {} }
+  ): Promise<Record<string, any>> {
+    try {
+      const response = await this.client.search({
+        index: this.indexName,
+        body: {
+          size: 0,
+          query,
+          aggs
+        },
+      });
+
+      return (response.aggregations as Record<string, any>) || {};
+
+    } catch (error) {
+      this.logger.error('❌ Aggregate recipes error:', error instanceof Error ? error.message : error);
+      return {};
+    }
+  }
+
   /**
    * 레시피 카테고리 목록 조회
    */
@@ -366,4 +961,118 @@ export class ElasticsearchService {
       return [];
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * 텍스트 검색 쿼리 생성 (응답 언어 필드에 더 높은 가중치)
+   */
+  private buildTextQuery(query: string, lang: RecipeLanguage = 'ko') {
+    const primary = lang === 'en' ? 'En' : 'Ko';
+    const secondary = lang === 'en' ? 'Ko' : 'En';
+
+    return {
+      bool: {
+        should: [
+          {
+            multi_match: {
+              query: query,
+              fields: [
+                `name${primary}^3`,
+                `name${secondary}^2`,
+                `description${primary}^2`,
+                `description${secondary}`,
+                `ingredients${primary}^2`,
+                `ingredients${secondary}`,
+                `steps${primary}`,
+                `steps${secondary}`,
+                'tags^1.5',
+                'category^1.5'
+              ],
+              type: 'best_fields' as const,
+              fuzziness: 'AUTO'
+            }
+          },
+          {
+            match: {
+              [`ingredients${primary}`]: {
+                query: query,
+                boost: 2
+              }
+            }
+          }
+        ],
+        minimum_should_match: 1
+      }
+    };
+  }
+
+  /**
+   * 재료명 포함 쿼리 (레시피 이름/재료 한 줄 단위, IngredientParserUtil.containsTerm 과 같은 기준)
+   * 영문은 단어 경계(복수형 포함), 한 글자 한글은 단어 첫머리, 그 외 한글은 "땅콩버터" 처럼 붙어 쓴 표기도 부분 일치
+   * 예외 표기가 들어 있는 줄은 일치로 보지 않음 (우유 알레르기의 "땅콩버터")
+   * "우유 또는 두유" 처럼 예외와 재료가 함께 있는 줄은 AllergenService.findMatches 후처리에서 다시 걸러냄
+   */
+  private buildIngredientTermQuery(exclusion: string | IngredientExclusion): Record<string, any> {
+    const { term, exceptions = [] } = typeof exclusion === 'string' ? { term: exclusion } : exclusion;
+    const escape = (text: string) => text.trim().replace(/[.?+*|{}[\]()"\\#@&<>~]/g, '\\$&');
+    const normalized = term.trim().toLowerCase();
+
+    let pattern: string;
+    if (/^[a-z\s-]+$/.test(normalized)) {
+      pattern = `(.*[^a-zA-Z])?${escape(normalized).replace(/[-\s]+/g, '[- ]')}s?([^a-zA-Z].*)?`;
+    } else if (normalized.length === 1) {
+      pattern = `(.*[ ,()/·])?${escape(normalized)}.*`;
+    } else {
+      pattern = `.*${escape(normalized)}.*`;
+    }
+    if (exceptions.length > 0) {
+      pattern = `(${pattern})&~(.*(${exceptions.map(escape).join('|')}).*)`;
+    }
+
+    return {
+      bool: {
+        should: ['ingredientsKo', 'ingredientsEn', 'nameKo', 'nameEn'].map(field => ({
+          regexp: { [`${field}.keyword`]: { value: pattern, flags: 'INTERSECTION|COMPLEMENT', case_insensitive: true } }
+        })),
+        minimum_should_match: 1
+      }
+    };
+  }
+
+  /**
+   * 정렬 기준 생성
+   * 평점/조회수 필드가 없는 문서도 있으므로 unmapped_type 과 missing 을 지정
+   */
+  private buildSort(
+    sortBy: NonNullable<RecipeSearchOptions['sortBy']>,
+    sortOrder: 'asc' | 'desc'
+  ): Record<string, any>[] {
+    const numericSort = (field: string) => ({
+      [field]: { order: sortOrder, unmapped_type: 'float', missing: '_last' }
+    });
+
+    switch (sortBy) {
+      case 'rating':
+        return [numericSort('averageRating'), numericSort('ratingCount'), { '_score': { order: 'desc' } }];
+      case 'time':
+        return [numericSort('cookingTime'), { '_score': { order: 'desc' } }];
+      case 'popularity':
+        return [numericSort('viewCount'), numericSort('bookmarkCount'), { '_score': { order: 'desc' } }];
+      default:
+        return [{ '_score': { order: sortOrder } }];
+    }
+  }
+
+  /**
+   * 같은 ID 문서가 이미 있어 create 가 거부된 오류 여부 (409)
+   */
+  isConflictError(error: unknown): boolean {
+    return (error as { meta?: { statusCode?: number } })?.meta?.statusCode === 409;
+  }
+
+  /**
+   * 문서/인덱스 미존재 오류 여부
+   */
+  private isNotFoundError(error: unknown): boolean {
+    return (error as { meta?: { statusCode?: number } })?.meta?.statusCode === 404;
+  }
+}
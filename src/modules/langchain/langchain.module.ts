@@ -5,9 +5,13 @@ import { StreamingService } from './services/streaming.service';
 import { RecipeSearchService } from './services/recipe-search.service';
 import { ReactAgentService } from './services/react-agent.service';
 import { ElasticsearchModule } from '../elasticsearch/elasticsearch.module';
+import { ConversionModule } from '../conversion/conversion.module';
+import { NutritionModule } from '../nutrition/nutrition.module';
+import { AllergenModule } from '../allergen/allergen.module';
+import { DietaryModule } from '../dietary/dietary.module';
 
 @Module({
-  imports: [ElasticsearchModule],
+  imports: [ElasticsearchModule, ConversionModule, NutritionModule, AllergenModule, DietaryModule],
   providers: [
     // 🎯 메인 오케스트레이터
     LangChainService,
@@ -3,6 +3,8 @@ import { IntentAnalysisService } from './services/intent-analysis.service';
 import { StreamingService } from './services/streaming.service';
 import { RecipeSearchService } from './services/recipe-search.service';
 import { RecipeTransformUtil } from './utils/recipe-transform.util';
+import { RecipeScalingUtil } from './utils/recipe-scaling.util';
+import { LanguageUtil } from './utils/language.util';
 import { 
   StreamingChunk, 
   ConversationContext,
@@ -37,7 +39,17 @@ export class LangChainService {
     context?: ConversationContext
   ): AsyncGenerator<StreamingChunk, void, unknown> {
     const startTime = Date.now();
-    this.logger.log(`🌊 [${sessionId}] Starting conversation orchestration`);
+
+    // 응답 언어: 요청에 lang 이 없으면 메시지에서 감지
+    const lang = LanguageUtil.resolve(context?.lang, message);
+    context = { ...context, lang };
+    this.logger.log(`🌊 [${sessionId}] Starting conversation orchestration (${lang})`);
+
+    // "4인분으로" 등 인분 요청이 있으면 재료량 조절에 사용
+    const requestedServings = RecipeScalingUtil.extractRequestedServings(message);
+    if (requestedServings) {
+      context = { ...context, requestedServings };
+    }
 
     try {
       // 1. 타이핑 시작 신호 전송
@@ -78,7 +90,9 @@ export class LangChainService {
             confidence: intentAnalysis.confidence,
             processingTime: Date.now() - startTime,
             searchResults: searchResult.recipes.length,
-            recipes: RecipeTransformUtil.transformRecipes(searchResult.recipes),
+            recipes: RecipeTransformUtil.transformRecipes(searchResult.recipes, lang).map(recipe =>
+              requestedServings ? RecipeScalingUtil.applyScaling(recipe, requestedServings, lang) : recipe
+            ),
             recipeDetail: searchResult.recipeDetail,
             conversationType: 'standard' // 필수 필드 추가
           };
@@ -101,7 +115,9 @@ export class LangChainService {
       this.logger.error(`❌ [${sessionId}] Conversation stream error:`, error);
       yield {
         type: 'error',
-        content: '죄송합니다. 일시적인 오류가 발생했습니다.',
+        content: lang === 'en'
+          ? 'Sorry, something went wrong. Please try again in a moment.'
+          : '죄송합니다. 일시적인 오류가 발생했습니다.',
         sessionId,
         timestamp: Date.now()
       };
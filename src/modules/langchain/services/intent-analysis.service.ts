@@ -104,9 +104,9 @@ export class IntentAnalysisService {
    * Fallback 의도 분류 (규칙 기반)
    */
   private fallbackIntentClassification(message: string): IntentAnalysis {
-    const detailKeywords = /만드는\s*법|어떻게|조리법|레시피.*자세히|상세히|단계별|방법/i;
-    const helpKeywords = /대신|대체|실패|왜|문제|보관|익혀야|온도|시간|팁/i;
-    const recipeKeywords = /(레시피|요리|만들|음식|메뉴|추천|간식|반찬|국물|찌개|볶음|구이)/i;
+    const detailKeywords = /만드는\s*법|어떻게|조리법|레시피.*자세히|상세히|단계별|방법|how\s+(?:do\s+i|to)\s+(?:make|cook)|step[\s-]by[\s-]step|instructions/i;
+    const helpKeywords = /대신|대체|실패|왜|문제|보관|익혀야|온도|시간|팁|instead\s+of|substitut|\bwhy\b|\bstore\b|temperature|\btips?\b/i;
+    const recipeKeywords = /(레시피|요리|만들|음식|메뉴|추천|간식|반찬|국물|찌개|볶음|구이|recipe|\bcook|\bdish|\bmeal|recommend|\bsnack|\bsoup|\bstew)/i;
 
     if (detailKeywords.test(message)) {
       return {
@@ -2,8 +2,10 @@ import { Injectable, Logger } from '@nestjs/common';
 import { Ollama } from '@langchain/ollama';
 import { RecipeSearchService } from './recipe-search.service';
 import { ElasticsearchService } from '../../elasticsearch/elasticsearch.service';
-import { ConversationContext } from '../types/langchain.types';
+import { ConversionService } from '../../conversion/conversion.service';
+import { ConversationContext, RecipeLanguage } from '../types/langchain.types';
 import { RecipeTransformUtil } from '../utils/recipe-transform.util';
+import { LanguageUtil } from '../utils/language.util';
 
 /**
  * 🧠 진짜 ReAct (Reasoning + Acting) 패턴 에이전트
@@ -17,6 +19,7 @@ export class ReactAgentService {
   constructor(
     private readonly recipeSearchService: RecipeSearchService,
     private readonly elasticsearchService: ElasticsearchService,
+    private readonly conversionService: ConversionService,
   ) {
     this.ollama = new Ollama({
       baseUrl: process.env.OLLAMA_URL || 'http://localhost:11434',
@@ -33,9 +36,10 @@ export class ReactAgentService {
   async *executeReactStream(
     input: string, 
     _sessionId: string,
-    _context?: ConversationContext
+    context?: ConversationContext
   ): AsyncGenerator<any, void, unknown> {
     
+    const lang = LanguageUtil.resolve(context?.lang, input);
     let step = 0;
     const maxSteps = 5; // 무한 루프 방지
     let finalAnswer = '';
@@ -44,14 +48,15 @@ export class ReactAgentService {
     const availableTools = [
       'recipe_search: 레시피를 검색합니다',
       'get_cooking_tips: 요리 팁을 제공합니다', 
-      'ingredient_substitute: 재료 대체 방법을 알려줍니다'
+      'ingredient_substitute: 재료 대체 방법을 알려줍니다',
+      'unit_convert: 계량 단위를 정확히 변환합니다 (예: "2큰술 ml", "350°F", "1컵 밀가루 g")'
     ];
 
     while (step < maxSteps && !finalAnswer) {
       step++;
       
       // Step 1: LLM에게 현재 상황을 분석하고 다음 행동 결정하도록 요청
-      const thinkingPrompt = this.buildThinkingPrompt(input, step, availableTools);
+      const thinkingPrompt = this.buildThinkingPrompt(input, step, availableTools, lang);
       
       yield {
         type: 'thought',
@@ -97,7 +102,7 @@ export class ReactAgentService {
         };
 
         // 실제 도구 실행
-        const toolResult = await this.executeTool(actionDecision.action, actionDecision.input);
+        const toolResult = await this.executeTool(actionDecision.action, actionDecision.input, lang);
         
         yield {
           type: 'observation',
@@ -108,7 +113,7 @@ export class ReactAgentService {
         };
 
         // LLM에게 결과를 바탕으로 최종 답변 생성하도록 요청
-        const conclusionPrompt = this.buildConclusionPrompt(input, reasoning, toolResult);
+        const conclusionPrompt = this.buildConclusionPrompt(input, reasoning, toolResult, lang);
         const conclusion = await this.ollama.invoke(conclusionPrompt);
         finalAnswer = typeof conclusion === 'string' 
           ? conclusion 
@@ -137,7 +142,7 @@ export class ReactAgentService {
   /**
    * 🧠 LLM이 추론할 수 있는 프롬프트 생성
    */
-  private buildThinkingPrompt(input: string, step: number, tools: string[]): string {
+  private buildThinkingPrompt(input: string, step: number, tools: string[], lang: RecipeLanguage): string {
     return `당신은 전문 AI 요리사입니다. 다음 사용자 요청을 분석하고 적절한 행동을 결정하세요.
 
 사용자 요청: "${input}"
@@ -150,12 +155,13 @@ ${tools.map(tool => `- ${tool}`).join('\n')}
 1. recipe_search: 레시피 검색이 필요한 경우
 2. get_cooking_tips: 요리 팁이 필요한 경우  
 3. ingredient_substitute: 재료 대체가 필요한 경우
-4. final_answer: 충분한 정보가 있어 바로 답변 가능한 경우
+4. unit_convert: 계량 단위/온도 변환이 필요한 경우 (직접 계산하지 말고 반드시 이 도구 사용)
+5. final_answer: 충분한 정보가 있어 바로 답변 가능한 경우
 
 응답 형식:
 REASONING: [왜 이 행동을 선택했는지 설명]
 ACTION: [선택한 도구 이름 또는 final_answer]
-INPUT: [도구에 전달할 입력값, final_answer인 경우 답변 내용]`;
+INPUT: [도구에 전달할 입력값, final_answer인 경우 답변 내용]${this.answerLanguageRule(lang)}`;
   }
 
   /**
@@ -178,12 +184,12 @@ INPUT: [도구에 전달할 입력값, final_answer인 경우 답변 내용]`;
   /**
    * 🔧 실제 도구 실행
    */
-  private async executeTool(toolName: string, input: string): Promise<string> {
+  private async executeTool(toolName: string, input: string, lang: RecipeLanguage): Promise<string> {
     try {
       switch (toolName) {
         case 'recipe_search':
-          const searchResult = await this.recipeSearchService.searchAndProcessRecipes(input);
-          const transformed = RecipeTransformUtil.transformRecipes(searchResult.recipes);
+          const searchResult = await this.recipeSearchService.searchAndProcessRecipes(input, { lang });
+          const transformed = RecipeTransformUtil.transformRecipes(searchResult.recipes, lang);
           return `${transformed.length}개의 레시피를 찾았습니다: ${transformed.slice(0, 3).map(r => r.title).join(', ')}`;
           
         case 'get_cooking_tips':
@@ -191,6 +197,9 @@ INPUT: [도구에 전달할 입력값, final_answer인 경우 답변 내용]`;
           
         case 'ingredient_substitute':
           return this.getIngredientSubstitutes(input);
+
+        case 'unit_convert':
+          return this.convertUnits(input);
           
         default:
           return '알 수 없는 도구입니다.';
@@ -204,12 +213,31 @@ INPUT: [도구에 전달할 입력값, final_answer인 경우 답변 내용]`;
   /**
    * 📝 최종 답변 생성 프롬프트
    */
-  private buildConclusionPrompt(userInput: string, reasoning: string, toolResult: string): string {
+  private buildConclusionPrompt(userInput: string, reasoning: string, toolResult: string, lang: RecipeLanguage): string {
     return `사용자 요청: "${userInput}"
 이전 추론: ${reasoning}
 도구 실행 결과: ${toolResult}
 
-위 정보를 바탕으로 사용자에게 도움이 되는 친근한 답변을 작성해주세요. 구체적이고 실용적인 조언을 포함하세요.`;
+위 정보를 바탕으로 사용자에게 도움이 되는 친근한 답변을 작성해주세요. 구체적이고 실용적인 조언을 포함하세요.
+도구 실행 결과에 포함된 수치(변환 값 등)는 다시 계산하지 말고 그대로 사용하세요.${this.answerLanguageRule(lang)}`;
+  }
+
+  /**
+   * 영어 요청이면 답변을 영어로 작성하도록 지시 (도구 이름/응답 형식은 그대로)
+   */
+  private answerLanguageRule(lang: RecipeLanguage): string {
+    return lang === 'en' ? '\n\n사용자에게 보여줄 답변은 반드시 영어(English)로 작성하세요.' : '';
+  }
+
+  /**
+   * 계량 단위 변환 (변환 서비스의 결정적 계산 결과 사용)
+   */
+  private convertUnits(input: string): string {
+    try {
+      return this.conversionService.convertFromText(input).explanation;
+    } catch (error) {
+      return `단위 변환에 실패했습니다: ${error instanceof Error ? error.message : error}`;
+    }
   }
 
   /**
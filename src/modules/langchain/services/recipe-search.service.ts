@@ -1,12 +1,34 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ElasticsearchService, ElasticsearchRecipe } from '../../elasticsearch/elasticsearch.service';
-import { ConversationContext, RecipeSearchResult, RecipeDetailResult } from '../types/langchain.types';
+import { ConversationContext, RecipeSearchResult, RecipeDetailResult, RecipeLanguage } from '../types/langchain.types';
+import { RecipeFormatUtil } from '../utils/recipe-format.util';
+import { RecipeScalingUtil } from '../utils/recipe-scaling.util';
+import { RecipeTransformUtil } from '../utils/recipe-transform.util';
+import { LanguageUtil } from '../utils/language.util';
+import { NutritionService } from '../../nutrition/nutrition.service';
+import { NutritionEstimate } from '../../nutrition/interfaces/nutrition.interface';
+import { AllergenService } from '../../allergen/allergen.service';
+import { AllergyExclusion } from '../../allergen/interfaces/allergen.interface';
+import { DietaryService } from '../../dietary/dietary.service';
+import { DietaryExclusion, DietaryProfileId } from '../../dietary/interfaces/dietary.interface';
 
 @Injectable()
 export class RecipeSearchService {
   private readonly logger = new Logger(RecipeSearchService.name);
 
-  constructor(private readonly elasticsearchService: ElasticsearchService) {
+  // 검색어에서 제외할 단어 (한국어/영어)
+  private static readonly STOP_WORDS = [
+    '레시피', '요리', '만들기', '어떻게', '알려주세요', '해주세요', '추천', '추천해줘', '알려줘', '좀', '그냥', '있나요',
+    'recipe', 'recipes', 'how', 'to', 'make', 'cook', 'the', 'a', 'an', 'for', 'with', 'me', 'some', 'please',
+    'recommend', 'show', 'want', 'can', 'you', 'give', 'what', 'is', 'of', 'and', 'i', 'my',
+  ];
+
+  constructor(
+    private readonly elasticsearchService: ElasticsearchService,
+    private readonly nutritionService: NutritionService,
+    private readonly allergenService: AllergenService,
+    private readonly dietaryService: DietaryService,
+  ) {
     this.logger.log('🔍 Recipe Search Service initialized');
   }
 
@@ -19,31 +41,54 @@ export class RecipeSearchService {
     limit: number = 10
   ): Promise<RecipeSearchResult> {
     const startTime = Date.now();
+    const lang = context?.lang ?? 'ko';
     
     try {
-      this.logger.log(`🔍 Searching recipes for: "${message.substring(0, 30)}..."`);
+      this.logger.log(`🔍 Searching recipes for: "${message.substring(0, 30)}..." (${lang})`);
       
-      // 1. 키워드 추출
-      const keywords = this.extractSearchKeywords(message);
+      // 1. 키워드 추출 (식단 조건 단어는 검색어가 아닌 필터로 사용)
+      const dietaryProfiles = this.resolveDietaryProfiles(message, context);
+      const keywords = this.extractSearchKeywords(message)
+        .filter(keyword => this.dietaryService.detectProfiles(keyword).length === 0);
       this.logger.log(`🎯 Extracted keywords: ${keywords.join(', ')}`);
       
-      // 2. Elasticsearch 검색
-      const searchResults = await this.elasticsearchService.searchRecipes(
-        keywords.join(' '),
-        limit
-      );
+      // 2. Elasticsearch 검색 (식단 조건이 있으면 저장된 식단 라벨로 필터)
+      const searchResults = dietaryProfiles.length > 0
+        ? (await this.elasticsearchService.searchRecipesWithFilters({
+            query: keywords.join(' ') || undefined,
+            dietaryLabels: dietaryProfiles,
+            size: limit,
+            lang,
+          })).recipes
+        : await this.elasticsearchService.searchRecipes(keywords.join(' '), limit, lang);
 
-      // 3. 알레르기 필터링
+      // 3. 식단 필터링 (라벨이 규칙표와 다르게 저장된 레시피 보정, 제외 사유 포함)
       let filteredRecipes = searchResults;
+      let dietaryExclusions: DietaryExclusion[] = [];
+      if (dietaryProfiles.length > 0) {
+        ({ recipes: filteredRecipes, exclusions: dietaryExclusions } = this.dietaryService.filterRecipes(
+          searchResults,
+          recipe => this.dietaryService.describeRecipe(recipe),
+          dietaryProfiles,
+          lang
+        ));
+        this.logger.log(`🥗 Filtered by diets (${dietaryProfiles.join(', ')}): ${searchResults.length} → ${filteredRecipes.length}`);
+      }
+
+      // 4. 알레르기 필터링 (분류/동의어 기반, 제외 사유 포함)
+      let exclusions: AllergyExclusion[] = [];
       if (context?.allergies && context.allergies.length > 0) {
-        filteredRecipes = this.filterRecipesByAllergies(searchResults, context.allergies);
-        this.logger.log(`🚫 Filtered by allergies: ${searchResults.length} → ${filteredRecipes.length}`);
+        const beforeAllergyFilter = filteredRecipes.length;
+        ({ recipes: filteredRecipes, exclusions } = this.filterRecipesByAllergies(filteredRecipes, context.allergies, lang));
+        this.logger.log(`🚫 Filtered by allergies: ${beforeAllergyFilter} → ${filteredRecipes.length}`);
       }
 
       const processingTime = Date.now() - startTime;
       
       return {
-        content: this.generateSearchSummary(filteredRecipes, message),
+        content: this.generateSearchSummary(filteredRecipes, message, lang) +
+          this.formatDietaryConstraints(dietaryProfiles, dietaryExclusions, lang) +
+          this.formatAllergyExclusions(exclusions, lang),
         metadata: {
           intent: 'recipe_list',
           confidence: 0.9,
@@ -57,7 +102,9 @@ export class RecipeSearchService {
       this.logger.error('❌ Recipe search failed:', error);
       
       return {
-        content: '죄송합니다. 레시피 검색 중 오류가 발생했습니다.',
+        content: lang === 'en'
+          ? 'Sorry, something went wrong while searching for recipes.'
+          : '죄송합니다. 레시피 검색 중 오류가 발생했습니다.',
         metadata: {
           intent: 'recipe_list',
           confidence: 0.5,
@@ -74,9 +121,10 @@ export class RecipeSearchService {
    */
   async getRecipeDetailWithLLM(
     recipeId: string,
-    _context?: ConversationContext
+    context?: ConversationContext
   ): Promise<RecipeDetailResult> {
     const startTime = Date.now();
+    const lang = context?.lang ?? 'ko';
     
     try {
       this.logger.log(`📖 Getting recipe detail for ID: ${recipeId}`);
@@ -86,7 +134,7 @@ export class RecipeSearchService {
       
       if (!recipe) {
         return {
-          content: '요청하신 레시피를 찾을 수 없습니다.',
+          content: lang === 'en' ? "Sorry, I couldn't find that recipe." : '요청하신 레시피를 찾을 수 없습니다.',
           metadata: {
             intent: 'recipe_detail',
             confidence: 0.5,
@@ -96,8 +144,20 @@ export class RecipeSearchService {
         };
       }
 
-      // 레시피 정보를 마크다운 형식으로 포맷
-      const formattedContent = this.formatRecipeToMarkdown(recipe);
+      // 레시피 정보를 마크다운 형식으로 포맷 (요청 인분이 있으면 재료량 조절)
+      const servings = context?.requestedServings;
+      let formattedContent = servings
+        ? this.formatScaledRecipe(recipe, servings, lang)
+        : RecipeFormatUtil.toMarkdown(recipe, this.estimateMissingNutrition(recipe), lang);
+
+      // 사용자의 요리 기록이 있으면 함께 안내
+      const cookingRecord = context?.cookingHistory?.find(h => h.recipeId === recipe.id);
+      if (cookingRecord) {
+        const lastCookedAt = cookingRecord.lastCookedAt?.substring(0, 10);
+        formattedContent += lang === 'en'
+          ? `\n> 📝 You've made this recipe ${cookingRecord.cookCount} time(s)${lastCookedAt ? `, last on ${lastCookedAt}` : ''}\n`
+          : `\n> 📝 이 레시피를 ${cookingRecord.cookCount}번 만들어 보셨어요${lastCookedAt ? `, 마지막: ${lastCookedAt}` : ''}\n`;
+      }
 
       return {
         content: formattedContent,
@@ -113,7 +173,9 @@ export class RecipeSearchService {
       this.logger.error('❌ Recipe detail retrieval failed:', error);
       
       return {
-        content: '레시피 상세 정보를 가져오는 중 오류가 발생했습니다.',
+        content: lang === 'en'
+          ? 'Something went wrong while loading the recipe details.'
+          : '레시피 상세 정보를 가져오는 중 오류가 발생했습니다.',
         metadata: {
           intent: 'recipe_detail',
           confidence: 0.5,
@@ -128,19 +190,17 @@ export class RecipeSearchService {
    * 메시지에서 검색 키워드 추출
    */
   private extractSearchKeywords(message: string): string[] {
-    // 불용어 제거
-    const stopWords = ['레시피', '요리', '만들기', '어떻게', '알려주세요', '해주세요', '추천', '좀', '그냥', '있나요'];
-    
-    // 기본 키워드 추출 (공백 기준 분리)
+    // 기본 키워드 추출 (공백 기준 분리, 불용어 제거)
     const words = message
       .replace(/[^\w\s가-힣]/g, ' ')
       .split(/\s+/)
       .filter(word => word.length > 1)
-      .filter(word => !stopWords.includes(word.toLowerCase()));
+      .filter(word => !RecipeSearchService.STOP_WORDS.includes(word.toLowerCase()));
 
     // 음식 관련 키워드 우선순위
     const foodKeywords = words.filter(word => 
-      /^(닭|돼지|소|생선|야채|김치|파스타|밥|국|찌개|볶음|구이|튀김|샐러드|디저트)/.test(word)
+      /^(닭|돼지|소|생선|야채|김치|파스타|밥|국|찌개|볶음|구이|튀김|샐러드|디저트)/.test(word) ||
+      /^(chicken|pork|beef|fish|salmon|vegetable|kimchi|pasta|rice|soup|stew|salad|dessert|noodle)/i.test(word)
     );
 
     return foodKeywords.length > 0 ? foodKeywords : words.slice(0, 3);
@@ -149,83 +209,63 @@ export class RecipeSearchService {
   /**
    * 검색 결과 요약 생성
    */
-  private generateSearchSummary(recipes: ElasticsearchRecipe[], originalMessage: string): string {
+  private generateSearchSummary(recipes: ElasticsearchRecipe[], originalMessage: string, lang: RecipeLanguage): string {
+    const en = lang === 'en';
     if (recipes.length === 0) {
-      return `"${originalMessage}"와 관련된 레시피를 찾지 못했습니다. 다른 검색어로 시도해보세요.`;
+      return en
+        ? `I couldn't find any recipes for "${originalMessage}". Try a different search.`
+        : `"${originalMessage}"와 관련된 레시피를 찾지 못했습니다. 다른 검색어로 시도해보세요.`;
     }
 
     const topRecipes = recipes.slice(0, 3).map(recipe => 
-      recipe.nameKo || recipe.nameEn || '레시피'
+      LanguageUtil.pick(lang, recipe.nameKo, recipe.nameEn) || (en ? 'Recipe' : '레시피')
     );
 
-    return `"${originalMessage}" 관련 레시피 ${recipes.length}개를 찾았습니다! 추천 레시피: ${topRecipes.join(', ')} 등이 있습니다.`;
+    return en
+      ? `Found ${recipes.length} recipe(s) for "${originalMessage}"! Top picks: ${topRecipes.join(', ')}.`
+      : `"${originalMessage}" 관련 레시피 ${recipes.length}개를 찾았습니다! 추천 레시피: ${topRecipes.join(', ')} 등이 있습니다.`;
   }
 
   /**
-   * 레시피를 마크다운 형식으로 포맷
+   * 요청 인분으로 조절한 마크다운 (조절 불가 재료와 시간 안내 포함)
    */
-  private formatRecipeToMarkdown(recipe: ElasticsearchRecipe): string {
-    const title = recipe.nameKo || recipe.nameEn || '레시피';
-    const description = recipe.descriptionKo || recipe.descriptionEn || '';
-    const cookingTime = recipe.cookingTime || 30;
-    const servings = recipe.servings || 2;
-    const difficulty = this.mapDifficultyToKorean(recipe.difficulty);
-    const category = recipe.category || '일반';
-    const ingredients = recipe.ingredientsKo || recipe.ingredientsEn || [];
-    const steps = recipe.stepsKo || recipe.stepsEn || [];
-    const tags = recipe.tags || [];
-
-    let formatted = `# 🍳 ${title}\n\n`;
-    
-    if (description) {
-      formatted += `**설명**: ${description}\n\n`;
-    }
-    
-    formatted += `**⏱️ 조리시간**: ${cookingTime}분\n`;
-    formatted += `**🍽️ 분량**: ${servings}인분\n`;
-    formatted += `**📊 난이도**: ${difficulty}\n`;
-    formatted += `**🏷️ 카테고리**: ${category}\n\n`;
-    
-    if (tags.length > 0) {
-      formatted += `**🏷️ 태그**: ${tags.join(', ')}\n\n`;
-    }
-    
-    if (ingredients.length > 0) {
-      formatted += `## 🥘 재료\n\n`;
-      ingredients.forEach((ingredient, idx) => {
-        formatted += `${idx + 1}. ${ingredient}\n`;
-      });
-      formatted += '\n';
-    }
-    
-    if (steps.length > 0) {
-      formatted += `## 👨‍🍳 조리법\n\n`;
-      steps.forEach((step, idx) => {
-        formatted += `${idx + 1}. ${step}\n`;
-      });
-      formatted += '\n';
+  private formatScaledRecipe(recipe: ElasticsearchRecipe, servings: number, lang: RecipeLanguage): string {
+    const scaled = RecipeScalingUtil.applyScaling(RecipeTransformUtil.transformRecipe(recipe, lang), servings, lang);
+    const { scaling } = scaled;
+    // 변환 시 선택된 언어의 재료 필드를 조절한 재료로 교체
+    const useKorean = LanguageUtil.pick(lang, recipe.ingredientsKo, recipe.ingredientsEn) !== recipe.ingredientsEn;
+
+    let formatted = RecipeFormatUtil.toMarkdown({
+      ...recipe,
+      servings: scaling.targetServings,
+      ...(useKorean ? { ingredientsKo: scaled.ingredients } : { ingredientsEn: scaled.ingredients }),
+    }, this.estimateMissingNutrition(recipe), lang);
+
+    if (lang === 'en') {
+      formatted += `\n> ⚖️ Scaled from ${scaling.originalServings} to ${scaling.targetServings} servings (x${scaling.factor})\n`;
+      if (scaling.unscalableIngredients.length > 0) {
+        formatted += `> ⚠️ Couldn't scale automatically: ${scaling.unscalableIngredients.join(', ')} (adjust to taste)\n`;
+      }
+    } else {
+      formatted += `\n> ⚖️ ${scaling.originalServings}인분 기준 레시피를 ${scaling.targetServings}인분으로 조절했어요 (x${scaling.factor})\n`;
+      if (scaling.unscalableIngredients.length > 0) {
+        formatted += `> ⚠️ 자동으로 조절하지 못한 재료: ${scaling.unscalableIngredients.join(', ')} (입맛에 맞게 조절하세요)\n`;
+      }
     }
-    
-    if (recipe.nutrition) {
-      formatted += `## 🍎 영양정보\n\n`;
-      if (recipe.nutrition.calories) formatted += `- 칼로리: ${recipe.nutrition.calories}kcal\n`;
-      if (recipe.nutrition.protein) formatted += `- 단백질: ${recipe.nutrition.protein}g\n`;
-      if (recipe.nutrition.carbs) formatted += `- 탄수화물: ${recipe.nutrition.carbs}g\n`;
-      if (recipe.nutrition.fat) formatted += `- 지방: ${recipe.nutrition.fat}g\n`;
+    if (scaling.cookingTimeHint) {
+      formatted += `> ⏱️ ${scaling.cookingTimeHint}\n`;
     }
-    
+
     return formatted;
   }
 
   /**
-   * 난이도를 한국어로 매핑
+   * 저장된 영양 정보가 없을 때만 재료 기반 추정 (1인분 값은 인분과 무관)
    */
-  private mapDifficultyToKorean(difficulty?: string): string {
-    if (!difficulty) return '보통';
-    const lower = difficulty.toLowerCase();
-    if (lower.includes('easy') || lower.includes('쉬')) return '쉬움';
-    if (lower.includes('hard') || lower.includes('어려')) return '어려움';
-    return '보통';
+  private estimateMissingNutrition(recipe: ElasticsearchRecipe): NutritionEstimate | undefined {
+    return this.nutritionService.hasStoredNutrition(recipe.nutrition)
+      ? undefined
+      : this.nutritionService.estimateForRecipe(recipe);
   }
 
   /**
@@ -233,18 +273,73 @@ export class RecipeSearchService {
    */
   private filterRecipesByAllergies(
     recipes: ElasticsearchRecipe[], 
-    allergies: string[]
-  ): ElasticsearchRecipe[] {
-    return recipes.filter(recipe => {
-      const ingredients = [...(recipe.ingredientsKo || []), ...(recipe.ingredientsEn || [])];
-      const title = `${recipe.nameKo || ''} ${recipe.nameEn || ''}`;
-      const description = `${recipe.descriptionKo || ''} ${recipe.descriptionEn || ''}`;
-      const allText = `${ingredients.join(' ')} ${title} ${description}`.toLowerCase();
-      
-      return !allergies.some(allergy => 
-        allText.includes(allergy.toLowerCase()) ||
-        allergy.toLowerCase().includes(allText)
-      );
-    });
+    allergies: string[],
+    lang: RecipeLanguage
+  ): { recipes: ElasticsearchRecipe[]; exclusions: AllergyExclusion[] } {
+    return this.allergenService.filterRecipes(
+      recipes,
+      recipe => this.allergenService.describeRecipe(recipe),
+      allergies,
+      lang
+    );
+  }
+
+  /**
+   * 메시지의 식단 표현과 사용자 식단 제한을 합친 식단 조건
+   */
+  private resolveDietaryProfiles(message: string, context?: ConversationContext): DietaryProfileId[] {
+    return [...new Set([
+      ...this.dietaryService.resolveProfiles(context?.dietaryRestrictions),
+      ...this.dietaryService.detectProfiles(message),
+    ])];
+  }
+
+  /**
+   * 적용한 식단 조건과 규칙표 검사에서 제외한 레시피 안내 (최대 3개)
+   */
+  private formatDietaryConstraints(profiles: DietaryProfileId[], exclusions: DietaryExclusion[], lang: RecipeLanguage): string {
+    if (profiles.length === 0) {
+      return '';
+    }
+
+    const en = lang === 'en';
+    const names = this.dietaryService.getProfiles()
+      .filter(profile => profiles.includes(profile.id))
+      .map(profile => en ? profile.nameEn : profile.nameKo);
+    let formatted = en
+      ? `\n\n🥗 Dietary filters applied: ${names.join(', ')}`
+      : `\n\n🥗 적용한 식단 조건: ${names.join(', ')}`;
+
+    if (exclusions.length > 0) {
+      formatted += en
+        ? `\nRecipes excluded for not matching your diet:\n${this.formatExclusionLines(exclusions, lang)}`
+        : `\n식단 조건에 맞지 않아 제외한 레시피:\n${this.formatExclusionLines(exclusions, lang)}`;
+    }
+
+    return formatted;
+  }
+
+  /**
+   * 알레르기로 제외한 레시피 안내 (최대 3개)
+   */
+  private formatAllergyExclusions(exclusions: AllergyExclusion[], lang: RecipeLanguage): string {
+    if (exclusions.length === 0) {
+      return '';
+    }
+
+    return lang === 'en'
+      ? `\n\n🚫 Recipes excluded because of your allergies:\n${this.formatExclusionLines(exclusions, lang)}`
+      : `\n\n🚫 알레르기 때문에 제외한 레시피:\n${this.formatExclusionLines(exclusions, lang)}`;
+  }
+
+  /**
+   * 제외 사유 목록 (최대 3개, 나머지는 개수만)
+   */
+  private formatExclusionLines(exclusions: Array<AllergyExclusion | DietaryExclusion>, lang: RecipeLanguage): string {
+    const lines = exclusions.slice(0, 3).map(exclusion => `- ${exclusion.recipeName}: ${exclusion.explanation}`);
+    if (exclusions.length > 3) {
+      lines.push(lang === 'en' ? `- and ${exclusions.length - 3} more` : `- 외 ${exclusions.length - 3}개`);
+    }
+    return lines.join('\n');
   }
 }
\ No newline at end of file
@@ -1,16 +1,36 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Ollama } from '@langchain/ollama';
 import { PromptTemplate } from '@langchain/core/prompts';
-import { IntentAnalysis, ConversationContext } from '../types/langchain.types';
+import { IntentAnalysis, ConversationContext, RecipeLanguage } from '../types/langchain.types';
+
+/**
+ * 언어별 프롬프트 묶음
+ */
+interface PromptSet {
+  recipeList: PromptTemplate;
+  recipeDetail: PromptTemplate;
+  cookingHelp: PromptTemplate;
+  cookAlong: PromptTemplate;
+  generalChat: PromptTemplate;
+}
 
 @Injectable()
 export class StreamingService {
   private readonly logger = new Logger(StreamingService.name);
   private readonly ollama: Ollama;
-  private recipeListPrompt!: PromptTemplate;
-  private recipeDetailPrompt!: PromptTemplate;
-  private cookingHelpPrompt!: PromptTemplate;
-  private generalChatPrompt!: PromptTemplate;
+  private prompts!: Record<RecipeLanguage, PromptSet>;
+
+  // 생성 실패 시 안내 문구
+  private static readonly FALLBACK_MESSAGES: Record<RecipeLanguage, { error: string; stepAnswer: string }> = {
+    ko: {
+      error: '죄송합니다. 일시적인 오류가 발생했습니다.',
+      stepAnswer: '죄송합니다. 지금은 답변을 드리기 어려워요. 현재 단계 안내를 다시 확인해주세요.',
+    },
+    en: {
+      error: 'Sorry, something went wrong. Please try again in a moment.',
+      stepAnswer: "Sorry, I can't answer right now. Please check the current step instructions again.",
+    },
+  };
 
   constructor() {
     // Ollama 모델 초기화 (응답 생성용)
@@ -25,7 +45,7 @@ export class StreamingService {
   }
 
   /**
-   * 의도에 따른 스트리밍 응답 생성
+   * 의도에 따른 스트리밍 응답 생성 (context.lang 언어의 프롬프트 사용)
    */
   async *generateStreamingResponse(
     message: string,
@@ -33,11 +53,12 @@ export class StreamingService {
     context?: ConversationContext
   ): AsyncGenerator<{ type: 'token' | 'complete'; content?: string; metadata?: any }, void, unknown> {
     const startTime = Date.now();
-    this.logger.log(`🌊 Starting streaming for intent: ${intentAnalysis.intent}`);
+    const lang = context?.lang ?? 'ko';
+    this.logger.log(`🌊 Starting streaming for intent: ${intentAnalysis.intent} (${lang})`);
 
     try {
-      const contextStr = this.buildContextString(context);
-      const selectedPrompt = this.selectPrompt(intentAnalysis.intent);
+      const contextStr = this.buildContextString(context, lang);
+      const selectedPrompt = this.selectPrompt(intentAnalysis.intent, lang);
       
       // 스트리밍 응답 생성
       const promptValue = await selectedPrompt.format({ message, context: contextStr });
@@ -69,7 +90,7 @@ export class StreamingService {
       this.logger.error('❌ Error in streaming response generation:', error);
       
       // 에러 시 기본 메시지 스트리밍
-      const errorMessage = '죄송합니다. 일시적인 오류가 발생했습니다.';
+      const errorMessage = StreamingService.FALLBACK_MESSAGES[lang].error;
       const chunkSize = 5;
       
       for (let i = 0; i < errorMessage.length; i += chunkSize) {
@@ -94,19 +115,45 @@ export class StreamingService {
     }
   }
 
+  /**
+   * 요리 진행 중 현재 단계에 대한 질문 답변 스트리밍
+   */
+  async *generateStepAnswer(
+    question: string,
+    stepContext: string,
+    lang: RecipeLanguage = 'ko'
+  ): AsyncGenerator<{ type: 'token' | 'complete'; content?: string }, void, unknown> {
+    try {
+      const promptValue = await this.prompts[lang].cookAlong.format({ question, step: stepContext });
+      const stream = await this.ollama.stream(promptValue);
+
+      for await (const chunk of stream) {
+        if (typeof chunk === 'string' && chunk.length > 0) {
+          yield { type: 'token', content: chunk };
+        }
+      }
+    } catch (error) {
+      this.logger.error('❌ Error in cook-along answer generation:', error);
+      yield { type: 'token', content: StreamingService.FALLBACK_MESSAGES[lang].stepAnswer };
+    }
+
+    yield { type: 'complete' };
+  }
+
   /**
    * 의도에 따른 프롬프트 선택
    */
-  private selectPrompt(intent: string): PromptTemplate {
+  private selectPrompt(intent: string, lang: RecipeLanguage): PromptTemplate {
+    const prompts = this.prompts[lang];
     switch (intent) {
       case 'recipe_list':
-        return this.recipeListPrompt;
+        return prompts.recipeList;
       case 'recipe_detail':
-        return this.recipeDetailPrompt;
+        return prompts.recipeDetail;
       case 'cooking_help':
-        return this.cookingHelpPrompt;
+        return prompts.cookingHelp;
       default:
-        return this.generalChatPrompt;
+        return prompts.generalChat;
     }
   }
 
@@ -114,8 +161,18 @@ export class StreamingService {
    * 프롬프트 초기화
    */
   private initializePrompts(): void {
+    this.prompts = {
+      ko: this.createKoreanPrompts(),
+      en: this.createEnglishPrompts(),
+    };
+  }
+
+  /**
+   * 한국어 프롬프트
+   */
+  private createKoreanPrompts(): PromptSet {
     // 레시피 목록 요청용 프롬프트
-    this.recipeListPrompt = PromptTemplate.fromTemplate(`
+    const recipeList = PromptTemplate.fromTemplate(`
 당신은 친근하고 전문적인 AI 셰프입니다. 사용자의 레시피 요청에 대해 도움이 되는 추천을 제공해주세요.
 
 사용자 요청: {message}
@@ -132,7 +189,7 @@ export class StreamingService {
     `);
 
     // 레시피 상세 정보용 프롬프트
-    this.recipeDetailPrompt = PromptTemplate.fromTemplate(`
+    const recipeDetail = PromptTemplate.fromTemplate(`
 당신은 뛰어난 요리 전문가입니다. 사용자가 요청한 레시피에 대해 자세하고 친절한 안내를 제공해주세요.
 
 사용자 요청: {message}
@@ -169,7 +226,7 @@ export class StreamingService {
     `);
 
     // 요리 도움말용 프롬프트
-    this.cookingHelpPrompt = PromptTemplate.fromTemplate(`
+    const cookingHelp = PromptTemplate.fromTemplate(`
 당신은 경험 많은 요리 전문가입니다. 사용자의 요리 관련 질문이나 문제에 대해 도움을 제공해주세요.
 
 사용자 질문: {message}
@@ -182,11 +239,28 @@ export class StreamingService {
 4. 친근하고 이해하기 쉬운 설명
 5. 추가적인 관련 팁이나 정보
 
+답변:
+    `);
+
+    // 요리 진행(cook-along) 중 단계 질문용 프롬프트
+    const cookAlong = PromptTemplate.fromTemplate(`
+당신은 사용자 옆에서 함께 요리하는 AI 셰프입니다. 사용자는 지금 아래 레시피의 현재 단계를 진행 중입니다.
+
+{step}
+
+사용자 질문: {question}
+
+다음을 지켜 답변해주세요:
+1. 현재 단계를 기준으로 2~3문장 이내로 짧게 답변 (주방에서 화면을 보며 듣기 쉽게)
+2. 다음 단계 내용은 질문과 관련 있을 때만 언급
+3. 시간/온도 등 수치는 위 단계 정보를 그대로 사용
+4. 불 조절, 칼 사용 등 안전과 관련된 주의사항이 있으면 함께 안내
+
 답변:
     `);
 
     // 일반 대화용 프롬프트
-    this.generalChatPrompt = PromptTemplate.fromTemplate(`
+    const generalChat = PromptTemplate.fromTemplate(`
 당신은 친근한 AI 셰프입니다. 사용자와 자연스러운 대화를 나누며 요리에 대한 관심을 유도해주세요.
 
 사용자 메시지: {message}
@@ -196,30 +270,159 @@ export class StreamingService {
 
 답변:
     `);
+
+    return { recipeList, recipeDetail, cookingHelp, cookAlong, generalChat };
+  }
+
+  /**
+   * 영어 프롬프트 (답변도 영어로만 작성하도록 명시)
+   */
+  private createEnglishPrompts(): PromptSet {
+    const recipeList = PromptTemplate.fromTemplate(`
+You are a friendly, professional AI chef. Give helpful recipe suggestions for the user's request.
+
+User request: {message}
+Context: {context}
+
+Follow these guidelines:
+1. Use a friendly, encouraging tone
+2. Consider the user's situation and preferences
+3. Keep recommendations simple and practical
+4. Include cooking tips or variation ideas
+5. Prefer recipes with easy-to-find ingredients
+
+Answer in English only.
+
+Answer:
+    `);
+
+    const recipeDetail = PromptTemplate.fromTemplate(`
+You are an excellent cooking expert. Give a detailed, friendly walkthrough of the recipe the user asked for.
+
+User request: {message}
+Context: {context}
+
+Include the following:
+1. A warm greeting and a short introduction to the recipe
+2. The ingredient list with amounts
+3. Step-by-step instructions that are clear and easy to follow
+4. Practical cooking tips and ingredient substitutions
+5. A friendly, encouraging tone
+6. Nutrition or other details, if available
+
+Example format:
+"🍳 **Recipe title**
+
+Hi! Here's how to make it step by step.
+
+🥘 **Ingredients** (servings)
+- Ingredient 1: details
+- Ingredient 2: details
+
+🔥 **Instructions** (estimated time)
+1. Detailed step...
+2. Next step...
+
+💡 **Chef's tips**
+- Practical cooking tip
+
+🍏 **Nutrition**
+- Calories, protein, etc."
+
+Answer in English only.
+
+Answer:
+    `);
+
+    const cookingHelp = PromptTemplate.fromTemplate(`
+You are an experienced cooking expert. Help the user with their cooking question or problem.
+
+User question: {message}
+Context: {context}
+
+Keep the following in mind:
+1. Practical solutions they can apply right away
+2. Alternative ingredients or methods
+3. Tips to prevent mistakes
+4. Friendly, easy-to-understand explanations
+5. Any related tips or extra information
+
+Answer in English only.
+
+Answer:
+    `);
+
+    const cookAlong = PromptTemplate.fromTemplate(`
+You are an AI chef cooking right next to the user. The user is currently working on the current step of the recipe below.
+
+{step}
+
+User question: {question}
+
+Follow these rules:
+1. Answer in 2-3 short sentences based on the current step (easy to follow while cooking)
+2. Mention the next step only if it is relevant to the question
+3. Use the times and temperatures from the step information above as they are
+4. Add safety notes about heat or knife use when relevant
+
+Answer in English only.
+
+Answer:
+    `);
+
+    const generalChat = PromptTemplate.fromTemplate(`
+You are a friendly AI chef. Have a natural conversation with the user and spark their interest in cooking.
+
+User message: {message}
+Context: {context}
+
+Keep the conversation friendly and natural, and bring it around to cooking or recipes when it fits.
+
+Answer in English only.
+
+Answer:
+    `);
+
+    return { recipeList, recipeDetail, cookingHelp, cookAlong, generalChat };
   }
 
   /**
-   * 컨텍스트 정보를 문자열로 변환
+   * 컨텍스트 정보를 문자열로 변환 (프롬프트 언어에 맞춘 항목 이름)
    */
-  private buildContextString(context?: ConversationContext): string {
-    if (!context) return '컨텍스트 정보 없음';
+  private buildContextString(context: ConversationContext | undefined, lang: RecipeLanguage): string {
+    const en = lang === 'en';
+    const empty = en ? 'No context information' : '컨텍스트 정보 없음';
+    if (!context) return empty;
 
     let contextStr = '';
     
     if (context.history && context.history.length > 0) {
-      contextStr += `이전 대화: ${context.history.slice(-3).map(h => 
+      contextStr += `${en ? 'Previous messages' : '이전 대화'}: ${context.history.slice(-3).map(h => 
         `${h.type}: ${h.text}`
       ).join(', ')}\n`;
     }
     
     if (context.allergies && context.allergies.length > 0) {
-      contextStr += `알레르기: ${context.allergies.join(', ')}\n`;
+      contextStr += `${en ? 'Allergies' : '알레르기'}: ${context.allergies.join(', ')}\n`;
     }
     
     if (context.cookingLevel) {
-      contextStr += `요리 수준: ${context.cookingLevel}\n`;
+      contextStr += `${en ? 'Cooking level' : '요리 수준'}: ${context.cookingLevel}\n`;
+    }
+
+    if (context.cookingHistory && context.cookingHistory.length > 0) {
+      contextStr += `${en ? 'Cooking history' : '요리 기록'}: ${context.cookingHistory.slice(0, 5).map(h => en
+        ? `${h.recipeName} ${h.cookCount} time(s)${h.lastCookedAt ? ` (last: ${h.lastCookedAt.substring(0, 10)})` : ''}`
+        : `${h.recipeName} ${h.cookCount}번${h.lastCookedAt ? ` (마지막: ${h.lastCookedAt.substring(0, 10)})` : ''}`
+      ).join(', ')}\n`;
+    }
+
+    if (context.requestedServings) {
+      contextStr += en
+        ? `Requested servings: ${context.requestedServings} (ingredient amounts are calculated and shown by the system, do not calculate them yourself)\n`
+        : `요청 인분: ${context.requestedServings}인분 (재료량은 시스템이 계산해 함께 보여주므로 직접 계산하지 마세요)\n`;
     }
 
-    return contextStr || '컨텍스트 정보 없음';
+    return contextStr || empty;
   }
-}
\ No newline at end of file
+}
@@ -2,6 +2,12 @@
  * LangChain 모듈의 공통 타입 정의
  */
 
+/**
+ * 응답 언어 (레시피의 Ko/En 필드 선택, 검색 가중치, 프롬프트 언어)
+ */
+export const RECIPE_LANGUAGES = ['ko', 'en'] as const;
+export type RecipeLanguage = typeof RECIPE_LANGUAGES[number];
+
 export interface IntentAnalysis {
   intent: 'recipe_list' | 'recipe_detail' | 'cooking_help' | 'general_chat';
   confidence: number;
@@ -34,6 +40,20 @@ export interface ConversationContext {
   history?: Array<{ type: string; text: string; timestamp: string }>;
   allergies?: string[];
   cookingLevel?: string;
+  userId?: string;
+  cookingHistory?: CookingHistorySummary[];
+  requestedServings?: number;
+  // 식단 제한 (비건, 채식, 글루텐프리 ... 식단 ID 또는 별칭)
+  dietaryRestrictions?: string[];
+  // 응답 언어 (없으면 메시지에서 감지)
+  lang?: RecipeLanguage;
+}
+
+export interface CookingHistorySummary {
+  recipeId: string;
+  recipeName: string;
+  cookCount: number;
+  lastCookedAt?: string;
 }
 
 export interface RecipeSearchResult {
@@ -64,23 +84,91 @@ export interface TransformedRecipe {
   ingredients: string[];
   steps: RecipeStep[];
   cookingTime: number;
+  timing: RecipeTiming;
   servings: number;
   difficulty: 'easy' | 'medium' | 'hard';
   tags: string[];
   category: string;
   nutrition: NutritionInfo;
+  dietaryLabels: string[];
   author: string;
   rating: number;
   reviews: number;
-  createdAt: string;
-  updatedAt: string;
+  createdAt: string | null;
+  updatedAt: string | null;
+  parsedIngredients: ParsedIngredient[];
 }
 
 export interface RecipeStep {
   step: number;
   instruction: string;
-  time: string | null;
+  time: number | null;
   tip: string | null;
+  durations: StepDuration[];
+  heat: HeatLevel | null;
+  temperature: StepTemperature | null;
+  equipment: string[];
+  // 재우기/식히기/발효처럼 손이 가지 않는 대기 단계
+  passive: boolean;
+}
+
+export type HeatLevel = 'high' | 'medium_high' | 'medium' | 'medium_low' | 'low';
+
+export interface StepDuration {
+  text: string;
+  minMinutes: number;
+  maxMinutes: number;
+}
+
+export interface StepTemperature {
+  value: number;
+  unit: 'C' | 'F';
+}
+
+export interface RecipeTiming {
+  activeMinutes: number;
+  passiveMinutes: number;
+  totalMinutes: number;
+  // 조리법에 시간이 적힌 단계 수
+  timedSteps: number;
+  // 시간이 없어 기본값으로 추정한 단계 수
+  estimatedSteps: number;
+}
+
+export type IngredientUnitType = 'volume' | 'weight' | 'count' | 'approximate';
+
+export interface ParsedIngredient {
+  original: string;
+  name: string;
+  quantity: number | null;
+  quantityMax: number | null;
+  unit: string | null;
+  unitText: string | null;
+  unitType: IngredientUnitType | null;
+  note: string | null;
+}
+
+export interface ScaledIngredient extends ParsedIngredient {
+  scalable: boolean;
+  scaledQuantity: number | null;
+  scaledQuantityMax: number | null;
+  scaledUnit: string | null;
+  displayQuantity: string | null;
+  scaledText: string;
+  reason: 'approximate' | 'no_quantity' | null;
+}
+
+export interface RecipeScaling {
+  originalServings: number;
+  targetServings: number;
+  factor: number;
+  ingredients: ScaledIngredient[];
+  unscalableIngredients: string[];
+  nutritionPerServing: NutritionInfo;
+  nutritionTotal: NutritionInfo;
+  originalCookingTime: number;
+  estimatedCookingTime: number;
+  cookingTimeHint: string | null;
 }
 
 export interface NutritionInfo {
@@ -0,0 +1,72 @@
+import { IngredientParserUtil } from './ingredient-parser.util';
+
+describe('IngredientParserUtil', () => {
+  describe('parse', () => {
+    it('reads a Korean quantity and unit', () => {
+      expect(IngredientParserUtil.parse('간장 2큰술')).toMatchObject({
+        name: '간장', quantity: 2, unit: 'tbsp', unitType: 'volume', note: null,
+      });
+      expect(IngredientParserUtil.parse('돼지고기 200g')).toMatchObject({ name: '돼지고기', quantity: 200, unit: 'g' });
+    });
+
+    it('reads English fractions, ranges and trailing notes', () => {
+      expect(IngredientParserUtil.parse('1 1/2 cups flour, sifted')).toMatchObject({
+        name: 'flour', quantity: 1.5, unit: 'cup', note: 'sifted',
+      });
+      expect(IngredientParserUtil.parse('마늘 2~3쪽')).toMatchObject({ name: '마늘', quantity: 2, quantityMax: 3, unit: 'clove' });
+    });
+
+    it('does not read the leading letter of a word as a unit', () => {
+      expect(IngredientParserUtil.parse('2 garlic cloves')).toMatchObject({ quantity: 2, unit: null, name: 'garlic cloves' });
+    });
+
+    it('reads Korean number words and approximate amounts', () => {
+      expect(IngredientParserUtil.parse('양파 반 개')).toMatchObject({ name: '양파', quantity: 0.5, unit: 'piece' });
+      expect(IngredientParserUtil.parse('소금 약간')).toMatchObject({ name: '소금', quantity: null, unit: 'a_little', unitType: 'approximate' });
+    });
+
+    it('uses an amount found only in parentheses and keeps other notes', () => {
+      expect(IngredientParserUtil.parse('두부 (300g) (부침용)')).toMatchObject({
+        name: '두부', quantity: 300, unit: 'g', note: '부침용',
+      });
+    });
+
+    it('keeps the whole text as the name when nothing is recognised', () => {
+      expect(IngredientParserUtil.parse('참기름')).toMatchObject({ name: '참기름', quantity: null, unit: null });
+    });
+  });
+
+  describe('parseQuantity', () => {
+    it.each([
+      ['1 1/2', 1.5],
+      ['1½', 1.5],
+      ['½', 0.5],
+      ['3/4', 0.75],
+      ['0.5', 0.5],
+      ['1/0', null],
+    ])('parses %s', (text, expected) => {
+      expect(IngredientParserUtil.parseQuantity(text)).toBe(expected);
+    });
+  });
+
+  describe('resolveUnit', () => {
+    it('keeps case-sensitive aliases apart', () => {
+      expect(IngredientParserUtil.resolveUnit('T')).toBe('tbsp');
+      expect(IngredientParserUtil.resolveUnit('t')).toBe('tsp');
+      expect(IngredientParserUtil.resolveUnit('Cups')).toBe('cup');
+      expect(IngredientParserUtil.resolveUnit('handspan')).toBeNull();
+    });
+  });
+
+  describe('containsTerm', () => {
+    it('matches English terms on word boundaries', () => {
+      expect(IngredientParserUtil.containsTerm('2 eggs, beaten', 'egg')).toBe(true);
+      expect(IngredientParserUtil.containsTerm('1 eggplant', 'egg')).toBe(false);
+    });
+
+    it('matches a one-letter Korean term only at the start of a word', () => {
+      expect(IngredientParserUtil.containsTerm('대파 1대', '파')).toBe(false);
+      expect(IngredientParserUtil.containsTerm('파 1대', '파')).toBe(true);
+    });
+  });
+});
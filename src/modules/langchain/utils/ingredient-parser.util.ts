@@ -0,0 +1,240 @@
+import { IngredientUnitType, ParsedIngredient } from '../types/langchain.types';
+
+export interface IngredientUnitDefinition {
+  type: IngredientUnitType;
+  label: string;
+  aliases: string[];
+}
+
+/**
+ * 재료 단위 정의 (표준 키 → 종류, 표시 이름, 별칭)
+ * 대소문자가 의미를 가지는 별칭(T=큰술, t=작은술)은 그대로 비교
+ */
+export const INGREDIENT_UNITS: Record<string, IngredientUnitDefinition> = {
+  // 부피
+  tbsp: { type: 'volume', label: '큰술', aliases: ['큰술', '큰스푼', '밥숟가락', '숟가락', '스푼', 'T', 'tbsp', 'tbs', 'tablespoon', 'tablespoons'] },
+  tsp: { type: 'volume', label: '작은술', aliases: ['작은술', '작은스푼', '티스푼', '찻숟가락', 't', 'tsp', 'teaspoon', 'teaspoons'] },
+  cup: { type: 'volume', label: '컵', aliases: ['컵', 'cup', 'cups', 'C'] },
+  ml: { type: 'volume', label: 'ml', aliases: ['ml', 'mL', 'cc', '밀리리터'] },
+  l: { type: 'volume', label: 'L', aliases: ['l', 'L', 'liter', 'liters', 'litre', 'litres', '리터'] },
+  fl_oz: { type: 'volume', label: 'fl oz', aliases: ['fl oz', 'fl. oz', 'fluid ounce', 'fluid ounces'] },
+  // 무게
+  mg: { type: 'weight', label: 'mg', aliases: ['mg', '밀리그램'] },
+  g: { type: 'weight', label: 'g', aliases: ['g', 'gram', 'grams', '그램'] },
+  kg: { type: 'weight', label: 'kg', aliases: ['kg', 'kilogram', 'kilograms', '킬로그램', '킬로'] },
+  oz: { type: 'weight', label: 'oz', aliases: ['oz', 'ounce', 'ounces', '온스'] },
+  lb: { type: 'weight', label: 'lb', aliases: ['lb', 'lbs', 'pound', 'pounds', '파운드'] },
+  geun: { type: 'weight', label: '근', aliases: ['근'] },
+  // 개수
+  piece: { type: 'count', label: '개', aliases: ['개', '알', 'ea', 'piece', 'pieces', 'pc', 'pcs'] },
+  clove: { type: 'count', label: '쪽', aliases: ['쪽', 'clove', 'cloves'] },
+  sheet: { type: 'count', label: '장', aliases: ['장', 'sheet', 'sheets'] },
+  block: { type: 'count', label: '모', aliases: ['모', 'block', 'blocks'] },
+  whole: { type: 'count', label: '마리', aliases: ['마리'] },
+  stalk: { type: 'count', label: '대', aliases: ['대', '줄기', 'stalk', 'stalks'] },
+  root: { type: 'count', label: '뿌리', aliases: ['뿌리', 'root', 'roots'] },
+  bunch: { type: 'count', label: '단', aliases: ['단', '송이', 'bunch', 'bunches'] },
+  slice: { type: 'count', label: '조각', aliases: ['조각', 'slice', 'slices'] },
+  pack: { type: 'count', label: '봉지', aliases: ['봉지', '봉', '팩', 'pack', 'packs', 'package', 'packages'] },
+  can: { type: 'count', label: '캔', aliases: ['캔', '통조림', 'can', 'cans'] },
+  bowl: { type: 'count', label: '공기', aliases: ['공기', 'bowl', 'bowls'] },
+  // 어림 분량
+  handful: { type: 'approximate', label: '줌', aliases: ['줌', 'handful', 'handfuls'] },
+  pinch: { type: 'approximate', label: '꼬집', aliases: ['꼬집', 'pinch', 'pinches', 'dash', 'dashes'] },
+  a_little: { type: 'approximate', label: '약간', aliases: ['약간', '조금', '소량', 'a little', 'a bit'] },
+  to_taste: { type: 'approximate', label: '적당량', aliases: ['적당량', '적당히', '기호에 따라', 'to taste', 'as needed'] },
+};
+
+/**
+ * 재료 문자열 파서 ("돼지고기 200g", "간장 2큰술", "2 cups flour, sifted" → 이름/수량/단위/메모)
+ */
+export class IngredientParserUtil {
+  private static readonly UNICODE_FRACTIONS: Record<string, number> = {
+    '½': 0.5, '⅓': 1 / 3, '⅔': 2 / 3, '¼': 0.25, '¾': 0.75, '⅛': 0.125,
+  };
+
+  private static readonly KOREAN_NUMBERS: Record<string, number> = {
+    반: 0.5, 한: 1, 두: 2, 세: 3, 네: 4, 다섯: 5, 여섯: 6,
+  };
+
+  // 수량 표현: 1, 1.5, 1/2, 1 1/2, 1½, ½ (범위 1~2, 1-2)
+  private static readonly QUANTITY_PATTERN = '(?:\\d+\\s+\\d+\\s*/\\s*\\d+|\\d+\\s*[½⅓⅔¼¾⅛]|\\d+\\s*/\\s*\\d+|\\d+(?:\\.\\d+)?|[½⅓⅔¼¾⅛])';
+
+  private static readonly UNIT_ALIASES: Array<{ alias: string; unit: string }> = Object.entries(INGREDIENT_UNITS)
+    .flatMap(([unit, definition]) => definition.aliases.map(alias => ({ alias, unit })))
+    .sort((a, b) => b.alias.length - a.alias.length);
+
+  private static readonly UNIT_PATTERN = IngredientParserUtil.UNIT_ALIASES
+    .map(({ alias }) => alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+'))
+    .join('|');
+
+  // 수량 (+ 단위): 영문 단위 뒤에는 영문자가 이어지지 않아야 함 (2 garlic 의 g 방지)
+  private static readonly AMOUNT_REGEX = new RegExp(
+    `(${IngredientParserUtil.QUANTITY_PATTERN})(?:\\s*[~\\-–]\\s*(${IngredientParserUtil.QUANTITY_PATTERN}))?\\s*(?:(${IngredientParserUtil.UNIT_PATTERN})(?![a-zA-Z]))?`,
+    'i'
+  );
+
+  // 한글 수사 + 단위 (반 개, 한 줌, 두 컵)
+  private static readonly KOREAN_AMOUNT_REGEX = new RegExp(
+    `(?:^|\\s)(반|한|두|세|네|다섯|여섯)\\s*(${IngredientParserUtil.UNIT_PATTERN})(?![a-zA-Z가-힣])`,
+    'i'
+  );
+
+  // 수량 없는 어림 분량 (소금 약간, salt to taste)
+  private static readonly APPROXIMATE_REGEX = new RegExp(
+    `(?:^|\\s)(${Object.entries(INGREDIENT_UNITS)
+      .filter(([, definition]) => definition.type === 'approximate')
+      .flatMap(([, definition]) => definition.aliases)
+      .sort((a, b) => b.length - a.length)
+      .map(alias => alias.replace(/ /g, '\\s+'))
+      .join('|')})(?![a-zA-Z가-힣])`,
+    'i'
+  );
+
+  static parseAll(ingredients: string[]): ParsedIngredient[] {
+    return ingredients.map(ingredient => this.parse(ingredient));
+  }
+
+  /**
+   * 재료 한 줄 파싱 (인식하지 못한 부분은 이름으로 남김)
+   */
+  static parse(original: string): ParsedIngredient {
+    const notes: string[] = [];
+
+    // 괄호 안 내용은 메모 후보 (수량이 괄호 안에만 있으면 수량으로 사용)
+    const parenthesized: string[] = [];
+    let text = original.trim().replace(/[(（]([^)）]*)[)）]/g, (_, inner: string) => {
+      if (inner.trim()) parenthesized.push(inner.trim());
+      return ' ';
+    });
+
+    // 쉼표 뒤는 손질 메모 ("양파 1개, 채 썬 것", "2 cups flour, sifted")
+    const commaIndex = text.search(/[,，]/);
+    if (commaIndex >= 0) {
+      const tail = text.slice(commaIndex + 1).trim();
+      if (tail) notes.push(tail);
+      text = text.slice(0, commaIndex);
+    }
+
+    let amount = this.extractAmount(text);
+    if (amount) {
+      text = amount.rest;
+    } else {
+      const fromParentheses = parenthesized.findIndex(inner => this.extractAmount(inner)?.rest.trim() === '');
+      if (fromParentheses >= 0) {
+        amount = this.extractAmount(parenthesized[fromParentheses] ?? '');
+        parenthesized.splice(fromParentheses, 1);
+      }
+    }
+    notes.unshift(...parenthesized);
+
+    const name = text
+      .replace(/^\s*of\s+/i, '')
+      .replace(/\s+/g, ' ')
+      .replace(/^[\s:·\-–]+|[\s:·\-–]+$/g, '')
+      .trim();
+
+    const unitDefinition = amount?.unit ? INGREDIENT_UNITS[amount.unit] : undefined;
+    return {
+      original,
+      name: name || original.trim(),
+      quantity: amount?.quantity ?? null,
+      quantityMax: amount?.quantityMax ?? null,
+      unit: amount?.unit ?? null,
+      unitText: amount?.unitText ?? null,
+      unitType: unitDefinition?.type ?? null,
+      note: notes.length > 0 ? notes.join(', ') : null,
+    };
+  }
+
+  /**
+   * 단위 별칭 → 표준 단위 키
+   */
+  static resolveUnit(text: string): string | null {
+    const normalized = text.trim().replace(/\s+/g, ' ');
+    const exact = this.UNIT_ALIASES.find(({ alias }) => alias === normalized);
+    if (exact) return exact.unit;
+    const lower = normalized.toLowerCase();
+    return this.UNIT_ALIASES.find(({ alias }) => alias.toLowerCase() === lower)?.unit ?? null;
+  }
+
+  /**
+   * 수량 문자열 → 숫자 (1 1/2, 1½, 1/2, 0.5, ½)
+   */
+  static parseQuantity(text: string): number | null {
+    const value = text.trim();
+    const mixed = value.match(/^(\d+)\s+(\d+)\s*\/\s*(\d+)$/);
+    if (mixed) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+
+    const fraction = value.match(/^(\d+)\s*\/\s*(\d+)$/);
+    if (fraction) return Number(fraction[2]) === 0 ? null : Number(fraction[1]) / Number(fraction[2]);
+
+    const unicode = value.match(/^(\d*)\s*([½⅓⅔¼¾⅛])$/);
+    if (unicode) return Number(unicode[1] || 0) + (this.UNICODE_FRACTIONS[unicode[2] ?? ''] ?? 0);
+
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+
+  /**
+   * 재료 문자열에 재료명이 들어 있는지 (영문은 단어 경계, 한 글자 한글은 단어 첫머리, 그 외 한글은 부분 일치)
+   */
+  static containsTerm(text: string, term: string): boolean {
+    const haystack = text.toLowerCase();
+    const needle = term.toLowerCase();
+
+    if (/^[a-z\s-]+$/.test(needle)) {
+      return new RegExp(`(^|[^a-z])${needle.replace(/[-\s]/g, '[-\\s]')}s?([^a-z]|$)`).test(haystack);
+    }
+    if (needle.length === 1) {
+      return haystack.split(/[\s,()/·]+/).some(word => word.startsWith(needle));
+    }
+    return haystack.includes(needle);
+  }
+
+  private static extractAmount(text: string): {
+    quantity: number | null;
+    quantityMax: number | null;
+    unit: string | null;
+    unitText: string | null;
+    rest: string;
+  } | null {
+    const numeric = text.match(this.AMOUNT_REGEX);
+    if (numeric && numeric.index !== undefined) {
+      const unitText = numeric[3] ?? null;
+      return {
+        quantity: this.parseQuantity(numeric[1] ?? ''),
+        quantityMax: numeric[2] ? this.parseQuantity(numeric[2]) : null,
+        unit: unitText ? this.resolveUnit(unitText) : null,
+        unitText,
+        rest: text.slice(0, numeric.index) + ' ' + text.slice(numeric.index + numeric[0].length),
+      };
+    }
+
+    const korean = text.match(this.KOREAN_AMOUNT_REGEX);
+    if (korean && korean.index !== undefined) {
+      const unitText = korean[2] ?? null;
+      return {
+        quantity: this.KOREAN_NUMBERS[korean[1] ?? ''] ?? null,
+        quantityMax: null,
+        unit: unitText ? this.resolveUnit(unitText) : null,
+        unitText,
+        rest: text.slice(0, korean.index) + ' ' + text.slice(korean.index + korean[0].length),
+      };
+    }
+
+    const approximate = text.match(this.APPROXIMATE_REGEX);
+    if (approximate && approximate.index !== undefined) {
+      const unitText = approximate[1] ?? null;
+      return {
+        quantity: null,
+        quantityMax: null,
+        unit: unitText ? this.resolveUnit(unitText) : null,
+        unitText,
+        rest: text.slice(0, approximate.index) + ' ' + text.slice(approximate.index + approximate[0].length),
+      };
+    }
+
+    return null;
+  }
+}
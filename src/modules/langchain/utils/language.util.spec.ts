@@ -0,0 +1,57 @@
+import { LanguageUtil } from './language.util';
+
+describe('LanguageUtil', () => {
+  describe('isSupported', () => {
+    it('accepts only the recipe languages', () => {
+      expect(LanguageUtil.isSupported('ko')).toBe(true);
+      expect(LanguageUtil.isSupported('en')).toBe(true);
+      expect(LanguageUtil.isSupported('ja')).toBe(false);
+      expect(LanguageUtil.isSupported(undefined)).toBe(false);
+    });
+  });
+
+  describe('detect', () => {
+    it.each([
+      ['김치찌개 만드는 법 알려줘', 'ko'],
+      ['how to make 김치찌개', 'en'],
+      ['pasta 레시피 알려줘', 'ko'],
+      ['What can I cook with eggs?', 'en'],
+    ])('detects %s as %s', (text, expected) => {
+      expect(LanguageUtil.detect(text)).toBe(expected);
+    });
+
+    it('prefers Korean when the word counts are even', () => {
+      expect(LanguageUtil.detect('pasta 레시피')).toBe('ko');
+    });
+
+    it('returns null when there are no words to count', () => {
+      expect(LanguageUtil.detect('123 !!')).toBeNull();
+      expect(LanguageUtil.detect('')).toBeNull();
+    });
+  });
+
+  describe('resolve', () => {
+    it('uses an explicit supported language over the text', () => {
+      expect(LanguageUtil.resolve('ko', 'how to make pasta')).toBe('ko');
+    });
+
+    it('falls back to the detected language, then Korean', () => {
+      expect(LanguageUtil.resolve('ja', 'how to make pasta')).toBe('en');
+      expect(LanguageUtil.resolve(undefined, '123')).toBe('ko');
+      expect(LanguageUtil.resolve(null)).toBe('ko');
+    });
+  });
+
+  describe('pick', () => {
+    it('returns the value in the requested language', () => {
+      expect(LanguageUtil.pick('en', '김치찌개', 'Kimchi stew')).toBe('Kimchi stew');
+      expect(LanguageUtil.pick('ko', ['김치'], ['kimchi'])).toEqual(['김치']);
+    });
+
+    it('falls back to the other language when the requested value is empty', () => {
+      expect(LanguageUtil.pick('en', '김치찌개', '')).toBe('김치찌개');
+      expect(LanguageUtil.pick('ko', [], ['kimchi'])).toEqual(['kimchi']);
+      expect(LanguageUtil.pick('ko', undefined, '')).toBeUndefined();
+    });
+  });
+});
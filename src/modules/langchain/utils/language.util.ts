@@ -0,0 +1,47 @@
+import { RECIPE_LANGUAGES, RecipeLanguage } from '../types/langchain.types';
+
+/**
+ * 응답 언어 결정 유틸리티
+ * 명시한 lang 이 있으면 그대로 쓰고, 없으면 메시지의 한글/영어 단어 수로 감지
+ */
+export class LanguageUtil {
+  static readonly DEFAULT_LANGUAGE: RecipeLanguage = 'ko';
+
+  private static readonly HANGUL_WORD_REGEX = /[ㄱ-ㆎ가-힣]/;
+  private static readonly LATIN_WORD_REGEX = /^[a-z][a-z'-]*$/i;
+
+  static isSupported(lang: unknown): lang is RecipeLanguage {
+    return typeof lang === 'string' && (RECIPE_LANGUAGES as readonly string[]).includes(lang);
+  }
+
+  /**
+   * 메시지 언어 감지 ("how to make 김치찌개" → en, "pasta 레시피 알려줘" → ko)
+   * 한글/영어 단어가 하나도 없으면 null
+   */
+  static detect(text: string): RecipeLanguage | null {
+    const words = text.split(/[\s.,!?()[\]{}"“”:;/]+/).filter(Boolean);
+    const hangulWords = words.filter(word => this.HANGUL_WORD_REGEX.test(word)).length;
+    const latinWords = words.filter(word => this.LATIN_WORD_REGEX.test(word)).length;
+
+    if (hangulWords === 0 && latinWords === 0) return null;
+    return latinWords > hangulWords ? 'en' : 'ko';
+  }
+
+  /**
+   * 명시한 언어 > 텍스트에서 감지한 언어 > 기본값(ko)
+   */
+  static resolve(lang?: string | null, text?: string): RecipeLanguage {
+    if (this.isSupported(lang)) return lang;
+    return (text ? this.detect(text) : null) ?? this.DEFAULT_LANGUAGE;
+  }
+
+  /**
+   * 언어에 맞는 필드 값 (비어 있으면 다른 언어 값으로 대체)
+   */
+  static pick<T extends string | string[]>(lang: RecipeLanguage, ko: T | undefined, en: T | undefined): T | undefined {
+    const preferred = lang === 'en' ? en : ko;
+    const fallback = lang === 'en' ? ko : en;
+    if (preferred !== undefined && preferred.length > 0) return preferred;
+    return fallback !== undefined && fallback.length > 0 ? fallback : undefined;
+  }
+}
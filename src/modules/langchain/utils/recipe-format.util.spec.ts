@@ -0,0 +1,91 @@
+import { ElasticsearchRecipe } from '../../elasticsearch/elasticsearch.service';
+import { RecipeFormatUtil } from './recipe-format.util';
+
+describe('RecipeFormatUtil', () => {
+  const recipe = {
+    id: 'r1',
+    nameKo: '김치찌개',
+    nameEn: 'Kimchi stew',
+    descriptionKo: '얼큰한 찌개',
+    ingredientsKo: ['김치 200g', '돼지고기 100g'],
+    ingredientsEn: ['200g kimchi', '100g pork'],
+    stepsKo: ['김치를 볶는다', '물을 붓고 끓인다'],
+    cookingTime: 90,
+    servings: 2,
+    difficulty: 'easy',
+    category: '찌개',
+    tags: ['한식'],
+    nutrition: { calories: 250, protein: 12 },
+    ratingCount: 3,
+    averageRating: 4.5,
+  } as ElasticsearchRecipe;
+
+  describe('toMarkdown', () => {
+    it('uses the requested language and falls back to the other for missing fields', () => {
+      const markdown = RecipeFormatUtil.toMarkdown(recipe, undefined, 'en');
+
+      expect(markdown).toContain('# 🍳 Kimchi stew');
+      expect(markdown).toContain('**Description**: 얼큰한 찌개');
+      expect(markdown).toContain('1. 200g kimchi');
+      expect(markdown).toContain('1. 김치를 볶는다');
+      expect(markdown).toContain('**🍽️ Servings**: 2 servings');
+      expect(markdown).toContain('- Calories: 250kcal');
+    });
+
+    it('shows an ingredient-based estimate when no nutrition is stored', () => {
+      const markdown = RecipeFormatUtil.toMarkdown({ ...recipe, nutrition: undefined }, {
+        perServing: { calories: 310, protein: 15, carbs: 8, fat: 22, sodium: 900, sugar: 3, fiber: 2 },
+        confidence: { level: 'medium', matchedCount: 1, estimatedCount: 1, unmatchedIngredients: ['고춧가루'] },
+      } as any);
+
+      expect(markdown).toContain('재료 기반 추정치 (1인분, 신뢰도 보통)');
+      expect(markdown).toContain('- 칼로리: 약 310kcal');
+      expect(markdown).toContain('- 계산에서 빠진 재료: 고춧가루');
+    });
+  });
+
+  describe('toPlainText', () => {
+    it('adds the other-language name to the title', () => {
+      const text = RecipeFormatUtil.toPlainText(recipe);
+
+      expect(text.split('\n')[1]).toBe('김치찌개 (Kimchi stew)');
+      expect(text).toContain('조리시간 90분 | 2인분 | 난이도 쉬움 | 카테고리 찌개');
+      expect(text).toContain('  2. 물을 붓고 끓인다');
+      expect(text).toContain('#한식');
+    });
+  });
+
+  describe('toJsonLd', () => {
+    it('maps the recipe to schema.org fields', () => {
+      const jsonLd = RecipeFormatUtil.toJsonLd(recipe, false, 'en');
+
+      expect(jsonLd).not.toHaveProperty('@context');
+      expect(jsonLd).toMatchObject({
+        name: 'Kimchi stew',
+        inLanguage: 'en',
+        totalTime: 'PT1H30M',
+        recipeYield: '2 servings',
+        recipeIngredient: ['200g kimchi', '100g pork'],
+        nutrition: { calories: '250 kcal', proteinContent: '12 g' },
+        aggregateRating: { ratingValue: 4.5, ratingCount: 3 },
+      });
+      expect(jsonLd.recipeInstructions[1]).toEqual({ '@type': 'HowToStep', position: 2, text: '물을 붓고 끓인다' });
+    });
+
+    it('reports the language of the name actually used', () => {
+      expect(RecipeFormatUtil.toJsonLd({ ...recipe, nameEn: undefined }, true, 'en')).toMatchObject({
+        '@context': 'https://schema.org',
+        name: '김치찌개',
+        inLanguage: 'ko',
+      });
+    });
+  });
+
+  describe('mapDifficulty', () => {
+    it('reads Korean and English difficulty values', () => {
+      expect(RecipeFormatUtil.mapDifficulty('어려움', 'en')).toBe('Hard');
+      expect(RecipeFormatUtil.mapDifficulty('Easy', 'ko')).toBe('쉬움');
+      expect(RecipeFormatUtil.mapDifficulty(undefined, 'ko')).toBe('보통');
+    });
+  });
+});
@@ -0,0 +1,318 @@
+import { ElasticsearchRecipe } from '../../elasticsearch/elasticsearch.service';
+import { NutritionEstimate } from '../../nutrition/interfaces/nutrition.interface';
+import { RecipeLanguage } from '../types/langchain.types';
+import { LanguageUtil } from './language.util';
+import { RecipeStepUtil } from './recipe-step.util';
+
+/**
+ * schema.org Recipe JSON-LD
+ */
+export interface RecipeJsonLd {
+  '@context'?: 'https://schema.org';
+  '@type': 'Recipe';
+  identifier: string;
+  name: string;
+  description?: string;
+  inLanguage: string;
+  recipeCategory?: string;
+  keywords?: string;
+  recipeYield?: string;
+  totalTime?: string;
+  recipeIngredient: string[];
+  recipeInstructions: Array<{ '@type': 'HowToStep'; position: number; text: string }>;
+  nutrition?: { '@type': 'NutritionInformation' } & Record<string, string>;
+  author?: { '@type': 'Organization' | 'Person'; name: string };
+  datePublished?: string;
+  dateModified?: string;
+  aggregateRating?: { '@type': 'AggregateRating'; ratingValue: number; ratingCount: number };
+}
+
+/**
+ * 출력 문구 (언어별)
+ */
+const FORMAT_LABELS = {
+  ko: {
+    untitled: '레시피',
+    description: '설명',
+    cookingTime: '조리시간',
+    servingsLabel: '분량',
+    servings: (count: number) => `${count}인분`,
+    difficultyLabel: '난이도',
+    difficulty: { easy: '쉬움', medium: '보통', hard: '어려움' },
+    category: '카테고리',
+    defaultCategory: '일반',
+    tags: '태그',
+    ingredients: '재료',
+    steps: '조리법',
+    stepsCard: '조리 순서',
+    nutrition: '영양정보',
+    nutritionCard: '영양 정보',
+    calories: '칼로리',
+    protein: '단백질',
+    carbs: '탄수화물',
+    fat: '지방',
+    sodium: '나트륨',
+    sugar: '당류',
+    fiber: '식이섬유',
+    about: '약 ',
+    estimateHeader: (confidence: string) => `재료 기반 추정치 (1인분, 신뢰도 ${confidence})`,
+    confidence: { high: '높음', medium: '보통', low: '낮음' },
+    unmatchedIngredients: '계산에서 빠진 재료',
+    noNutrition: '등록된 영양 정보가 없습니다',
+    noInfo: '정보 없음',
+    minutes: (minutes: number) => `${minutes}분`,
+    estimatedTime: '조리법 기준 추정',
+    timeBreakdown: (active: number, passive: number) => `직접 조리 ${active}분 + 대기 ${passive}분`,
+  },
+  en: {
+    untitled: 'Recipe',
+    description: 'Description',
+    cookingTime: 'Cooking time',
+    servingsLabel: 'Servings',
+    servings: (count: number) => `${count} serving${count === 1 ? '' : 's'}`,
+    difficultyLabel: 'Difficulty',
+    difficulty: { easy: 'Easy', medium: 'Medium', hard: 'Hard' },
+    category: 'Category',
+    defaultCategory: 'General',
+    tags: 'Tags',
+    ingredients: 'Ingredients',
+    steps: 'Instructions',
+    stepsCard: 'Instructions',
+    nutrition: 'Nutrition',
+    nutritionCard: 'Nutrition',
+    calories: 'Calories',
+    protein: 'Protein',
+    carbs: 'Carbs',
+    fat: 'Fat',
+    sodium: 'Sodium',
+    sugar: 'Sugar',
+    fiber: 'Fiber',
+    about: 'about ',
+    estimateHeader: (confidence: string) => `Estimated from ingredients (per serving, ${confidence} confidence)`,
+    confidence: { high: 'high', medium: 'medium', low: 'low' },
+    unmatchedIngredients: 'Not included in the estimate',
+    noNutrition: 'No nutrition information available',
+    noInfo: 'Not available',
+    minutes: (minutes: number) => `${minutes} min`,
+    estimatedTime: 'estimated from the steps',
+    timeBreakdown: (active: number, passive: number) => `${active} min active + ${passive} min waiting`,
+  },
+} as const;
+
+/**
+ * 레시피 문서 출력 포맷 유틸리티 (채팅 Markdown, 내보내기용 JSON-LD/텍스트 카드)
+ * lang 에 맞는 Ko/En 필드와 문구를 사용하고, 해당 언어 필드가 비어 있으면 다른 언어 값으로 대체
+ */
+export class RecipeFormatUtil {
+  private static readonly TEXT_CARD_WIDTH = 40;
+
+  /**
+   * 레시피를 마크다운 형식으로 포맷
+   * 저장된 영양 정보가 비어 있으면 재료 기반 추정치(있을 때)를 신뢰도와 함께 표시
+   */
+  static toMarkdown(recipe: ElasticsearchRecipe, nutritionEstimate?: NutritionEstimate, lang: RecipeLanguage = 'ko'): string {
+    const labels = FORMAT_LABELS[lang];
+    const { title, description, ingredients, steps } = this.pickFields(recipe, lang);
+    const servings = recipe.servings || 2;
+    const difficulty = this.mapDifficulty(recipe.difficulty, lang);
+    const category = recipe.category || labels.defaultCategory;
+    const tags = recipe.tags || [];
+
+    let formatted = `# 🍳 ${title}\n\n`;
+    
+    if (description) {
+      formatted += `**${labels.description}**: ${description}\n\n`;
+    }
+    
+    formatted += `**⏱️ ${labels.cookingTime}**: ${this.formatCookingTime(recipe.cookingTime, steps, lang)}\n`;
+    formatted += `**🍽️ ${labels.servingsLabel}**: ${labels.servings(servings)}\n`;
+    formatted += `**📊 ${labels.difficultyLabel}**: ${difficulty}\n`;
+    formatted += `**🏷️ ${labels.category}**: ${category}\n\n`;
+    
+    if (tags.length > 0) {
+      formatted += `**🏷️ ${labels.tags}**: ${tags.join(', ')}\n\n`;
+    }
+    
+    if (ingredients.length > 0) {
+      formatted += `## 🥘 ${labels.ingredients}\n\n`;
+      ingredients.forEach((ingredient, idx) => {
+        formatted += `${idx + 1}. ${ingredient}\n`;
+      });
+      formatted += '\n';
+    }
+    
+    if (steps.length > 0) {
+      formatted += `## 👨‍🍳 ${labels.steps}\n\n`;
+      steps.forEach((step, idx) => {
+        formatted += `${idx + 1}. ${step}\n`;
+      });
+      formatted += '\n';
+    }
+    
+    const nutrition = recipe.nutrition;
+    formatted += `## 🍎 ${labels.nutrition}\n\n`;
+    if (nutrition && Object.values(nutrition).some(value => value)) {
+      if (nutrition.calories) formatted += `- ${labels.calories}: ${nutrition.calories}kcal\n`;
+      if (nutrition.protein) formatted += `- ${labels.protein}: ${nutrition.protein}g\n`;
+      if (nutrition.carbs) formatted += `- ${labels.carbs}: ${nutrition.carbs}g\n`;
+      if (nutrition.fat) formatted += `- ${labels.fat}: ${nutrition.fat}g\n`;
+    } else if (nutritionEstimate && nutritionEstimate.confidence.matchedCount + nutritionEstimate.confidence.estimatedCount > 0) {
+      const { perServing, confidence } = nutritionEstimate;
+      formatted += `*${labels.estimateHeader(labels.confidence[confidence.level])}*\n\n`;
+      formatted += `- ${labels.calories}: ${labels.about}${perServing.calories}kcal\n`;
+      formatted += `- ${labels.protein}: ${perServing.protein}g / ${labels.carbs}: ${perServing.carbs}g / ${labels.fat}: ${perServing.fat}g\n`;
+      formatted += `- ${labels.sodium}: ${perServing.sodium}mg / ${labels.sugar}: ${perServing.sugar}g / ${labels.fiber}: ${perServing.fiber}g\n`;
+      if (confidence.unmatchedIngredients.length > 0) {
+        formatted += `- ${labels.unmatchedIngredients}: ${confidence.unmatchedIngredients.join(', ')}\n`;
+      }
+    } else {
+      formatted += `- ${labels.noNutrition}\n`;
+    }
+    
+    return formatted;
+  }
+
+  /**
+   * 인쇄용 텍스트 카드 (이모지/마크업 없이 고정 폭 구분선)
+   */
+  static toPlainText(recipe: ElasticsearchRecipe, lang: RecipeLanguage = 'ko'): string {
+    const labels = FORMAT_LABELS[lang];
+    const divider = '='.repeat(this.TEXT_CARD_WIDTH);
+    const { title: name, description, ingredients, steps } = this.pickFields(recipe, lang);
+    const otherName = lang === 'en' ? recipe.nameKo : recipe.nameEn;
+    const title = otherName && otherName !== name ? `${name} (${otherName})` : name;
+
+    const summary = [
+      recipe.cookingTime ? `${labels.cookingTime} ${labels.minutes(recipe.cookingTime)}` : null,
+      recipe.servings ? labels.servings(recipe.servings) : null,
+      `${labels.difficultyLabel} ${this.mapDifficulty(recipe.difficulty, lang)}`,
+      recipe.category ? `${labels.category} ${recipe.category}` : null,
+    ].filter(Boolean).join(' | ');
+
+    const lines = [divider, title, divider];
+    if (description) lines.push(description, '');
+    lines.push(summary, '');
+
+    if (ingredients.length > 0) {
+      lines.push(`[${labels.ingredients}]`, ...ingredients.map(ingredient => `  - ${ingredient}`), '');
+    }
+    if (steps.length > 0) {
+      lines.push(`[${labels.stepsCard}]`, ...steps.map((step, idx) => `  ${idx + 1}. ${step}`), '');
+    }
+
+    const nutrition = recipe.nutrition;
+    if (nutrition && Object.values(nutrition).some(value => value)) {
+      lines.push(`[${labels.nutritionCard}]`, [
+        nutrition.calories ? `${labels.calories} ${nutrition.calories}kcal` : null,
+        nutrition.protein ? `${labels.protein} ${nutrition.protein}g` : null,
+        nutrition.carbs ? `${labels.carbs} ${nutrition.carbs}g` : null,
+        nutrition.fat ? `${labels.fat} ${nutrition.fat}g` : null,
+      ].filter(Boolean).join(', '), '');
+    }
+
+    if (recipe.tags && recipe.tags.length > 0) {
+      lines.push(recipe.tags.map(tag => `#${tag}`).join(' '));
+    }
+    lines.push(divider);
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * schema.org Recipe JSON-LD (검색엔진 임베딩용)
+   */
+  static toJsonLd(recipe: ElasticsearchRecipe, withContext: boolean = true, lang: RecipeLanguage = 'ko'): RecipeJsonLd {
+    const { title, description, ingredients, steps } = this.pickFields(recipe, lang);
+    const nutrition = recipe.nutrition;
+
+    const jsonLd: RecipeJsonLd = {
+      ...(withContext ? { '@context': 'https://schema.org' as const } : {}),
+      '@type': 'Recipe',
+      identifier: recipe.id,
+      name: title,
+      description: description || undefined,
+      inLanguage: this.contentLanguage(recipe, lang),
+      recipeCategory: recipe.category,
+      keywords: recipe.tags && recipe.tags.length > 0 ? recipe.tags.join(', ') : undefined,
+      recipeYield: recipe.servings ? FORMAT_LABELS[lang].servings(recipe.servings) : undefined,
+      totalTime: recipe.cookingTime ? this.toIsoDuration(recipe.cookingTime) : undefined,
+      recipeIngredient: ingredients,
+      recipeInstructions: steps.map((text, idx) => ({ '@type': 'HowToStep' as const, position: idx + 1, text })),
+      author: { '@type': 'Organization', name: recipe.author || 'Recipe Database' },
+      datePublished: recipe.createdAt,
+      dateModified: recipe.updatedAt,
+    };
+
+    if (nutrition && Object.values(nutrition).some(value => value)) {
+      jsonLd.nutrition = {
+        '@type': 'NutritionInformation',
+        ...(nutrition.calories ? { calories: `${nutrition.calories} kcal` } : {}),
+        ...(nutrition.protein ? { proteinContent: `${nutrition.protein} g` } : {}),
+        ...(nutrition.carbs ? { carbohydrateContent: `${nutrition.carbs} g` } : {}),
+        ...(nutrition.fat ? { fatContent: `${nutrition.fat} g` } : {}),
+      };
+    }
+
+    if (recipe.ratingCount && recipe.ratingCount > 0) {
+      jsonLd.aggregateRating = {
+        '@type': 'AggregateRating',
+        ratingValue: recipe.averageRating ?? 0,
+        ratingCount: recipe.ratingCount,
+      };
+    }
+
+    return jsonLd;
+  }
+
+  /**
+   * 난이도 표시 이름
+   */
+  static mapDifficulty(difficulty: string | undefined, lang: RecipeLanguage): string {
+    const levels = FORMAT_LABELS[lang].difficulty;
+    const lower = difficulty?.toLowerCase() ?? '';
+    if (lower.includes('easy') || lower.includes('쉬')) return levels.easy;
+    if (lower.includes('hard') || lower.includes('어려')) return levels.hard;
+    return levels.medium;
+  }
+
+  /**
+   * 응답 언어의 이름/설명/재료/조리법 (해당 언어 값이 없으면 다른 언어 값)
+   */
+  private static pickFields(recipe: ElasticsearchRecipe, lang: RecipeLanguage) {
+    return {
+      title: LanguageUtil.pick(lang, recipe.nameKo, recipe.nameEn) ?? FORMAT_LABELS[lang].untitled,
+      description: LanguageUtil.pick(lang, recipe.descriptionKo, recipe.descriptionEn) ?? '',
+      ingredients: LanguageUtil.pick(lang, recipe.ingredientsKo, recipe.ingredientsEn) ?? [],
+      steps: LanguageUtil.pick(lang, recipe.stepsKo, recipe.stepsEn) ?? [],
+    };
+  }
+
+  // 실제로 사용한 이름 필드의 언어 (요청 언어 이름이 없으면 다른 언어)
+  private static contentLanguage(recipe: ElasticsearchRecipe, lang: RecipeLanguage): RecipeLanguage {
+    const hasRequested = lang === 'en' ? !!recipe.nameEn : !!recipe.nameKo;
+    return hasRequested ? lang : lang === 'en' ? 'ko' : 'en';
+  }
+
+  /**
+   * 조리시간 표시 (저장값이 없으면 단계별 시간 합계, 대기 시간이 있으면 나눠서 표시)
+   */
+  private static formatCookingTime(cookingTime: number | undefined, steps: string[], lang: RecipeLanguage): string {
+    const labels = FORMAT_LABELS[lang];
+    const { timing } = RecipeStepUtil.analyzeSteps(steps, lang);
+    const total = cookingTime || timing.totalMinutes;
+    if (!total) return labels.noInfo;
+
+    const estimated = !cookingTime ? ` (${labels.estimatedTime})` : '';
+    const breakdown = timing.passiveMinutes > 0
+      ? ` (${labels.timeBreakdown(timing.activeMinutes, timing.passiveMinutes)})`
+      : '';
+    return `${labels.minutes(total)}${estimated}${breakdown}`;
+  }
+
+  // 분 → ISO 8601 기간 (예: 90 → PT1H30M)
+  private static toIsoDuration(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const rest = Math.round(minutes % 60);
+    return `PT${hours > 0 ? `${hours}H` : ''}${rest > 0 || hours === 0 ? `${rest}M` : ''}`;
+  }
+}
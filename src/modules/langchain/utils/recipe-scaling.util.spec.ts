@@ -0,0 +1,95 @@
+import { IngredientParserUtil } from './ingredient-parser.util';
+import { RecipeScalingUtil, ScalableRecipe } from './recipe-scaling.util';
+
+describe('RecipeScalingUtil', () => {
+  const recipe: ScalableRecipe = {
+    ingredients: ['돼지고기 200g', '간장 2큰술', '소금 약간', '양파 1개'],
+    servings: 2,
+    cookingTime: 30,
+    nutrition: { calories: 400, protein: 20, carbs: 30, fat: 10 },
+  };
+
+  describe('applyScaling', () => {
+    it('replaces ingredients and servings', () => {
+      const scaled = RecipeScalingUtil.applyScaling(recipe, 4);
+
+      expect(scaled.servings).toBe(4);
+      expect(scaled.ingredients).toEqual(['돼지고기 400g', '간장 4큰술', '소금 약간', '양파 2개']);
+      expect(scaled.scaling.unscalableIngredients).toEqual(['소금 약간']);
+    });
+
+    it('returns parsed ingredients with the scaled quantities', () => {
+      const scaled = RecipeScalingUtil.applyScaling({
+        ...recipe,
+        parsedIngredients: IngredientParserUtil.parseAll(recipe.ingredients),
+      }, 4);
+
+      expect(scaled.parsedIngredients?.map(ingredient => [ingredient.name, ingredient.quantity, ingredient.unit])).toEqual([
+        ['돼지고기', 400, 'g'],
+        ['간장', 4, 'tbsp'],
+        ['소금', null, 'a_little'],
+        ['양파', 2, 'piece'],
+      ]);
+      expect(scaled.parsedIngredients?.[0]?.original).toBe('돼지고기 400g');
+    });
+
+    it('reports the converted unit on scaled parsed ingredients', () => {
+      const scaled = RecipeScalingUtil.applyScaling({ ...recipe, ingredients: ['간장 1큰술'], servings: 4 }, 1);
+
+      expect(scaled.parsedIngredients?.[0]).toMatchObject({ quantity: 0.75, unit: 'tsp', unitText: '작은술', unitType: 'volume' });
+    });
+  });
+
+  describe('scaleRecipe', () => {
+    it('keeps per-serving nutrition and scales the total', () => {
+      const scaling = RecipeScalingUtil.scaleRecipe(recipe, 3);
+
+      expect(scaling.factor).toBe(1.5);
+      expect(scaling.nutritionPerServing.calories).toBe(400);
+      expect(scaling.nutritionTotal.calories).toBe(1200);
+    });
+
+    it('lengthens cooking time less than linearly', () => {
+      const scaling = RecipeScalingUtil.scaleRecipe(recipe, 4);
+
+      expect(scaling.estimatedCookingTime).toBe(36);
+      expect(scaling.cookingTimeHint).toContain('36분');
+    });
+
+    it('writes the cooking time hint in English when asked', () => {
+      expect(RecipeScalingUtil.scaleRecipe(recipe, 4, 'en').cookingTimeHint).toContain('about 36 min');
+      expect(RecipeScalingUtil.scaleRecipe(recipe, 1, 'en').cookingTimeHint).toContain('With a smaller amount');
+    });
+  });
+
+  describe('scaleIngredient', () => {
+    it('switches small tablespoon amounts to teaspoons', () => {
+      const scaled = RecipeScalingUtil.scaleIngredient(IngredientParserUtil.parse('설탕 1큰술'), 0.25);
+
+      expect(scaled).toMatchObject({ scaledUnit: 'tsp', displayQuantity: '3/4', scaledText: '설탕 3/4작은술' });
+    });
+
+    it('keeps the quantity first for English ingredients', () => {
+      expect(RecipeScalingUtil.scaleIngredient(IngredientParserUtil.parse('2 cups flour'), 2).scaledText).toBe('4 cups flour');
+    });
+  });
+
+  describe('formatQuantity', () => {
+    it.each([
+      [1.5, '1 1/2'],
+      [0.33, '1/3'],
+      [2, '2'],
+      [0.97, '1'],
+    ])('formats %s as %s', (value, expected) => {
+      expect(RecipeScalingUtil.formatQuantity(value)).toBe(expected);
+    });
+  });
+
+  describe('extractRequestedServings', () => {
+    it('reads Korean and English requests within range', () => {
+      expect(RecipeScalingUtil.extractRequestedServings('4인분으로 알려줘')).toBe(4);
+      expect(RecipeScalingUtil.extractRequestedServings('make it for 6 people')).toBe(6);
+      expect(RecipeScalingUtil.extractRequestedServings('100인분')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { NutritionInfo, ParsedIngredient, RecipeLanguage, RecipeScaling, ScaledIngredient } from '../types/langchain.types';
+import { INGREDIENT_UNITS, IngredientParserUtil } from './ingredient-parser.util';
+
+/**
+ * 분량 조절에 필요한 레시피 필드
+ */
+export interface ScalableRecipe {
+  ingredients: string[];
+  parsedIngredients?: ParsedIngredient[];
+  servings: number;
+  cookingTime: number;
+  nutrition: NutritionInfo;
+}
+
+/**
+ * 인분 수 조절 유틸리티
+ * 재료량은 주방 계량 분수(1/4, 1/3, 1/2 ...)와 한국식 계량으로 반올림하고,
+ * 수량이 없는 재료(약간, 적당량 등)는 조절 불가로 표시
+ */
+export class RecipeScalingUtil {
+  static readonly MIN_SERVINGS = 1;
+  static readonly MAX_SERVINGS = 50;
+
+  private static readonly KITCHEN_FRACTIONS: Array<[number, string]> = [
+    [0, ''], [1 / 8, '1/8'], [1 / 4, '1/4'], [1 / 3, '1/3'], [1 / 2, '1/2'], [2 / 3, '2/3'], [3 / 4, '3/4'], [1, ''],
+  ];
+
+  // 1큰술 = 3작은술
+  private static readonly TSP_PER_TBSP = 3;
+
+  // 조리 시간 안내 문구 (언어별)
+  private static readonly COOKING_TIME_HINTS: Record<RecipeLanguage, { longer: (factor: number, minutes: number) => string; shorter: (minutes: number) => string }> = {
+    ko: {
+      longer: (factor, minutes) => `양이 ${factor}배로 늘어 끓이거나 굽는 시간이 약 ${minutes}분 정도로 늘어날 수 있어요. 더 큰 냄비나 팬을 사용하세요.`,
+      shorter: minutes => `양이 줄어 조리 시간이 약 ${minutes}분으로 짧아질 수 있어요. 타지 않도록 불 세기를 확인하세요.`,
+    },
+    en: {
+      longer: (factor, minutes) => `With ${factor}x the amount, simmering or baking may take about ${minutes} min. Use a larger pot or pan.`,
+      shorter: minutes => `With a smaller amount, cooking may take only about ${minutes} min. Watch the heat so it doesn't burn.`,
+    },
+  };
+
+  /**
+   * 레시피에 분량 조절 결과 적용 (재료 문자열, 파싱된 재료, 인분 수 교체, 상세 내역은 scaling 에 포함)
+   * 조리 시간 안내는 lang 으로 작성
+   */
+  static applyScaling<T extends ScalableRecipe>(
+    recipe: T,
+    targetServings: number,
+    lang: RecipeLanguage = 'ko',
+  ): T & { scaling: RecipeScaling } {
+    const scaling = this.scaleRecipe(recipe, targetServings, lang);
+    return {
+      ...recipe,
+      servings: scaling.targetServings,
+      ingredients: scaling.ingredients.map(ingredient => ingredient.scaledText),
+      parsedIngredients: scaling.ingredients.map(ingredient => this.toParsedIngredient(ingredient)),
+      scaling,
+    };
+  }
+
+  static scaleRecipe(recipe: ScalableRecipe, targetServings: number, lang: RecipeLanguage = 'ko'): RecipeScaling {
+    const originalServings = recipe.servings > 0 ? recipe.servings : 1;
+    const factor = targetServings / originalServings;
+    const parsed = recipe.parsedIngredients ?? IngredientParserUtil.parseAll(recipe.ingredients);
+    const ingredients = parsed.map(ingredient => this.scaleIngredient(ingredient, factor));
+    const estimatedCookingTime = this.estimateCookingTime(recipe.cookingTime, factor);
+
+    return {
+      originalServings,
+      targetServings,
+      factor: Math.round(factor * 100) / 100,
+      ingredients,
+      unscalableIngredients: ingredients.filter(ingredient => !ingredient.scalable).map(ingredient => ingredient.original),
+      nutritionPerServing: recipe.nutrition,
+      nutritionTotal: {
+        calories: Math.round(recipe.nutrition.calories * targetServings),
+        protein: Math.round(recipe.nutrition.protein * targetServings * 10) / 10,
+        carbs: Math.round(recipe.nutrition.carbs * targetServings * 10) / 10,
+        fat: Math.round(recipe.nutrition.fat * targetServings * 10) / 10,
+      },
+      originalCookingTime: recipe.cookingTime,
+      estimatedCookingTime,
+      cookingTimeHint: this.buildCookingTimeHint(recipe.cookingTime, estimatedCookingTime, factor, lang),
+    };
+  }
+
+  /**
+   * 재료 한 줄 분량 조절
+   */
+  static scaleIngredient(ingredient: ParsedIngredient, factor: number): ScaledIngredient {
+    if (ingredient.quantity === null) {
+      return {
+        ...ingredient,
+        scalable: false,
+        scaledQuantity: null,
+        scaledQuantityMax: null,
+        scaledUnit: ingredient.unit,
+        displayQuantity: null,
+        scaledText: ingredient.original,
+        reason: ingredient.unitType === 'approximate' ? 'approximate' : 'no_quantity',
+      };
+    }
+
+    let unit = ingredient.unit;
+    let quantity = ingredient.quantity * factor;
+    let quantityMax = ingredient.quantityMax !== null ? ingredient.quantityMax * factor : null;
+
+    // 큰술/작은술은 읽기 쉬운 쪽으로 바꿈 (1/2큰술 미만 → 작은술, 3작은술 이상 → 큰술)
+    if (unit === 'tbsp' && quantity < 0.5) {
+      unit = 'tsp';
+      quantity *= this.TSP_PER_TBSP;
+      quantityMax = quantityMax !== null ? quantityMax * this.TSP_PER_TBSP : null;
+    } else if (unit === 'tsp' && quantity >= this.TSP_PER_TBSP) {
+      unit = 'tbsp';
+      quantity /= this.TSP_PER_TBSP;
+      quantityMax = quantityMax !== null ? quantityMax / this.TSP_PER_TBSP : null;
+    }
+
+    const scaledQuantity = this.roundForUnit(quantity, unit);
+    const scaledQuantityMax = quantityMax !== null ? this.roundForUnit(quantityMax, unit) : null;
+    const displayQuantity = scaledQuantityMax !== null && scaledQuantityMax !== scaledQuantity
+      ? `${this.formatQuantity(scaledQuantity)}~${this.formatQuantity(scaledQuantityMax)}`
+      : this.formatQuantity(scaledQuantity);
+
+    // 단위가 그대로면 원문 표기를 유지하고, 바뀌었으면 한국식 단위 이름 사용
+    const unitText = unit === ingredient.unit ? ingredient.unitText ?? '' : (unit ? INGREDIENT_UNITS[unit]?.label ?? unit : '');
+    const amount = /^[a-zA-Z]/.test(unitText) && !/^(g|kg|mg|ml|l)$/i.test(unitText)
+      ? `${displayQuantity} ${unitText}`
+      : `${displayQuantity}${unitText}`;
+    const note = ingredient.note ? ` (${ingredient.note})` : '';
+    // 영어식 표기("2 cups flour")는 수량을 앞에 둠
+    const quantityFirst = /^[\d½⅓⅔¼¾⅛]/.test(ingredient.original.trim());
+
+    return {
+      ...ingredient,
+      scalable: true,
+      scaledQuantity,
+      scaledQuantityMax,
+      scaledUnit: unit,
+      displayQuantity,
+      scaledText: quantityFirst ? `${amount} ${ingredient.name}${note}` : `${ingredient.name} ${amount}${note}`,
+      reason: null,
+    };
+  }
+
+  /**
+   * 분량 조절된 재료 → 조절 후 수량 기준의 파싱 결과
+   */
+  static toParsedIngredient(ingredient: ScaledIngredient): ParsedIngredient {
+    if (!ingredient.scalable) {
+      const { original, name, quantity, quantityMax, unit, unitText, unitType, note } = ingredient;
+      return { original, name, quantity, quantityMax, unit, unitText, unitType, note };
+    }
+
+    const unit = ingredient.scaledUnit;
+    return {
+      original: ingredient.scaledText,
+      name: ingredient.name,
+      quantity: ingredient.scaledQuantity,
+      quantityMax: ingredient.scaledQuantityMax,
+      unit,
+      unitText: unit === ingredient.unit ? ingredient.unitText : (unit ? INGREDIENT_UNITS[unit]?.label ?? unit : null),
+      unitType: unit ? INGREDIENT_UNITS[unit]?.type ?? ingredient.unitType : ingredient.unitType,
+      note: ingredient.note,
+    };
+  }
+
+  /**
+   * 메시지에서 요청 인분 수 추출 ("4인분", "3명", "for 6 people", "6 servings")
+   */
+  static extractRequestedServings(message: string): number | null {
+    const match = message.match(/(\d+)\s*(?:인분|명|인\s*기준)/) ??
+      message.match(/(?:for\s+)?(\d+)\s*(?:servings|people|persons|portions)/i);
+    if (!match || !match[1]) return null;
+
+    const servings = parseInt(match[1], 10);
+    return servings >= this.MIN_SERVINGS && servings <= this.MAX_SERVINGS ? servings : null;
+  }
+
+  /**
+   * 숫자를 주방 분수 표기로 변환 (1.5 → "1 1/2", 0.33 → "1/3")
+   */
+  static formatQuantity(value: number): string {
+    const whole = Math.floor(value);
+    const rest = value - whole;
+    const [, fraction] = this.KITCHEN_FRACTIONS.reduce((closest, candidate) =>
+      Math.abs(candidate[0] - rest) < Math.abs(closest[0] - rest) ? candidate : closest
+    );
+
+    if (Math.abs(rest - 1) < 1e-9 || (!fraction && rest > 0.5)) {
+      return String(whole + 1);
+    }
+    if (!fraction) {
+      return String(whole);
+    }
+    return whole > 0 ? `${whole} ${fraction}` : fraction;
+  }
+
+  /**
+   * 단위별 반올림 (계량스푼/컵은 분수, 무게/용량은 주방 저울 단위)
+   */
+  private static roundForUnit(value: number, unit: string | null): number {
+    const type = unit ? INGREDIENT_UNITS[unit]?.type : 'count';
+
+    if (unit === 'g' || unit === 'ml') {
+      const step = value < 10 ? 1 : value < 100 ? 5 : value < 1000 ? 10 : 50;
+      return Math.max(step, Math.round(value / step) * step);
+    }
+    if (unit === 'kg' || unit === 'l' || unit === 'lb') {
+      return Math.max(0.05, Math.round(value * 20) / 20);
+    }
+    if (type === 'count') {
+      // 개수 단위는 1/2 단위, 3개 이상은 정수
+      return value >= 3 ? Math.round(value) : Math.max(0.5, Math.round(value * 2) / 2);
+    }
+
+    const whole = Math.floor(value);
+    const [fraction] = this.KITCHEN_FRACTIONS.reduce((closest, candidate) =>
+      Math.abs(candidate[0] - (value - whole)) < Math.abs(closest[0] - (value - whole)) ? candidate : closest
+    );
+    return Math.max(1 / 8, whole + fraction);
+  }
+
+  /**
+   * 양이 늘면 끓이기/굽기 시간이 조금 늘어나는 정도로 보정 (선형 증가 아님)
+   */
+  private static estimateCookingTime(cookingTime: number, factor: number): number {
+    if (!cookingTime || factor === 1) return cookingTime;
+    const adjusted = cookingTime * (1 + (factor - 1) * 0.2);
+    return Math.max(Math.round(cookingTime * 0.8), Math.round(adjusted));
+  }
+
+  private static buildCookingTimeHint(cookingTime: number, estimated: number, factor: number, lang: RecipeLanguage): string | null {
+    if (!cookingTime || estimated === cookingTime) return null;
+    const hints = this.COOKING_TIME_HINTS[lang];
+    return factor > 1 ? hints.longer(Math.round(factor * 10) / 10, estimated) : hints.shorter(estimated);
+  }
+}
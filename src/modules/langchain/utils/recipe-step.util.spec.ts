@@ -0,0 +1,85 @@
+import { RecipeStepUtil } from './recipe-step.util';
+
+describe('RecipeStepUtil', () => {
+  describe('analyzeStep tips', () => {
+    it('keeps cautionary sentences in the instruction', () => {
+      const step = RecipeStepUtil.analyzeStep('냄비에 우유를 붓고 약불로 데운다. 타지 않게 계속 저어 주세요.', 1);
+
+      expect(step.instruction).toBe('냄비에 우유를 붓고 약불로 데운다. 타지 않게 계속 저어 주세요.');
+      expect(step.tip).toBeNull();
+    });
+
+    it('keeps sentences that only sound like advice', () => {
+      const step = RecipeStepUtil.analyzeStep('면을 삶는다. 물이 끓어야 면을 넣는다. 간을 보면 좋아요.', 1);
+
+      expect(step.tip).toBeNull();
+      expect(step.instruction).toContain('간을 보면 좋아요.');
+    });
+
+    it('moves explicit tips and parenthesised notes out of the instruction', () => {
+      const step = RecipeStepUtil.analyzeStep('양파를 볶는다 (참고: 설탕을 조금 넣으면 빨리 갈색이 된다). 팁: 약불을 유지하세요.', 1);
+
+      expect(step.instruction).toBe('양파를 볶는다.');
+      expect(step.tip).toBe('설탕을 조금 넣으면 빨리 갈색이 된다. 약불을 유지하세요.');
+    });
+
+    it('needs a marker for English tips', () => {
+      expect(RecipeStepUtil.analyzeStep('Tip the batter into the pan.', 1).tip).toBeNull();
+      expect(RecipeStepUtil.analyzeStep('Bake for 20 minutes. Tip: rotate the pan halfway.', 1).tip).toBe('rotate the pan halfway.');
+      expect(RecipeStepUtil.analyzeStep('Bake for 20 minutes (note: ovens vary). Tip: rotate the pan!', 1).tip)
+        .toBe('ovens vary. rotate the pan!');
+    });
+  });
+
+  describe('analyzeStep passive', () => {
+    it.each([
+      '냉장고에서 꺼낸 버터를 팬에 녹인다.',
+      '불린 쌀을 냄비에 넣고 5분 볶는다.',
+      '재운 고기를 센 불에 굽는다.',
+    ])('treats "%s" as hands-on', text => {
+      expect(RecipeStepUtil.analyzeStep(text, 1).passive).toBe(false);
+    });
+
+    it.each([
+      '반죽을 랩으로 싸서 1시간 냉장 보관한다.',
+      '양념에 고기를 30분 재워 두세요.',
+      '쌀을 물에 30분 불린다.',
+      '냉장고에 넣어 하룻밤 둔다.',
+      'Let the dough rest for 10 minutes.',
+    ])('treats "%s" as waiting', text => {
+      expect(RecipeStepUtil.analyzeStep(text, 1).passive).toBe(true);
+    });
+  });
+
+  describe('extractDurations', () => {
+    it('reads hours with Korean number words', () => {
+      expect(RecipeStepUtil.extractDurations('반 시간 정도 둔다')).toEqual([{ text: '반 시간', minMinutes: 30, maxMinutes: 30 }]);
+      expect(RecipeStepUtil.extractDurations('한 시간 반 끓인다')).toEqual([{ text: '한 시간 반', minMinutes: 90, maxMinutes: 90 }]);
+    });
+
+    it('does not read number words inside other words', () => {
+      expect(RecipeStepUtil.extractDurations('충분한 시간 동안 졸인다')).toEqual([]);
+    });
+
+    it('reads ranges and combined units once', () => {
+      expect(RecipeStepUtil.extractDurations('1시간 30분 삶고 5~10분 뜸을 들인다').map(duration => duration.maxMinutes)).toEqual([90, 10]);
+      expect(RecipeStepUtil.extractDurations('simmer for 2-3 minutes')).toEqual([{ text: '2-3 minutes', minMinutes: 2, maxMinutes: 3 }]);
+    });
+  });
+
+  describe('summarizeTiming', () => {
+    it('splits active and waiting time and estimates untimed steps', () => {
+      const { timing } = RecipeStepUtil.analyzeSteps(['고기를 30분 재워 두세요.', '중불에서 10분 볶는다.', '접시에 담는다.']);
+
+      expect(timing).toEqual({ activeMinutes: 13, passiveMinutes: 30, totalMinutes: 43, timedSteps: 2, estimatedSteps: 1 });
+    });
+  });
+
+  describe('extractHeat and extractTemperature', () => {
+    it('reads the first heat level and oven temperatures', () => {
+      expect(RecipeStepUtil.extractHeat('중강불로 올렸다가 약불로 줄인다')).toBe('medium_high');
+      expect(RecipeStepUtil.extractTemperature('180도로 예열한 오븐')).toEqual({ value: 180, unit: 'C' });
+      expect(RecipeStepUtil.extractTemperature('bake at 350°F')).toEqual({ value: 350, unit: 'F' });
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import { HeatLevel, RecipeLanguage, RecipeStep, RecipeTiming, StepDuration, StepTemperature } from '../types/langchain.types';
+import { IngredientParserUtil } from './ingredient-parser.util';
+
+/**
+ * 조리 도구 (한국어/영어 표시 이름 → 조리법에 나오는 표현)
+ * 한 글자 표현(팬, 볼)은 단어 첫머리에서만 일치
+ */
+export const STEP_EQUIPMENT: Array<{ name: string; nameEn: string; terms: string[] }> = [
+  { name: '냄비', nameEn: 'pot', terms: ['냄비', 'pot', 'saucepan'] },
+  { name: '프라이팬', nameEn: 'frying pan', terms: ['프라이팬', '팬', 'frying pan', 'skillet', 'pan'] },
+  { name: '웍', nameEn: 'wok', terms: ['웍', 'wok'] },
+  { name: '뚝배기', nameEn: 'earthenware pot', terms: ['뚝배기'] },
+  { name: '오븐', nameEn: 'oven', terms: ['오븐', 'oven'] },
+  { name: '에어프라이어', nameEn: 'air fryer', terms: ['에어프라이어', 'air fryer'] },
+  { name: '전자레인지', nameEn: 'microwave', terms: ['전자레인지', 'microwave'] },
+  { name: '찜기', nameEn: 'steamer', terms: ['찜기', '찜통', 'steamer'] },
+  { name: '압력솥', nameEn: 'pressure cooker', terms: ['압력솥', 'pressure cooker'] },
+  { name: '밥솥', nameEn: 'rice cooker', terms: ['밥솥', 'rice cooker'] },
+  { name: '믹서', nameEn: 'blender', terms: ['믹서', '블렌더', '푸드프로세서', 'blender', 'food processor'] },
+  { name: '그릴', nameEn: 'grill', terms: ['그릴', '석쇠', 'grill'] },
+  { name: '볼', nameEn: 'bowl', terms: ['볼', '믹싱볼', 'bowl'] },
+  { name: '체', nameEn: 'sieve', terms: ['체에 밭', '체에 걸', '체로 걸', '채반', 'sieve', 'strainer', 'colander'] },
+  { name: '거품기', nameEn: 'whisk', terms: ['거품기', 'whisk'] },
+  { name: '베이킹 트레이', nameEn: 'baking sheet', terms: ['베이킹 트레이', '오븐팬', 'baking sheet', 'baking tray'] },
+];
+
+/**
+ * 조리 단계 분석기 ("중불에서 5분 볶는다", "30분간 재운다" → 시간/불 세기/온도/도구/팁/대기 여부)
+ */
+export class RecipeStepUtil {
+  // 시간이 적히지 않은 손이 가는 단계의 추정 소요 시간 (분)
+  static readonly DEFAULT_STEP_MINUTES = 3;
+
+  // 하룻밤 재우기 등은 8시간으로 계산
+  private static readonly OVERNIGHT_MINUTES = 480;
+
+  private static readonly KOREAN_HOUR_NUMBERS: Record<string, number> = {
+    반: 0.5, 한: 1, 두: 2, 세: 3, 네: 4, 다섯: 5,
+  };
+
+  // "충분한 시간" 의 '한' 처럼 단어 중간의 수 표현은 제외
+  private static readonly HOUR_REGEX = /(?<![가-힣\d.])(\d+(?:\.\d+)?|반|한|두|세|네|다섯)(?:\s*[~\-–]\s*(\d+(?:\.\d+)?))?\s*시간(\s*반)?(?:\s*(\d+)\s*분)?/g;
+  private static readonly MINUTE_REGEX = /(\d+(?:\.\d+)?)(?:\s*[~\-–]\s*(\d+(?:\.\d+)?))?\s*분(?!량|의)/g;
+  private static readonly SECOND_REGEX = /(\d+)(?:\s*[~\-–]\s*(\d+))?\s*초(?!벌)/g;
+  private static readonly ENGLISH_REGEX = /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(hours?|hrs?|minutes?|mins?|seconds?|secs?)\b/gi;
+  private static readonly OVERNIGHT_REGEX = /하룻밤|밤새|overnight/gi;
+
+  // 먼저 적힌 불 세기를 사용 (중강불/중약불은 강불/약불보다 먼저 검사)
+  private static readonly HEAT_PATTERNS: Array<{ level: HeatLevel; pattern: RegExp }> = [
+    { level: 'medium_high', pattern: /중강불|medium[-\s]high/i },
+    { level: 'medium_low', pattern: /중약불|medium[-\s]low/i },
+    { level: 'high', pattern: /강불|센\s*불|high heat/i },
+    { level: 'medium', pattern: /중불|중간\s*불|medium heat/i },
+    { level: 'low', pattern: /약불|약한\s*불|뭉근히|low heat/i },
+  ];
+
+  // 재료 상태를 꾸미는 말("불린 쌀", "냉장고에서 꺼낸")이 아닌 기다리는 동작에만 일치
+  private static readonly PASSIVE_REGEX = new RegExp([
+    '(?:재워|불려|식혀|절여|굳혀|담가|담궈)(?!진)',
+    '(?:재우|불리|식히|절이|굳히)(?:고|기|면|며|세요|십시오|어)',
+    '(?:재운|불린|식힌|절인|굳힌|담근)다',
+    '(?:재웁|불립|식힙|절입|굳힙|담급)니다',
+    '(?:숙성|휴지|발효|해동)\\s*(?:시키|시켜|시킵|해|합|하(?:고|기|면|며|세요|다))',
+    '(?:냉장|냉동)\\s*(?:보관|숙성)',
+    '(?:냉장|냉동)(?:고|실)에\\s*(?:넣|두|둡|보관|재|굳|식)',
+    '뜸\\s*(?:을\\s*)?들',
+    '우려\\s*(?:내(?:고|세요|요|다|어)|둡|두)',
+    '하룻밤',
+  ].join('|') + '|\\b(?:marinat\\w*|rest(?:ing)?\\b(?! of)|chill\\w*|soak\\w*|proof\\w*|refrigerat\\w*|freez\\w*|cool\\w*|steep\\w*|overnight)', 'i');
+
+  // 시간을 맞춰 두면 손이 가지 않는 도구
+  private static readonly HANDS_OFF_EQUIPMENT = ['오븐', '에어프라이어', '밥솥', '압력솥'];
+
+  // "Tip the batter", "주의해서" 처럼 표시 없이 시작하는 문장은 조리법으로 남김
+  private static readonly EXPLICIT_TIP_REGEX = /^\s*(?:(?:팁|tip|참고|주의|note)\s*[:：)]|※|💡)\s*/i;
+
+  /**
+   * 조리법 문장 목록 → 분석된 단계와 실제 조리/대기 시간 합계
+   */
+  static analyzeSteps(instructions: string[], lang: RecipeLanguage = 'ko'): { steps: RecipeStep[]; timing: RecipeTiming } {
+    const steps = instructions.map((instruction, index) => this.analyzeStep(instruction, index + 1, lang));
+    return { steps, timing: this.summarizeTiming(steps) };
+  }
+
+  /**
+   * 조리 단계 하나 분석 (도구 이름은 lang 으로 표시)
+   */
+  static analyzeStep(text: string, stepNumber: number, lang: RecipeLanguage = 'ko'): RecipeStep {
+    const { instruction, tips } = this.splitTips(text);
+    const durations = this.extractDurations(text);
+    const time = durations.length > 0
+      ? Math.round(durations.reduce((sum, duration) => sum + duration.maxMinutes, 0) * 10) / 10
+      : null;
+    const equipment = this.findEquipment(text);
+
+    return {
+      step: stepNumber,
+      instruction,
+      time,
+      tip: tips.length > 0 ? tips.join(' ') : null,
+      durations,
+      heat: this.extractHeat(text),
+      temperature: this.extractTemperature(text),
+      equipment: equipment.map(item => (lang === 'en' ? item.nameEn : item.name)),
+      passive: this.PASSIVE_REGEX.test(text) || (time !== null && equipment.some(item => this.HANDS_OFF_EQUIPMENT.includes(item.name))),
+    };
+  }
+
+  /**
+   * 단계별 시간 합계 (시간이 없는 손이 가는 단계는 기본값으로 추정)
+   */
+  static summarizeTiming(steps: RecipeStep[]): RecipeTiming {
+    let activeMinutes = 0;
+    let passiveMinutes = 0;
+    let timedSteps = 0;
+    let estimatedSteps = 0;
+
+    for (const step of steps) {
+      if (step.time !== null) {
+        timedSteps++;
+        if (step.passive) {
+          passiveMinutes += step.time;
+        } else {
+          activeMinutes += step.time;
+        }
+      } else if (!step.passive) {
+        estimatedSteps++;
+        activeMinutes += this.DEFAULT_STEP_MINUTES;
+      }
+    }
+
+    activeMinutes = Math.ceil(activeMinutes);
+    passiveMinutes = Math.ceil(passiveMinutes);
+    return { activeMinutes, passiveMinutes, totalMinutes: activeMinutes + passiveMinutes, timedSteps, estimatedSteps };
+  }
+
+  /**
+   * 시간 표현 추출 ("1시간 30분", "5~10분", "30초", "2-3 minutes", "하룻밤")
+   * 이미 읽은 부분은 지워서 "1시간 30분"의 30분이 따로 잡히지 않도록 함
+   */
+  static extractDurations(text: string): StepDuration[] {
+    const found: Array<StepDuration & { index: number }> = [];
+    let remaining = text;
+
+    const consume = (regex: RegExp, toMinutes: (match: RegExpExecArray) => [number, number]) => {
+      remaining = remaining.replace(regex, (...args: unknown[]) => {
+        const match = args.slice(0, -2) as unknown as RegExpExecArray;
+        const index = args[args.length - 2] as number;
+        const [minMinutes, maxMinutes] = toMinutes(match);
+        found.push({ text: match[0].trim(), minMinutes, maxMinutes, index });
+        return ' '.repeat(match[0].length);
+      });
+    };
+
+    consume(this.HOUR_REGEX, match => {
+      const hours = this.KOREAN_HOUR_NUMBERS[match[1] ?? ''] ?? Number(match[1]);
+      const maxHours = match[2] ? Number(match[2]) : hours;
+      const extra = (match[3] ? 30 : 0) + Number(match[4] ?? 0);
+      return [hours * 60 + extra, maxHours * 60 + extra];
+    });
+    consume(this.MINUTE_REGEX, match => [Number(match[1]), Number(match[2] ?? match[1])]);
+    consume(this.SECOND_REGEX, match => [Number(match[1]) / 60, Number(match[2] ?? match[1]) / 60]);
+    consume(this.ENGLISH_REGEX, match => {
+      const unit = (match[3] ?? '').toLowerCase();
+      const factor = unit.startsWith('h') ? 60 : unit.startsWith('s') ? 1 / 60 : 1;
+      return [Number(match[1]) * factor, Number(match[2] ?? match[1]) * factor];
+    });
+    consume(this.OVERNIGHT_REGEX, () => [this.OVERNIGHT_MINUTES, this.OVERNIGHT_MINUTES]);
+
+    return found
+      .sort((a, b) => a.index - b.index)
+      .map(({ text: durationText, minMinutes, maxMinutes }) => ({ text: durationText, minMinutes, maxMinutes }));
+  }
+
+  /**
+   * 불 세기 (여러 개면 먼저 나온 것)
+   */
+  static extractHeat(text: string): HeatLevel | null {
+    const matches = this.HEAT_PATTERNS
+      .map(({ level, pattern }) => ({ level, index: text.search(pattern) }))
+      .filter(match => match.index >= 0)
+      .sort((a, b) => a.index - b.index);
+    return matches[0]?.level ?? null;
+  }
+
+  /**
+   * 오븐/기름 온도 ("180도", "180℃", "350°F")
+   */
+  static extractTemperature(text: string): StepTemperature | null {
+    const fahrenheit = text.match(/(\d{2,3})\s*(?:°\s*F|℉|degrees?\s*F\b)/i);
+    if (fahrenheit) return { value: Number(fahrenheit[1]), unit: 'F' };
+
+    const celsius = text.match(/(\d{2,3})\s*(?:도(?!마)|℃|°\s*C?|degrees?\s*C\b)/i);
+    return celsius ? { value: Number(celsius[1]), unit: 'C' } : null;
+  }
+
+  /**
+   * 사용하는 조리 도구
+   */
+  static extractEquipment(text: string, lang: RecipeLanguage = 'ko'): string[] {
+    return this.findEquipment(text).map(item => (lang === 'en' ? item.nameEn : item.name));
+  }
+
+  private static findEquipment(text: string): typeof STEP_EQUIPMENT {
+    return STEP_EQUIPMENT.filter(({ terms }) => terms.some(term => IngredientParserUtil.containsTerm(text, term)));
+  }
+
+  /**
+   * 팁 문장 분리 ("팁:", "Tip:" 으로 시작하는 문장과 "(참고: ...)" 괄호 메모만)
+   * 모든 문장이 팁이면 첫 문장은 조리법으로 남김
+   */
+  private static splitTips(text: string): { instruction: string; tips: string[] } {
+    const tips: string[] = [];
+    const withoutParenthesized = text.replace(/\s*[(（]\s*((?:팁|tip|참고|주의|note)\s*[:：][^)）]*)[)）]/gi, (_, inner: string) => {
+      tips.push(this.endSentence(inner.replace(this.EXPLICIT_TIP_REGEX, '')));
+      return '';
+    });
+
+    const sentences = withoutParenthesized
+      .split(/(?<=[.!?])\s+|\n+/)
+      .map(sentence => sentence.trim())
+      .filter(Boolean);
+
+    const instructionSentences: string[] = [];
+    sentences.forEach(sentence => {
+      if (this.EXPLICIT_TIP_REGEX.test(sentence)) {
+        tips.push(this.endSentence(sentence.replace(this.EXPLICIT_TIP_REGEX, '')));
+      } else {
+        instructionSentences.push(sentence);
+      }
+    });
+
+    const instruction = instructionSentences.join(' ') || sentences[0] || text.trim();
+    return { instruction, tips: tips.filter(tip => tip && tip !== instruction) };
+  }
+
+  // 여러 팁을 이어 붙여도 문장이 구분되도록 문장 부호가 없으면 마침표를 붙임
+  private static endSentence(text: string): string {
+    const trimmed = text.trim();
+    return !trimmed || /[.!?。…]$/.test(trimmed) ? trimmed : `${trimmed}.`;
+  }
+}
@@ -1,50 +1,54 @@
 import { ElasticsearchRecipe } from '../../elasticsearch/elasticsearch.service';
-import { TransformedRecipe } from '../types/langchain.types';
+import { RecipeLanguage, TransformedRecipe } from '../types/langchain.types';
+import { IngredientParserUtil } from './ingredient-parser.util';
+import { LanguageUtil } from './language.util';
+import { RecipeStepUtil } from './recipe-step.util';
 
 /**
  * 간단한 레시피 변환 유틸리티 함수들
  */
 export class RecipeTransformUtil {
   
-  static transformRecipes(recipes: ElasticsearchRecipe[]): TransformedRecipe[] {
-    return recipes.map(recipe => this.transformRecipe(recipe));
+  static transformRecipes(recipes: ElasticsearchRecipe[], lang: RecipeLanguage = 'ko'): TransformedRecipe[] {
+    return recipes.map(recipe => this.transformRecipe(recipe, lang));
   }
 
-  static transformRecipe(recipe: ElasticsearchRecipe): TransformedRecipe {
+  /**
+   * 응답 언어의 이름/설명/재료/조리법 사용 (해당 언어 값이 없으면 다른 언어로 대체)
+   */
+  static transformRecipe(recipe: ElasticsearchRecipe, lang: RecipeLanguage = 'ko'): TransformedRecipe {
+    const ingredients = LanguageUtil.pick(lang, recipe.ingredientsKo, recipe.ingredientsEn) ?? [];
+    const { steps, timing } = RecipeStepUtil.analyzeSteps(LanguageUtil.pick(lang, recipe.stepsKo, recipe.stepsEn) ?? [], lang);
+
     return {
       id: recipe.id,
-      title: recipe.nameKo || recipe.nameEn || '레시피 이름 없음',
-      description: recipe.descriptionKo || recipe.descriptionEn || '',
-      ingredients: recipe.ingredientsKo || recipe.ingredientsEn || [],
-      steps: this.transformSteps(recipe.stepsKo || recipe.stepsEn || []),
-      cookingTime: recipe.cookingTime || 30,
+      title: LanguageUtil.pick(lang, recipe.nameKo, recipe.nameEn) ?? (lang === 'en' ? 'Untitled recipe' : '레시피 이름 없음'),
+      description: LanguageUtil.pick(lang, recipe.descriptionKo, recipe.descriptionEn) ?? '',
+      ingredients,
+      parsedIngredients: IngredientParserUtil.parseAll(ingredients),
+      steps,
+      // 저장된 조리시간이 없으면 단계별 시간 합계 사용
+      cookingTime: recipe.cookingTime || timing.totalMinutes,
+      timing,
       servings: recipe.servings || 2,
       difficulty: this.mapDifficulty(recipe.difficulty),
       tags: recipe.tags || [],
-      category: recipe.category || '일반',
+      category: recipe.category || (lang === 'en' ? 'General' : '일반'),
       nutrition: {
         calories: recipe.nutrition?.calories || 0,
         protein: recipe.nutrition?.protein || 0,
         carbs: recipe.nutrition?.carbs || 0,
         fat: recipe.nutrition?.fat || 0
       },
-      author: 'Recipe Database',
-      rating: Math.floor(Math.random() * 5) + 1, // 간단한 더미 평점
-      reviews: 0,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
+      dietaryLabels: recipe.dietaryLabels ?? [],
+      author: recipe.author || 'Recipe Database',
+      rating: recipe.averageRating ?? 0,
+      reviews: recipe.ratingCount ?? 0,
+      createdAt: recipe.createdAt ?? null,
+      updatedAt: recipe.updatedAt ?? recipe.createdAt ?? null
     };
   }
 
-  private static transformSteps(steps: string[]) {
-    return steps.map((stepInstruction, index) => ({
-      step: index + 1,
-      instruction: stepInstruction,
-      time: null,
-      tip: null
-    }));
-  }
-
   private static mapDifficulty(difficulty?: string): 'easy' | 'medium' | 'hard' {
     const normalizedDifficulty = difficulty?.toLowerCase();
     
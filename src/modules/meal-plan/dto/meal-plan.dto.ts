@@ -0,0 +1,56 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { ArrayNotEmpty, IsArray, IsDateString, IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { MEAL_TYPES, MealType } from '../interfaces/meal-plan.interface';
+
+export class CreateMealPlanDto {
+    @ApiProperty({ required: false, example: '2024-06-03', description: 'First day of the plan (defaults to today)' })
+    @IsOptional()
+    @IsDateString()
+    startDate?: string;
+
+    @ApiProperty({ required: false, example: ['땅콩', '새우'] })
+    @IsOptional()
+    @IsArray()
+    @IsString({ each: true })
+    allergies?: string[];
+
+    @ApiProperty({ required: false, example: 30, description: 'Maximum cooking time per recipe (minutes)' })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(5)
+    maxCookingTime?: number;
+
+    @ApiProperty({ required: false, example: 2000, description: 'Daily calorie target (kcal)' })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(800)
+    @Max(5000)
+    dailyCalorieTarget?: number;
+
+    @ApiProperty({ required: false, enum: MEAL_TYPES, isArray: true, default: MEAL_TYPES })
+    @IsOptional()
+    @IsArray()
+    @ArrayNotEmpty()
+    @IsIn(MEAL_TYPES, { each: true })
+    mealTypes?: MealType[];
+}
+
+export class MealPlanSlotParamsDto {
+    @ApiProperty({ description: 'Meal plan ID' })
+    @IsString()
+    id!: string;
+
+    @ApiProperty({ minimum: 0, maximum: 6, description: 'Day of the plan (0 = start date)' })
+    @Type(() => Number)
+    @IsInt()
+    @Min(0)
+    @Max(6)
+    dayIndex!: number;
+
+    @ApiProperty({ enum: MEAL_TYPES })
+    @IsIn(MEAL_TYPES)
+    mealType!: MealType;
+}
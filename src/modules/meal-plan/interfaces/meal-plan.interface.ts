@@ -0,0 +1,50 @@
+// Meal plan interface definitions
+
+export const MEAL_TYPES = ['breakfast', 'lunch', 'dinner'] as const;
+export type MealType = typeof MEAL_TYPES[number];
+
+export interface MealPlanConstraints {
+  allergies: string[];
+  maxCookingTime: number | null;
+  dailyCalorieTarget: number | null;
+  mealTypes: MealType[];
+}
+
+export interface MealPlanSlot {
+  mealType: MealType;
+  recipeId: string | null;
+  recipeName: string | null;
+  category: string | null;
+  cookingTime: number | null;
+  calories: number | null;
+  caloriesEstimated: boolean;
+  // 규칙을 완화해서 고른 경우 그 이유
+  notes: string[];
+}
+
+export interface MealPlanDay {
+  dayIndex: number;
+  date: string;
+  meals: MealPlanSlot[];
+  totalCalories: number;
+}
+
+export interface MealPlan {
+  id: string;
+  userId: string;
+  startDate: string;
+  constraints: MealPlanConstraints;
+  days: MealPlanDay[];
+  warnings: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MealPlanRequest {
+  userId: string;
+  startDate?: string;
+  allergies?: string[];
+  maxCookingTime?: number;
+  dailyCalorieTarget?: number;
+  mealTypes?: MealType[];
+}
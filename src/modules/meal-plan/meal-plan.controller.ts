@@ -0,0 +1,56 @@
+import { Body, Controller, Delete, Get, Param, Post, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { MealPlanService } from './meal-plan.service';
+import { CreateMealPlanDto, MealPlanSlotParamsDto } from './dto/meal-plan.dto';
+import { MealPlan } from './interfaces/meal-plan.interface';
+import { RequestUtil } from '../../common/utils/request.util';
+
+@ApiTags('Meal Plans')
+@Controller('meal-plans')
+export class MealPlanController {
+  constructor(private readonly mealPlanService: MealPlanService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Generate and save a 7-day breakfast/lunch/dinner plan' })
+  @ApiQuery({ name: 'userId', required: true })
+  @ApiResponse({ status: 201, description: 'Generated meal plan' })
+  async createMealPlan(@Query('userId') userId: string, @Body() planDto: CreateMealPlanDto): Promise<MealPlan> {
+    RequestUtil.requireUserId(userId);
+    return this.mealPlanService.createMealPlan({ userId, ...planDto });
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List saved meal plans of a user (newest first)' })
+  @ApiQuery({ name: 'userId', required: true })
+  async getUserMealPlans(@Query('userId') userId: string): Promise<MealPlan[]> {
+    RequestUtil.requireUserId(userId);
+    return this.mealPlanService.getUserMealPlans(userId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a saved meal plan' })
+  @ApiQuery({ name: 'userId', required: true })
+  @ApiResponse({ status: 404, description: 'Meal plan not found' })
+  async getMealPlan(@Param('id') id: string, @Query('userId') userId: string): Promise<MealPlan> {
+    RequestUtil.requireUserId(userId);
+    return this.mealPlanService.getMealPlan(id, userId);
+  }
+
+  @Post(':id/days/:dayIndex/:mealType/regenerate')
+  @ApiOperation({ summary: 'Pick a different recipe for a single slot' })
+  @ApiQuery({ name: 'userId', required: true })
+  @ApiResponse({ status: 201, description: 'Updated meal plan' })
+  @ApiResponse({ status: 404, description: 'Meal plan or slot not found' })
+  async regenerateSlot(@Param() params: MealPlanSlotParamsDto, @Query('userId') userId: string): Promise<MealPlan> {
+    RequestUtil.requireUserId(userId);
+    return this.mealPlanService.regenerateSlot(params.id, userId, params.dayIndex, params.mealType);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a saved meal plan' })
+  @ApiQuery({ name: 'userId', required: true })
+  async deleteMealPlan(@Param('id') id: string, @Query('userId') userId: string): Promise<{ success: boolean; planId: string }> {
+    RequestUtil.requireUserId(userId);
+    return this.mealPlanService.deleteMealPlan(id, userId);
+  }
+}
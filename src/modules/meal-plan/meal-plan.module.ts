@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { MealPlanController } from './meal-plan.controller';
+import { MealPlanService } from './meal-plan.service';
+import { ElasticsearchModule } from '../elasticsearch/elasticsearch.module';
+import { NutritionModule } from '../nutrition/nutrition.module';
+import { AllergenModule } from '../allergen/allergen.module';
+
+@Module({
+  imports: [ElasticsearchModule, NutritionModule, AllergenModule],
+  controllers: [MealPlanController],
+  providers: [MealPlanService],
+  exports: [MealPlanService],
+})
+export class MealPlanModule {}
@@ -0,0 +1,120 @@
+import { NotFoundException } from '@nestjs/common';
+import { AllergenService } from '../allergen/allergen.service';
+import { ConversionService } from '../conversion/conversion.service';
+import { ElasticsearchRecipe, ElasticsearchService } from '../elasticsearch/elasticsearch.service';
+import { NutritionService } from '../nutrition/nutrition.service';
+import { MealPlanService } from './meal-plan.service';
+
+describe('MealPlanService', () => {
+  const CATEGORIES = ['한식', '양식', '중식', '일식', '분식', '샐러드'];
+  const buildRecipes = (count: number): ElasticsearchRecipe[] =>
+    Array.from({ length: count }, (_, index) => ({
+      id: `r${index}`,
+      nameKo: `레시피 ${index}`,
+      category: CATEGORIES[index % CATEGORIES.length],
+      cookingTime: 15 + index,
+      ingredientsKo: ['돼지고기 100g'],
+      nutrition: { calories: 400 + index * 10 },
+    }) as ElasticsearchRecipe);
+
+  let pool: ElasticsearchRecipe[];
+  let documents: Map<string, any>;
+  let elasticsearchService: any;
+  let service: MealPlanService;
+
+  beforeEach(() => {
+    pool = buildRecipes(30);
+    documents = new Map();
+    elasticsearchService = {
+      searchRecipesWithFilters: jest.fn(async () => ({ recipes: pool, total: pool.length })),
+      saveDocument: jest.fn(async (_index: string, id: string | undefined, document: any) => {
+        const savedId = id ?? `plan${documents.size + 1}`;
+        documents.set(savedId, structuredClone(document));
+        return savedId;
+      }),
+      getDocument: jest.fn(async (_index: string, id: string) => structuredClone(documents.get(id)) ?? null),
+    };
+    service = new MealPlanService(
+      elasticsearchService as ElasticsearchService,
+      new NutritionService(elasticsearchService as ElasticsearchService, new ConversionService()),
+      new AllergenService(elasticsearchService as ElasticsearchService),
+    );
+  });
+
+  describe('createMealPlan', () => {
+    it('fills seven days without repeating a recipe when there are enough candidates', async () => {
+      const plan = await service.createMealPlan({ userId: 'u1', startDate: '2026-03-02' });
+      const recipeIds = plan.days.flatMap(day => day.meals.map(meal => meal.recipeId));
+
+      expect(plan.days).toHaveLength(7);
+      expect(plan.days[6]?.date).toBe('2026-03-08');
+      expect(recipeIds).toHaveLength(21);
+      expect(new Set(recipeIds).size).toBe(21);
+      expect(documents.has(plan.id)).toBe(true);
+    });
+
+    it('keeps categories apart within a day', async () => {
+      const plan = await service.createMealPlan({ userId: 'u1' });
+
+      for (const day of plan.days) {
+        expect(new Set(day.meals.map(meal => meal.category)).size).toBe(day.meals.length);
+      }
+    });
+
+    it('leaves out recipes containing the requested allergens', async () => {
+      pool = [...buildRecipes(30), { id: 'peanut', nameKo: '땅콩 조림', category: '반찬', ingredientsKo: ['땅콩 100g'] } as ElasticsearchRecipe];
+
+      const plan = await service.createMealPlan({ userId: 'u1', allergies: ['견과류'] });
+
+      expect(elasticsearchService.searchRecipesWithFilters).toHaveBeenCalledWith(
+        expect.objectContaining({ excludeIngredients: expect.arrayContaining([{ term: '땅콩', exceptions: [] }]) })
+      );
+      expect(plan.days.flatMap(day => day.meals.map(meal => meal.recipeId))).not.toContain('peanut');
+    });
+
+    it('relaxes the variety rules and notes why when candidates run short', async () => {
+      pool = buildRecipes(2);
+
+      const plan = await service.createMealPlan({ userId: 'u1', mealTypes: ['lunch'] });
+
+      expect(plan.days.every(day => day.meals[0]?.recipeId !== null)).toBe(true);
+      expect(plan.days.flatMap(day => day.meals.flatMap(meal => meal.notes))).toContain('후보가 부족해 이번 주에 이미 나온 레시피 재사용');
+    });
+
+    it('warns about empty slots when no recipe fits', async () => {
+      pool = [];
+
+      const plan = await service.createMealPlan({ userId: 'u1', mealTypes: ['dinner'] });
+
+      expect(plan.days[0]?.meals[0]?.recipeId).toBeNull();
+      expect(plan.warnings).toHaveLength(7);
+    });
+  });
+
+  describe('getMealPlan', () => {
+    it('hides plans owned by another user', async () => {
+      const plan = await service.createMealPlan({ userId: 'u1' });
+
+      await expect(service.getMealPlan(plan.id, 'u2')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('regenerateSlot', () => {
+    it('replaces only the requested meal with another recipe', async () => {
+      const plan = await service.createMealPlan({ userId: 'u1' });
+      const before = plan.days[2]?.meals.find(meal => meal.mealType === 'lunch')?.recipeId;
+
+      const updated = await service.regenerateSlot(plan.id, 'u1', 2, 'lunch');
+      const after = updated.days[2]?.meals.find(meal => meal.mealType === 'lunch')?.recipeId;
+
+      expect(after).not.toBe(before);
+      expect(updated.days[3]).toEqual(plan.days[3]);
+    });
+
+    it('rejects a slot that is not in the plan', async () => {
+      const plan = await service.createMealPlan({ userId: 'u1', mealTypes: ['dinner'] });
+
+      await expect(service.regenerateSlot(plan.id, 'u1', 0, 'breakfast')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
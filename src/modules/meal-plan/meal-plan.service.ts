@@ -0,0 +1,323 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ElasticsearchRecipe, ElasticsearchService } from '../elasticsearch/elasticsearch.service';
+import { NutritionService } from '../nutrition/nutrition.service';
+import { AllergenService } from '../allergen/allergen.service';
+import {
+  MEAL_TYPES,
+  MealPlan,
+  MealPlanConstraints,
+  MealPlanDay,
+  MealPlanRequest,
+  MealPlanSlot,
+  MealType,
+} from './interfaces/meal-plan.interface';
+
+/**
+ * 식단 후보 레시피 (1인분 칼로리 포함)
+ */
+interface MealCandidate {
+  recipe: ElasticsearchRecipe;
+  category: string;
+  calories: number | null;
+  caloriesEstimated: boolean;
+}
+
+/**
+ * 후보 선택 규칙 (뒤로 갈수록 완화된 단계)
+ */
+interface SelectionRule {
+  allowRepeatRecipe: boolean;
+  allowSameDayCategory: boolean;
+  allowConsecutiveCategory: boolean;
+  note: string | null;
+}
+
+/**
+ * 📅 주간 식단 (7일 × 아침/점심/저녁)
+ * 알레르기·최대 조리시간은 필수 조건, 칼로리 목표는 점수로 반영,
+ * 다양성 규칙(같은 레시피 반복 금지, 이웃한 날 같은 카테고리 금지)은 후보가 없을 때만 단계적으로 완화
+ */
+@Injectable()
+export class MealPlanService {
+  private readonly logger = new Logger(MealPlanService.name);
+  private static readonly PLAN_INDEX = 'meal_plans';
+  private static readonly PLAN_DAYS = 7;
+  private static readonly CANDIDATE_POOL_SIZE = 300;
+
+  // 하루 칼로리 목표의 끼니별 배분
+  private static readonly MEAL_CALORIE_SHARE: Record<MealType, number> = {
+    breakfast: 0.25,
+    lunch: 0.35,
+    dinner: 0.4,
+  };
+
+  // 하루 합계가 목표에서 이 비율 이상 벗어나면 경고
+  private static readonly CALORIE_TOLERANCE = 0.2;
+
+  private static readonly MEAL_LABELS: Record<MealType, string> = {
+    breakfast: '아침',
+    lunch: '점심',
+    dinner: '저녁',
+  };
+
+  private static readonly SELECTION_RULES: SelectionRule[] = [
+    { allowRepeatRecipe: false, allowSameDayCategory: false, allowConsecutiveCategory: false, note: null },
+    { allowRepeatRecipe: false, allowSameDayCategory: true, allowConsecutiveCategory: false, note: '같은 날 같은 카테고리 허용' },
+    { allowRepeatRecipe: false, allowSameDayCategory: true, allowConsecutiveCategory: true, note: '이웃한 날 같은 카테고리 허용' },
+    { allowRepeatRecipe: true, allowSameDayCategory: true, allowConsecutiveCategory: true, note: '이번 주에 이미 나온 레시피 재사용' },
+  ];
+
+  constructor(
+    private readonly elasticsearchService: ElasticsearchService,
+    private readonly nutritionService: NutritionService,
+    private readonly allergenService: AllergenService,
+  ) {}
+
+  /**
+   * 주간 식단 생성 후 저장
+   */
+  async createMealPlan(request: MealPlanRequest): Promise<MealPlan> {
+    const constraints: MealPlanConstraints = {
+      allergies: request.allergies ?? [],
+      maxCookingTime: request.maxCookingTime ?? null,
+      dailyCalorieTarget: request.dailyCalorieTarget ?? null,
+      mealTypes: MEAL_TYPES.filter(mealType => !request.mealTypes || request.mealTypes.includes(mealType)),
+    };
+    const startDate = (request.startDate ? new Date(request.startDate) : new Date()).toISOString().substring(0, 10);
+    const candidates = await this.loadCandidates(constraints);
+    this.logger.log(`📅 Building meal plan for ${request.userId} from ${startDate} (${candidates.length} candidates)`);
+
+    const days: MealPlanDay[] = [];
+    for (let dayIndex = 0; dayIndex < MealPlanService.PLAN_DAYS; dayIndex++) {
+      const day: MealPlanDay = { dayIndex, date: this.addDays(startDate, dayIndex), meals: [], totalCalories: 0 };
+      days.push(day);
+
+      for (const mealType of constraints.mealTypes) {
+        day.meals.push(this.selectSlot(candidates, days, dayIndex, mealType, constraints));
+      }
+      day.totalCalories = this.sumCalories(day);
+    }
+
+    const now = new Date().toISOString();
+    const plan: Omit<MealPlan, 'id'> = {
+      userId: request.userId,
+      startDate,
+      constraints,
+      days,
+      warnings: this.buildWarnings(days, constraints),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const id = await this.elasticsearchService.saveDocument(MealPlanService.PLAN_INDEX, undefined, plan);
+    return { id, ...plan };
+  }
+
+  /**
+   * 저장된 식단 조회 (다른 사용자의 식단은 없는 것으로 처리)
+   */
+  async getMealPlan(id: string, userId: string): Promise<MealPlan> {
+    const stored = await this.elasticsearchService.getDocument<Omit<MealPlan, 'id'>>(MealPlanService.PLAN_INDEX, id);
+    if (!stored || stored.userId !== userId) {
+      throw new NotFoundException(`Meal plan not found: ${id}`);
+    }
+    return { id, ...stored };
+  }
+
+  /**
+   * 사용자 식단 목록 (최근 생성순)
+   */
+  async getUserMealPlans(userId: string, limit: number = 10): Promise<MealPlan[]> {
+    const { documents } = await this.elasticsearchService.searchDocuments<Omit<MealPlan, 'id'>>(
+      MealPlanService.PLAN_INDEX,
+      {
+        query: { term: { 'userId.keyword': userId } },
+        sort: [{ createdAt: { order: 'desc' } }],
+        size: limit,
+      }
+    );
+    return documents.map(({ _id, ...plan }) => ({ id: _id, ...plan }));
+  }
+
+  /**
+   * 한 끼만 다시 고르기 (현재 레시피 제외, 앞뒤 날짜 카테고리 규칙 유지)
+   */
+  async regenerateSlot(id: string, userId: string, dayIndex: number, mealType: MealType): Promise<MealPlan> {
+    const plan = await this.getMealPlan(id, userId);
+    const day = plan.days[dayIndex];
+    const slotIndex = day?.meals.findIndex(meal => meal.mealType === mealType) ?? -1;
+    if (!day || slotIndex < 0) {
+      throw new NotFoundException(`No ${mealType} slot on day ${dayIndex} of meal plan ${id}`);
+    }
+
+    const currentRecipeId = day.meals[slotIndex]?.recipeId;
+    const candidates = (await this.loadCandidates(plan.constraints))
+      .filter(candidate => candidate.recipe.id !== currentRecipeId);
+
+    // 선택 중에는 해당 끼니를 비워 두고 규칙을 검사
+    const days = plan.days.map(planDay => ({
+      ...planDay,
+      meals: planDay.dayIndex === dayIndex ? planDay.meals.filter(meal => meal.mealType !== mealType) : planDay.meals,
+    }));
+    const slot = this.selectSlot(candidates, days, dayIndex, mealType, plan.constraints);
+
+    day.meals[slotIndex] = slot;
+    day.totalCalories = this.sumCalories(day);
+
+    const document: Omit<MealPlan, 'id'> = {
+      userId: plan.userId,
+      startDate: plan.startDate,
+      constraints: plan.constraints,
+      days: plan.days,
+      warnings: this.buildWarnings(plan.days, plan.constraints),
+      createdAt: plan.createdAt,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.elasticsearchService.saveDocument(MealPlanService.PLAN_INDEX, id, document);
+
+    this.logger.log(`🔄 Regenerated ${mealType} on day ${dayIndex} of ${id}: ${currentRecipeId ?? '-'} → ${slot.recipeId ?? '-'}`);
+    return { id, ...document };
+  }
+
+  /**
+   * 식단 삭제
+   */
+  async deleteMealPlan(id: string, userId: string): Promise<{ success: boolean; planId: string }> {
+    await this.getMealPlan(id, userId);
+    const success = await this.elasticsearchService.deleteDocument(MealPlanService.PLAN_INDEX, id);
+    return { success, planId: id };
+  }
+
+  /**
+   * 알레르기·조리시간 조건을 만족하는 후보 레시피 (칼로리가 없으면 재료 기반 추정)
+   */
+  private async loadCandidates(constraints: MealPlanConstraints): Promise<MealCandidate[]> {
+    const { recipes } = await this.elasticsearchService.searchRecipesWithFilters({
+      excludeIngredients: this.allergenService.expandExclusions(constraints.allergies),
+      maxCookingTime: constraints.maxCookingTime ?? undefined,
+      size: MealPlanService.CANDIDATE_POOL_SIZE,
+      sortBy: 'rating',
+    });
+
+    const { recipes: safeRecipes } = this.allergenService.filterRecipes(
+      recipes,
+      recipe => this.allergenService.describeRecipe(recipe),
+      constraints.allergies
+    );
+    return safeRecipes
+      .map(recipe => {
+        const stored = recipe.nutrition?.calories;
+        const estimated = stored ? null : this.nutritionService.estimateForRecipe(recipe);
+        const calories = stored || (estimated && estimated.confidence.level !== 'low' ? estimated.perServing.calories : null);
+        return {
+          recipe,
+          category: recipe.category || '일반',
+          calories: calories || null,
+          caloriesEstimated: !stored && !!calories,
+        };
+      });
+  }
+
+  /**
+   * 규칙을 만족하는 후보 중 점수가 가장 높은 레시피 선택
+   */
+  private selectSlot(
+    candidates: MealCandidate[],
+    days: MealPlanDay[],
+    dayIndex: number,
+    mealType: MealType,
+    constraints: MealPlanConstraints,
+  ): MealPlanSlot {
+    const usedRecipeIds = new Set(days.flatMap(day => day.meals.map(meal => meal.recipeId)));
+    const sameDayCategories = new Set(days[dayIndex]?.meals.map(meal => meal.category));
+    const neighbourCategories = new Set(
+      days
+        .filter(day => Math.abs(day.dayIndex - dayIndex) === 1)
+        .flatMap(day => day.meals.map(meal => meal.category))
+    );
+    const calorieTarget = constraints.dailyCalorieTarget
+      ? constraints.dailyCalorieTarget * MealPlanService.MEAL_CALORIE_SHARE[mealType]
+      : null;
+
+    for (const rule of MealPlanService.SELECTION_RULES) {
+      const eligible = candidates.filter(candidate =>
+        (rule.allowRepeatRecipe || !usedRecipeIds.has(candidate.recipe.id)) &&
+        (rule.allowSameDayCategory || !sameDayCategories.has(candidate.category)) &&
+        (rule.allowConsecutiveCategory || !neighbourCategories.has(candidate.category))
+      );
+      if (eligible.length === 0) continue;
+
+      const best = eligible
+        .map(candidate => ({ candidate, score: this.scoreCandidate(candidate, mealType, calorieTarget) }))
+        .reduce((top, current) => (current.score > top.score ? current : top));
+
+      return {
+        mealType,
+        recipeId: best.candidate.recipe.id,
+        recipeName: best.candidate.recipe.nameKo || best.candidate.recipe.nameEn || best.candidate.recipe.id,
+        category: best.candidate.category,
+        cookingTime: best.candidate.recipe.cookingTime ?? null,
+        calories: best.candidate.calories,
+        caloriesEstimated: best.candidate.caloriesEstimated,
+        notes: rule.note ? [`후보가 부족해 ${rule.note}`] : [],
+      };
+    }
+
+    return {
+      mealType,
+      recipeId: null,
+      recipeName: null,
+      category: null,
+      cookingTime: null,
+      calories: null,
+      caloriesEstimated: false,
+      notes: ['조건에 맞는 레시피가 없습니다'],
+    };
+  }
+
+  /**
+   * 후보 점수 = 칼로리 목표 근접도 + 아침 간편식 가산점 + 평점 + 약간의 무작위성(재생성 시 다른 결과)
+   */
+  private scoreCandidate(candidate: MealCandidate, mealType: MealType, calorieTarget: number | null): number {
+    let score = 0;
+
+    if (calorieTarget) {
+      score += candidate.calories
+        ? 1 - Math.min(Math.abs(candidate.calories - calorieTarget) / calorieTarget, 1)
+        : 0.3;
+    }
+    if (mealType === 'breakfast' && (candidate.recipe.cookingTime ?? Infinity) <= 20) {
+      score += 0.3;
+    }
+    score += ((candidate.recipe.averageRating ?? 0) / 5) * 0.2;
+
+    return score + Math.random() * 0.2;
+  }
+
+  private buildWarnings(days: MealPlanDay[], constraints: MealPlanConstraints): string[] {
+    const warnings: string[] = [];
+    const target = constraints.dailyCalorieTarget;
+
+    for (const day of days) {
+      day.meals
+        .filter(meal => meal.recipeId === null)
+        .forEach(meal => warnings.push(`${day.date} ${MealPlanService.MEAL_LABELS[meal.mealType]}: 조건에 맞는 레시피가 없습니다`));
+
+      if (target && day.totalCalories > 0
+        && Math.abs(day.totalCalories - target) / target > MealPlanService.CALORIE_TOLERANCE) {
+        warnings.push(`${day.date}: 하루 ${day.totalCalories}kcal로 목표 ${target}kcal와 차이가 큽니다`);
+      }
+    }
+    return warnings;
+  }
+
+  private sumCalories(day: MealPlanDay): number {
+    return day.meals.reduce((total, meal) => total + (meal.calories ?? 0), 0);
+  }
+
+  private addDays(date: string, days: number): string {
+    const result = new Date(`${date}T00:00:00Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().substring(0, 10);
+  }
+}
@@ -0,0 +1,85 @@
+import { FoodCompositionEntry, NutritionFacts } from '../interfaces/nutrition.interface';
+
+const facts = (calories: number, protein: number, carbs: number, fat: number, sodium: number, sugar = 0, fiber = 0): NutritionFacts => ({
+  calories, protein, carbs, fat, sodium, sugar, fiber,
+});
+
+/**
+ * 식품 성분표 (100g 기준 근사값)
+ */
+export const FOOD_COMPOSITION_TABLE: FoodCompositionEntry[] = [
+  // 육류/달걀
+  { name: '돼지고기', aliases: ['돼지고기', '돼지', '목살', '앞다리살', '뒷다리살', 'pork'], per100g: facts(250, 17, 0, 20, 55) },
+  { name: '삼겹살', aliases: ['삼겹살', 'pork belly'], per100g: facts(518, 9.3, 0, 53, 32) },
+  { name: '소고기', aliases: ['소고기', '쇠고기', '한우', '등심', '불고기용', 'beef'], per100g: facts(250, 26, 0, 15, 72) },
+  { name: '닭가슴살', aliases: ['닭가슴살', 'chicken breast'], per100g: facts(165, 31, 0, 3.6, 74) },
+  { name: '닭고기', aliases: ['닭고기', '닭다리', '닭봉', 'chicken'], per100g: facts(215, 18.6, 0, 15, 70), unitGrams: { whole: 1000 } },
+  { name: '베이컨', aliases: ['베이컨', 'bacon'], per100g: facts(541, 37, 1.4, 42, 1717), unitGrams: { slice: 15, sheet: 15 } },
+  { name: '햄', aliases: ['햄', '소시지', '스팸', 'ham', 'sausage'], per100g: facts(300, 12, 2, 27, 1000), unitGrams: { slice: 20, piece: 50 } },
+  { name: '달걀', aliases: ['달걀', '계란', '날달걀', 'egg', 'eggs'], per100g: facts(143, 12.6, 0.7, 9.5, 142, 0.4), unitGrams: { default: 50, piece: 50 } },
+  // 해산물
+  { name: '새우', aliases: ['새우', 'shrimp', 'prawn'], per100g: facts(99, 24, 0.2, 0.3, 111), unitGrams: { default: 15, piece: 15, whole: 15 } },
+  { name: '오징어', aliases: ['오징어', 'squid'], per100g: facts(92, 15.6, 3.1, 1.4, 44), unitGrams: { default: 250, whole: 250 } },
+  { name: '고등어', aliases: ['고등어', 'mackerel'], per100g: facts(205, 19, 0, 14, 90), unitGrams: { default: 300, whole: 300 } },
+  { name: '연어', aliases: ['연어', 'salmon'], per100g: facts(208, 20, 0, 13, 59) },
+  { name: '참치', aliases: ['참치', 'tuna'], per100g: facts(198, 24, 0, 11, 396), unitGrams: { can: 150 } },
+  { name: '어묵', aliases: ['어묵', '오뎅', 'fish cake'], per100g: facts(140, 10, 15, 4, 900), unitGrams: { sheet: 30, piece: 30 } },
+  // 두부/콩
+  { name: '두부', aliases: ['두부', 'tofu'], per100g: facts(76, 8, 1.9, 4.8, 7, 0.6, 0.3), unitGrams: { default: 300, block: 300 } },
+  { name: '콩나물', aliases: ['콩나물', 'bean sprouts'], per100g: facts(30, 3, 5, 1, 5, 0.5, 2), unitGrams: { pack: 300 } },
+  { name: '숙주', aliases: ['숙주', 'mung bean sprouts'], per100g: facts(30, 3, 6, 0.2, 6, 4, 1.8), unitGrams: { pack: 250 } },
+  // 채소
+  { name: '김치', aliases: ['김치', 'kimchi'], per100g: facts(15, 1.1, 2.4, 0.5, 498, 1.1, 1.6) },
+  { name: '양파', aliases: ['양파', 'onion'], per100g: facts(40, 1.1, 9.3, 0.1, 4, 4.2, 1.7), unitGrams: { default: 200, piece: 200 } },
+  { name: '대파', aliases: ['대파', '쪽파', '실파', '파채', 'green onion', 'scallion'], per100g: facts(32, 1.8, 7.3, 0.2, 16, 2.3, 2.6), unitGrams: { default: 100, stalk: 100, piece: 100, root: 100 } },
+  { name: '마늘', aliases: ['마늘', 'garlic'], per100g: facts(149, 6.4, 33, 0.5, 17, 1, 2.1), unitGrams: { default: 5, clove: 5, piece: 5 } },
+  { name: '생강', aliases: ['생강', 'ginger'], per100g: facts(80, 1.8, 18, 0.8, 13, 1.7, 2), unitGrams: { default: 10, piece: 10 } },
+  { name: '감자', aliases: ['감자', 'potato'], per100g: facts(77, 2, 17, 0.1, 6, 0.8, 2.2), unitGrams: { default: 150, piece: 150 } },
+  { name: '고구마', aliases: ['고구마', 'sweet potato'], per100g: facts(86, 1.6, 20, 0.1, 55, 4.2, 3), unitGrams: { default: 200, piece: 200 } },
+  { name: '당근', aliases: ['당근', 'carrot'], per100g: facts(41, 0.9, 9.6, 0.2, 69, 4.7, 2.8), unitGrams: { default: 150, piece: 150 } },
+  { name: '애호박', aliases: ['애호박', '호박', 'zucchini'], per100g: facts(17, 1.2, 3.1, 0.3, 8, 2.5, 1), unitGrams: { default: 300, piece: 300 } },
+  { name: '고추', aliases: ['청양고추', '풋고추', '홍고추', '고추', 'chili pepper'], per100g: facts(40, 2, 9, 0.4, 7, 5, 1.5), unitGrams: { default: 10, piece: 10 } },
+  { name: '파프리카', aliases: ['파프리카', '피망', 'bell pepper', 'paprika'], per100g: facts(26, 1, 6, 0.3, 4, 4.2, 2.1), unitGrams: { default: 150, piece: 150 } },
+  { name: '배추', aliases: ['배추', 'napa cabbage'], per100g: facts(13, 1.5, 2.2, 0.2, 9, 1.2, 1), unitGrams: { sheet: 50 } },
+  { name: '양배추', aliases: ['양배추', 'cabbage'], per100g: facts(25, 1.3, 5.8, 0.1, 18, 3.2, 2.5) },
+  { name: '시금치', aliases: ['시금치', 'spinach'], per100g: facts(23, 2.9, 3.6, 0.4, 79, 0.4, 2.2), unitGrams: { bunch: 200, handful: 30 } },
+  { name: '버섯', aliases: ['표고버섯', '느타리버섯', '팽이버섯', '양송이', '버섯', 'mushroom', 'mushrooms'], per100g: facts(22, 3.1, 3.3, 0.3, 5, 2, 1), unitGrams: { default: 20, piece: 20, pack: 150 } },
+  { name: '토마토', aliases: ['방울토마토', '토마토', 'tomato'], per100g: facts(18, 0.9, 3.9, 0.2, 5, 2.6, 1.2), unitGrams: { default: 150, piece: 150 } },
+  { name: '오이', aliases: ['오이', 'cucumber'], per100g: facts(15, 0.7, 3.6, 0.1, 2, 1.7, 0.5), unitGrams: { default: 200, piece: 200 } },
+  // 곡류/면
+  { name: '쌀', aliases: ['쌀', '백미', '찹쌀', 'rice'], per100g: facts(365, 7.1, 80, 0.7, 5, 0.1, 1.3) },
+  { name: '밥', aliases: ['밥', '공기밥', 'cooked rice'], per100g: facts(130, 2.7, 28, 0.3, 1, 0, 0.4), unitGrams: { default: 210, bowl: 210 } },
+  { name: '밀가루', aliases: ['밀가루', '중력분', '박력분', '강력분', '부침가루', '튀김가루', 'flour'], per100g: facts(364, 10, 76, 1, 2, 0.3, 2.7) },
+  { name: '면', aliases: ['파스타', '스파게티', '국수', '소면', '라면', '우동', '당면', 'pasta', 'noodles', 'spaghetti'], per100g: facts(371, 13, 75, 1.5, 6, 2.7, 3.2), unitGrams: { pack: 100, default: 100 } },
+  { name: '떡', aliases: ['떡볶이떡', '떡국떡', '떡', 'rice cake'], per100g: facts(225, 4, 50, 0.4, 190, 0, 0.6) },
+  { name: '빵가루', aliases: ['빵가루', 'breadcrumbs'], per100g: facts(395, 13, 72, 5, 732, 6, 4.5) },
+  { name: '전분', aliases: ['감자전분', '옥수수전분', '전분', 'starch', 'cornstarch'], per100g: facts(381, 0.3, 91, 0.1, 9, 0, 0.9) },
+  // 유제품
+  { name: '우유', aliases: ['우유', 'milk'], per100g: facts(61, 3.2, 4.8, 3.3, 43, 5, 0) },
+  { name: '치즈', aliases: ['모짜렐라', '파마산', '치즈', 'cheese'], per100g: facts(402, 25, 1.3, 33, 621, 0.5, 0), unitGrams: { sheet: 20, slice: 20 } },
+  { name: '버터', aliases: ['버터', 'butter'], per100g: facts(717, 0.9, 0.1, 81, 11, 0.1, 0) },
+  // 양념
+  { name: '설탕', aliases: ['백설탕', '황설탕', '흑설탕', '설탕', 'sugar'], per100g: facts(387, 0, 100, 0, 1, 100, 0) },
+  { name: '소금', aliases: ['꽃소금', '굵은소금', '천일염', '소금', 'salt'], per100g: facts(0, 0, 0, 0, 38758, 0, 0) },
+  { name: '간장', aliases: ['진간장', '국간장', '양조간장', '간장', 'soy sauce'], per100g: facts(53, 8, 4.9, 0.6, 5493, 0.4, 0.8) },
+  { name: '고추장', aliases: ['고추장', 'gochujang'], per100g: facts(200, 4, 41, 2, 2500, 20, 3) },
+  { name: '된장', aliases: ['된장', 'doenjang', 'soybean paste'], per100g: facts(190, 12, 24, 6, 4300, 6, 5) },
+  { name: '고춧가루', aliases: ['고춧가루', 'gochugaru', 'chili powder'], per100g: facts(300, 12, 55, 9, 30, 10, 30) },
+  { name: '식용유', aliases: ['식용유', '포도씨유', '카놀라유', '올리브유', '올리브오일', '참기름', '들기름', 'vegetable oil', 'olive oil', 'sesame oil', 'oil'], per100g: facts(884, 0, 0, 100, 0, 0, 0) },
+  { name: '꿀', aliases: ['꿀', 'honey'], per100g: facts(304, 0.3, 82, 0, 4, 82, 0.2) },
+  { name: '물엿', aliases: ['물엿', '올리고당', 'corn syrup'], per100g: facts(286, 0, 76, 0, 20, 50, 0) },
+  { name: '맛술', aliases: ['맛술', '미림', 'mirin'], per100g: facts(241, 0.2, 43, 0, 3, 43, 0) },
+  { name: '식초', aliases: ['식초', 'vinegar'], per100g: facts(18, 0, 0.04, 0, 2, 0, 0) },
+  { name: '굴소스', aliases: ['굴소스', 'oyster sauce'], per100g: facts(51, 1.4, 11, 0.3, 2733, 0, 0.3) },
+  { name: '깨', aliases: ['통깨', '참깨', '깨소금', '깨', 'sesame seeds'], per100g: facts(573, 17.7, 23, 49.7, 11, 0.3, 11.8) },
+  { name: '후추', aliases: ['후춧가루', '후추', 'black pepper', 'pepper'], per100g: facts(251, 10, 64, 3.3, 20, 0.6, 25) },
+  { name: '물', aliases: ['물', '찬물', '육수', '생수', 'water', 'stock', 'broth'], per100g: facts(0, 0, 0, 0, 0, 0, 0) },
+];
+
+// 어림 분량 단위의 추정 무게 (g)
+export const APPROXIMATE_UNIT_GRAMS: Record<string, number> = {
+  pinch: 0.5,
+  a_little: 2,
+  to_taste: 2,
+  handful: 30,
+};
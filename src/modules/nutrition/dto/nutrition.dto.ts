@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { ArrayNotEmpty, IsArray, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+export class EstimateNutritionDto {
+    @ApiProperty({ example: ['돼지고기 200g', '김치 1컵', '두부 1/2모', '대파 1대'], description: 'Ingredient lines' })
+    @IsArray()
+    @ArrayNotEmpty()
+    @IsString({ each: true })
+    ingredients!: string[];
+
+    @ApiProperty({ required: false, default: 2, minimum: 1, maximum: 50 })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(50)
+    servings?: number;
+}
+
+export class RecipeNutritionQueryDto {
+    @ApiProperty({ required: false, minimum: 1, maximum: 50, description: 'Defaults to the recipe servings' })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(50)
+    servings?: number;
+}
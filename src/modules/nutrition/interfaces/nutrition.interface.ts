@@ -0,0 +1,49 @@
+// Nutrition estimation interface definitions
+
+export interface NutritionFacts {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  sodium: number;
+  sugar: number;
+  fiber: number;
+}
+
+export type IngredientMatchStatus = 'matched' | 'estimated' | 'unmatched';
+
+export interface IngredientNutrition {
+  original: string;
+  name: string;
+  matchedFood: string | null;
+  grams: number | null;
+  status: IngredientMatchStatus;
+  nutrition: NutritionFacts | null;
+}
+
+export interface NutritionConfidence {
+  score: number;
+  level: 'high' | 'medium' | 'low';
+  matchedCount: number;
+  estimatedCount: number;
+  unmatchedCount: number;
+  unmatchedIngredients: string[];
+}
+
+export interface NutritionEstimate {
+  recipeId?: string;
+  servings: number;
+  perRecipe: NutritionFacts;
+  perServing: NutritionFacts;
+  confidence: NutritionConfidence;
+  ingredients: IngredientNutrition[];
+}
+
+export interface FoodCompositionEntry {
+  name: string;
+  aliases: string[];
+  // 100g 기준 (sodium 은 mg, 나머지는 g / kcal)
+  per100g: NutritionFacts;
+  // 개수 단위 1개당 무게 (g), default 는 단위 없는 개수
+  unitGrams?: Record<string, number>;
+}
@@ -0,0 +1,32 @@
+import { Body, Controller, Get, Param, Post, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { NutritionService } from './nutrition.service';
+import { EstimateNutritionDto, RecipeNutritionQueryDto } from './dto/nutrition.dto';
+import { FoodCompositionEntry, NutritionEstimate } from './interfaces/nutrition.interface';
+
+@ApiTags('Nutrition')
+@Controller('nutrition')
+export class NutritionController {
+  constructor(private readonly nutritionService: NutritionService) {}
+
+  @Post('estimate')
+  @ApiOperation({ summary: 'Estimate nutrition from ingredient lines' })
+  @ApiResponse({ status: 201, description: 'Per-recipe and per-serving estimate with confidence' })
+  estimate(@Body() estimateDto: EstimateNutritionDto): NutritionEstimate {
+    return this.nutritionService.estimateFromIngredients(estimateDto.ingredients, estimateDto.servings);
+  }
+
+  @Get('recipes/:id')
+  @ApiOperation({ summary: 'Estimate nutrition of a stored recipe from its ingredients' })
+  @ApiResponse({ status: 200, description: 'Per-recipe and per-serving estimate with confidence' })
+  @ApiResponse({ status: 404, description: 'Recipe not found' })
+  async estimateRecipe(@Param('id') id: string, @Query() query: RecipeNutritionQueryDto): Promise<NutritionEstimate> {
+    return this.nutritionService.estimateRecipe(id, query.servings);
+  }
+
+  @Get('foods')
+  @ApiOperation({ summary: 'List the bundled food composition table (per 100g)' })
+  getFoods(): FoodCompositionEntry[] {
+    return this.nutritionService.getFoodTable();
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { NutritionController } from './nutrition.controller';
+import { NutritionService } from './nutrition.service';
+import { ElasticsearchModule } from '../elasticsearch/elasticsearch.module';
+import { ConversionModule } from '../conversion/conversion.module';
+
+@Module({
+  imports: [ElasticsearchModule, ConversionModule],
+  controllers: [NutritionController],
+  providers: [NutritionService],
+  exports: [NutritionService],
+})
+export class NutritionModule {}
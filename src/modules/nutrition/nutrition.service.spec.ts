@@ -0,0 +1,78 @@
+import { ConversionService } from '../conversion/conversion.service';
+import { ElasticsearchRecipe, ElasticsearchService } from '../elasticsearch/elasticsearch.service';
+import { NutritionService } from './nutrition.service';
+
+describe('NutritionService', () => {
+  const recipe = {
+    id: 'r1',
+    nameKo: '제육볶음',
+    ingredientsKo: ['돼지고기 300g', '양파 1개', '간장 2큰술'],
+    servings: 2,
+  } as ElasticsearchRecipe;
+  let service: NutritionService;
+
+  beforeEach(() => {
+    service = new NutritionService({} as ElasticsearchService, new ConversionService());
+  });
+
+  describe('estimateForRecipe', () => {
+    it('divides the recipe totals by the recipe servings', () => {
+      const estimate = service.estimateForRecipe(recipe);
+
+      expect(estimate.servings).toBe(2);
+      expect(estimate.perServing.calories).toBe(Math.round(estimate.perRecipe.calories / 2));
+    });
+
+    it('keeps per-serving values when another serving count is requested', () => {
+      const original = service.estimateForRecipe(recipe);
+      const scaled = service.estimateForRecipe(recipe, 4);
+
+      expect(scaled.servings).toBe(4);
+      expect(scaled.perServing).toEqual(original.perServing);
+      expect(scaled.perRecipe.calories).toBe(original.perRecipe.calories * 2);
+    });
+
+    it('falls back to the default servings when the recipe has none', () => {
+      expect(service.estimateForRecipe({ ...recipe, servings: 0 }).servings).toBe(2);
+    });
+  });
+
+  describe('estimateFromIngredients', () => {
+    it('converts weights, pieces and spoons to grams', () => {
+      const [pork, onion, soySauce] = service.estimateFromIngredients(recipe.ingredientsKo ?? []).ingredients;
+
+      expect(pork).toMatchObject({ matchedFood: '돼지고기', grams: 300, status: 'matched' });
+      expect(onion).toMatchObject({ matchedFood: '양파', grams: 200, status: 'matched' });
+      expect(soySauce).toMatchObject({ matchedFood: '간장', status: 'matched' });
+    });
+
+    it('matches English aliases on whole words only', () => {
+      const [eggplant, eggs, riceVinegar] = service.estimateFromIngredients(['1 eggplant', '2 eggs', '1 tbsp rice vinegar']).ingredients;
+
+      expect(eggplant?.matchedFood).toBeNull();
+      expect(eggs?.matchedFood).toBe('달걀');
+      expect(riceVinegar?.matchedFood).toBe('식초');
+    });
+
+    it('does not match a one-letter Korean alias inside a longer name', () => {
+      const [greenOnion, sesame] = service.estimateFromIngredients(['대파 1대', '깨소금 1큰술']).ingredients;
+
+      expect(greenOnion?.matchedFood).toBe('대파');
+      expect(sesame?.matchedFood).toBe('깨');
+    });
+
+    it('reports unmatched ingredients in the confidence', () => {
+      const estimate = service.estimateFromIngredients(['돼지고기 200g', '용과 1개']);
+
+      expect(estimate.confidence).toMatchObject({ matchedCount: 1, unmatchedCount: 1, unmatchedIngredients: ['용과 1개'], level: 'medium' });
+    });
+  });
+
+  describe('hasStoredNutrition', () => {
+    it('treats missing or all-zero values as not stored', () => {
+      expect(service.hasStoredNutrition(undefined)).toBe(false);
+      expect(service.hasStoredNutrition({ calories: 0, protein: 0 })).toBe(false);
+      expect(service.hasStoredNutrition({ calories: 320 })).toBe(true);
+    });
+  });
+});
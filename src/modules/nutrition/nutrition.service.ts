@@ -0,0 +1,255 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ElasticsearchRecipe, ElasticsearchService } from '../elasticsearch/elasticsearch.service';
+import { ConversionService } from '../conversion/conversion.service';
+import { IngredientParserUtil } from '../langchain/utils/ingredient-parser.util';
+import { ParsedIngredient } from '../langchain/types/langchain.types';
+import { APPROXIMATE_UNIT_GRAMS, FOOD_COMPOSITION_TABLE } from './constants/food-composition.constants';
+import {
+  FoodCompositionEntry,
+  IngredientNutrition,
+  NutritionConfidence,
+  NutritionEstimate,
+  NutritionFacts,
+} from './interfaces/nutrition.interface';
+
+/**
+ * 🥗 재료 기반 영양 정보 추정
+ * 재료 문자열을 파싱해 무게(g)로 환산한 뒤 로컬 성분표로 합산
+ */
+@Injectable()
+export class NutritionService {
+  private readonly logger = new Logger(NutritionService.name);
+  private static readonly DEFAULT_SERVINGS = 2;
+
+  // 긴 별칭부터 매칭 ("닭가슴살"이 "닭고기"보다, "양파"가 "파"보다 먼저)
+  private static readonly FOOD_ALIASES = FOOD_COMPOSITION_TABLE
+    .flatMap(food => food.aliases.map(alias => ({ food, alias: alias.toLowerCase() })))
+    .sort((a, b) => b.alias.length - a.alias.length);
+
+  constructor(
+    private readonly elasticsearchService: ElasticsearchService,
+    private readonly conversionService: ConversionService,
+  ) {}
+
+  /**
+   * 저장된 레시피의 영양 정보 추정
+   */
+  async estimateRecipe(recipeId: string, servings?: number): Promise<NutritionEstimate> {
+    const recipe = await this.elasticsearchService.getRecipeById(recipeId);
+    if (!recipe) {
+      throw new NotFoundException(`Recipe not found: ${recipeId}`);
+    }
+
+    const estimate = this.estimateForRecipe(recipe, servings);
+    this.logger.log(`🥗 Estimated nutrition for ${recipeId}: ${estimate.perServing.calories}kcal/serving (confidence: ${estimate.confidence.level})`);
+    return estimate;
+  }
+
+  /**
+   * 레시피 문서의 재료로 영양 정보 추정 (재료는 레시피 원래 인분 기준, servings 는 조절할 인분 수)
+   * 인분 수를 바꿔도 1인분 영양은 그대로이고 전체량만 비례해서 달라짐
+   */
+  estimateForRecipe(recipe: ElasticsearchRecipe, servings?: number): NutritionEstimate {
+    const ingredients = recipe.ingredientsKo?.length ? recipe.ingredientsKo : recipe.ingredientsEn || [];
+    const recipeServings = recipe.servings && recipe.servings > 0 ? recipe.servings : NutritionService.DEFAULT_SERVINGS;
+    const estimate = this.estimateFromIngredients(ingredients, recipeServings);
+
+    if (!servings || servings <= 0 || servings === recipeServings) {
+      return { recipeId: recipe.id, ...estimate };
+    }
+    return {
+      recipeId: recipe.id,
+      ...estimate,
+      servings,
+      perRecipe: this.roundFacts(this.scaleFacts(estimate.perRecipe, servings / recipeServings)),
+    };
+  }
+
+  /**
+   * 재료 목록으로 영양 정보 추정
+   */
+  estimateFromIngredients(ingredients: string[], servings: number = NutritionService.DEFAULT_SERVINGS): NutritionEstimate {
+    const results = IngredientParserUtil.parseAll(ingredients).map(parsed => this.estimateIngredient(parsed));
+    const perRecipe = results.reduce(
+      (total, result) => (result.nutrition ? this.addFacts(total, result.nutrition) : total),
+      this.emptyFacts()
+    );
+    const safeServings = servings > 0 ? servings : NutritionService.DEFAULT_SERVINGS;
+
+    return {
+      servings: safeServings,
+      perRecipe: this.roundFacts(perRecipe),
+      perServing: this.roundFacts(this.scaleFacts(perRecipe, 1 / safeServings)),
+      confidence: this.calculateConfidence(results),
+      ingredients: results,
+    };
+  }
+
+  /**
+   * 저장된 영양 정보가 비어 있는지 (값이 없거나 모두 0)
+   */
+  hasStoredNutrition(nutrition?: Partial<Record<keyof NutritionFacts, number>> | null): boolean {
+    return !!nutrition && Object.values(nutrition).some(value => typeof value === 'number' && value > 0);
+  }
+
+  /**
+   * 성분표 목록
+   */
+  getFoodTable(): FoodCompositionEntry[] {
+    return FOOD_COMPOSITION_TABLE;
+  }
+
+  /**
+   * 재료 한 줄 추정 (이름 매칭 → 무게 환산 → 100g 기준 비례 계산)
+   */
+  private estimateIngredient(parsed: ParsedIngredient): IngredientNutrition {
+    const food = this.findFood(parsed.name);
+    const base = { original: parsed.original, name: parsed.name, matchedFood: food?.name ?? null };
+
+    if (!food) {
+      return { ...base, grams: null, status: 'unmatched', nutrition: null };
+    }
+
+    const weight = this.toGrams(parsed, food);
+    if (!weight) {
+      return { ...base, grams: null, status: 'unmatched', nutrition: null };
+    }
+
+    return {
+      ...base,
+      grams: Math.round(weight.grams * 10) / 10,
+      status: weight.exact ? 'matched' : 'estimated',
+      nutrition: this.roundFacts(this.scaleFacts(food.per100g, weight.grams / 100)),
+    };
+  }
+
+  /**
+   * 재료 이름 → 성분표 항목
+   * 영문 별칭은 단어 단위로만 비교 ("egg" ≠ "eggplant"), 이름 끝(핵심 명사)에 오는 별칭을 우선 ("rice vinegar" → 식초)
+   */
+  private findFood(name: string): FoodCompositionEntry | null {
+    const normalized = name.toLowerCase().trim();
+    if (!normalized) {
+      return null;
+    }
+    const lastWord = normalized.split(/\s+/).pop();
+
+    const matches = NutritionService.FOOD_ALIASES.filter(({ alias }) => this.matchesAlias(normalized, lastWord, alias));
+    const match = matches.find(({ alias }) => normalized.endsWith(alias)) ?? matches[0];
+    return match?.food ?? null;
+  }
+
+  /**
+   * 한 글자 별칭은 이름 전체나 마지막 단어가 같을 때만, 영문은 단어 경계, 그 외 한글은 부분 일치
+   */
+  private matchesAlias(normalized: string, lastWord: string | undefined, alias: string): boolean {
+    if (alias.length === 1) {
+      return normalized === alias || lastWord === alias;
+    }
+    if (/^[a-z\s-]+$/.test(alias)) {
+      return IngredientParserUtil.containsTerm(normalized, alias);
+    }
+    return normalized.includes(alias);
+  }
+
+  /**
+   * 분량 → 무게(g). exact 는 계량 단위로 직접 환산했는지 여부
+   */
+  private toGrams(parsed: ParsedIngredient, food: FoodCompositionEntry): { grams: number; exact: boolean } | null {
+    const quantity = parsed.quantity !== null && parsed.quantityMax !== null
+      ? (parsed.quantity + parsed.quantityMax) / 2
+      : parsed.quantity;
+
+    if (parsed.unitType === 'approximate' && parsed.unit) {
+      const grams = APPROXIMATE_UNIT_GRAMS[parsed.unit];
+      return grams !== undefined ? { grams: grams * (quantity ?? 1), exact: false } : null;
+    }
+
+    if (quantity === null) {
+      // "대파" 처럼 분량이 없으면 1개로 가정
+      const pieceGrams = food.unitGrams?.[parsed.unit ?? 'default'] ?? food.unitGrams?.default;
+      return pieceGrams !== undefined ? { grams: pieceGrams, exact: false } : null;
+    }
+
+    if (parsed.unitType === 'weight' && parsed.unit) {
+      return { grams: this.conversionService.convert({ value: quantity, from: parsed.unit, to: 'g' }).result, exact: true };
+    }
+
+    if (parsed.unitType === 'volume' && parsed.unit) {
+      try {
+        const converted = this.conversionService.convert({ value: quantity, from: parsed.unit, to: 'g', ingredient: parsed.name });
+        return { grams: converted.result, exact: true };
+      } catch {
+        // 밀도 정보가 없으면 물과 같은 1g/ml 로 가정
+        const millilitres = this.conversionService.convert({ value: quantity, from: parsed.unit, to: 'ml' }).result;
+        return { grams: millilitres, exact: false };
+      }
+    }
+
+    const pieceGrams = food.unitGrams?.[parsed.unit ?? 'default'];
+    return pieceGrams !== undefined ? { grams: pieceGrams * quantity, exact: true } : null;
+  }
+
+  /**
+   * 신뢰도 = (정확 매칭 + 추정 매칭 × 0.5) / 전체 재료 수
+   */
+  private calculateConfidence(results: IngredientNutrition[]): NutritionConfidence {
+    const matchedCount = results.filter(result => result.status === 'matched').length;
+    const estimatedCount = results.filter(result => result.status === 'estimated').length;
+    const unmatched = results.filter(result => result.status === 'unmatched');
+    const score = results.length > 0
+      ? Math.round((matchedCount + estimatedCount * 0.5) / results.length * 100) / 100
+      : 0;
+
+    return {
+      score,
+      level: score >= 0.8 ? 'high' : score >= 0.5 ? 'medium' : 'low',
+      matchedCount,
+      estimatedCount,
+      unmatchedCount: unmatched.length,
+      unmatchedIngredients: unmatched.map(result => result.original),
+    };
+  }
+
+  private emptyFacts(): NutritionFacts {
+    return { calories: 0, protein: 0, carbs: 0, fat: 0, sodium: 0, sugar: 0, fiber: 0 };
+  }
+
+  private addFacts(a: NutritionFacts, b: NutritionFacts): NutritionFacts {
+    return {
+      calories: a.calories + b.calories,
+      protein: a.protein + b.protein,
+      carbs: a.carbs + b.carbs,
+      fat: a.fat + b.fat,
+      sodium: a.sodium + b.sodium,
+      sugar: a.sugar + b.sugar,
+      fiber: a.fiber + b.fiber,
+    };
+  }
+
+  private scaleFacts(facts: NutritionFacts, factor: number): NutritionFacts {
+    return {
+      calories: facts.calories * factor,
+      protein: facts.protein * factor,
+      carbs: facts.carbs * factor,
+      fat: facts.fat * factor,
+      sodium: facts.sodium * factor,
+      sugar: facts.sugar * factor,
+      fiber: facts.fiber * factor,
+    };
+  }
+
+  // kcal, mg 는 정수 / g 는 소수 첫째 자리
+  private roundFacts(facts: NutritionFacts): NutritionFacts {
+    const round1 = (value: number) => Math.round(value * 10) / 10;
+    return {
+      calories: Math.round(facts.calories),
+      protein: round1(facts.protein),
+      carbs: round1(facts.carbs),
+      fat: round1(facts.fat),
+      sodium: Math.round(facts.sodium),
+      sugar: round1(facts.sugar),
+      fiber: round1(facts.fiber),
+    };
+  }
+}
@@ -0,0 +1,60 @@
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { IsArray, IsDateString, IsInt, IsNotEmpty, IsNumber, IsOptional, IsString, Max, Min } from 'class-validator';
+import { RequestUtil } from '../../../common/utils/request.util';
+
+export class CreatePantryItemDto {
+    @ApiProperty({ example: '달걀' })
+    @IsString()
+    @IsNotEmpty()
+    name!: string;
+
+    @ApiProperty({ required: false, example: 6 })
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    @Min(0)
+    quantity?: number;
+
+    @ApiProperty({ required: false, example: '개' })
+    @IsOptional()
+    @IsString()
+    unit?: string;
+
+    @ApiProperty({ required: false, example: '2024-06-10', description: 'Expiry date (YYYY-MM-DD)' })
+    @IsOptional()
+    @IsDateString()
+    expiresAt?: string;
+}
+
+export class UpdatePantryItemDto extends PartialType(CreatePantryItemDto) {}
+
+export class PantryRankingQueryDto {
+    @ApiProperty({ description: 'Pantry owner' })
+    @IsString()
+    @IsNotEmpty()
+    userId!: string;
+
+    @ApiProperty({ required: false, default: 10 })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(50)
+    limit?: number = 10;
+
+    @ApiProperty({ required: false, default: 3, description: 'Items expiring within this many days are boosted' })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(0)
+    @Max(30)
+    expiringWithinDays?: number = 3;
+
+    @ApiProperty({ required: false, type: [String], example: ['땅콩'] })
+    @IsOptional()
+    @Transform(RequestUtil.toStringArray)
+    @IsArray()
+    @IsString({ each: true })
+    allergies?: string[];
+}
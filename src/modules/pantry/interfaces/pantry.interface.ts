@@ -0,0 +1,49 @@
+// Pantry interface definitions
+import { Recipe } from '../../recipe/recipe.service';
+
+export type PantryItemStatus = 'expired' | 'expiring' | 'fresh' | 'no_expiry';
+
+export interface StoredPantryItem {
+  userId: string;
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+  expiresAt: string | null;
+  addedAt: string;
+  updatedAt: string;
+}
+
+export interface PantryItem extends Omit<StoredPantryItem, 'userId'> {
+  id: string;
+  daysUntilExpiry: number | null;
+  status: PantryItemStatus;
+}
+
+export interface PantryItemInput {
+  name?: string;
+  quantity?: number | null;
+  unit?: string | null;
+  expiresAt?: string | null;
+}
+
+export interface PantryMatchedIngredient {
+  ingredient: string;
+  pantryItem: string;
+  daysUntilExpiry: number | null;
+}
+
+export interface PantryRecipeRanking {
+  recipe: Recipe;
+  score: number;
+  coverage: number;
+  pantryUsage: number;
+  matchedIngredients: PantryMatchedIngredient[];
+  missingIngredients: string[];
+  expiringItemsUsed: string[];
+}
+
+export interface PantryRankingOptions {
+  limit?: number;
+  expiringWithinDays?: number;
+  allergies?: string[];
+}
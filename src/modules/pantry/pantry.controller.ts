@@ -0,0 +1,58 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { PantryService } from './pantry.service';
+import { CreatePantryItemDto, PantryRankingQueryDto, UpdatePantryItemDto } from './dto/pantry.dto';
+import { PantryItem, PantryRecipeRanking } from './interfaces/pantry.interface';
+import { RequestUtil } from '../../common/utils/request.util';
+
+@ApiTags('Pantry')
+@Controller('pantry')
+export class PantryController {
+  constructor(private readonly pantryService: PantryService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List pantry items with expiry status (soonest first)' })
+  @ApiQuery({ name: 'userId', required: true })
+  async getPantry(@Query('userId') userId: string): Promise<PantryItem[]> {
+    RequestUtil.requireUserId(userId);
+    return this.pantryService.getPantry(userId);
+  }
+
+  @Get('recipes')
+  @ApiOperation({ summary: 'Rank recipes by how much of the pantry they use, boosting items that expire soon' })
+  @ApiResponse({ status: 200, description: 'Ranked recipes with matched and missing ingredients' })
+  async rankRecipes(@Query() rankingDto: PantryRankingQueryDto): Promise<PantryRecipeRanking[]> {
+    return this.pantryService.rankRecipesFromPantry(rankingDto.userId, rankingDto);
+  }
+
+  @Post('items')
+  @ApiOperation({ summary: 'Add an item to the pantry' })
+  @ApiQuery({ name: 'userId', required: true })
+  @ApiResponse({ status: 201, description: 'Created pantry item' })
+  async addItem(@Query('userId') userId: string, @Body() itemDto: CreatePantryItemDto): Promise<PantryItem> {
+    RequestUtil.requireUserId(userId);
+    return this.pantryService.addItem(userId, itemDto);
+  }
+
+  @Patch('items/:itemId')
+  @ApiOperation({ summary: 'Update quantity, unit or expiry of a pantry item' })
+  @ApiQuery({ name: 'userId', required: true })
+  @ApiResponse({ status: 404, description: 'Pantry item not found' })
+  async updateItem(
+    @Param('itemId') itemId: string,
+    @Query('userId') userId: string,
+    @Body() itemDto: UpdatePantryItemDto,
+  ): Promise<PantryItem> {
+    RequestUtil.requireUserId(userId);
+    return this.pantryService.updateItem(userId, itemId, itemDto);
+  }
+
+  @Delete('items/:itemId')
+  @ApiOperation({ summary: 'Remove a pantry item' })
+  @ApiQuery({ name: 'userId', required: true })
+  @ApiResponse({ status: 404, description: 'Pantry item not found' })
+  async removeItem(@Param('itemId') itemId: string, @Query('userId') userId: string): Promise<{ success: boolean; itemId: string }> {
+    RequestUtil.requireUserId(userId);
+    return this.pantryService.removeItem(userId, itemId);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PantryController } from './pantry.controller';
+import { PantryService } from './pantry.service';
+import { ElasticsearchModule } from '../elasticsearch/elasticsearch.module';
+import { AllergenModule } from '../allergen/allergen.module';
+
+@Module({
+  imports: [ElasticsearchModule, AllergenModule],
+  controllers: [PantryController],
+  providers: [PantryService],
+  exports: [PantryService],
+})
+export class PantryModule {}
@@ -0,0 +1,125 @@
+import { NotFoundException } from '@nestjs/common';
+import { AllergenService } from '../allergen/allergen.service';
+import { ElasticsearchRecipe, ElasticsearchService } from '../elasticsearch/elasticsearch.service';
+import { StoredPantryItem } from './interfaces/pantry.interface';
+import { PantryService } from './pantry.service';
+
+describe('PantryService', () => {
+  // 오늘 기준 n일 뒤 날짜 (YYYY-MM-DD)
+  const inDays = (days: number): string => {
+    const today = new Date();
+    return new Date(Date.UTC(today.getFullYear(), today.getMonth(), today.getDate() + days)).toISOString().substring(0, 10);
+  };
+
+  let documents: Map<string, StoredPantryItem>;
+  let recipes: ElasticsearchRecipe[];
+  let elasticsearchService: any;
+  let service: PantryService;
+
+  const store = (id: string, name: string, expiresAt: string | null, userId: string = 'u1') => {
+    documents.set(id, { userId, name, quantity: null, unit: null, expiresAt, addedAt: '2026-01-01T00:00:00Z', updatedAt: '2026-01-01T00:00:00Z' });
+  };
+
+  beforeEach(() => {
+    documents = new Map();
+    recipes = [];
+    elasticsearchService = {
+      searchDocuments: jest.fn(async (_index: string, body: any) => ({
+        documents: [...documents.entries()]
+          .filter(([, item]) => item.userId === body.query.term['userId.keyword'])
+          .map(([id, item]) => ({ _id: id, ...item })),
+        total: documents.size,
+      })),
+      saveDocument: jest.fn(async (_index: string, id: string | undefined, document: StoredPantryItem) => {
+        const savedId = id ?? `item${documents.size + 1}`;
+        documents.set(savedId, document);
+        return savedId;
+      }),
+      getDocument: jest.fn(async (_index: string, id: string) => documents.get(id) ?? null),
+      deleteDocument: jest.fn(async (_index: string, id: string) => documents.delete(id)),
+      searchRecipesByIngredients: jest.fn(async () => recipes),
+    };
+    service = new PantryService(elasticsearchService as ElasticsearchService, new AllergenService(elasticsearchService));
+  });
+
+  describe('getPantry', () => {
+    it('sorts by expiry and reports the status of each item', async () => {
+      store('a', '우유', inDays(5));
+      store('b', '달걀', inDays(1));
+      store('c', '두부', inDays(-1));
+      store('d', '소금', null);
+      store('e', '김치', inDays(0), 'u2');
+
+      const pantry = await service.getPantry('u1');
+
+      expect(pantry.map(item => [item.name, item.status, item.daysUntilExpiry])).toEqual([
+        ['두부', 'expired', -1],
+        ['달걀', 'expiring', 1],
+        ['우유', 'fresh', 5],
+        ['소금', 'no_expiry', null],
+      ]);
+    });
+  });
+
+  describe('items', () => {
+    it('adds an item with a date-only expiry', async () => {
+      const item = await service.addItem('u1', { name: ' 달걀 ', quantity: 6, expiresAt: '2026-12-01T09:00:00Z' });
+
+      expect(item).toMatchObject({ name: '달걀', quantity: 6, unit: null, expiresAt: '2026-12-01' });
+    });
+
+    it('clears a field set to null and keeps the others', async () => {
+      store('a', '우유', '2026-12-01');
+
+      const item = await service.updateItem('u1', 'a', { quantity: 2, expiresAt: null });
+
+      expect(item).toMatchObject({ name: '우유', quantity: 2, expiresAt: null, status: 'no_expiry' });
+    });
+
+    it('does not touch another user\'s item', async () => {
+      store('a', '우유', null, 'u2');
+
+      await expect(service.updateItem('u1', 'a', { quantity: 1 })).rejects.toThrow(NotFoundException);
+      await expect(service.removeItem('u1', 'a')).rejects.toThrow(NotFoundException);
+      expect(documents.has('a')).toBe(true);
+    });
+  });
+
+  describe('rankRecipesFromPantry', () => {
+    beforeEach(() => {
+      recipes = [
+        { id: 'omelette', nameKo: '오믈렛', ingredientsKo: ['달걀 3개', '우유 2큰술', '물 1컵'] },
+        { id: 'tofu', nameKo: '두부조림', ingredientsKo: ['두부 1모', '간장 2큰술', '양파 1개'] },
+        { id: 'stew', nameKo: '된장찌개', ingredientsKo: ['된장 2큰술', '감자 1개', '애호박 1개'] },
+      ] as ElasticsearchRecipe[];
+    });
+
+    it('prefers recipes that use more of the pantry and items about to expire', async () => {
+      store('a', '달걀', inDays(1));
+      store('b', '우유', inDays(10));
+      store('c', '양파', null);
+
+      const rankings = await service.rankRecipesFromPantry('u1');
+
+      expect(rankings.map(ranking => ranking.recipe.id)).toEqual(['omelette', 'tofu']);
+      expect(rankings[0]).toMatchObject({ coverage: 1, expiringItemsUsed: ['달걀'], missingIngredients: [] });
+      expect(rankings[1]?.missingIngredients).toEqual(['두부 1모', '간장 2큰술']);
+    });
+
+    it('ignores expired items', async () => {
+      store('a', '두부', inDays(-2));
+
+      expect(await service.rankRecipesFromPantry('u1')).toEqual([]);
+      expect(elasticsearchService.searchRecipesByIngredients).not.toHaveBeenCalled();
+    });
+
+    it('leaves out recipes with the requested allergens', async () => {
+      store('a', '달걀', null);
+      store('b', '두부', null);
+
+      const rankings = await service.rankRecipesFromPantry('u1', { allergies: ['달걀'] });
+
+      expect(rankings.map(ranking => ranking.recipe.id)).toEqual(['tofu']);
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ElasticsearchRecipe, ElasticsearchService } from '../elasticsearch/elasticsearch.service';
+import { IngredientParserUtil } from '../langchain/utils/ingredient-parser.util';
+import { RecipeTransformUtil } from '../langchain/utils/recipe-transform.util';
+import { AllergenService } from '../allergen/allergen.service';
+import {
+  PantryItem,
+  PantryItemInput,
+  PantryItemStatus,
+  PantryMatchedIngredient,
+  PantryRankingOptions,
+  PantryRecipeRanking,
+  StoredPantryItem,
+} from './interfaces/pantry.interface';
+
+/**
+ * 🧊 사용자별 냉장고(팬트리) 재고와 유통기한 관리
+ * "냉장고 털기" 추천: 보유 재료를 많이 쓰고 유통기한 임박 재료를 쓰는 레시피 우선
+ */
+@Injectable()
+export class PantryService {
+  private readonly logger = new Logger(PantryService.name);
+  private static readonly PANTRY_INDEX = 'user_pantry_items';
+  private static readonly MAX_PANTRY_ITEMS = 200;
+  private static readonly CANDIDATE_POOL_SIZE = 50;
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  // 점수 가중치: 레시피 재료 충족률, 냉장고 재료 활용률, 임박 재료 가산점(최대)
+  private static readonly SCORE_WEIGHTS = { coverage: 0.5, pantryUsage: 0.3, expiryBoost: 0.3 };
+
+  // 장보기/재고 대상이 아닌 재료
+  private static readonly IGNORED_INGREDIENTS = ['물', '찬물', '뜨거운물', '따뜻한물', 'water'];
+
+  constructor(
+    private readonly elasticsearchService: ElasticsearchService,
+    private readonly allergenService: AllergenService,
+  ) {}
+
+  /**
+   * 냉장고 재료 목록 (유통기한 임박순, 기한 없는 재료는 뒤로)
+   */
+  async getPantry(userId: string, expiringWithinDays: number = 3): Promise<PantryItem[]> {
+    const { documents } = await this.elasticsearchService.searchDocuments<StoredPantryItem>(
+      PantryService.PANTRY_INDEX,
+      {
+        query: { term: { 'userId.keyword': userId } },
+        size: PantryService.MAX_PANTRY_ITEMS,
+      }
+    );
+
+    return documents
+      .map(({ _id, ...item }) => this.toPantryItem(_id, item, expiringWithinDays))
+      .sort((a, b) => (a.daysUntilExpiry ?? Infinity) - (b.daysUntilExpiry ?? Infinity) || a.name.localeCompare(b.name, 'ko'));
+  }
+
+  /**
+   * 재료 추가
+   */
+  async addItem(userId: string, input: PantryItemInput & { name: string }): Promise<PantryItem> {
+    const now = new Date().toISOString();
+    const item: StoredPantryItem = {
+      userId,
+      name: input.name.trim(),
+      quantity: input.quantity ?? null,
+      unit: input.unit ?? null,
+      expiresAt: input.expiresAt ? input.expiresAt.substring(0, 10) : null,
+      addedAt: now,
+      updatedAt: now,
+    };
+
+    const id = await this.elasticsearchService.saveDocument(PantryService.PANTRY_INDEX, undefined, item);
+    this.logger.log(`🧊 ${userId} added ${item.name}${item.expiresAt ? ` (expires ${item.expiresAt})` : ''}`);
+    return this.toPantryItem(id, item);
+  }
+
+  /**
+   * 재료 수정 (null 을 보내면 수량/단위/유통기한 삭제)
+   */
+  async updateItem(userId: string, itemId: string, input: PantryItemInput): Promise<PantryItem> {
+    const stored = await this.getOwnedItem(userId, itemId);
+    const item: StoredPantryItem = {
+      ...stored,
+      ...(input.name !== undefined && input.name !== null ? { name: input.name.trim() } : {}),
+      ...(input.quantity !== undefined ? { quantity: input.quantity } : {}),
+      ...(input.unit !== undefined ? { unit: input.unit } : {}),
+      ...(input.expiresAt !== undefined ? { expiresAt: input.expiresAt ? input.expiresAt.substring(0, 10) : null } : {}),
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.elasticsearchService.saveDocument(PantryService.PANTRY_INDEX, itemId, item);
+    return this.toPantryItem(itemId, item);
+  }
+
+  /**
+   * 재료 삭제
+   */
+  async removeItem(userId: string, itemId: string): Promise<{ success: boolean; itemId: string }> {
+    await this.getOwnedItem(userId, itemId);
+    const success = await this.elasticsearchService.deleteDocument(PantryService.PANTRY_INDEX, itemId);
+    return { success, itemId };
+  }
+
+  /**
+   * 냉장고 재료로 만들 수 있는 레시피 순위 (부족한 재료 포함)
+   * score = 0.5 × 충족률 + 0.3 × 냉장고 활용률 + 임박 재료 가산점(최대 0.3)
+   */
+  async rankRecipesFromPantry(userId: string, options: PantryRankingOptions = {}): Promise<PantryRecipeRanking[]> {
+    const { limit = 10, expiringWithinDays = 3, allergies = [] } = options;
+
+    // 이미 지난 재료는 추천에 쓰지 않음
+    const pantry = (await this.getPantry(userId, expiringWithinDays)).filter(item => item.status !== 'expired');
+    if (pantry.length === 0) {
+      return [];
+    }
+
+    const candidates = await this.elasticsearchService.searchRecipesByIngredients(
+      pantry.map(item => item.name),
+      this.allergenService.expandExclusions(allergies),
+      PantryService.CANDIDATE_POOL_SIZE
+    );
+    const { recipes: safeCandidates } = this.allergenService.filterRecipes(
+      candidates,
+      recipe => this.allergenService.describeRecipe(recipe),
+      allergies
+    );
+
+    const rankings = safeCandidates
+      .map(recipe => this.rankRecipe(recipe, pantry, expiringWithinDays))
+      .filter(ranking => ranking.matchedIngredients.length > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    this.logger.log(`🧊 Ranked ${rankings.length}/${candidates.length} recipes from ${pantry.length} pantry items for ${userId}`);
+    return rankings;
+  }
+
+  private rankRecipe(recipe: ElasticsearchRecipe, pantry: PantryItem[], expiringWithinDays: number): PantryRecipeRanking {
+    const ingredients = IngredientParserUtil.parseAll(recipe.ingredientsKo?.length ? recipe.ingredientsKo : recipe.ingredientsEn || [])
+      .filter(ingredient => !PantryService.IGNORED_INGREDIENTS.includes(this.normalize(ingredient.name)));
+
+    const matchedIngredients: PantryMatchedIngredient[] = [];
+    const missingIngredients: string[] = [];
+    const usedItems = new Map<string, PantryItem>();
+
+    for (const ingredient of ingredients) {
+      const item = pantry.find(pantryItem => this.isSameIngredient(ingredient.name, pantryItem.name));
+      if (item) {
+        matchedIngredients.push({ ingredient: ingredient.original, pantryItem: item.name, daysUntilExpiry: item.daysUntilExpiry });
+        usedItems.set(item.id, item);
+      } else {
+        missingIngredients.push(ingredient.original);
+      }
+    }
+
+    const expiringItems = [...usedItems.values()].filter(item => item.status === 'expiring');
+    // 임박할수록 큰 가산점 (오늘 만료 1.0 → 기준일 만료 1/(기준일+1))
+    const expiryBoost = Math.min(
+      expiringItems.reduce((total, item) => total + 1 / ((item.daysUntilExpiry ?? expiringWithinDays) + 1), 0),
+      1
+    );
+    const coverage = ingredients.length > 0 ? matchedIngredients.length / ingredients.length : 0;
+    const pantryUsage = usedItems.size / pantry.length;
+    const { SCORE_WEIGHTS } = PantryService;
+    const score = SCORE_WEIGHTS.coverage * coverage + SCORE_WEIGHTS.pantryUsage * pantryUsage + SCORE_WEIGHTS.expiryBoost * expiryBoost;
+
+    return {
+      recipe: RecipeTransformUtil.transformRecipe(recipe),
+      score: Math.round(score * 1000) / 1000,
+      coverage: Math.round(coverage * 100) / 100,
+      pantryUsage: Math.round(pantryUsage * 100) / 100,
+      matchedIngredients,
+      missingIngredients,
+      expiringItemsUsed: expiringItems.map(item => item.name),
+    };
+  }
+
+  private async getOwnedItem(userId: string, itemId: string): Promise<StoredPantryItem> {
+    const stored = await this.elasticsearchService.getDocument<StoredPantryItem>(PantryService.PANTRY_INDEX, itemId);
+    if (!stored || stored.userId !== userId) {
+      throw new NotFoundException(`Pantry item not found: ${itemId}`);
+    }
+    return stored;
+  }
+
+  private toPantryItem(id: string, item: StoredPantryItem, expiringWithinDays: number = 3): PantryItem {
+    const daysUntilExpiry = item.expiresAt ? this.daysUntil(item.expiresAt) : null;
+    let status: PantryItemStatus = 'no_expiry';
+    if (daysUntilExpiry !== null) {
+      status = daysUntilExpiry < 0 ? 'expired' : daysUntilExpiry <= expiringWithinDays ? 'expiring' : 'fresh';
+    }
+    return {
+      id,
+      name: item.name,
+      quantity: item.quantity,
+      unit: item.unit,
+      expiresAt: item.expiresAt,
+      addedAt: item.addedAt,
+      updatedAt: item.updatedAt,
+      daysUntilExpiry,
+      status,
+    };
+  }
+
+  private daysUntil(date: string): number {
+    const today = new Date();
+    const todayUtc = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+    return Math.round((new Date(`${date}T00:00:00Z`).getTime() - todayUtc) / PantryService.DAY_MS);
+  }
+
+  /**
+   * 재료 이름 비교 ("다진 마늘" ↔ "마늘"), 한 글자 이름은 정확히 같을 때만
+   */
+  private isSameIngredient(ingredientName: string, pantryName: string): boolean {
+    const ingredient = this.normalize(ingredientName);
+    const item = this.normalize(pantryName);
+    if (!ingredient || !item) return false;
+    if (ingredient.length === 1 || item.length === 1) return ingredient === item;
+    return ingredient.includes(item) || item.includes(ingredient);
+  }
+
+  private normalize(name: string): string {
+    return name.toLowerCase().replace(/\s+/g, '');
+  }
+}
@@ -1,19 +1,33 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNumber, IsOptional, IsArray, Min, Max } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { IsString, IsNumber, IsInt, IsOptional, IsArray, IsIn, IsBoolean, IsObject, Min, Max } from 'class-validator';
+import { DIETARY_PROFILE_IDS, DietaryProfileId } from '../../dietary/interfaces/dietary.interface';
+import { RECIPE_LANGUAGES, RecipeLanguage } from '../../langchain/types/langchain.types';
+import { RequestUtil } from '../../../common/utils/request.util';
+import { LangQueryDto } from '../../../common/dto/lang-query.dto';
+import { RecipeScalingUtil } from '../../langchain/utils/recipe-scaling.util';
 
 export class SearchRecipeDto {
-    @ApiProperty({ example: 'pasta', description: 'Search query' })
+    @ApiProperty({ required: false, example: 'pasta', description: 'Search query' })
+    @IsOptional()
+    @IsString()
+    query?: string;
+
+    @ApiProperty({ required: false, description: 'Deprecated alias of query' })
+    @IsOptional()
     @IsString()
-    query!: string;
+    q?: string;
 
     @ApiProperty({ required: false, default: 1 })
     @IsOptional()
+    @Type(() => Number)
     @IsNumber()
     @Min(1)
     page?: number = 1;
 
     @ApiProperty({ required: false, default: 10 })
     @IsOptional()
+    @Type(() => Number)
     @IsNumber()
     @Min(1)
     @Max(50)
@@ -21,19 +35,23 @@ export class SearchRecipeDto {
 
     @ApiProperty({ required: false, example: ['글루텐', '견과류'] })
     @IsOptional()
+    @Transform(RequestUtil.toStringArray)
     @IsArray()
     @IsString({ each: true })
     allergies?: string[];
 
     @ApiProperty({ required: false, example: ['한식', '빠른요리'] })
     @IsOptional()
+    @Transform(RequestUtil.toStringArray)
     @IsArray()
     @IsString({ each: true })
     preferences?: string[];
 
     @ApiProperty({ required: false, example: 30 })
     @IsOptional()
+    @Type(() => Number)
     @IsNumber()
+    @Min(1)
     maxCookingTime?: number;
 
     @ApiProperty({ required: false, example: '쉬움' })
@@ -43,19 +61,67 @@ export class SearchRecipeDto {
 
     @ApiProperty({ required: false, example: ['한식', '간단'] })
     @IsOptional()
+    @Transform(RequestUtil.toStringArray)
     @IsArray()
     @IsString({ each: true })
     tags?: string[];
 
-    @ApiProperty({ required: false, default: 'relevance' })
+    @ApiProperty({ required: false, isArray: true, enum: DIETARY_PROFILE_IDS, example: ['vegetarian'], description: 'Dietary profiles every result must satisfy' })
     @IsOptional()
-    @IsString()
+    @Transform(RequestUtil.toStringArray)
+    @IsArray()
+    @IsIn(DIETARY_PROFILE_IDS, { each: true })
+    diet?: DietaryProfileId[];
+
+    @ApiProperty({ required: false, default: 'relevance', enum: ['relevance', 'rating', 'time', 'popularity'] })
+    @IsOptional()
+    @IsIn(['relevance', 'rating', 'time', 'popularity'])
     sortBy?: 'relevance' | 'rating' | 'time' | 'popularity' = 'relevance';
 
-    @ApiProperty({ required: false, default: 'desc' })
+    @ApiProperty({ required: false, default: 'desc', enum: ['asc', 'desc'] })
     @IsOptional()
-    @IsString()
+    @IsIn(['asc', 'desc'])
     sortOrder?: 'asc' | 'desc' = 'desc';
+
+    @ApiProperty({ required: false, default: 'ko', enum: RECIPE_LANGUAGES, description: 'Language of returned recipe fields and search field boosts' })
+    @IsOptional()
+    @IsIn(RECIPE_LANGUAGES)
+    lang?: RecipeLanguage;
+}
+
+export class RecipeDetailQueryDto extends LangQueryDto {
+    @ApiProperty({ required: false, description: 'Include bookmark state for this user' })
+    @IsOptional()
+    @IsString()
+    userId?: string;
+
+    @ApiProperty({ required: false, description: 'Rescale ingredients, nutrition totals and time hints to this many servings' })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(RecipeScalingUtil.MIN_SERVINGS)
+    @Max(RecipeScalingUtil.MAX_SERVINGS)
+    servings?: number;
+}
+
+// page/limit 범위는 컨트롤러에서 보정
+export class UserRecipesQueryDto extends LangQueryDto {
+    @ApiProperty({ required: true })
+    @IsOptional()
+    @IsString()
+    userId?: string;
+
+    @ApiProperty({ required: false, default: 1 })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    page?: number = 1;
+
+    @ApiProperty({ required: false, default: 10 })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    limit?: number = 10;
 }
 
 export class RateRecipeDto {
@@ -70,5 +136,242 @@ export class AddPersonalNoteDto {
     @ApiProperty({ example: '맛있었어요! 다음에는 소금을 좀 더 넣어봐야겠어요.' })
     @IsString()
     note!: string;
+
+    @ApiProperty({ required: false, example: ['주말요리', '손님상'] })
+    @IsOptional()
+    @IsArray()
+    @IsString({ each: true })
+    personalTags?: string[];
+}
+
+
+export class SimilarRecipeQueryDto extends LangQueryDto {
+    @ApiProperty({ required: false, default: 'all', enum: ['ingredients', 'tags', 'cuisine', 'all'] })
+    @IsOptional()
+    @IsIn(['ingredients', 'tags', 'cuisine', 'all'])
+    type?: 'ingredients' | 'tags' | 'cuisine' | 'all' = 'all';
+
+    @ApiProperty({ required: false, default: 6 })
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    @Min(1)
+    @Max(20)
+    limit?: number = 6;
+
+    @ApiProperty({ required: false, example: ['recipe-1', 'recipe-2'], description: 'Recipe IDs to exclude' })
+    @IsOptional()
+    @Transform(RequestUtil.toStringArray)
+    @IsArray()
+    @IsString({ each: true })
+    exclude?: string[];
 }
 
+export class RecommendRecipesDto extends LangQueryDto {
+    @ApiProperty({ required: false, description: 'User ID for history based strategies' })
+    @IsOptional()
+    @IsString()
+    userId?: string;
+
+    @ApiProperty({ required: false, default: 5 })
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    @Min(1)
+    @Max(50)
+    limit?: number = 5;
+
+    @ApiProperty({ required: false, enum: ['preferences', 'history', 'similar_users', 'trending'] })
+    @IsOptional()
+    @IsIn(['preferences', 'history', 'similar_users', 'trending'])
+    basedOn?: 'preferences' | 'history' | 'similar_users' | 'trending';
+
+    @ApiProperty({ required: false, description: 'Recipe IDs to exclude' })
+    @IsOptional()
+    @Transform(RequestUtil.toStringArray)
+    @IsArray()
+    @IsString({ each: true })
+    exclude?: string[];
+
+    @ApiProperty({ required: false, example: ['땅콩'] })
+    @IsOptional()
+    @Transform(RequestUtil.toStringArray)
+    @IsArray()
+    @IsString({ each: true })
+    allergies?: string[];
+
+    @ApiProperty({ required: false, example: ['한식', '찌개'] })
+    @IsOptional()
+    @Transform(RequestUtil.toStringArray)
+    @IsArray()
+    @IsString({ each: true })
+    preferences?: string[];
+}
+
+export class PopularRecipesDto extends LangQueryDto {
+    @ApiProperty({ required: false, default: 'week', enum: ['day', 'week', 'month', 'all'] })
+    @IsOptional()
+    @IsIn(['day', 'week', 'month', 'all'])
+    timeframe?: 'day' | 'week' | 'month' | 'all' = 'week';
+
+    @ApiProperty({ required: false, default: 10 })
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    @Min(1)
+    @Max(50)
+    limit?: number = 10;
+
+    @ApiProperty({ required: false, example: '찌개' })
+    @IsOptional()
+    @IsString()
+    category?: string;
+
+    @ApiProperty({ required: false, default: false, description: 'Include bookmark/rating state of userId' })
+    @IsOptional()
+    @Transform(({ value }) => value === true || value === 'true')
+    @IsBoolean()
+    includeUserData?: boolean = false;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    userId?: string;
+}
+
+// 형식만 확인하고, 필수값/범위/난이도는 RecipeAuthoringService 에서 필드별 오류 코드로 검증
+export class UpdateRecipeDto {
+    @ApiProperty({ required: false, example: '김치찌개' })
+    @IsOptional()
+    @IsString()
+    nameKo?: string;
+
+    @ApiProperty({ required: false, example: 'Kimchi Stew' })
+    @IsOptional()
+    @IsString()
+    nameEn?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    descriptionKo?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    descriptionEn?: string;
+
+    @ApiProperty({ required: false, example: ['김치 1컵', '돼지고기 200g'] })
+    @IsOptional()
+    @IsArray()
+    @IsString({ each: true })
+    ingredientsKo?: string[];
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsArray()
+    @IsString({ each: true })
+    ingredientsEn?: string[];
+
+    @ApiProperty({ required: false, example: ['김치를 볶는다', '물을 넣고 끓인다'] })
+    @IsOptional()
+    @IsArray()
+    @IsString({ each: true })
+    stepsKo?: string[];
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsArray()
+    @IsString({ each: true })
+    stepsEn?: string[];
+
+    @ApiProperty({ required: false, example: 30, description: 'Minutes' })
+    @IsOptional()
+    @IsNumber()
+    cookingTime?: number;
+
+    @ApiProperty({ required: false, example: 2 })
+    @IsOptional()
+    @IsNumber()
+    servings?: number;
+
+    @ApiProperty({ required: false, example: 'easy', description: 'easy | medium | hard (쉬움/보통/어려움)' })
+    @IsOptional()
+    @IsString()
+    difficulty?: string;
+
+    @ApiProperty({ required: false, example: '찌개' })
+    @IsOptional()
+    @IsString()
+    category?: string;
+
+    @ApiProperty({ required: false, example: ['한식', '매운맛'] })
+    @IsOptional()
+    @IsArray()
+    @IsString({ each: true })
+    tags?: string[];
+
+    @ApiProperty({ required: false, example: { calories: 250, protein: 18, carbs: 12, fat: 15 } })
+    @IsOptional()
+    @IsObject()
+    nutrition?: {
+        calories?: number;
+        protein?: number;
+        carbs?: number;
+        fat?: number;
+    };
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    author?: string;
+}
+
+export class CreateRecipeDto extends UpdateRecipeDto {
+    @ApiProperty({ required: false, description: 'Recipe ID (generated when omitted)' })
+    @IsOptional()
+    @IsString()
+    id?: string;
+}
+
+export class ImportRecipesDto {
+    @ApiProperty({ enum: ['jsonl', 'csv'], example: 'jsonl' })
+    @IsIn(['jsonl', 'csv'])
+    format!: 'jsonl' | 'csv';
+
+    @ApiProperty({ description: 'File content (JSON Lines or CSV with header row)' })
+    @IsString()
+    content!: string;
+
+    @ApiProperty({ required: false, default: false, description: 'Validate and report without indexing' })
+    @IsOptional()
+    @IsBoolean()
+    dryRun?: boolean = false;
+
+    @ApiProperty({ required: false, default: 500 })
+    @IsOptional()
+    @IsNumber()
+    @Min(1)
+    @Max(5000)
+    chunkSize?: number;
+}
+
+export class ExportRecipeQueryDto {
+    @ApiProperty({ required: false, default: 'jsonld', enum: ['jsonld', 'markdown', 'text'] })
+    @IsOptional()
+    @IsIn(['jsonld', 'markdown', 'text'])
+    format?: 'jsonld' | 'markdown' | 'text' = 'jsonld';
+
+    @ApiProperty({ required: false, default: 'ko', enum: RECIPE_LANGUAGES, description: 'Language of exported recipe fields and labels' })
+    @IsOptional()
+    @IsIn(RECIPE_LANGUAGES)
+    lang?: RecipeLanguage;
+}
+
+export class ExportRecipesQueryDto extends ExportRecipeQueryDto {
+    @ApiProperty({ example: ['1', '2'], description: 'Recipe IDs (comma separated or repeated)' })
+    @Transform(RequestUtil.toStringArray)
+    @IsArray()
+    @IsString({ each: true })
+    ids!: string[];
+}
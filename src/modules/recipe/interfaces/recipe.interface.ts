@@ -1,4 +1,9 @@
 // Recipe domain interface definitions
+import { AllergyExclusion } from '../../allergen/interfaces/allergen.interface';
+import { RecipeLanguage } from '../../langchain/types/langchain.types';
+
+export const RECIPE_DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+export type RecipeDifficulty = typeof RECIPE_DIFFICULTIES[number];
 
 export interface RecipeMetrics {
   viewCount: number;
@@ -35,6 +40,8 @@ export interface PaginatedRecipeResponse<T = any> {
   limit: number;
   hasMore: boolean;
   totalPages: number;
+  // 알레르기로 제외된 레시피와 사유 (allergies 지정 시)
+  allergyExclusions?: AllergyExclusion[];
 }
 
 export interface BookmarkResult {
@@ -68,6 +75,20 @@ export interface PersonalNoteResult {
   updatedAt: Date;
 }
 
+export interface RecipeDeleteResult {
+  success: boolean;
+  recipeId: string;
+  message: string;
+}
+
+export interface CookingHistoryEntry<T = any> {
+  recipeId: string;
+  recipe: T | null;
+  cookedAt: Date;
+  cookCount: number;
+  personalNote?: string;
+}
+
 export interface SystemStats {
   totalRecipes: number;
   totalViews: number;
@@ -101,6 +122,7 @@ export interface RecipeRecommendationRequest {
   limit?: number;
   excludeRecipeIds?: string[];
   basedOn?: 'preferences' | 'history' | 'similar_users' | 'trending';
+  lang?: RecipeLanguage;
 }
 
 export interface SimilarRecipeRequest {
@@ -108,6 +130,7 @@ export interface SimilarRecipeRequest {
   limit?: number;
   excludeRecipeIds?: string[];
   similarityType?: 'ingredients' | 'tags' | 'cuisine' | 'all';
+  lang?: RecipeLanguage;
 }
 
 export interface RecipeValidationResult {
@@ -119,6 +142,70 @@ export interface RecipeValidationResult {
   }>;
 }
 
+export interface RecipeImportRowResult {
+  row: number;
+  status: 'accepted' | 'rejected' | 'duplicate';
+  recipeId?: string;
+  name?: string;
+  reasons: RecipeValidationResult['errors'];
+}
+
+export interface RecipeImportReport {
+  format: 'jsonl' | 'csv';
+  dryRun: boolean;
+  totalRows: number;
+  acceptedCount: number;
+  rejectedCount: number;
+  duplicateCount: number;
+  accepted: RecipeImportRowResult[];
+  rejected: RecipeImportRowResult[];
+  duplicates: RecipeImportRowResult[];
+}
+
+export type RecipeRevisionAction = 'create' | 'replace' | 'update' | 'delete' | 'restore' | 'import';
+
+export interface RecipeFieldChange {
+  // 'nameKo', 'ingredientsKo[2]', 'nutrition.calories'
+  field: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface RecipeRevision {
+  recipeId: string;
+  revision: number;
+  action: RecipeRevisionAction;
+  author: string;
+  timestamp: string;
+  changes: RecipeFieldChange[];
+  // 작성자가 입력하는 필드만 보관 (삭제 리비전은 null)
+  snapshot: Record<string, any> | null;
+  restoredFrom?: number;
+}
+
+export interface RecipeRevisionPage {
+  recipeId: string;
+  revisions: Array<Omit<RecipeRevision, 'snapshot'>>;
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+  totalPages: number;
+}
+
+export interface RecipeRevisionWriteResult {
+  recorded: Array<{ recipeId: string; revision: number }>;
+  failed: Array<{ recipeId: string; error: string }>;
+}
+
+export interface RecipeRevisionDiff {
+  recipeId: string;
+  from: number;
+  to: number;
+  changes: RecipeFieldChange[];
+}
+
 export interface RecipeInteractionEvent {
   userId: string;
   recipeId: string;
@@ -133,6 +220,7 @@ export interface PopularRecipeOptions {
   limit?: number;
   category?: string;
   includeUserData?: boolean;
+  lang?: RecipeLanguage;
 }
 
 export interface RecipeAggregationResult {
@@ -1,41 +1,96 @@
 import {
   Controller,
   Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
   Query,
   Param,
   Logger,
+  NotFoundException,
+  DefaultValuePipe,
+  ParseIntPipe,
+  Res,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
-import { RecipeService, Recipe } from './recipe.service';
+import type { Response } from 'express';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { RecipeService, Recipe, RecipeDetail, SimilarRecipe, PopularRecipe } from './recipe.service';
+import { RecipeInteractionService } from './services/recipe-interaction.service';
+import { RecipeRecommendationService, RecommendedRecipe } from './services/recipe-recommendation.service';
+import { RecipeAuthoringService } from './services/recipe-authoring.service';
+import { RecipeImportService } from './services/recipe-import.service';
+import { RecipeExportService, RecipeExport } from './services/recipe-export.service';
+import { RecipeRevisionService } from './services/recipe-revision.service';
+import {
+  AddPersonalNoteDto,
+  CreateRecipeDto,
+  ExportRecipeQueryDto,
+  ExportRecipesQueryDto,
+  ImportRecipesDto,
+  PopularRecipesDto,
+  RateRecipeDto,
+  RecipeDetailQueryDto,
+  RecommendRecipesDto,
+  SearchRecipeDto,
+  SimilarRecipeQueryDto,
+  UpdateRecipeDto,
+  UserRecipesQueryDto,
+} from './dto/recipe.dto';
+import {
+  BookmarkResult,
+  CookingHistoryEntry,
+  CookingResult,
+  PaginatedRecipeResponse,
+  PersonalNoteResult,
+  RatingResult,
+  RecipeDeleteResult,
+  RecipeImportReport,
+  RecipeMetrics,
+  RecipeRevision,
+  RecipeRevisionDiff,
+  RecipeRevisionPage,
+  RecipeValidationResult,
+} from './interfaces/recipe.interface';
+import { RequestUtil } from '../../common/utils/request.util';
+import { LangQueryDto } from '../../common/dto/lang-query.dto';
 
 @ApiTags('Recipes')
 @Controller('recipes')
 export class RecipeController {
   private readonly logger = new Logger(RecipeController.name);
 
-  constructor(private readonly recipeService: RecipeService) {}
+  constructor(
+    private readonly recipeService: RecipeService,
+    private readonly recipeInteractionService: RecipeInteractionService,
+    private readonly recipeRecommendationService: RecipeRecommendationService,
+    private readonly recipeAuthoringService: RecipeAuthoringService,
+    private readonly recipeImportService: RecipeImportService,
+    private readonly recipeExportService: RecipeExportService,
+    private readonly recipeRevisionService: RecipeRevisionService,
+  ) {}
 
   @Get('search')
-  @ApiOperation({ summary: 'Search recipes' })
+  @ApiOperation({ summary: 'Search recipes with filters, sorting and pagination' })
   @ApiResponse({ status: 200, description: 'Search results retrieved successfully' })
-  async searchRecipes(@Query('q') query: string): Promise<Recipe[]> {
+  async searchRecipes(@Query() searchDto: SearchRecipeDto): Promise<PaginatedRecipeResponse<Recipe>> {
     try {
-      if (!query) {
-        return await this.recipeService.getAllRecipes();
-      }
-      return await this.recipeService.searchRecipes(query);
+      return await this.recipeService.searchRecipesPaginated(searchDto);
     } catch (error: unknown) {
       this.logger.error(`Recipe search error:`, error instanceof Error ? error.message : 'Unknown error');
-      return [];
+      const page = searchDto.page ?? 1;
+      const limit = searchDto.limit ?? 10;
+      return { recipes: [], total: 0, page, limit, totalPages: 0, hasMore: false };
     }
   }
 
   @Get('all')
   @ApiOperation({ summary: 'Get all recipes' })
   @ApiResponse({ status: 200, description: 'All recipes retrieved successfully' })
-  async getAllRecipes(): Promise<Recipe[]> {
+  async getAllRecipes(@Query() langDto: LangQueryDto): Promise<Recipe[]> {
     try {
-      return await this.recipeService.getAllRecipes();
+      return await this.recipeService.getAllRecipes(langDto.lang);
     } catch (error: unknown) {
       this.logger.error(`Get all recipes error:`, error instanceof Error ? error.message : 'Unknown error');
       return [];
@@ -43,27 +98,308 @@ export class RecipeController {
   }
 
   @Get('recommended')
-  @ApiOperation({ summary: 'Get recommended recipes' })
+  @ApiOperation({ summary: 'Get recommended recipes (preferences, history, similar_users, trending)' })
   @ApiResponse({ status: 200, description: 'Recommended recipes retrieved successfully' })
-  async getRecommended(@Query('limit') limit: number = 5): Promise<Recipe[]> {
+  async getRecommended(@Query() recommendDto: RecommendRecipesDto): Promise<Array<Recipe | RecommendedRecipe>> {
     try {
-      return await this.recipeService.getRecommendedRecipes(limit);
+      if (!recommendDto.userId && !recommendDto.basedOn && !recommendDto.preferences) {
+        return await this.recipeService.getRecommendedRecipes(recommendDto.limit, recommendDto.allergies, recommendDto.lang);
+      }
+
+      return await this.recipeRecommendationService.recommend({
+        userId: recommendDto.userId,
+        limit: recommendDto.limit,
+        basedOn: recommendDto.basedOn,
+        excludeRecipeIds: recommendDto.exclude,
+        allergies: recommendDto.allergies,
+        preferences: recommendDto.preferences,
+        lang: recommendDto.lang,
+      });
     } catch (error: unknown) {
       this.logger.error(`Get recommended recipes error:`, error instanceof Error ? error.message : 'Unknown error');
       return [];
     }
   }
 
+  @Get('popular')
+  @ApiOperation({ summary: 'Get popular recipes ranked by time-decayed engagement' })
+  @ApiResponse({ status: 200, description: 'Popular recipes retrieved successfully' })
+  async getPopular(@Query() popularDto: PopularRecipesDto): Promise<PopularRecipe[]> {
+    try {
+      return await this.recipeService.getPopularRecipes(
+        {
+          timeframe: popularDto.timeframe,
+          limit: popularDto.limit,
+          category: popularDto.category,
+          includeUserData: popularDto.includeUserData,
+          lang: popularDto.lang,
+        },
+        popularDto.userId
+      );
+    } catch (error: unknown) {
+      this.logger.error(`Get popular recipes error:`, error instanceof Error ? error.message : 'Unknown error');
+      return [];
+    }
+  }
+
+  @Get('export')
+  @ApiOperation({ summary: 'Export selected recipes as schema.org JSON-LD, Markdown or plain text' })
+  @ApiResponse({ status: 200, description: 'Recipes exported successfully' })
+  @ApiResponse({ status: 404, description: 'None of the recipes were found' })
+  async exportRecipes(
+    @Query() exportDto: ExportRecipesQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<RecipeExport['content']> {
+    const exported = await this.recipeExportService.exportRecipes(exportDto.ids, exportDto.format ?? 'jsonld', exportDto.lang);
+    if (exported.missingIds && exported.missingIds.length > 0) {
+      res.setHeader('X-Missing-Recipe-Ids', exported.missingIds.join(','));
+    }
+    return this.sendExport(res, exported);
+  }
+
+  @Get('bookmarks')
+  @ApiOperation({ summary: 'Get bookmarked recipes of a user' })
+  @ApiQuery({ name: 'userId', required: true })
+  @ApiResponse({ status: 200, description: 'Bookmarked recipes retrieved successfully' })
+  async getBookmarks(@Query() queryDto: UserRecipesQueryDto): Promise<PaginatedRecipeResponse<Recipe>> {
+    const { userId, page = 1, limit = 10, lang } = queryDto;
+    RequestUtil.requireUserId(userId);
+    return this.recipeInteractionService.getBookmarkedRecipes(userId, Math.max(page, 1), Math.min(Math.max(limit, 1), 50), lang);
+  }
+
+  @Get('cooking-history')
+  @ApiOperation({ summary: 'Get cooking history of a user (newest first)' })
+  @ApiQuery({ name: 'userId', required: true })
+  @ApiResponse({ status: 200, description: 'Cooking history retrieved successfully' })
+  async getCookingHistory(@Query() queryDto: UserRecipesQueryDto): Promise<PaginatedRecipeResponse<CookingHistoryEntry<Recipe>>> {
+    const { userId, page = 1, limit = 10, lang } = queryDto;
+    RequestUtil.requireUserId(userId);
+    return this.recipeInteractionService.getCookingHistory(userId, Math.max(page, 1), Math.min(Math.max(limit, 1), 50), lang);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a recipe' })
+  @ApiResponse({ status: 201, description: 'Recipe created successfully' })
+  @ApiResponse({ status: 400, description: 'Recipe validation failed (field-level error codes)' })
+  @ApiQuery({ name: 'userId', required: false, description: 'Recorded as the revision author' })
+  @ApiResponse({ status: 409, description: 'Recipe ID already exists' })
+  async createRecipe(@Body() createDto: CreateRecipeDto, @Query('userId') userId?: string): Promise<Recipe> {
+    const { id, ...input } = createDto;
+    return this.recipeAuthoringService.createRecipe(input, id, userId);
+  }
+
+  @Post('validate')
+  @ApiOperation({ summary: 'Validate a recipe without saving it' })
+  @ApiResponse({ status: 201, description: 'Validation result' })
+  async validateRecipe(@Body() recipeDto: UpdateRecipeDto): Promise<RecipeValidationResult> {
+    return this.recipeAuthoringService.validateRecipe(this.recipeAuthoringService.normalizeRecipe(recipeDto));
+  }
+
+  @Post('import')
+  @ApiOperation({ summary: 'Bulk import recipes from JSON Lines or CSV content' })
+  @ApiQuery({ name: 'userId', required: false, description: 'Recorded as the revision author' })
+  @ApiResponse({ status: 201, description: 'Import report with accepted, rejected and duplicate rows' })
+  async importRecipes(@Body() importDto: ImportRecipesDto, @Query('userId') userId?: string): Promise<RecipeImportReport> {
+    return this.recipeImportService.importRecipes(importDto.content, {
+      format: importDto.format,
+      dryRun: importDto.dryRun,
+      chunkSize: importDto.chunkSize,
+      author: userId,
+    });
+  }
+
+  @Post(':id/bookmark')
+  @ApiOperation({ summary: 'Toggle recipe bookmark' })
+  @ApiQuery({ name: 'userId', required: true })
+  @ApiResponse({ status: 201, description: 'Bookmark toggled successfully' })
+  @ApiResponse({ status: 404, description: 'Recipe not found' })
+  async toggleBookmark(@Param('id') id: string, @Query('userId') userId: string): Promise<BookmarkResult> {
+    RequestUtil.requireUserId(userId);
+    return this.recipeInteractionService.toggleBookmark(userId, id);
+  }
+
+  @Post(':id/rating')
+  @ApiOperation({ summary: 'Rate a recipe (one rating per user)' })
+  @ApiQuery({ name: 'userId', required: true })
+  @ApiResponse({ status: 201, description: 'Rating saved successfully' })
+  @ApiResponse({ status: 404, description: 'Recipe not found' })
+  async rateRecipe(
+    @Param('id') id: string,
+    @Query('userId') userId: string,
+    @Body() rateDto: RateRecipeDto,
+  ): Promise<RatingResult> {
+    RequestUtil.requireUserId(userId);
+    return this.recipeInteractionService.rateRecipe(userId, id, rateDto.rating);
+  }
+
+  @Post(':id/cooked')
+  @ApiOperation({ summary: 'Mark a recipe as cooked' })
+  @ApiQuery({ name: 'userId', required: true })
+  @ApiResponse({ status: 201, description: 'Cooking recorded successfully' })
+  @ApiResponse({ status: 404, description: 'Recipe not found' })
+  async markAsCooked(@Param('id') id: string, @Query('userId') userId: string): Promise<CookingResult> {
+    RequestUtil.requireUserId(userId);
+    return this.recipeInteractionService.markAsCooked(userId, id);
+  }
+
+  @Put(':id/note')
+  @ApiOperation({ summary: 'Save a private note and personal tags for a recipe' })
+  @ApiQuery({ name: 'userId', required: true })
+  @ApiResponse({ status: 200, description: 'Note saved successfully' })
+  @ApiResponse({ status: 404, description: 'Recipe not found' })
+  async savePersonalNote(
+    @Param('id') id: string,
+    @Query('userId') userId: string,
+    @Body() noteDto: AddPersonalNoteDto,
+  ): Promise<PersonalNoteResult> {
+    RequestUtil.requireUserId(userId);
+    return this.recipeInteractionService.savePersonalNote(userId, id, noteDto.note, noteDto.personalTags);
+  }
+
+  @Get(':id/similar')
+  @ApiOperation({ summary: 'Get recipes similar to a recipe' })
+  @ApiResponse({ status: 200, description: 'Similar recipes retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Recipe not found' })
+  async getSimilarRecipes(
+    @Param('id') id: string,
+    @Query() similarDto: SimilarRecipeQueryDto,
+  ): Promise<SimilarRecipe[]> {
+    const similarRecipes = await this.recipeService.getSimilarRecipes({
+      recipeId: id,
+      limit: similarDto.limit,
+      excludeRecipeIds: similarDto.exclude,
+      similarityType: similarDto.type,
+      lang: similarDto.lang,
+    });
+
+    if (!similarRecipes) {
+      throw new NotFoundException(`Recipe not found: ${id}`);
+    }
+    return similarRecipes;
+  }
+
+  @Get(':id/export')
+  @ApiOperation({ summary: 'Export a recipe as schema.org JSON-LD, Markdown or plain text' })
+  @ApiResponse({ status: 200, description: 'Recipe exported successfully' })
+  @ApiResponse({ status: 404, description: 'Recipe not found' })
+  async exportRecipe(
+    @Param('id') id: string,
+    @Query() exportDto: ExportRecipeQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<RecipeExport['content']> {
+    return this.sendExport(res, await this.recipeExportService.exportRecipe(id, exportDto.format ?? 'jsonld', exportDto.lang));
+  }
+
+  @Get(':id/metrics')
+  @ApiOperation({ summary: 'Get recipe metrics' })
+  @ApiResponse({ status: 200, description: 'Recipe metrics retrieved successfully' })
+  async getMetrics(@Param('id') id: string): Promise<RecipeMetrics> {
+    return this.recipeInteractionService.getRecipeMetrics(id);
+  }
+
+  @Get(':id/revisions')
+  @ApiOperation({ summary: 'List revisions of a recipe (newest first)' })
+  @ApiResponse({ status: 200, description: 'Revisions retrieved successfully' })
+  async listRevisions(
+    @Param('id') id: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ): Promise<RecipeRevisionPage> {
+    return this.recipeRevisionService.listRevisions(id, Math.max(page, 1), Math.min(Math.max(limit, 1), 100));
+  }
+
+  @Get(':id/revisions/diff')
+  @ApiOperation({ summary: 'Field-level diff between two revisions of a recipe' })
+  @ApiQuery({ name: 'from', required: true })
+  @ApiQuery({ name: 'to', required: true })
+  @ApiResponse({ status: 200, description: 'Diff retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Revision not found' })
+  async diffRevisions(
+    @Param('id') id: string,
+    @Query('from', ParseIntPipe) from: number,
+    @Query('to', ParseIntPipe) to: number,
+  ): Promise<RecipeRevisionDiff> {
+    return this.recipeRevisionService.diffRevisions(id, from, to);
+  }
+
+  @Get(':id/revisions/:revision')
+  @ApiOperation({ summary: 'Get a revision of a recipe with its snapshot' })
+  @ApiResponse({ status: 200, description: 'Revision retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Revision not found' })
+  async getRevision(
+    @Param('id') id: string,
+    @Param('revision', ParseIntPipe) revision: number,
+  ): Promise<RecipeRevision> {
+    return this.recipeRevisionService.getRevision(id, revision);
+  }
+
+  @Post(':id/revisions/:revision/restore')
+  @ApiOperation({ summary: 'Restore a recipe to a previous revision (recorded as a new revision)' })
+  @ApiQuery({ name: 'userId', required: false, description: 'Recorded as the revision author' })
+  @ApiResponse({ status: 201, description: 'Recipe restored successfully' })
+  @ApiResponse({ status: 400, description: 'Revision is a deletion or fails validation' })
+  @ApiResponse({ status: 404, description: 'Revision not found' })
+  async restoreRevision(
+    @Param('id') id: string,
+    @Param('revision', ParseIntPipe) revision: number,
+    @Query('userId') userId?: string,
+  ): Promise<Recipe> {
+    return this.recipeAuthoringService.restoreRevision(id, revision, userId);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get recipe by ID' })
   @ApiResponse({ status: 200, description: 'Recipe retrieved successfully' })
   @ApiResponse({ status: 404, description: 'Recipe not found' })
-  async findById(@Param('id') id: string): Promise<Recipe | null> {
+  async findById(@Param('id') id: string, @Query() detailDto: RecipeDetailQueryDto): Promise<RecipeDetail | null> {
     try {
-      return await this.recipeService.getRecipeById(id);
+      return await this.recipeService.getRecipeById(id, detailDto.userId, detailDto.servings, detailDto.lang);
     } catch (error: unknown) {
       this.logger.error(`Recipe retrieval error for ID ${id}:`, error instanceof Error ? error.message : 'Unknown error');
       return null;
     }
   }
-}
\ No newline at end of file
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Replace a recipe' })
+  @ApiResponse({ status: 200, description: 'Recipe replaced successfully' })
+  @ApiResponse({ status: 400, description: 'Recipe validation failed (field-level error codes)' })
+  @ApiQuery({ name: 'userId', required: false, description: 'Recorded as the revision author' })
+  @ApiResponse({ status: 404, description: 'Recipe not found' })
+  async replaceRecipe(
+    @Param('id') id: string,
+    @Body() recipeDto: UpdateRecipeDto,
+    @Query('userId') userId?: string,
+  ): Promise<Recipe> {
+    return this.recipeAuthoringService.replaceRecipe(id, recipeDto, userId);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Partially update a recipe' })
+  @ApiResponse({ status: 200, description: 'Recipe updated successfully' })
+  @ApiResponse({ status: 400, description: 'Recipe validation failed (field-level error codes)' })
+  @ApiQuery({ name: 'userId', required: false, description: 'Recorded as the revision author' })
+  @ApiResponse({ status: 404, description: 'Recipe not found' })
+  async updateRecipe(
+    @Param('id') id: string,
+    @Body() recipeDto: UpdateRecipeDto,
+    @Query('userId') userId?: string,
+  ): Promise<Recipe> {
+    return this.recipeAuthoringService.updateRecipe(id, recipeDto, userId);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a recipe' })
+  @ApiResponse({ status: 200, description: 'Recipe deleted successfully' })
+  @ApiQuery({ name: 'userId', required: false, description: 'Recorded as the revision author' })
+  @ApiResponse({ status: 404, description: 'Recipe not found' })
+  async deleteRecipe(@Param('id') id: string, @Query('userId') userId?: string): Promise<RecipeDeleteResult> {
+    return this.recipeAuthoringService.deleteRecipe(id, userId);
+  }
+
+  private sendExport(res: Response, exported: RecipeExport): RecipeExport['content'] {
+    res.setHeader('Content-Type', exported.contentType);
+    res.setHeader('Content-Disposition', RecipeExportService.buildContentDisposition(exported.fileName));
+    return typeof exported.content === 'string' ? exported.content : JSON.stringify(exported.content, null, 2);
+  }
+}
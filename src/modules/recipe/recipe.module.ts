@@ -1,10 +1,40 @@
 import { Module } from '@nestjs/common';
 import { RecipeService } from './recipe.service';
 import { RecipeController } from './recipe.controller';
+import { RecipeInteractionService } from './services/recipe-interaction.service';
+import { RecipeRecommendationService } from './services/recipe-recommendation.service';
+import { RecipeEventService } from './services/recipe-event.service';
+import { RecipeAuthoringService } from './services/recipe-authoring.service';
+import { RecipeImportService } from './services/recipe-import.service';
+import { RecipeExportService } from './services/recipe-export.service';
+import { RecipeRevisionService } from './services/recipe-revision.service';
+import { ElasticsearchModule } from '../elasticsearch/elasticsearch.module';
+import { NutritionModule } from '../nutrition/nutrition.module';
+import { AllergenModule } from '../allergen/allergen.module';
+import { DietaryModule } from '../dietary/dietary.module';
 
 @Module({
+  imports: [ElasticsearchModule, NutritionModule, AllergenModule, DietaryModule],
   controllers: [RecipeController],
-  providers: [RecipeService],
-  exports: [RecipeService],
+  providers: [
+    RecipeService,
+    RecipeInteractionService,
+    RecipeRecommendationService,
+    RecipeEventService,
+    RecipeAuthoringService,
+    RecipeImportService,
+    RecipeExportService,
+    RecipeRevisionService,
+  ],
+  exports: [
+    RecipeService,
+    RecipeInteractionService,
+    RecipeRecommendationService,
+    RecipeEventService,
+    RecipeAuthoringService,
+    RecipeImportService,
+    RecipeExportService,
+    RecipeRevisionService,
+  ],
 })
 export class RecipeModule {}
\ No newline at end of file
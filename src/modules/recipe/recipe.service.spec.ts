@@ -0,0 +1,127 @@
+import { ElasticsearchService } from '../elasticsearch/elasticsearch.service';
+import { DietaryService } from '../dietary/dietary.service';
+import { AllergenService } from '../allergen/allergen.service';
+import { NutritionService } from '../nutrition/nutrition.service';
+import { RecipeService } from './recipe.service';
+import { RecipeInteractionService } from './services/recipe-interaction.service';
+import { RecipeEventService } from './services/recipe-event.service';
+
+describe('RecipeService (sample data)', () => {
+  const originalSource = process.env.RECIPE_DATA_SOURCE;
+  let service: RecipeService;
+
+  beforeAll(() => {
+    process.env.RECIPE_DATA_SOURCE = 'sample';
+  });
+
+  afterAll(() => {
+    process.env.RECIPE_DATA_SOURCE = originalSource;
+  });
+
+  beforeEach(() => {
+    const elasticsearchService = {} as ElasticsearchService;
+    service = new RecipeService(
+      elasticsearchService,
+      {} as RecipeInteractionService,
+      {} as RecipeEventService,
+      {} as NutritionService,
+      new AllergenService(elasticsearchService),
+      new DietaryService(elasticsearchService),
+    );
+  });
+
+  describe('getSimilarRecipes', () => {
+    it('scores only the overlap of the requested similarity type', async () => {
+      const [byIngredients] = (await service.getSimilarRecipes({ recipeId: '1', similarityType: 'ingredients' }))!;
+      const [byTags] = (await service.getSimilarRecipes({ recipeId: '1', similarityType: 'tags' }))!;
+      const [byAll] = (await service.getSimilarRecipes({ recipeId: '1', similarityType: 'all' }))!;
+
+      expect(byIngredients?.similarity).toMatchObject({ score: 1, sharedIngredients: ['마늘'] });
+      expect(byTags?.similarity).toMatchObject({ score: 1, sharedTags: ['한식'] });
+      expect(byAll?.similarity.score).toBe(2);
+    });
+
+    it('matches cuisine on shared tags and leaves out excluded recipes', async () => {
+      const byCuisine = await service.getSimilarRecipes({ recipeId: '1', similarityType: 'cuisine' });
+      expect(byCuisine?.map(recipe => recipe.id)).toEqual(['2']);
+
+      const excluded = await service.getSimilarRecipes({ recipeId: '1', similarityType: 'ingredients', excludeRecipeIds: ['2'] });
+      expect(excluded).toEqual([]);
+    });
+
+    it('returns null for an unknown recipe', async () => {
+      expect(await service.getSimilarRecipes({ recipeId: 'missing' })).toBeNull();
+    });
+  });
+});
+
+describe('RecipeService', () => {
+  const esRecipe = {
+    id: 'r1',
+    nameKo: '김치찌개',
+    ingredientsKo: ['김치 200g', '돼지고기 100g'],
+    stepsKo: ['김치를 볶는다'],
+    servings: 2,
+    nutrition: { calories: 250 },
+  };
+  let elasticsearchService: any;
+  let recipeEventService: any;
+  let service: RecipeService;
+
+  beforeEach(() => {
+    elasticsearchService = {
+      getRecipeById: jest.fn(async () => ({ ...esRecipe })),
+      incrementRecipeCounter: jest.fn(async () => undefined),
+    };
+    recipeEventService = { recordEvent: jest.fn(async () => undefined) };
+    service = new RecipeService(
+      elasticsearchService,
+      {
+        getRecipeMetrics: jest.fn(async () => ({ viewCount: 1 })),
+        getUserInteraction: jest.fn(async () => ({ isBookmarked: false })),
+      } as unknown as RecipeInteractionService,
+      recipeEventService,
+      { hasStoredNutrition: jest.fn(() => true) } as unknown as NutritionService,
+      new AllergenService(elasticsearchService),
+      new DietaryService(elasticsearchService),
+    );
+  });
+
+  describe('getRecipeById', () => {
+    it('responds without waiting for the view to be recorded', async () => {
+      recipeEventService.recordEvent.mockReturnValue(new Promise(() => undefined));
+      elasticsearchService.incrementRecipeCounter.mockReturnValue(new Promise(() => undefined));
+
+      const recipe = await service.getRecipeById('r1', 'u1');
+
+      expect(recipe?.title).toBe('김치찌개');
+      expect(recipeEventService.recordEvent).toHaveBeenCalledWith({ userId: 'u1', recipeId: 'r1', action: 'view' });
+      expect(elasticsearchService.incrementRecipeCounter).toHaveBeenCalledWith('r1', 'viewCount');
+    });
+
+    it('still responds when recording the view fails', async () => {
+      elasticsearchService.incrementRecipeCounter.mockRejectedValue(new Error('es unavailable'));
+
+      await expect(service.getRecipeById('r1')).resolves.toMatchObject({ id: 'r1' });
+    });
+  });
+
+  describe('searchRecipesPaginated', () => {
+    it('pushes allergy exclusions into the search and keeps the total in line with the returned recipes', async () => {
+      elasticsearchService.searchRecipesWithFilters = jest.fn()
+        .mockResolvedValueOnce({
+          recipes: [esRecipe, { ...esRecipe, id: 'r2', nameKo: '땅콩조림', ingredientsKo: ['땅콩 100g'] }],
+          total: 12,
+        })
+        .mockResolvedValueOnce({ recipes: [], total: 0 });
+
+      const response = await service.searchRecipesPaginated({ page: 1, limit: 2, allergies: ['땅콩'] });
+
+      expect(elasticsearchService.searchRecipesWithFilters).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        excludeIngredients: expect.arrayContaining([{ term: '땅콩', exceptions: [] }]),
+      }));
+      expect(response.recipes.map(recipe => recipe.id)).toEqual(['r1']);
+      expect(response).toMatchObject({ total: 11, totalPages: 6, hasMore: true });
+    });
+  });
+});
@@ -1,10 +1,43 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ElasticsearchService } from '../elasticsearch/elasticsearch.service';
+import { RecipeTransformUtil } from '../langchain/utils/recipe-transform.util';
+import { IngredientParserUtil } from '../langchain/utils/ingredient-parser.util';
+import { RecipeScalingUtil } from '../langchain/utils/recipe-scaling.util';
+import {
+  HeatLevel,
+  ParsedIngredient,
+  RecipeLanguage,
+  RecipeScaling,
+  RecipeTiming,
+  StepDuration,
+  StepTemperature,
+} from '../langchain/types/langchain.types';
+import { SearchRecipeDto } from './dto/recipe.dto';
+import {
+  PaginatedRecipeResponse,
+  PopularRecipeOptions,
+  RecipeMetrics,
+  SimilarRecipeRequest,
+  UserRecipeInteraction,
+} from './interfaces/recipe.interface';
+import { RecipeInteractionService } from './services/recipe-interaction.service';
+import { EngagementRanking, RecipeEventService } from './services/recipe-event.service';
+import { NutritionService } from '../nutrition/nutrition.service';
+import { NutritionEstimate } from '../nutrition/interfaces/nutrition.interface';
+import { AllergenService } from '../allergen/allergen.service';
+import { AllergenCheckTarget } from '../allergen/interfaces/allergen.interface';
+import { DietaryService } from '../dietary/dietary.service';
 
 export interface RecipeStep {
   step: number;
   instruction: string;
   time?: number | null;
   tip?: string | null;
+  durations?: StepDuration[];
+  heat?: HeatLevel | null;
+  temperature?: StepTemperature | null;
+  equipment?: string[];
+  passive?: boolean;
 }
 
 export interface RecipeNutrition {
@@ -19,26 +52,85 @@ export interface Recipe {
   title: string;
   description: string;
   ingredients: string[];
+  parsedIngredients?: ParsedIngredient[];
   steps: RecipeStep[];
   cookingTime: number;
+  // 조리법 단계에서 계산한 실제 조리/대기 시간
+  timing?: RecipeTiming;
   servings: number;
   difficulty: 'easy' | 'medium' | 'hard';
   tags: string[];
   category: string;
   imageUrl?: string | null;
   nutrition: RecipeNutrition;
+  dietaryLabels?: string[];
   author: string;
   rating: number;
   reviews: number;
-  createdAt: string;
-  updatedAt: string;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export interface RecipeDetail extends Recipe {
+  metrics?: RecipeMetrics;
+  userInteraction?: UserRecipeInteraction;
+  scaling?: RecipeScaling;
+  // 저장된 영양 정보가 없을 때 재료 기반 추정치
+  nutritionEstimate?: NutritionEstimate;
+}
+
+export interface SimilarRecipe extends Recipe {
+  similarity: {
+    score: number;
+    sharedIngredients: string[];
+    sharedTags: string[];
+    sameCategory: boolean;
+    explanation: string;
+  };
+}
+
+export interface PopularRecipe extends RecipeDetail {
+  popularity: {
+    score: number;
+    timeframe: NonNullable<PopularRecipeOptions['timeframe']>;
+    counts: EngagementRanking['counts'];
+  };
 }
 
 @Injectable()
 export class RecipeService {
   private readonly logger = new Logger(RecipeService.name);
-  
-  // 임시 샘플 레시피 데이터
+  private static readonly SEARCH_SIZE = 20;
+  private static readonly LIST_SIZE = 100;
+
+  // 유사도 유형별 more_like_this 비교 필드
+  private static readonly SIMILARITY_FIELDS: Record<NonNullable<SimilarRecipeRequest['similarityType']>, string[]> = {
+    ingredients: ['ingredientsKo', 'ingredientsEn'],
+    tags: ['tags'],
+    cuisine: ['category', 'tags'],
+    all: ['nameKo', 'nameEn', 'descriptionKo', 'ingredientsKo', 'ingredientsEn', 'tags', 'category'],
+  };
+
+  // 유사 레시피 설명 문장 (언어별)
+  private static readonly SIMILARITY_MESSAGES = {
+    ko: {
+      sharedIngredients: (names: string) => `공통 재료: ${names}`,
+      sharedTags: (tags: string) => `공통 태그: ${tags}`,
+      sameCategory: (category: string) => `같은 카테고리(${category})`,
+      fallback: '조리법과 설명이 비슷한 레시피',
+    },
+    en: {
+      sharedIngredients: (names: string) => `Shared ingredients: ${names}`,
+      sharedTags: (tags: string) => `Shared tags: ${tags}`,
+      sameCategory: (category: string) => `Same category (${category})`,
+      fallback: 'Similar method and description',
+    },
+  };
+
+  // RECIPE_DATA_SOURCE=sample 인 경우에만 사용하는 폴백 데이터
+  private readonly useSampleData = process.env.RECIPE_DATA_SOURCE === 'sample';
+
+  // 폴백용 샘플 레시피 데이터
   private readonly sampleRecipes: Recipe[] = [
     {
       id: '1',
@@ -90,6 +182,21 @@ export class RecipeService {
     }
   ];
 
+  constructor(
+    private readonly elasticsearchService: ElasticsearchService,
+    private readonly recipeInteractionService: RecipeInteractionService,
+    private readonly recipeEventService: RecipeEventService,
+    private readonly nutritionService: NutritionService,
+    private readonly allergenService: AllergenService,
+    private readonly dietaryService: DietaryService,
+  ) {
+    this.logger.log(`🍽️ Recipe data source: ${this.useSampleData ? 'sample (fallback)' : 'elasticsearch'}`);
+    this.sampleRecipes.forEach(recipe => {
+      recipe.parsedIngredients = IngredientParserUtil.parseAll(recipe.ingredients);
+      recipe.dietaryLabels = this.dietaryService.classify(recipe.ingredients).labels;
+    });
+  }
+
   /**
    * 레시피 검색 (알레르기 필터링 포함)
    */
@@ -98,71 +205,396 @@ export class RecipeService {
     if (allergies && allergies.length > 0) {
       this.logger.log(`Filtering out allergies: ${allergies.join(', ')}`);
     }
-    
-    // TODO: 실제 검색 엔진(Elasticsearch) 연동
-    let filteredRecipes = this.sampleRecipes.filter(recipe => 
-      recipe.title.includes(query) || 
-      recipe.description.includes(query) ||
-      recipe.ingredients.some(ingredient => ingredient.includes(query))
+
+    if (this.useSampleData) {
+      const matchedRecipes = this.sampleRecipes.filter(recipe =>
+        recipe.title.includes(query) ||
+        recipe.description.includes(query) ||
+        recipe.ingredients.some(ingredient => ingredient.includes(query))
+      );
+      return this.filterByAllergies(matchedRecipes, allergies);
+    }
+
+    const esRecipes = await this.elasticsearchService.searchRecipes(query, RecipeService.SEARCH_SIZE);
+    return this.filterByAllergies(RecipeTransformUtil.transformRecipes(esRecipes), allergies);
+  }
+
+  /**
+   * 필터/정렬/페이지네이션 레시피 검색
+   */
+  async searchRecipesPaginated(searchDto: SearchRecipeDto): Promise<PaginatedRecipeResponse<Recipe>> {
+    const query = (searchDto.query ?? searchDto.q ?? '').trim();
+    const page = searchDto.page ?? 1;
+    const limit = searchDto.limit ?? 10;
+    const difficulty = this.normalizeDifficulty(searchDto.difficulty);
+    this.logger.log(`Paginated search - query: "${query}", page: ${page}, limit: ${limit}, sort: ${searchDto.sortBy}`);
+
+    if (this.useSampleData) {
+      return this.searchSampleRecipes(query, page, limit, difficulty, searchDto);
+    }
+
+    const allergyExclusions = this.allergenService.expandExclusions(searchDto.allergies);
+    const lang = searchDto.lang ?? 'ko';
+    const searchOptions = {
+      query: query || undefined,
+      lang,
+      preferences: searchDto.preferences,
+      maxCookingTime: searchDto.maxCookingTime,
+      difficulty,
+      tags: searchDto.tags,
+      dietaryLabels: searchDto.diet,
+    };
+    const { recipes, total } = await this.elasticsearchService.searchRecipesWithFilters({
+      ...searchOptions,
+      from: (page - 1) * limit,
+      size: limit,
+      excludeIngredients: allergyExclusions,
+      sortBy: searchDto.sortBy,
+      sortOrder: searchDto.sortOrder,
+    });
+
+    // 검색 단계에서 같은 기준으로 제외하므로 여기서 빠지는 레시피는 드물지만, 빠진 만큼은 전체 개수에서도 뺌
+    const { recipes: safeRecipes } = this.allergenService.filterRecipes(
+      RecipeTransformUtil.transformRecipes(recipes, lang),
+      recipe => this.toAllergenTarget(recipe),
+      searchDto.allergies,
+      lang
     );
-    
-    // 알레르기 필터링
-    if (allergies && allergies.length > 0) {
-      filteredRecipes = filteredRecipes.filter(recipe => {
-        // 레시피 재료에 알레르기 재료가 포함되지 않은 경우만 반환
-        return !recipe.ingredients.some(ingredient => 
-          allergies.some(allergy => 
-            ingredient.toLowerCase().includes(allergy.toLowerCase()) ||
-            allergy.toLowerCase().includes(ingredient.toLowerCase())
-          )
-        );
+    const response = this.toPaginatedResponse(safeRecipes, total - (recipes.length - safeRecipes.length), page, limit);
+
+    if (allergyExclusions.length > 0) {
+      // 같은 조건에서 알레르기 재료 때문에 빠진 레시피와 사유
+      const { recipes: excluded } = await this.elasticsearchService.searchRecipesWithFilters({
+        ...searchOptions,
+        size: limit,
+        matchAnyIngredients: allergyExclusions,
       });
+      response.allergyExclusions = this.allergenService.filterRecipes(
+        RecipeTransformUtil.transformRecipes(excluded, lang),
+        recipe => this.toAllergenTarget(recipe),
+        searchDto.allergies,
+        lang
+      ).exclusions;
     }
-    
-    return filteredRecipes;
+
+    return response;
   }
 
   /**
-   * 레시피 상세 조회
+   * 레시피 상세 조회 (userId 가 있으면 북마크 등 사용자 상태 포함, servings 가 있으면 해당 인분으로 조절, lang 언어의 필드 사용)
    */
-  async getRecipeById(id: string): Promise<Recipe | null> {
-    this.logger.log(`Getting recipe by id: ${id}`);
-    
-    const recipe = this.sampleRecipes.find(r => r.id === id);
-    return recipe || null;
+  async getRecipeById(
+    id: string,
+    userId?: string,
+    servings?: number,
+    lang: RecipeLanguage = 'ko',
+  ): Promise<RecipeDetail | null> {
+    this.logger.log(`Getting recipe by id: ${id}${servings ? ` (servings: ${servings})` : ''}`);
+
+    if (this.useSampleData) {
+      const sampleRecipe = this.sampleRecipes.find(r => r.id === id);
+      if (!sampleRecipe) {
+        return null;
+      }
+      return servings ? RecipeScalingUtil.applyScaling(sampleRecipe, servings, lang) : sampleRecipe;
+    }
+
+    const esRecipe = await this.elasticsearchService.getRecipeById(id);
+    if (!esRecipe) {
+      return null;
+    }
+
+    // 조회 기록은 응답을 기다리게 하지 않음
+    void this.recordView(id, userId);
+
+    const transformed = RecipeTransformUtil.transformRecipe(esRecipe, lang);
+    const recipe: RecipeDetail = servings ? RecipeScalingUtil.applyScaling(transformed, servings, lang) : transformed;
+    if (!this.nutritionService.hasStoredNutrition(esRecipe.nutrition)) {
+      recipe.nutritionEstimate = this.nutritionService.estimateForRecipe(esRecipe, servings);
+    }
+    recipe.metrics = await this.recipeInteractionService.getRecipeMetrics(id);
+    if (userId) {
+      recipe.userInteraction = await this.recipeInteractionService.getUserInteraction(userId, id);
+    }
+
+    return recipe;
+  }
+
+  /**
+   * 유사 레시피 조회 (유사도 유형별 + 겹치는 재료/태그 설명 포함)
+   */
+  async getSimilarRecipes(request: SimilarRecipeRequest): Promise<SimilarRecipe[] | null> {
+    const { recipeId, limit = 6, excludeRecipeIds = [], similarityType = 'all', lang = 'ko' } = request;
+    this.logger.log(`Getting ${limit} recipes similar to ${recipeId} (type: ${similarityType})`);
+
+    if (this.useSampleData) {
+      const source = this.sampleRecipes.find(recipe => recipe.id === recipeId);
+      if (!source) {
+        return null;
+      }
+
+      // 유사도 유형에 해당하는 겹침만 점수로 계산 (ES 검색 필드와 같은 기준)
+      return this.sampleRecipes
+        .filter(recipe => recipe.id !== recipeId && !excludeRecipeIds.includes(recipe.id))
+        .map(recipe => {
+          const explained = this.explainSimilarity(source, recipe, 0, lang);
+          const score = this.scoreSampleSimilarity(explained.similarity, similarityType);
+          return { ...explained, similarity: { ...explained.similarity, score } };
+        })
+        .filter(recipe => recipe.similarity.score > 0)
+        .sort((a, b) => b.similarity.score - a.similarity.score)
+        .slice(0, limit);
+    }
+
+    const esSource = await this.elasticsearchService.getRecipeById(recipeId);
+    if (!esSource) {
+      return null;
+    }
+
+    const source = RecipeTransformUtil.transformRecipe(esSource, lang);
+    const results = await this.elasticsearchService.findSimilarRecipes(
+      recipeId,
+      RecipeService.SIMILARITY_FIELDS[similarityType],
+      excludeRecipeIds,
+      limit
+    );
+
+    return results.map(({ recipe, score }) =>
+      this.explainSimilarity(source, RecipeTransformUtil.transformRecipe(recipe, lang), score, lang)
+    );
+  }
+
+  /**
+   * 기간별 인기 레시피 (감쇠 참여 점수 순)
+   */
+  async getPopularRecipes(options: PopularRecipeOptions, userId?: string): Promise<PopularRecipe[]> {
+    const { timeframe = 'week', limit = 10, category, includeUserData = false, lang = 'ko' } = options;
+    this.logger.log(`Getting ${limit} popular recipes (timeframe: ${timeframe}, category: ${category || 'all'})`);
+
+    // 카테고리 필터로 걸러질 레시피를 감안해 여유 있게 순위 조회
+    const rankings = await this.recipeEventService.rankByEngagement(timeframe, category ? limit * 5 : limit);
+    if (rankings.length === 0) {
+      return [];
+    }
+
+    const { recipes } = await this.elasticsearchService.searchRecipesWithFilters({
+      ids: rankings.map(ranking => ranking.recipeId),
+      category,
+      size: rankings.length,
+    });
+    const recipesById = new Map(recipes.map(recipe => [recipe.id, recipe]));
+
+    const popularRecipes: PopularRecipe[] = [];
+    for (const ranking of rankings) {
+      const esRecipe = recipesById.get(ranking.recipeId);
+      if (!esRecipe || popularRecipes.length >= limit) continue;
+
+      const popularRecipe: PopularRecipe = {
+        ...RecipeTransformUtil.transformRecipe(esRecipe, lang),
+        popularity: { score: ranking.score, timeframe, counts: ranking.counts },
+      };
+      if (includeUserData && userId) {
+        popularRecipe.userInteraction = await this.recipeInteractionService.getUserInteraction(userId, ranking.recipeId);
+      }
+      popularRecipes.push(popularRecipe);
+    }
+
+    return popularRecipes;
   }
 
   /**
    * 모든 레시피 조회
    */
-  async getAllRecipes(): Promise<Recipe[]> {
+  async getAllRecipes(lang: RecipeLanguage = 'ko'): Promise<Recipe[]> {
     this.logger.log('Getting all recipes');
-    return this.sampleRecipes;
+
+    if (this.useSampleData) {
+      return this.sampleRecipes;
+    }
+
+    const esRecipes = await this.elasticsearchService.getAllRecipes(RecipeService.LIST_SIZE);
+    return RecipeTransformUtil.transformRecipes(esRecipes, lang);
   }
 
   /**
    * 추천 레시피 조회 (알레르기 고려)
    */
-  async getRecommendedRecipes(limit: number = 5, allergies?: string[]): Promise<Recipe[]> {
+  async getRecommendedRecipes(limit: number = 5, allergies?: string[], lang: RecipeLanguage = 'ko'): Promise<Recipe[]> {
     this.logger.log(`Getting ${limit} recommended recipes`);
     if (allergies && allergies.length > 0) {
       this.logger.log(`Considering allergies: ${allergies.join(', ')}`);
     }
-    
-    let recipes = this.sampleRecipes;
-    
-    // 알레르기 필터링
-    if (allergies && allergies.length > 0) {
-      recipes = recipes.filter(recipe => {
-        return !recipe.ingredients.some(ingredient => 
-          allergies.some(allergy => 
-            ingredient.toLowerCase().includes(allergy.toLowerCase()) ||
-            allergy.toLowerCase().includes(ingredient.toLowerCase())
-          )
-        );
-      });
+
+    if (this.useSampleData) {
+      return this.filterByAllergies(this.sampleRecipes, allergies).slice(0, limit);
     }
-    
+
+    // 알레르기로 걸러질 레시피를 감안해 여유 있게 조회
+    const fetchSize = allergies && allergies.length > 0 ? limit * 3 : limit;
+    const esRecipes = await this.elasticsearchService.getPopularRecipes(fetchSize);
+    const recipes = this.filterByAllergies(RecipeTransformUtil.transformRecipes(esRecipes, lang), allergies);
+
     return recipes.slice(0, limit);
   }
-}
\ No newline at end of file
+
+  /**
+   * 알레르기 재료가 포함된 레시피 제외
+   */
+  private filterByAllergies(recipes: Recipe[], allergies?: string[]): Recipe[] {
+    return this.allergenService.filterRecipes(recipes, recipe => this.toAllergenTarget(recipe), allergies).recipes;
+  }
+
+  private toAllergenTarget(recipe: Recipe): AllergenCheckTarget {
+    return { id: recipe.id, name: recipe.title, ingredients: recipe.ingredients };
+  }
+
+  /**
+   * 샘플 데이터 기반 검색 (폴백 모드)
+   */
+  private searchSampleRecipes(
+    query: string,
+    page: number,
+    limit: number,
+    difficulty: Recipe['difficulty'] | undefined,
+    searchDto: SearchRecipeDto
+  ): PaginatedRecipeResponse<Recipe> {
+    let recipes = this.sampleRecipes.filter(recipe =>
+      !query ||
+      recipe.title.includes(query) ||
+      recipe.description.includes(query) ||
+      recipe.ingredients.some(ingredient => ingredient.includes(query))
+    );
+
+    const allergyFilter = this.allergenService.filterRecipes(recipes, recipe => this.toAllergenTarget(recipe), searchDto.allergies);
+    recipes = allergyFilter.recipes.filter(recipe =>
+      (!searchDto.maxCookingTime || recipe.cookingTime <= searchDto.maxCookingTime) &&
+      (!difficulty || recipe.difficulty === difficulty) &&
+      (searchDto.tags || []).every(tag => recipe.tags.includes(tag)) &&
+      (searchDto.diet || []).every(diet => recipe.dietaryLabels?.includes(diet))
+    );
+
+    const direction = searchDto.sortOrder === 'asc' ? 1 : -1;
+    if (searchDto.sortBy === 'rating') {
+      recipes = [...recipes].sort((a, b) => (a.rating - b.rating) * direction);
+    } else if (searchDto.sortBy === 'time') {
+      recipes = [...recipes].sort((a, b) => (a.cookingTime - b.cookingTime) * direction);
+    } else if (searchDto.sortBy === 'popularity') {
+      recipes = [...recipes].sort((a, b) => (a.reviews - b.reviews) * direction);
+    }
+
+    const start = (page - 1) * limit;
+    const response = this.toPaginatedResponse(recipes.slice(start, start + limit), recipes.length, page, limit);
+    if (searchDto.allergies && searchDto.allergies.length > 0) {
+      response.allergyExclusions = allergyFilter.exclusions;
+    }
+    return response;
+  }
+
+  private toPaginatedResponse(
+    recipes: Recipe[],
+    total: number,
+    page: number,
+    limit: number
+  ): PaginatedRecipeResponse<Recipe> {
+    const totalPages = Math.ceil(total / limit);
+    return {
+      recipes,
+      total,
+      page,
+      limit,
+      totalPages,
+      hasMore: page < totalPages,
+    };
+  }
+
+  /**
+   * 난이도 입력값 (한국어/영어) 정규화
+   */
+  private normalizeDifficulty(difficulty?: string): Recipe['difficulty'] | undefined {
+    if (!difficulty) return undefined;
+    const lower = difficulty.toLowerCase();
+    if (lower.includes('easy') || lower.includes('쉬')) return 'easy';
+    if (lower.includes('hard') || lower.includes('어려')) return 'hard';
+    if (lower.includes('medium') || lower.includes('보통')) return 'medium';
+    return undefined;
+  }
+
+  /**
+   * 기준 레시피와 겹치는 재료/태그/카테고리 설명 생성
+   */
+  private explainSimilarity(source: Recipe, candidate: Recipe, score: number, lang: RecipeLanguage): SimilarRecipe {
+    const messages = RecipeService.SIMILARITY_MESSAGES[lang];
+    const sourceIngredients = new Set(source.ingredients.map(ingredient => this.normalizeIngredientName(ingredient)));
+    const sharedIngredients = [...new Set(
+      candidate.ingredients
+        .map(ingredient => this.normalizeIngredientName(ingredient))
+        .filter(name => name.length > 0 && sourceIngredients.has(name))
+    )];
+    const sharedTags = candidate.tags.filter(tag => source.tags.includes(tag));
+    const sameCategory = candidate.category === source.category;
+
+    const reasons: string[] = [];
+    if (sharedIngredients.length > 0) reasons.push(messages.sharedIngredients(sharedIngredients.join(', ')));
+    if (sharedTags.length > 0) reasons.push(messages.sharedTags(sharedTags.join(', ')));
+    if (sameCategory) reasons.push(messages.sameCategory(candidate.category));
+
+    return {
+      ...candidate,
+      similarity: {
+        score: Math.round(score * 100) / 100,
+        sharedIngredients,
+        sharedTags,
+        sameCategory,
+        explanation: reasons.length > 0 ? reasons.join(' · ') : messages.fallback,
+      },
+    };
+  }
+
+  /**
+   * 조회 이벤트와 조회수 기록 (실패해도 조회 응답에는 영향 없음)
+   */
+  private async recordView(id: string, userId?: string): Promise<void> {
+    try {
+      await Promise.all([
+        this.recipeEventService.recordEvent({ userId: userId || 'anonymous', recipeId: id, action: 'view' }),
+        this.elasticsearchService.incrementRecipeCounter(id, 'viewCount'),
+      ]);
+    } catch (error) {
+      this.logger.warn(`⚠️ Failed to record view for ${id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * 샘플 데이터 유사도 점수 (유형에 해당하는 공통 재료/태그/카테고리 개수)
+   */
+  private scoreSampleSimilarity(
+    similarity: SimilarRecipe['similarity'],
+    similarityType: NonNullable<SimilarRecipeRequest['similarityType']>
+  ): number {
+    const ingredients = similarity.sharedIngredients.length;
+    const tags = similarity.sharedTags.length;
+    const category = similarity.sameCategory ? 1 : 0;
+
+    switch (similarityType) {
+      case 'ingredients':
+        return ingredients;
+      case 'tags':
+        return tags;
+      case 'cuisine':
+        return category + tags;
+      default:
+        return ingredients + tags + category;
+    }
+  }
+
+  /**
+   * 재료 문자열에서 분량/부가 설명을 제거한 이름 (예: "돼지고기 200g" → "돼지고기")
+   */
+  private normalizeIngredientName(ingredient: string): string {
+    return ingredient
+      .replace(/\([^)]*\)/g, ' ')
+      .split(/[0-9½¼¾]|약간|적당량|조금/)[0]!
+      .trim()
+      .toLowerCase();
+  }
+}
@@ -0,0 +1,110 @@
+import { BadRequestException, ConflictException, InternalServerErrorException } from '@nestjs/common';
+import { ElasticsearchService } from '../../elasticsearch/elasticsearch.service';
+import { DietaryService } from '../../dietary/dietary.service';
+import { RecipeAuthoringService } from './recipe-authoring.service';
+import { RecipeRevisionService } from './recipe-revision.service';
+
+describe('RecipeAuthoringService', () => {
+  const validRecipe = {
+    nameKo: '김치찌개',
+    ingredientsKo: ['김치 200g', '돼지고기 100g'],
+    stepsKo: ['김치를 볶는다', '물을 넣고 끓인다'],
+  };
+  let elasticsearchService: any;
+  let recipeRevisionService: { recordRevision: jest.Mock };
+  let service: RecipeAuthoringService;
+
+  beforeEach(() => {
+    elasticsearchService = {
+      getRecipeById: jest.fn(async () => null),
+      createRecipe: jest.fn(async (_document: unknown, id?: string) => id ?? 'generated-id'),
+      updateRecipeFields: jest.fn(async () => undefined),
+      isConflictError: ElasticsearchService.prototype.isConflictError,
+    };
+    recipeRevisionService = { recordRevision: jest.fn(async () => ({ recorded: [], failed: [] })) };
+    service = new RecipeAuthoringService(
+      elasticsearchService,
+      new DietaryService(elasticsearchService),
+      recipeRevisionService as unknown as RecipeRevisionService,
+    );
+  });
+
+  describe('validateRecipe', () => {
+    it('accepts a minimal recipe', () => {
+      expect(service.validateRecipe(validRecipe)).toEqual({ isValid: true, errors: [] });
+    });
+
+    it('reports field-level error codes', () => {
+      const { errors } = service.validateRecipe({ servings: 1.5, cookingTime: -1, difficulty: 'extreme', nutrition: { calories: -5 } });
+
+      expect(errors.map(error => `${error.field}:${error.code}`)).toEqual([
+        'nameKo:MISSING_NAME',
+        'ingredientsKo:MISSING_INGREDIENTS',
+        'stepsKo:MISSING_STEPS',
+        'cookingTime:INVALID_COOKING_TIME',
+        'servings:INVALID_SERVINGS',
+        'difficulty:UNKNOWN_DIFFICULTY',
+        'nutrition.calories:INVALID_NUTRITION',
+      ]);
+    });
+  });
+
+  describe('normalizeRecipe', () => {
+    it('trims values, drops blank items and maps difficulty aliases', () => {
+      expect(service.normalizeRecipe({ nameKo: '  김치찌개 ', tags: ['한식', ' ', ''], difficulty: '보통' })).toEqual({
+        nameKo: '김치찌개',
+        tags: ['한식'],
+        difficulty: 'medium',
+      });
+    });
+  });
+
+  describe('createRecipe', () => {
+    it('rejects an id that already exists', async () => {
+      elasticsearchService.getRecipeById.mockResolvedValue({ id: 'r1', ...validRecipe });
+
+      await expect(service.createRecipe(validRecipe, 'r1')).rejects.toBeInstanceOf(ConflictException);
+      expect(elasticsearchService.createRecipe).not.toHaveBeenCalled();
+    });
+
+    it('maps a concurrent create of the same id to a conflict', async () => {
+      elasticsearchService.createRecipe.mockRejectedValue(Object.assign(new Error('version_conflict'), { meta: { statusCode: 409 } }));
+
+      await expect(service.createRecipe(validRecipe, 'r1')).rejects.toBeInstanceOf(ConflictException);
+      expect(recipeRevisionService.recordRevision).not.toHaveBeenCalled();
+    });
+
+    it('records a create revision', async () => {
+      const recipe = await service.createRecipe(validRecipe, 'r1', 'alice');
+
+      expect(recipe.id).toBe('r1');
+      expect(recipeRevisionService.recordRevision).toHaveBeenCalledWith(
+        expect.objectContaining({ recipeId: 'r1', action: 'create', author: 'alice', before: null })
+      );
+    });
+
+    it('tells the caller when the revision could not be recorded', async () => {
+      recipeRevisionService.recordRevision.mockResolvedValue({ recorded: [], failed: [{ recipeId: 'r1', error: 'es unavailable' }] });
+
+      await expect(service.createRecipe(validRecipe, 'r1')).rejects.toBeInstanceOf(InternalServerErrorException);
+      expect(elasticsearchService.createRecipe).toHaveBeenCalled();
+    });
+  });
+
+  describe('updateRecipe', () => {
+    beforeEach(() => {
+      elasticsearchService.getRecipeById.mockResolvedValue({ id: 'r1', ...validRecipe });
+    });
+
+    it('rejects blank string fields instead of ignoring them', async () => {
+      await expect(service.updateRecipe('r1', { nameKo: '  ' })).rejects.toMatchObject({
+        response: { errors: [{ field: 'nameKo', code: 'EMPTY_VALUE', message: 'nameKo must not be empty' }] },
+      });
+      expect(elasticsearchService.updateRecipeFields).not.toHaveBeenCalled();
+    });
+
+    it('validates the merged recipe', async () => {
+      await expect(service.updateRecipe('r1', { stepsKo: [] })).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,335 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ElasticsearchService, ElasticsearchRecipe } from '../../elasticsearch/elasticsearch.service';
+import { RecipeTransformUtil } from '../../langchain/utils/recipe-transform.util';
+import {
+  RECIPE_DIFFICULTIES,
+  RecipeDeleteResult,
+  RecipeDifficulty,
+  RecipeValidationResult,
+} from '../interfaces/recipe.interface';
+import type { Recipe } from '../recipe.service';
+import { DietaryService } from '../../dietary/dietary.service';
+import { RecipeRevisionEntry, RecipeRevisionService } from './recipe-revision.service';
+
+/**
+ * 작성자가 입력할 수 있는 레시피 필드 (집계 카운터/타임스탬프/식단 라벨 제외)
+ */
+export type RecipeInput = Partial<Omit<
+  ElasticsearchRecipe,
+  'id' | 'createdAt' | 'updatedAt' | 'bookmarkCount' | 'averageRating' | 'ratingCount' | 'viewCount' | 'dietaryLabels'
+>>;
+
+export type RecipeValidationError = RecipeValidationResult['errors'][number];
+
+type RecipeWriteMeta = Pick<RecipeRevisionEntry, 'action' | 'author' | 'restoredFrom'>;
+
+/**
+ * ✍️ 레시피 작성/수정/삭제/복원
+ * 입력값을 정규화하고 필드 단위 오류 코드로 검증한 뒤 recipes_new 인덱스에 기록하고, 쓰기마다 리비전을 남김
+ */
+@Injectable()
+export class RecipeAuthoringService {
+  private readonly logger = new Logger(RecipeAuthoringService.name);
+
+  // 허용 난이도와 한국어/영어 별칭
+  private static readonly DIFFICULTY_ALIASES: Record<string, RecipeDifficulty> = {
+    easy: 'easy',
+    쉬움: 'easy',
+    medium: 'medium',
+    normal: 'medium',
+    보통: 'medium',
+    hard: 'hard',
+    어려움: 'hard',
+  };
+
+  private static readonly STRING_FIELDS = ['nameKo', 'nameEn', 'descriptionKo', 'descriptionEn', 'category', 'difficulty', 'author'] as const;
+  private static readonly LIST_FIELDS = ['ingredientsKo', 'ingredientsEn', 'stepsKo', 'stepsEn', 'tags'] as const;
+  private static readonly NUTRITION_FIELDS = ['calories', 'protein', 'carbs', 'fat'] as const;
+
+  constructor(
+    private readonly elasticsearchService: ElasticsearchService,
+    private readonly dietaryService: DietaryService,
+    private readonly recipeRevisionService: RecipeRevisionService,
+  ) {}
+
+  /**
+   * 레시피 생성
+   */
+  async createRecipe(input: RecipeInput, id?: string, author?: string): Promise<Recipe> {
+    const recipe = this.normalizeRecipe(input);
+    this.assertValid(this.validateRecipe(recipe));
+
+    if (id && await this.elasticsearchService.getRecipeById(id)) {
+      throw new ConflictException(`Recipe already exists: ${id}`);
+    }
+
+    return this.writeNewRecipe(recipe, id, { action: 'create', author });
+  }
+
+  /**
+   * 레시피 전체 교체 (생성일과 집계 카운터는 유지)
+   */
+  async replaceRecipe(id: string, input: RecipeInput, author?: string): Promise<Recipe> {
+    const existing = await this.requireRecipe(id);
+    const recipe = this.normalizeRecipe(input);
+    this.assertValid(this.validateRecipe(recipe));
+
+    return this.writeReplacement(existing, recipe, { action: 'replace', author });
+  }
+
+  /**
+   * 레시피 부분 수정 (병합 결과 기준으로 검증)
+   */
+  async updateRecipe(id: string, patch: RecipeInput, author?: string): Promise<Recipe> {
+    const existing = await this.requireRecipe(id);
+    // 정규화에서 빈 문자열은 빠지므로, 수정 요청의 빈 값은 무시하지 않고 오류로 돌려줌
+    const emptyFieldErrors = this.findEmptyStringFields(patch);
+    this.assertValid({ isValid: emptyFieldErrors.length === 0, errors: emptyFieldErrors });
+    const changes = this.normalizeRecipe(patch);
+    const merged: ElasticsearchRecipe = {
+      ...existing,
+      ...changes,
+      nutrition: changes.nutrition ? { ...existing.nutrition, ...changes.nutrition } : existing.nutrition,
+    };
+    this.assertValid(this.validateRecipe(merged));
+
+    // 재료가 바뀌었을 수 있으므로 병합 결과로 식단 라벨 재계산
+    const dietaryLabels = this.dietaryService.labelRecipe(merged);
+    const updatedAt = new Date().toISOString();
+    await this.elasticsearchService.updateRecipeFields(id, { ...changes, dietaryLabels, updatedAt });
+    this.logger.log(`✍️ Recipe updated: ${id} [${Object.keys(changes).join(', ')}]`);
+    await this.recordRevision({ recipeId: id, action: 'update', author, before: existing, after: merged });
+
+    return RecipeTransformUtil.transformRecipe({ ...merged, dietaryLabels, updatedAt });
+  }
+
+  /**
+   * 레시피 삭제 (마지막 내용은 이전 리비전에 남아 있어 복원 가능)
+   */
+  async deleteRecipe(id: string, author?: string): Promise<RecipeDeleteResult> {
+    const existing = await this.elasticsearchService.getRecipeById(id);
+    const deleted = await this.elasticsearchService.deleteRecipe(id);
+    if (!deleted) {
+      throw new NotFoundException(`Recipe not found: ${id}`);
+    }
+
+    this.logger.log(`🗑️ Recipe deleted: ${id}`);
+    await this.recordRevision({ recipeId: id, action: 'delete', author, before: existing, after: null });
+    return { success: true, recipeId: id, message: '레시피가 삭제되었습니다.' };
+  }
+
+  /**
+   * 리비전 내용으로 복원 (삭제된 레시피는 같은 ID로 다시 생성)
+   * 복원도 새 리비전으로 기록되므로 이력은 지워지지 않음
+   */
+  async restoreRevision(id: string, revision: number, author?: string): Promise<Recipe> {
+    const target = await this.recipeRevisionService.getRevision(id, revision);
+    if (!target.snapshot) {
+      throw new BadRequestException(`Revision ${revision} of ${id} is a deletion and has no content to restore`);
+    }
+
+    const recipe = this.normalizeRecipe(target.snapshot as RecipeInput);
+    this.assertValid(this.validateRecipe(recipe));
+
+    const meta: RecipeWriteMeta = { action: 'restore', author, restoredFrom: revision };
+    const existing = await this.elasticsearchService.getRecipeById(id);
+    return existing
+      ? this.writeReplacement(existing, recipe, meta)
+      : this.writeNewRecipe(recipe, id, meta);
+  }
+
+  /**
+   * 레시피 입력값 검증 (필드 단위 오류 코드)
+   */
+  validateRecipe(recipe: RecipeInput): RecipeValidationResult {
+    const errors: RecipeValidationError[] = [];
+    const addError = (field: string, code: string, message: string) => errors.push({ field, code, message });
+    const raw = recipe as Record<string, unknown>;
+
+    RecipeAuthoringService.STRING_FIELDS.forEach(field => {
+      if (raw[field] !== undefined && typeof raw[field] !== 'string') {
+        addError(field, 'INVALID_TYPE', `${field} must be a string`);
+      }
+    });
+    RecipeAuthoringService.LIST_FIELDS.forEach(field => {
+      const value = raw[field];
+      if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string'))) {
+        addError(field, 'INVALID_TYPE', `${field} must be an array of strings`);
+      }
+    });
+
+    if (!recipe.nameKo && !recipe.nameEn) {
+      addError('nameKo', 'MISSING_NAME', 'nameKo or nameEn is required');
+    }
+    if (!recipe.ingredientsKo?.length && !recipe.ingredientsEn?.length) {
+      addError('ingredientsKo', 'MISSING_INGREDIENTS', 'At least one ingredient is required');
+    }
+    if (!recipe.stepsKo?.length && !recipe.stepsEn?.length) {
+      addError('stepsKo', 'MISSING_STEPS', 'At least one step is required');
+    }
+
+    if (recipe.cookingTime !== undefined && !(typeof recipe.cookingTime === 'number' && Number.isFinite(recipe.cookingTime) && recipe.cookingTime > 0)) {
+      addError('cookingTime', 'INVALID_COOKING_TIME', 'cookingTime must be a positive number of minutes');
+    }
+    if (recipe.servings !== undefined && !(Number.isInteger(recipe.servings) && recipe.servings > 0)) {
+      addError('servings', 'INVALID_SERVINGS', 'servings must be a positive integer');
+    }
+    if (recipe.difficulty !== undefined && !this.isRecipeDifficulty(recipe.difficulty)) {
+      addError('difficulty', 'UNKNOWN_DIFFICULTY', `Unknown difficulty: ${recipe.difficulty} (easy, medium, hard)`);
+    }
+
+    if (recipe.nutrition !== undefined) {
+      if (typeof recipe.nutrition !== 'object' || recipe.nutrition === null || Array.isArray(recipe.nutrition)) {
+        addError('nutrition', 'INVALID_TYPE', 'nutrition must be an object');
+      } else {
+        Object.entries(recipe.nutrition).forEach(([key, value]) => {
+          if (value !== undefined && !(typeof value === 'number' && Number.isFinite(value) && value >= 0)) {
+            addError(`nutrition.${key}`, 'INVALID_NUTRITION', `nutrition.${key} must be a non-negative number`);
+          }
+        });
+      }
+    }
+
+    return { isValid: errors.length === 0, errors };
+  }
+
+  /**
+   * 입력값 정규화 (공백 제거, 빈 항목 제거, 난이도 별칭 통일)
+   */
+  normalizeRecipe(input: RecipeInput): RecipeInput {
+    const recipe: Record<string, unknown> = {};
+    const raw = input as Record<string, unknown>;
+
+    RecipeAuthoringService.STRING_FIELDS.forEach(field => {
+      const value = raw[field];
+      if (typeof value === 'string') {
+        if (value.trim()) recipe[field] = value.trim();
+      } else if (value !== undefined && value !== null) {
+        recipe[field] = value;
+      }
+    });
+    RecipeAuthoringService.LIST_FIELDS.forEach(field => {
+      const value = raw[field];
+      if (Array.isArray(value)) {
+        recipe[field] = value.map(item => (typeof item === 'string' ? item.trim() : item)).filter(item => item !== '');
+      } else if (value !== undefined && value !== null) {
+        recipe[field] = value;
+      }
+    });
+
+    if (input.cookingTime !== undefined && input.cookingTime !== null) recipe.cookingTime = input.cookingTime;
+    if (input.servings !== undefined && input.servings !== null) recipe.servings = input.servings;
+
+    if (typeof recipe.difficulty === 'string') {
+      recipe.difficulty = RecipeAuthoringService.DIFFICULTY_ALIASES[recipe.difficulty.toLowerCase()] ?? recipe.difficulty;
+    }
+
+    if (input.nutrition && typeof input.nutrition === 'object' && !Array.isArray(input.nutrition)) {
+      const nutrition = input.nutrition as Record<string, unknown>;
+      recipe.nutrition = Object.fromEntries(
+        RecipeAuthoringService.NUTRITION_FIELDS
+          .filter(key => nutrition[key] !== undefined && nutrition[key] !== null)
+          .map(key => [key, nutrition[key]])
+      );
+    } else if (input.nutrition !== undefined && input.nutrition !== null) {
+      recipe.nutrition = input.nutrition;
+    }
+
+    return recipe as RecipeInput;
+  }
+
+  /**
+   * 새 레시피 색인 + 리비전 기록
+   */
+  private async writeNewRecipe(recipe: RecipeInput, id: string | undefined, meta: RecipeWriteMeta): Promise<Recipe> {
+    const now = new Date().toISOString();
+    const document: Omit<ElasticsearchRecipe, 'id'> = {
+      ...recipe,
+      dietaryLabels: this.dietaryService.labelRecipe(recipe),
+      createdAt: now,
+      updatedAt: now,
+    };
+    let recipeId: string;
+    try {
+      recipeId = await this.elasticsearchService.createRecipe(document, id);
+    } catch (error) {
+      // 존재 확인 이후 같은 ID 로 먼저 생성된 경우
+      if (this.elasticsearchService.isConflictError(error)) {
+        throw new ConflictException(`Recipe already exists: ${id}`);
+      }
+      throw error;
+    }
+    this.logger.log(`✍️ Recipe created: ${recipeId} (${recipe.nameKo || recipe.nameEn})`);
+    await this.recordRevision({ ...meta, recipeId, before: null, after: document });
+
+    return RecipeTransformUtil.transformRecipe({ ...document, id: recipeId });
+  }
+
+  /**
+   * 기존 레시피 교체 (생성일과 집계 카운터 유지) + 리비전 기록
+   */
+  private async writeReplacement(existing: ElasticsearchRecipe, recipe: RecipeInput, meta: RecipeWriteMeta): Promise<Recipe> {
+    const id = existing.id;
+    const document: Omit<ElasticsearchRecipe, 'id'> = {
+      ...recipe,
+      dietaryLabels: this.dietaryService.labelRecipe(recipe),
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString(),
+      bookmarkCount: existing.bookmarkCount,
+      averageRating: existing.averageRating,
+      ratingCount: existing.ratingCount,
+      viewCount: existing.viewCount,
+    };
+    await this.elasticsearchService.replaceRecipe(id, document);
+    this.logger.log(`✍️ Recipe replaced: ${id} (${meta.action})`);
+    await this.recordRevision({ ...meta, recipeId: id, before: existing, after: document });
+
+    return RecipeTransformUtil.transformRecipe({ ...document, id });
+  }
+
+  /**
+   * 리비전 기록 (레시피 쓰기는 이미 끝났으므로 기록하지 못하면 그 사실을 오류로 알림)
+   */
+  private async recordRevision(entry: RecipeRevisionEntry): Promise<void> {
+    const { failed } = await this.recipeRevisionService.recordRevision(entry);
+    if (failed.length > 0) {
+      throw new InternalServerErrorException({
+        message: `Recipe ${entry.recipeId} was saved but its revision could not be recorded`,
+        recipeId: entry.recipeId,
+        errors: failed.map(item => item.error),
+      });
+    }
+  }
+
+  private findEmptyStringFields(input: RecipeInput): RecipeValidationError[] {
+    const raw = input as Record<string, unknown>;
+    return RecipeAuthoringService.STRING_FIELDS
+      .filter(field => typeof raw[field] === 'string' && !(raw[field] as string).trim())
+      .map(field => ({ field, code: 'EMPTY_VALUE', message: `${field} must not be empty` }));
+  }
+
+  private isRecipeDifficulty(value: unknown): value is RecipeDifficulty {
+    return typeof value === 'string' && (RECIPE_DIFFICULTIES as readonly string[]).includes(value);
+  }
+
+  private assertValid(validation: RecipeValidationResult): void {
+    if (!validation.isValid) {
+      throw new BadRequestException({ message: 'Recipe validation failed', ...validation });
+    }
+  }
+
+  private async requireRecipe(id: string): Promise<ElasticsearchRecipe> {
+    const recipe = await this.elasticsearchService.getRecipeById(id);
+    if (!recipe) {
+      throw new NotFoundException(`Recipe not found: ${id}`);
+    }
+    return recipe;
+  }
+}
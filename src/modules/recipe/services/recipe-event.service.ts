@@ -0,0 +1,151 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ElasticsearchService } from '../../elasticsearch/elasticsearch.service';
+import { PopularRecipeOptions, RecipeInteractionEvent } from '../interfaces/recipe.interface';
+
+export type PopularityTimeframe = NonNullable<PopularRecipeOptions['timeframe']>;
+export type InteractionAction = RecipeInteractionEvent['action'];
+
+export interface EngagementRanking {
+  recipeId: string;
+  score: number;
+  counts: Partial<Record<InteractionAction, number>>;
+}
+
+/**
+ * Elasticsearch 에 저장되는 상호작용 이벤트 문서
+ */
+interface StoredInteractionEvent extends Omit<RecipeInteractionEvent, 'timestamp'> {
+  timestamp: string;
+}
+
+/**
+ * 📈 레시피 상호작용 이벤트 로그 (append-only)
+ * 조회/북마크/평점/요리/메모 이벤트를 기록하고 기간별 감쇠 점수로 인기 순위를 계산
+ */
+@Injectable()
+export class RecipeEventService {
+  private readonly logger = new Logger(RecipeEventService.name);
+  private static readonly EVENT_INDEX = 'recipe_interaction_events';
+
+  // 행동별 참여 가중치 (북마크 해제는 감점)
+  private static readonly ACTION_WEIGHTS: Record<InteractionAction, number> = {
+    view: 1,
+    bookmark: 4,
+    unbookmark: -4,
+    rate: 3,
+    cook: 5,
+    note: 2,
+  };
+
+  // 기간별 조회 범위와 점수 반감기 (시간)
+  private static readonly TIMEFRAMES: Record<PopularityTimeframe, { range?: string; halfLifeHours: number }> = {
+    day: { range: 'now-1d', halfLifeHours: 6 },
+    week: { range: 'now-7d', halfLifeHours: 48 },
+    month: { range: 'now-30d', halfLifeHours: 168 },
+    all: { halfLifeHours: 720 },
+  };
+
+  constructor(private readonly elasticsearchService: ElasticsearchService) {}
+
+  /**
+   * 이벤트 기록 (실패해도 원래 요청은 계속 진행)
+   */
+  async recordEvent(event: Omit<RecipeInteractionEvent, 'timestamp'> & { timestamp?: Date }): Promise<void> {
+    const document: StoredInteractionEvent = {
+      ...event,
+      timestamp: (event.timestamp ?? new Date()).toISOString(),
+    };
+
+    try {
+      await this.elasticsearchService.saveDocument(RecipeEventService.EVENT_INDEX, undefined, document, false);
+    } catch (error) {
+      this.logger.warn(`⚠️ Failed to record ${event.action} event for ${event.recipeId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * 레시피별 이벤트 수 조회
+   */
+  async countEvents(recipeId: string, action: InteractionAction): Promise<number> {
+    return this.elasticsearchService.countDocuments(RecipeEventService.EVENT_INDEX, {
+      bool: {
+        filter: [
+          { term: { 'recipeId.keyword': recipeId } },
+          { term: { 'action.keyword': action } },
+        ],
+      },
+    });
+  }
+
+  /**
+   * 전체 이벤트의 행동별 건수
+   */
+  async countEventsByAction(): Promise<Partial<Record<InteractionAction, number>>> {
+    const { aggregations } = await this.elasticsearchService.searchDocuments<StoredInteractionEvent>(
+      RecipeEventService.EVENT_INDEX,
+      {
+        size: 0,
+        aggs: { actions: { terms: { field: 'action.keyword', size: 10 } } },
+      }
+    );
+
+    return Object.fromEntries(
+      (aggregations?.actions?.buckets ?? []).map((bucket: any) => [bucket.key, bucket.doc_count])
+    );
+  }
+
+  /**
+   * 기간 내 감쇠 참여 점수 순위
+   * score = Σ 가중치(action) × 0.5^(경과시간 / 반감기)
+   */
+  async rankByEngagement(timeframe: PopularityTimeframe = 'week', size: number = 10): Promise<EngagementRanking[]> {
+    const { range, halfLifeHours } = RecipeEventService.TIMEFRAMES[timeframe];
+
+    const { aggregations } = await this.elasticsearchService.searchDocuments<StoredInteractionEvent>(
+      RecipeEventService.EVENT_INDEX,
+      {
+        size: 0,
+        query: range ? { range: { timestamp: { gte: range } } } : { match_all: {} },
+        aggs: {
+          recipes: {
+            terms: {
+              field: 'recipeId.keyword',
+              size,
+              order: { engagement: 'desc' },
+            },
+            aggs: {
+              engagement: {
+                sum: {
+                  script: {
+                    source: `
+                      String action = doc['action.keyword'].value;
+                      double weight = params.weights.containsKey(action) ? params.weights[action] : 0;
+                      double ageHours = (params.now - doc['timestamp'].value.toInstant().toEpochMilli()) / 3600000.0;
+                      return weight * Math.pow(0.5, ageHours / params.halfLifeHours);
+                    `,
+                    params: {
+                      now: Date.now(),
+                      halfLifeHours,
+                      weights: RecipeEventService.ACTION_WEIGHTS,
+                    },
+                  },
+                },
+              },
+              actions: { terms: { field: 'action.keyword', size: 10 } },
+            },
+          },
+        },
+      }
+    );
+
+    const rankings: EngagementRanking[] = (aggregations?.recipes?.buckets ?? []).map((bucket: any) => ({
+      recipeId: bucket.key,
+      score: Math.round((bucket.engagement?.value ?? 0) * 100) / 100,
+      counts: Object.fromEntries(
+        (bucket.actions?.buckets ?? []).map((actionBucket: any) => [actionBucket.key, actionBucket.doc_count])
+      ),
+    }));
+
+    return rankings.filter(ranking => ranking.score > 0);
+  }
+}
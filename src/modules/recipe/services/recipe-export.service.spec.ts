@@ -0,0 +1,66 @@
+import { NotFoundException } from '@nestjs/common';
+import { validateHeaderValue } from 'http';
+import { RecipeExportService } from './recipe-export.service';
+
+describe('RecipeExportService', () => {
+  const recipe = {
+    id: 'r1',
+    nameKo: '김치찌개',
+    nameEn: 'Kimchi stew',
+    ingredientsKo: ['김치 200g'],
+    stepsKo: ['김치를 볶는다'],
+    servings: 2,
+  };
+  let elasticsearchService: any;
+  let service: RecipeExportService;
+
+  beforeEach(() => {
+    elasticsearchService = {
+      getRecipeById: jest.fn(async (id: string) => (id === 'r1' ? recipe : null)),
+      getRecipesByIds: jest.fn(async (ids: string[]) => ids.filter(id => id === 'r1').map(() => recipe)),
+    };
+    service = new RecipeExportService(elasticsearchService);
+  });
+
+  describe('buildContentDisposition', () => {
+    it('keeps a plain file name as is', () => {
+      expect(RecipeExportService.buildContentDisposition('recipe-r1.md'))
+        .toBe(`inline; filename="recipe-r1.md"; filename*=UTF-8''recipe-r1.md`);
+    });
+
+    it.each(['recipe-a"b.md', 'recipe-김치.md', 'recipe-a\r\nX-Injected: 1.md', "recipe-it's (1)*.md"])(
+      'produces a valid header value for %j',
+      fileName => {
+        const header = RecipeExportService.buildContentDisposition(fileName);
+
+        expect(() => validateHeaderValue('Content-Disposition', header)).not.toThrow();
+        expect(header).toMatch(/^inline; filename="[A-Za-z0-9._-]+"; filename\*=UTF-8''[A-Za-z0-9._!~%-]+$/);
+        expect(decodeURIComponent(header.split("UTF-8''")[1]!)).toBe(fileName);
+      }
+    );
+  });
+
+  describe('exportRecipe', () => {
+    it('renders Korean JSON-LD by default and English markdown on request', async () => {
+      const jsonLd = await service.exportRecipe('r1', 'jsonld');
+      const markdown = await service.exportRecipe('r1', 'markdown', 'en');
+
+      expect(jsonLd).toMatchObject({ contentType: 'application/ld+json; charset=utf-8', fileName: 'recipe-r1.jsonld' });
+      expect(jsonLd.content).toMatchObject({ '@type': 'Recipe', name: '김치찌개' });
+      expect(markdown.content).toContain('# 🍳 Kimchi stew');
+    });
+
+    it('throws when the recipe does not exist', async () => {
+      await expect(service.exportRecipe('missing', 'text')).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('exportRecipes', () => {
+    it('reports ids that were not found', async () => {
+      const exported = await service.exportRecipes(['r1', 'missing'], 'text');
+
+      expect(exported.missingIds).toEqual(['missing']);
+      expect(exported.fileName).toBe('recipes-1.txt');
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ElasticsearchService, ElasticsearchRecipe } from '../../elasticsearch/elasticsearch.service';
+import { RecipeFormatUtil, RecipeJsonLd } from '../../langchain/utils/recipe-format.util';
+import { RecipeLanguage } from '../../langchain/types/langchain.types';
+
+export type RecipeExportFormat = 'jsonld' | 'markdown' | 'text';
+
+export interface RecipeExport {
+  contentType: string;
+  fileName: string;
+  content: string | RecipeJsonLd | { '@context': 'https://schema.org'; '@graph': RecipeJsonLd[] };
+  missingIds?: string[];
+}
+
+/**
+ * 📤 레시피 내보내기 (schema.org JSON-LD, Markdown, 인쇄용 텍스트)
+ */
+@Injectable()
+export class RecipeExportService {
+  private readonly logger = new Logger(RecipeExportService.name);
+
+  private static readonly CONTENT_TYPES: Record<RecipeExportFormat, string> = {
+    jsonld: 'application/ld+json; charset=utf-8',
+    markdown: 'text/markdown; charset=utf-8',
+    text: 'text/plain; charset=utf-8',
+  };
+
+  private static readonly EXTENSIONS: Record<RecipeExportFormat, string> = {
+    jsonld: 'jsonld',
+    markdown: 'md',
+    text: 'txt',
+  };
+
+  constructor(private readonly elasticsearchService: ElasticsearchService) {}
+
+  /**
+   * 단일 레시피 내보내기
+   */
+  async exportRecipe(id: string, format: RecipeExportFormat, lang: RecipeLanguage = 'ko'): Promise<RecipeExport> {
+    const recipe = await this.elasticsearchService.getRecipeById(id);
+    if (!recipe) {
+      throw new NotFoundException(`Recipe not found: ${id}`);
+    }
+
+    this.logger.log(`📤 Exporting recipe ${id} as ${format} (${lang})`);
+    return {
+      contentType: RecipeExportService.CONTENT_TYPES[format],
+      fileName: `recipe-${id}.${RecipeExportService.EXTENSIONS[format]}`,
+      content: format === 'jsonld' ? RecipeFormatUtil.toJsonLd(recipe, true, lang) : this.renderText(recipe, format, lang),
+    };
+  }
+
+  /**
+   * 여러 레시피 일괄 내보내기 (요청 순서 유지, 없는 ID 는 missingIds 로 보고)
+   */
+  async exportRecipes(ids: string[], format: RecipeExportFormat, lang: RecipeLanguage = 'ko'): Promise<RecipeExport> {
+    const recipes = await this.elasticsearchService.getRecipesByIds(ids);
+    if (recipes.length === 0) {
+      throw new NotFoundException(`Recipes not found: ${ids.join(', ')}`);
+    }
+
+    const foundIds = new Set(recipes.map(recipe => recipe.id));
+    const missingIds = ids.filter(id => !foundIds.has(id));
+    this.logger.log(`📤 Exporting ${recipes.length} recipes as ${format} (${lang}, missing: ${missingIds.length})`);
+
+    const content = format === 'jsonld'
+      ? { '@context': 'https://schema.org' as const, '@graph': recipes.map(recipe => RecipeFormatUtil.toJsonLd(recipe, false, lang)) }
+      : recipes.map(recipe => this.renderText(recipe, format, lang)).join(format === 'markdown' ? '\n---\n\n' : '\n\n');
+
+    return {
+      contentType: RecipeExportService.CONTENT_TYPES[format],
+      fileName: `recipes-${recipes.length}.${RecipeExportService.EXTENSIONS[format]}`,
+      content,
+      missingIds,
+    };
+  }
+
+  /**
+   * Content-Disposition 헤더 값
+   * filename 은 안전한 ASCII 로 치환하고, 원래 이름은 RFC 5987 filename* 로 함께 전달
+   */
+  static buildContentDisposition(fileName: string): string {
+    const asciiName = fileName.replace(/[^A-Za-z0-9._-]/g, '_');
+    const encodedName = encodeURIComponent(fileName)
+      .replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+    return `inline; filename="${asciiName}"; filename*=UTF-8''${encodedName}`;
+  }
+
+  private renderText(recipe: ElasticsearchRecipe, format: Exclude<RecipeExportFormat, 'jsonld'>, lang: RecipeLanguage): string {
+    return format === 'markdown'
+      ? RecipeFormatUtil.toMarkdown(recipe, undefined, lang)
+      : RecipeFormatUtil.toPlainText(recipe, lang);
+  }
+}
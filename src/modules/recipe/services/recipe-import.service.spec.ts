@@ -0,0 +1,90 @@
+import { DietaryService } from '../../dietary/dietary.service';
+import { ElasticsearchService } from '../../elasticsearch/elasticsearch.service';
+import { RecipeAuthoringService } from './recipe-authoring.service';
+import { RecipeImportService } from './recipe-import.service';
+import { RecipeRevisionService } from './recipe-revision.service';
+
+describe('RecipeImportService', () => {
+  let elasticsearchService: any;
+  let recipeRevisionService: { recordRevisions: jest.Mock; recordRevision: jest.Mock };
+  let service: RecipeImportService;
+
+  const line = (recipe: Record<string, unknown>) => JSON.stringify({
+    ingredientsKo: ['김치 200g'],
+    stepsKo: ['끓인다'],
+    ...recipe,
+  });
+
+  beforeEach(() => {
+    elasticsearchService = {
+      getRecipesByIds: jest.fn(async () => []),
+      findRecipesByNames: jest.fn(async () => []),
+      bulkIndexRecipes: jest.fn(async (items: Array<{ id?: string }>) =>
+        items.map((item, index) => ({ id: item.id ?? `generated-${index}`, status: 201 }))
+      ),
+    };
+    recipeRevisionService = {
+      recordRevisions: jest.fn(async () => ({ recorded: [], failed: [] })),
+      recordRevision: jest.fn(async () => ({ recorded: [], failed: [] })),
+    };
+    const dietaryService = new DietaryService(elasticsearchService as ElasticsearchService);
+    const revisions = recipeRevisionService as unknown as RecipeRevisionService;
+    service = new RecipeImportService(
+      elasticsearchService,
+      new RecipeAuthoringService(elasticsearchService, dietaryService, revisions),
+      dietaryService,
+      revisions,
+    );
+  });
+
+  it('reports the name field that collided with an existing recipe', async () => {
+    elasticsearchService.findRecipesByNames.mockResolvedValue([{ id: 'existing', nameKo: '불고기', nameEn: 'Kimchi Stew' }]);
+
+    const report = await service.importRecipes(
+      [line({ nameKo: '김치찌개', nameEn: 'kimchi stew' }), line({ nameKo: '불고기' })].join('\n'),
+      { format: 'jsonl', dryRun: true }
+    );
+
+    expect(report.duplicates.map(row => row.reasons[0])).toEqual([
+      { field: 'nameEn', code: 'DUPLICATE_NAME', message: 'Recipe with the same name already exists: existing' },
+      { field: 'nameKo', code: 'DUPLICATE_NAME', message: 'Recipe with the same name already exists: existing' },
+    ]);
+    expect(elasticsearchService.findRecipesByNames).toHaveBeenCalledWith(['김치찌개', 'kimchi stew', '불고기']);
+  });
+
+  it('flags rows repeated within the file by the matching field', async () => {
+    const report = await service.importRecipes(
+      [line({ nameKo: '김치찌개' }), line({ nameKo: '된장찌개', nameEn: 'Doenjang Stew' }), line({ nameKo: '다른 이름', nameEn: 'doenjang stew' })].join('\n'),
+      { format: 'jsonl', dryRun: true }
+    );
+
+    expect(report.acceptedCount).toBe(2);
+    expect(report.duplicates).toEqual([
+      expect.objectContaining({ row: 3, reasons: [expect.objectContaining({ field: 'nameEn', code: 'DUPLICATE_IN_FILE' })] }),
+    ]);
+  });
+
+  it('rejects invalid rows and indexes the rest with import revisions', async () => {
+    const report = await service.importRecipes(
+      [line({ nameKo: '김치찌개' }), JSON.stringify({ nameKo: '재료 없음' }), 'not json'].join('\n'),
+      { format: 'jsonl', author: 'importer' }
+    );
+
+    expect(report).toMatchObject({ totalRows: 3, acceptedCount: 1, rejectedCount: 2 });
+    expect(report.rejected.map(row => row.reasons[0]?.code)).toEqual(['MISSING_INGREDIENTS', 'PARSE_ERROR']);
+    expect(recipeRevisionService.recordRevisions).toHaveBeenCalledWith([
+      expect.objectContaining({ recipeId: 'generated-0', action: 'import', author: 'importer', before: null }),
+    ]);
+  });
+
+  it('keeps an indexed row accepted but reports a revision that was not recorded', async () => {
+    recipeRevisionService.recordRevisions.mockResolvedValue({ recorded: [], failed: [{ recipeId: 'generated-0', error: 'es unavailable' }] });
+
+    const report = await service.importRecipes(line({ nameKo: '김치찌개' }), { format: 'jsonl' });
+
+    expect(report.acceptedCount).toBe(1);
+    expect(report.accepted[0]?.reasons).toEqual([
+      { field: 'revision', code: 'REVISION_NOT_RECORDED', message: 'Revision could not be recorded: es unavailable' },
+    ]);
+  });
+});
@@ -0,0 +1,239 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ElasticsearchService, ElasticsearchRecipe } from '../../elasticsearch/elasticsearch.service';
+import { RecipeImportReport, RecipeImportRowResult } from '../interfaces/recipe.interface';
+import { RecipeImportUtil, ParsedImportRow } from '../utils/recipe-import.util';
+import { RecipeAuthoringService, RecipeInput } from './recipe-authoring.service';
+import { DietaryService } from '../../dietary/dietary.service';
+import { RecipeRevisionEntry, RecipeRevisionService } from './recipe-revision.service';
+
+export type RecipeImportFormat = RecipeImportReport['format'];
+
+export interface RecipeImportOptions {
+  format: RecipeImportFormat;
+  dryRun?: boolean;
+  chunkSize?: number;
+  // 리비전 작성자
+  author?: string;
+}
+
+/**
+ * 검증을 통과해 색인 대기 중인 행
+ */
+interface PendingImportRow {
+  result: RecipeImportRowResult;
+  id?: string;
+  document: Omit<ElasticsearchRecipe, 'id'>;
+}
+
+/**
+ * 📦 레시피 일괄 가져오기 (JSON Lines / CSV)
+ * 행 단위로 정규화·검증하고 파일 내/인덱스 중복을 걸러낸 뒤 청크 단위로 bulk 색인
+ */
+@Injectable()
+export class RecipeImportService {
+  private readonly logger = new Logger(RecipeImportService.name);
+  private static readonly DEFAULT_CHUNK_SIZE = 500;
+
+  constructor(
+    private readonly elasticsearchService: ElasticsearchService,
+    private readonly recipeAuthoringService: RecipeAuthoringService,
+    private readonly dietaryService: DietaryService,
+    private readonly recipeRevisionService: RecipeRevisionService,
+  ) {}
+
+  /**
+   * 파일 내용을 가져와 행별 결과 보고서 생성 (dryRun 이면 색인하지 않음)
+   */
+  async importRecipes(content: string, options: RecipeImportOptions): Promise<RecipeImportReport> {
+    const dryRun = options.dryRun ?? false;
+    const chunkSize = options.chunkSize ?? RecipeImportService.DEFAULT_CHUNK_SIZE;
+    const rows = options.format === 'csv'
+      ? RecipeImportUtil.parseCsv(content)
+      : RecipeImportUtil.parseJsonLines(content);
+    this.logger.log(`📦 Importing ${rows.length} ${options.format} rows (dryRun: ${dryRun}, chunk: ${chunkSize})`);
+
+    const report: RecipeImportReport = {
+      format: options.format,
+      dryRun,
+      totalRows: rows.length,
+      acceptedCount: 0,
+      rejectedCount: 0,
+      duplicateCount: 0,
+      accepted: [],
+      rejected: [],
+      duplicates: [],
+    };
+
+    const pending = rows
+      .map(row => this.prepareRow(row, report))
+      .filter((row): row is PendingImportRow => row !== null);
+
+    const seenKeys = new Set<string>();
+    for (let i = 0; i < pending.length; i += chunkSize) {
+      const chunk = await this.dropDuplicates(pending.slice(i, i + chunkSize), seenKeys, report);
+      if (dryRun) {
+        chunk.forEach(row => this.addResult(report, row.result));
+      } else {
+        await this.indexChunk(chunk, report, options.author);
+      }
+    }
+
+    this.logger.log(`📦 Import finished - accepted: ${report.acceptedCount}, rejected: ${report.rejectedCount}, duplicates: ${report.duplicateCount}`);
+    return report;
+  }
+
+  /**
+   * 파싱/정규화/검증 (실패 행은 보고서에 바로 기록하고 null 반환)
+   */
+  private prepareRow(row: ParsedImportRow, report: RecipeImportReport): PendingImportRow | null {
+    if (!row.data) {
+      this.addResult(report, {
+        row: row.row,
+        status: 'rejected',
+        reasons: [{ field: 'row', code: 'PARSE_ERROR', message: row.error ?? 'Unable to parse row' }],
+      });
+      return null;
+    }
+
+    const rawId = row.data.id;
+    const id = typeof rawId === 'string' || typeof rawId === 'number' ? String(rawId).trim() || undefined : undefined;
+    const recipe = this.recipeAuthoringService.normalizeRecipe(row.data as RecipeInput);
+    const result: RecipeImportRowResult = {
+      row: row.row,
+      status: 'accepted',
+      recipeId: id,
+      name: recipe.nameKo || recipe.nameEn,
+      reasons: [],
+    };
+
+    const validation = this.recipeAuthoringService.validateRecipe(recipe);
+    if (!validation.isValid) {
+      this.addResult(report, { ...result, status: 'rejected', reasons: validation.errors });
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const dietaryLabels = this.dietaryService.labelRecipe(recipe);
+    return { result, id, document: { ...recipe, dietaryLabels, createdAt: now, updatedAt: now } };
+  }
+
+  /**
+   * 파일 앞쪽 행 또는 기존 인덱스와 ID/이름이 겹치는 행 제외
+   */
+  private async dropDuplicates(
+    chunk: PendingImportRow[],
+    seenKeys: Set<string>,
+    report: RecipeImportReport
+  ): Promise<PendingImportRow[]> {
+    const ids = chunk.map(row => row.id).filter((id): id is string => !!id);
+    const names = chunk.flatMap(row => this.duplicateKeys(row).filter(key => key.field !== 'id').map(key => key.value));
+
+    const [existingById, existingByName] = await Promise.all([
+      this.elasticsearchService.getRecipesByIds(ids),
+      this.elasticsearchService.findRecipesByNames(names),
+    ]);
+    const existingIds = new Set(existingById.map(recipe => recipe.id));
+    const existingNames = new Map<string, string>();
+    existingByName.forEach(recipe => {
+      [recipe.nameKo, recipe.nameEn].forEach(name => name && existingNames.set(name.toLowerCase(), recipe.id));
+    });
+
+    return chunk.filter(row => {
+      const { result } = row;
+      const keys = this.duplicateKeys(row);
+      // 실제로 겹친 필드(id, nameKo, nameEn)를 사유에 기록
+      const seenKey = keys.find(key => seenKeys.has(key.key));
+      const existingName = keys.find(key => {
+        if (key.field === 'id') return false;
+        const existingId = existingNames.get(key.value.toLowerCase());
+        return existingId !== undefined && existingId !== row.id;
+      });
+      let reason: RecipeImportRowResult['reasons'][number] | null = null;
+
+      if (seenKey) {
+        reason = { field: seenKey.field, code: 'DUPLICATE_IN_FILE', message: 'Same recipe appears earlier in the file' };
+      } else if (row.id && existingIds.has(row.id)) {
+        reason = { field: 'id', code: 'DUPLICATE_ID', message: `Recipe ID already exists: ${row.id}` };
+      } else if (existingName) {
+        reason = {
+          field: existingName.field,
+          code: 'DUPLICATE_NAME',
+          message: `Recipe with the same name already exists: ${existingNames.get(existingName.value.toLowerCase())}`,
+        };
+      }
+
+      keys.forEach(key => seenKeys.add(key.key));
+      if (reason) {
+        this.addResult(report, { ...result, status: 'duplicate', reasons: [reason] });
+        return false;
+      }
+      return true;
+    });
+  }
+
+  private async indexChunk(chunk: PendingImportRow[], report: RecipeImportReport, author?: string): Promise<void> {
+    const results = await this.elasticsearchService.bulkIndexRecipes(
+      chunk.map(row => ({ id: row.id, document: row.document }))
+    );
+    const revisions: RecipeRevisionEntry[] = [];
+
+    chunk.forEach((row, index) => {
+      const item = results[index];
+      if (item && !item.error) {
+        this.addResult(report, { ...row.result, recipeId: item.id });
+        if (item.id) {
+          revisions.push({ recipeId: item.id, action: 'import', author, before: null, after: row.document });
+        }
+      } else if (item?.status === 409) {
+        this.addResult(report, {
+          ...row.result,
+          status: 'duplicate',
+          reasons: [{ field: 'id', code: 'DUPLICATE_ID', message: `Recipe ID already exists: ${row.id}` }],
+        });
+      } else {
+        this.addResult(report, {
+          ...row.result,
+          status: 'rejected',
+          reasons: [{ field: 'row', code: 'INDEX_ERROR', message: item?.error ?? 'Bulk index failed' }],
+        });
+      }
+    });
+
+    // 레시피는 이미 색인됐으므로 행은 그대로 두고 리비전을 남기지 못한 사실만 사유로 덧붙임
+    const { failed } = await this.recipeRevisionService.recordRevisions(revisions);
+    const revisionErrors = new Map(failed.map(item => [item.recipeId, item.error]));
+    report.accepted.forEach(result => {
+      const error = result.recipeId ? revisionErrors.get(result.recipeId) : undefined;
+      if (error) {
+        result.reasons.push({ field: 'revision', code: 'REVISION_NOT_RECORDED', message: `Revision could not be recorded: ${error}` });
+      }
+    });
+  }
+
+  // 중복 판별 키 (ID, 한국어/영어 이름)와 해당 필드
+  private duplicateKeys(row: PendingImportRow): Array<{ field: 'id' | 'nameKo' | 'nameEn'; value: string; key: string }> {
+    const { nameKo, nameEn } = row.document;
+    return [
+      ...(row.id ? [{ field: 'id' as const, value: row.id, key: `id:${row.id}` }] : []),
+      ...(nameKo ? [{ field: 'nameKo' as const, value: nameKo, key: `name:${nameKo.toLowerCase()}` }] : []),
+      ...(nameEn ? [{ field: 'nameEn' as const, value: nameEn, key: `name:${nameEn.toLowerCase()}` }] : []),
+    ];
+  }
+
+  private addResult(report: RecipeImportReport, result: RecipeImportRowResult): void {
+    switch (result.status) {
+      case 'accepted':
+        report.accepted.push(result);
+        report.acceptedCount++;
+        break;
+      case 'rejected':
+        report.rejected.push(result);
+        report.rejectedCount++;
+        break;
+      case 'duplicate':
+        report.duplicates.push(result);
+        report.duplicateCount++;
+        break;
+    }
+  }
+}
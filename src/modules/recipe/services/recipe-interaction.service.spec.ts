@@ -0,0 +1,58 @@
+import { ElasticsearchService } from '../../elasticsearch/elasticsearch.service';
+import { RecipeEventService } from './recipe-event.service';
+import { RecipeInteractionService } from './recipe-interaction.service';
+
+describe('RecipeInteractionService', () => {
+  const INDEX = 'recipe_user_interactions';
+  let documents: Map<string, any>;
+  let elasticsearchService: jest.Mocked<Partial<ElasticsearchService>>;
+  let service: RecipeInteractionService;
+
+  beforeEach(() => {
+    documents = new Map();
+    elasticsearchService = {
+      getRecipeById: jest.fn(async (id: string) => ({ id }) as any),
+      getDocument: jest.fn(async (_index: string, id: string) => documents.get(id) ?? null),
+      saveDocument: jest.fn(async (_index: string, id: string, document: any) => {
+        documents.set(id, { ...document });
+      }) as any,
+      deleteDocument: jest.fn(async (_index: string, id: string) => documents.delete(id)),
+      countDocuments: jest.fn(async () => 0),
+      updateRecipeFields: jest.fn(async () => undefined) as any,
+    };
+    const recipeEventService = { recordEvent: jest.fn(async () => undefined) } as unknown as RecipeEventService;
+    service = new RecipeInteractionService(elasticsearchService as ElasticsearchService, recipeEventService);
+  });
+
+  describe('buildInteractionId', () => {
+    it('keeps ids containing "_" apart', () => {
+      expect(RecipeInteractionService.buildInteractionId('a_b', 'c'))
+        .not.toBe(RecipeInteractionService.buildInteractionId('a', 'b_c'));
+    });
+
+    it('keeps ids containing the separator apart', () => {
+      expect(RecipeInteractionService.buildInteractionId('a:b', 'c'))
+        .not.toBe(RecipeInteractionService.buildInteractionId('a', 'b:c'));
+    });
+  });
+
+  describe('legacy interaction ids', () => {
+    it('reads a legacy document only when it belongs to the same user and recipe', async () => {
+      documents.set('a_b_c', { userId: 'a_b', recipeId: 'c', isBookmarked: true, personalTags: [], cookCount: 0 });
+
+      expect((await service.getUserInteraction('a_b', 'c')).isBookmarked).toBe(true);
+      expect((await service.getUserInteraction('a', 'b_c')).isBookmarked).toBe(false);
+    });
+
+    it('moves a legacy document to the new id on save', async () => {
+      documents.set('u1_r1', { userId: 'u1', recipeId: 'r1', isBookmarked: false, personalTags: [], cookCount: 0 });
+
+      const result = await service.toggleBookmark('u1', 'r1');
+
+      expect(result.bookmarked).toBe(true);
+      expect(documents.has('u1_r1')).toBe(false);
+      expect(documents.get(RecipeInteractionService.buildInteractionId('u1', 'r1'))).toMatchObject({ isBookmarked: true });
+      expect(elasticsearchService.deleteDocument).toHaveBeenCalledWith(INDEX, 'u1_r1');
+    });
+  });
+});
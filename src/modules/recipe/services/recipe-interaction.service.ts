@@ -0,0 +1,564 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ElasticsearchService } from '../../elasticsearch/elasticsearch.service';
+import { RecipeTransformUtil } from '../../langchain/utils/recipe-transform.util';
+import { CookingHistorySummary, RecipeLanguage } from '../../langchain/types/langchain.types';
+import {
+  BookmarkResult,
+  CookingHistoryEntry,
+  CookingResult,
+  PaginatedRecipeResponse,
+  PersonalNoteResult,
+  RatingResult,
+  RecipeMetrics,
+  UserRecipeInteraction,
+} from '../interfaces/recipe.interface';
+import type { Recipe } from '../recipe.service';
+import { RecipeEventService } from './recipe-event.service';
+
+/**
+ * Elasticsearch 에 저장되는 사용자-레시피 상호작용 문서
+ */
+interface StoredRecipeInteraction {
+  userId: string;
+  recipeId: string;
+  isBookmarked: boolean;
+  bookmarkedAt?: string;
+  userRating?: number;
+  personalNote?: string;
+  noteUpdatedAt?: string;
+  personalTags: string[];
+  cookCount: number;
+  cookHistory?: string[];
+  lastCookedAt?: string;
+  updatedAt: string;
+}
+
+@Injectable()
+export class RecipeInteractionService {
+  private readonly logger = new Logger(RecipeInteractionService.name);
+  private static readonly INTERACTION_INDEX = 'recipe_user_interactions';
+  private static readonly MAX_HISTORY_SCAN = 500;
+
+  // 북마크, 4점 이상 평점, 요리 기록 중 하나라도 있으면 긍정적 상호작용으로 간주
+  private static readonly POSITIVE_ENGAGEMENT_QUERY = {
+    bool: {
+      should: [
+        { term: { isBookmarked: true } },
+        { range: { userRating: { gte: 4 } } },
+        { range: { cookCount: { gt: 0 } } },
+      ],
+      minimum_should_match: 1,
+    },
+  };
+
+  constructor(
+    private readonly elasticsearchService: ElasticsearchService,
+    private readonly recipeEventService: RecipeEventService,
+  ) {}
+
+  /**
+   * 사용자의 레시피 상호작용 상태 조회
+   */
+  async getUserInteraction(userId: string, recipeId: string): Promise<UserRecipeInteraction> {
+    const stored = await this.findInteraction(userId, recipeId);
+    return this.toUserInteraction(stored);
+  }
+
+  /**
+   * 북마크 토글
+   */
+  async toggleBookmark(userId: string, recipeId: string): Promise<BookmarkResult> {
+    await this.ensureRecipeExists(recipeId);
+
+    const interaction = (await this.findInteraction(userId, recipeId)) ?? this.createEmptyInteraction(userId, recipeId);
+    const bookmarked = !interaction.isBookmarked;
+
+    interaction.isBookmarked = bookmarked;
+    interaction.bookmarkedAt = bookmarked ? new Date().toISOString() : undefined;
+    await this.saveInteraction(interaction);
+
+    const bookmarkCount = await this.countRecipeBookmarks(recipeId);
+    const totalBookmarks = await this.countUserBookmarks(userId);
+    await this.elasticsearchService.updateRecipeFields(recipeId, { bookmarkCount });
+    await this.recipeEventService.recordEvent({ userId, recipeId, action: bookmarked ? 'bookmark' : 'unbookmark' });
+
+    this.logger.log(`🔖 [${userId}] Recipe ${recipeId} ${bookmarked ? 'bookmarked' : 'unbookmarked'} (count: ${bookmarkCount})`);
+
+    return {
+      bookmarked,
+      message: bookmarked ? '레시피를 북마크했습니다.' : '북마크를 해제했습니다.',
+      bookmarkCount,
+      totalBookmarks,
+    };
+  }
+
+  /**
+   * 레시피 평점 등록 (사용자당 레시피 1개 평점, 재평가 시 덮어씀)
+   */
+  async rateRecipe(userId: string, recipeId: string, rating: number): Promise<RatingResult> {
+    await this.ensureRecipeExists(recipeId);
+
+    const interaction = (await this.findInteraction(userId, recipeId)) ?? this.createEmptyInteraction(userId, recipeId);
+    const previousRating = interaction.userRating;
+
+    interaction.userRating = rating;
+    await this.saveInteraction(interaction);
+
+    const { averageRating, ratingCount } = await this.calculateRatingStats(recipeId);
+    await this.elasticsearchService.updateRecipeFields(recipeId, { averageRating, ratingCount });
+    await this.recipeEventService.recordEvent({
+      userId,
+      recipeId,
+      action: 'rate',
+      value: rating,
+      metadata: previousRating !== undefined ? { previousRating } : undefined,
+    });
+
+    this.logger.log(`⭐ [${userId}] Recipe ${recipeId} rated ${rating} (avg: ${averageRating}, count: ${ratingCount})`);
+
+    return {
+      success: true,
+      userRating: rating,
+      averageRating,
+      ratingCount,
+      previousRating,
+      message: previousRating !== undefined ? '평점을 수정했습니다.' : '평점을 등록했습니다.',
+    };
+  }
+
+  /**
+   * 요리 완료 기록
+   */
+  async markAsCooked(userId: string, recipeId: string): Promise<CookingResult> {
+    await this.ensureRecipeExists(recipeId);
+
+    const interaction = (await this.findInteraction(userId, recipeId)) ?? this.createEmptyInteraction(userId, recipeId);
+    const cookedAt = new Date();
+
+    interaction.cookCount += 1;
+    interaction.lastCookedAt = cookedAt.toISOString();
+    interaction.cookHistory = [...(interaction.cookHistory ?? []), interaction.lastCookedAt];
+    await this.saveInteraction(interaction);
+    await this.recipeEventService.recordEvent({ userId, recipeId, action: 'cook', value: interaction.cookCount, timestamp: cookedAt });
+
+    const totalCookCount = await this.sumUserCookCount(userId);
+    this.logger.log(`👨‍🍳 [${userId}] Recipe ${recipeId} cooked (${interaction.cookCount} times)`);
+
+    return {
+      success: true,
+      message: `${interaction.cookCount}번째 요리를 기록했습니다.`,
+      cookCount: interaction.cookCount,
+      lastCookedAt: cookedAt,
+      totalCookCount,
+    };
+  }
+
+  /**
+   * 개인 메모/태그 저장 (비공개)
+   */
+  async savePersonalNote(
+    userId: string,
+    recipeId: string,
+    note: string,
+    personalTags?: string[]
+  ): Promise<PersonalNoteResult> {
+    await this.ensureRecipeExists(recipeId);
+
+    const interaction = (await this.findInteraction(userId, recipeId)) ?? this.createEmptyInteraction(userId, recipeId);
+    const updatedAt = new Date();
+    const isNew = !interaction.personalNote;
+
+    interaction.personalNote = note;
+    interaction.noteUpdatedAt = updatedAt.toISOString();
+    if (personalTags) {
+      interaction.personalTags = [...new Set(personalTags.map(tag => tag.trim()).filter(tag => tag.length > 0))];
+    }
+    await this.saveInteraction(interaction);
+    // 메모 내용은 비공개이므로 이벤트에는 길이만 기록
+    await this.recipeEventService.recordEvent({
+      userId,
+      recipeId,
+      action: 'note',
+      metadata: { noteLength: note.length, personalTags: interaction.personalTags },
+      timestamp: updatedAt,
+    });
+
+    return {
+      success: true,
+      message: isNew ? '메모를 저장했습니다.' : '메모를 수정했습니다.',
+      note,
+      updatedAt,
+    };
+  }
+
+  /**
+   * 사용자의 요리 기록 (최근 순)
+   */
+  async getCookingHistory(
+    userId: string,
+    page: number = 1,
+    limit: number = 10,
+    lang: RecipeLanguage = 'ko'
+  ): Promise<PaginatedRecipeResponse<CookingHistoryEntry<Recipe>>> {
+    const interactions = await this.findCookedInteractions(userId);
+
+    const entries = interactions
+      .flatMap(interaction =>
+        (interaction.cookHistory ?? (interaction.lastCookedAt ? [interaction.lastCookedAt] : [])).map(cookedAt => ({
+          interaction,
+          cookedAt,
+        }))
+      )
+      .sort((a, b) => b.cookedAt.localeCompare(a.cookedAt));
+
+    const start = (page - 1) * limit;
+    const pageEntries = entries.slice(start, start + limit);
+    const esRecipes = await this.elasticsearchService.getRecipesByIds(
+      [...new Set(pageEntries.map(entry => entry.interaction.recipeId))]
+    );
+    const recipesById = new Map<string, Recipe>(
+      RecipeTransformUtil.transformRecipes(esRecipes, lang).map(recipe => [recipe.id, recipe])
+    );
+    const totalPages = Math.ceil(entries.length / limit);
+
+    return {
+      recipes: pageEntries.map(({ interaction, cookedAt }) => ({
+        recipeId: interaction.recipeId,
+        recipe: recipesById.get(interaction.recipeId) ?? null,
+        cookedAt: new Date(cookedAt),
+        cookCount: interaction.cookCount,
+        personalNote: interaction.personalNote,
+      })),
+      total: entries.length,
+      page,
+      limit,
+      totalPages,
+      hasMore: page < totalPages,
+    };
+  }
+
+  /**
+   * 대화 컨텍스트용 요리 기록 요약 (최근 요리한 순)
+   */
+  async getCookingSummaries(userId: string, limit: number = 10): Promise<CookingHistorySummary[]> {
+    const interactions = (await this.findCookedInteractions(userId)).slice(0, limit);
+    const esRecipes = await this.elasticsearchService.getRecipesByIds(interactions.map(i => i.recipeId));
+    const namesById = new Map(esRecipes.map(recipe => [recipe.id, recipe.nameKo || recipe.nameEn || recipe.id]));
+
+    return interactions.map(interaction => ({
+      recipeId: interaction.recipeId,
+      recipeName: namesById.get(interaction.recipeId) ?? interaction.recipeId,
+      cookCount: interaction.cookCount,
+      lastCookedAt: interaction.lastCookedAt,
+    }));
+  }
+
+  /**
+   * 4점 이상 평점 수 (별도 좋아요 기능이 없어 좋아요 지표로 사용)
+   */
+  async countPositiveRatings(): Promise<number> {
+    return this.elasticsearchService.countDocuments(RecipeInteractionService.INTERACTION_INDEX, {
+      range: { userRating: { gte: 4 } },
+    });
+  }
+
+  /**
+   * 사용자가 긍정적으로 반응한 레시피 ID (최근 순)
+   */
+  async getPositivelyEngagedRecipeIds(userId: string, size: number = 50): Promise<string[]> {
+    const { documents } = await this.elasticsearchService.searchDocuments<StoredRecipeInteraction>(
+      RecipeInteractionService.INTERACTION_INDEX,
+      {
+        query: {
+          bool: {
+            filter: [{ term: { 'userId.keyword': userId } }],
+            must: [RecipeInteractionService.POSITIVE_ENGAGEMENT_QUERY],
+          },
+        },
+        sort: [{ updatedAt: { order: 'desc', unmapped_type: 'date' } }],
+        size,
+      }
+    );
+    return documents.map(doc => doc.recipeId);
+  }
+
+  /**
+   * 사용자가 상호작용한 모든 레시피 ID
+   */
+  async getInteractedRecipeIds(userId: string): Promise<string[]> {
+    const { documents } = await this.elasticsearchService.searchDocuments<StoredRecipeInteraction>(
+      RecipeInteractionService.INTERACTION_INDEX,
+      {
+        query: { term: { 'userId.keyword': userId } },
+        _source: ['recipeId'],
+        size: RecipeInteractionService.MAX_HISTORY_SCAN,
+      }
+    );
+    return documents.map(doc => doc.recipeId);
+  }
+
+  /**
+   * 같은 레시피를 좋아한 다른 사용자들이 좋아한 레시피 (겹치는 사용자 수 순)
+   */
+  async getRecipesLikedBySimilarUsers(
+    userId: string,
+    recipeIds: string[],
+    size: number = 20
+  ): Promise<Array<{ recipeId: string; userCount: number }>> {
+    if (recipeIds.length === 0) return [];
+
+    const similarUsers = await this.elasticsearchService.searchDocuments<StoredRecipeInteraction>(
+      RecipeInteractionService.INTERACTION_INDEX,
+      {
+        size: 0,
+        query: {
+          bool: {
+            filter: [{ terms: { 'recipeId.keyword': recipeIds } }],
+            must: [RecipeInteractionService.POSITIVE_ENGAGEMENT_QUERY],
+            must_not: [{ term: { 'userId.keyword': userId } }],
+          },
+        },
+        aggs: { users: { terms: { field: 'userId.keyword', size: 50 } } },
+      }
+    );
+    const userIds: string[] = (similarUsers.aggregations?.users?.buckets ?? []).map((bucket: any) => bucket.key);
+    if (userIds.length === 0) return [];
+
+    const likedRecipes = await this.elasticsearchService.searchDocuments<StoredRecipeInteraction>(
+      RecipeInteractionService.INTERACTION_INDEX,
+      {
+        size: 0,
+        query: {
+          bool: {
+            filter: [{ terms: { 'userId.keyword': userIds } }],
+            must: [RecipeInteractionService.POSITIVE_ENGAGEMENT_QUERY],
+            must_not: [{ terms: { 'recipeId.keyword': recipeIds } }],
+          },
+        },
+        aggs: { recipes: { terms: { field: 'recipeId.keyword', size } } },
+      }
+    );
+
+    return (likedRecipes.aggregations?.recipes?.buckets ?? []).map((bucket: any) => ({
+      recipeId: bucket.key,
+      userCount: bucket.doc_count,
+    }));
+  }
+
+  /**
+   * 사용자의 북마크 레시피 목록 (최근 북마크 순)
+   */
+  async getBookmarkedRecipes(
+    userId: string,
+    page: number = 1,
+    limit: number = 10,
+    lang: RecipeLanguage = 'ko'
+  ): Promise<PaginatedRecipeResponse<Recipe>> {
+    const { documents, total } = await this.elasticsearchService.searchDocuments<StoredRecipeInteraction>(
+      RecipeInteractionService.INTERACTION_INDEX,
+      {
+        query: {
+          bool: {
+            filter: [
+              { term: { 'userId.keyword': userId } },
+              { term: { isBookmarked: true } },
+            ],
+          },
+        },
+        sort: [{ bookmarkedAt: { order: 'desc', unmapped_type: 'date' } }],
+        from: (page - 1) * limit,
+        size: limit,
+      }
+    );
+
+    const esRecipes = await this.elasticsearchService.getRecipesByIds(documents.map(doc => doc.recipeId));
+    const recipes: Recipe[] = RecipeTransformUtil.transformRecipes(esRecipes, lang);
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      recipes,
+      total,
+      page,
+      limit,
+      totalPages,
+      hasMore: page < totalPages,
+    };
+  }
+
+  /**
+   * 레시피 지표 조회
+   */
+  async getRecipeMetrics(recipeId: string): Promise<RecipeMetrics> {
+    const bookmarkCount = await this.countRecipeBookmarks(recipeId);
+    const { averageRating, ratingCount } = await this.calculateRatingStats(recipeId);
+    const viewCount = await this.recipeEventService.countEvents(recipeId, 'view');
+
+    return {
+      viewCount,
+      likeCount: 0,
+      bookmarkCount,
+      averageRating,
+      ratingCount,
+    };
+  }
+
+  /**
+   * 저장된 사용자 평점으로 평균/개수 재계산
+   */
+  private async calculateRatingStats(recipeId: string): Promise<{ averageRating: number; ratingCount: number }> {
+    const { aggregations } = await this.elasticsearchService.searchDocuments<StoredRecipeInteraction>(
+      RecipeInteractionService.INTERACTION_INDEX,
+      {
+        size: 0,
+        query: {
+          bool: {
+            filter: [
+              { term: { 'recipeId.keyword': recipeId } },
+              { exists: { field: 'userRating' } },
+            ],
+          },
+        },
+        aggs: {
+          averageRating: { avg: { field: 'userRating' } },
+          ratingCount: { value_count: { field: 'userRating' } },
+        },
+      }
+    );
+
+    const average = aggregations?.averageRating?.value ?? 0;
+    return {
+      averageRating: Math.round(average * 10) / 10,
+      ratingCount: aggregations?.ratingCount?.value ?? 0,
+    };
+  }
+
+  private async countRecipeBookmarks(recipeId: string): Promise<number> {
+    return this.elasticsearchService.countDocuments(RecipeInteractionService.INTERACTION_INDEX, {
+      bool: {
+        filter: [
+          { term: { 'recipeId.keyword': recipeId } },
+          { term: { isBookmarked: true } },
+        ],
+      },
+    });
+  }
+
+  private async countUserBookmarks(userId: string): Promise<number> {
+    return this.elasticsearchService.countDocuments(RecipeInteractionService.INTERACTION_INDEX, {
+      bool: {
+        filter: [
+          { term: { 'userId.keyword': userId } },
+          { term: { isBookmarked: true } },
+        ],
+      },
+    });
+  }
+
+  private async sumUserCookCount(userId: string): Promise<number> {
+    const { aggregations } = await this.elasticsearchService.searchDocuments<StoredRecipeInteraction>(
+      RecipeInteractionService.INTERACTION_INDEX,
+      {
+        size: 0,
+        query: { term: { 'userId.keyword': userId } },
+        aggs: { totalCookCount: { sum: { field: 'cookCount' } } },
+      }
+    );
+    return aggregations?.totalCookCount?.value ?? 0;
+  }
+
+  private async findCookedInteractions(userId: string): Promise<StoredRecipeInteraction[]> {
+    const { documents } = await this.elasticsearchService.searchDocuments<StoredRecipeInteraction>(
+      RecipeInteractionService.INTERACTION_INDEX,
+      {
+        query: {
+          bool: {
+            filter: [
+              { term: { 'userId.keyword': userId } },
+              { range: { cookCount: { gt: 0 } } },
+            ],
+          },
+        },
+        sort: [{ lastCookedAt: { order: 'desc', unmapped_type: 'date' } }],
+        size: RecipeInteractionService.MAX_HISTORY_SCAN,
+      }
+    );
+    return documents;
+  }
+
+  private async ensureRecipeExists(recipeId: string): Promise<void> {
+    const recipe = await this.elasticsearchService.getRecipeById(recipeId);
+    if (!recipe) {
+      throw new NotFoundException(`Recipe not found: ${recipeId}`);
+    }
+  }
+
+  /**
+   * 상호작용 문서 조회 (이전 형식 ID 로 저장된 문서는 userId/recipeId 가 일치할 때만 사용)
+   */
+  private async findInteraction(userId: string, recipeId: string): Promise<StoredRecipeInteraction | null> {
+    const stored = await this.elasticsearchService.getDocument<StoredRecipeInteraction>(
+      RecipeInteractionService.INTERACTION_INDEX,
+      RecipeInteractionService.buildInteractionId(userId, recipeId)
+    );
+    return stored ?? this.findLegacyInteraction(userId, recipeId);
+  }
+
+  /**
+   * 상호작용 저장 (이전 형식 ID 문서가 남아 있으면 중복 집계되지 않도록 삭제)
+   */
+  private async saveInteraction(interaction: StoredRecipeInteraction): Promise<void> {
+    interaction.updatedAt = new Date().toISOString();
+    await this.elasticsearchService.saveDocument(
+      RecipeInteractionService.INTERACTION_INDEX,
+      RecipeInteractionService.buildInteractionId(interaction.userId, interaction.recipeId),
+      interaction
+    );
+
+    if (await this.findLegacyInteraction(interaction.userId, interaction.recipeId)) {
+      await this.elasticsearchService.deleteDocument(
+        RecipeInteractionService.INTERACTION_INDEX,
+        `${interaction.userId}_${interaction.recipeId}`
+      );
+    }
+  }
+
+  /**
+   * `${userId}_${recipeId}` 형식으로 저장된 이전 문서 (ID 에 '_' 가 있으면 다른 쌍과 겹칠 수 있어 필드로 확인)
+   */
+  private async findLegacyInteraction(userId: string, recipeId: string): Promise<StoredRecipeInteraction | null> {
+    const legacy = await this.elasticsearchService.getDocument<StoredRecipeInteraction>(
+      RecipeInteractionService.INTERACTION_INDEX,
+      `${userId}_${recipeId}`
+    );
+    return legacy && legacy.userId === userId && legacy.recipeId === recipeId ? legacy : null;
+  }
+
+  private createEmptyInteraction(userId: string, recipeId: string): StoredRecipeInteraction {
+    return {
+      userId,
+      recipeId,
+      isBookmarked: false,
+      personalTags: [],
+      cookCount: 0,
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  private toUserInteraction(stored: StoredRecipeInteraction | null): UserRecipeInteraction {
+    return {
+      isBookmarked: stored?.isBookmarked ?? false,
+      userRating: stored?.userRating,
+      personalNote: stored?.personalNote,
+      personalTags: stored?.personalTags ?? [],
+      cookCount: stored?.cookCount ?? 0,
+      lastCookedAt: stored?.lastCookedAt ? new Date(stored.lastCookedAt) : undefined,
+    };
+  }
+
+  /**
+   * 상호작용 문서 ID (두 ID 를 인코딩해 ':' 로 연결하므로 어떤 ID 조합도 겹치지 않음)
+   */
+  static buildInteractionId(userId: string, recipeId: string): string {
+    return `${encodeURIComponent(userId)}:${encodeURIComponent(recipeId)}`;
+  }
+}
@@ -0,0 +1,95 @@
+import { AllergenService } from '../../allergen/allergen.service';
+import { ElasticsearchRecipe, ElasticsearchService } from '../../elasticsearch/elasticsearch.service';
+import { RecipeEventService } from './recipe-event.service';
+import { RecipeInteractionService } from './recipe-interaction.service';
+import { RecipeRecommendationService } from './recipe-recommendation.service';
+
+describe('RecipeRecommendationService', () => {
+  const recipe = (id: string, ingredients: string[]) => ({ id, nameKo: id, ingredientsKo: ingredients }) as ElasticsearchRecipe;
+  let elasticsearchService: any;
+  let recipeEventService: any;
+  let service: RecipeRecommendationService;
+
+  beforeEach(() => {
+    elasticsearchService = { searchRecipesWithFilters: jest.fn() };
+    recipeEventService = { rankByEngagement: jest.fn(async () => []) };
+    service = new RecipeRecommendationService(
+      elasticsearchService as ElasticsearchService,
+      {} as RecipeInteractionService,
+      recipeEventService as RecipeEventService,
+      new AllergenService(elasticsearchService as ElasticsearchService),
+    );
+  });
+
+  it('fills the limit with safe recipes when some candidates are filtered out', async () => {
+    elasticsearchService.searchRecipesWithFilters.mockImplementation(async ({ size }: { size: number }) => ({
+      recipes: [
+        recipe('peanut-noodles', ['땅콩버터 2큰술']),
+        recipe('peanut-salad', ['땅콩 30g']),
+        recipe('kimchi-stew', ['김치 200g']),
+        recipe('bibimbap', ['밥 1공기']),
+        recipe('japchae', ['당면 100g']),
+      ].slice(0, size),
+      total: 5,
+    }));
+
+    const recommended = await service.recommend({ basedOn: 'trending', limit: 3, allergies: ['땅콩'] });
+
+    expect(recommended.map(item => item.id)).toEqual(['kimchi-stew', 'bibimbap', 'japchae']);
+    expect(elasticsearchService.searchRecipesWithFilters).toHaveBeenCalledWith(expect.objectContaining({
+      size: 6,
+      excludeIngredients: expect.arrayContaining([{ term: '땅콩', exceptions: [] }]),
+    }));
+  });
+
+  it('fetches a larger page when more than half of the candidates are filtered out', async () => {
+    const peanutRecipes = Array.from({ length: 8 }, (_, i) => recipe(`peanut-${i}`, ['땅콩 30g']));
+    const safeRecipes = ['kimchi-stew', 'bibimbap', 'japchae'].map(id => recipe(id, ['밥 1공기']));
+    elasticsearchService.searchRecipesWithFilters.mockImplementation(async ({ size }: { size: number }) => ({
+      recipes: [...peanutRecipes, ...safeRecipes].slice(0, size),
+      total: 11,
+    }));
+
+    const recommended = await service.recommend({ basedOn: 'trending', limit: 3, allergies: ['땅콩'] });
+
+    expect(recommended.map(item => item.id)).toEqual(['kimchi-stew', 'bibimbap', 'japchae']);
+    expect(elasticsearchService.searchRecipesWithFilters.mock.calls.map(([options]: [{ size: number }]) => options.size))
+      .toEqual([6, 12]);
+  });
+
+  it('stops refetching after the round limit and returns fewer recipes', async () => {
+    elasticsearchService.searchRecipesWithFilters.mockImplementation(async ({ size }: { size: number }) => ({
+      recipes: Array.from({ length: size }, (_, i) => recipe(`peanut-${i}`, ['땅콩 30g'])),
+      total: 100,
+    }));
+
+    const recommended = await service.recommend({ basedOn: 'trending', limit: 3, allergies: ['땅콩'] });
+
+    expect(recommended).toEqual([]);
+    expect(elasticsearchService.searchRecipesWithFilters).toHaveBeenCalledTimes(3);
+  });
+
+  it('fetches only the limit when there is no allergy', async () => {
+    elasticsearchService.searchRecipesWithFilters.mockResolvedValue({ recipes: [recipe('bibimbap', ['밥 1공기'])], total: 1 });
+
+    const recommended = await service.recommend({ basedOn: 'trending', limit: 3 });
+
+    expect(recommended).toHaveLength(1);
+    expect(recommended[0]?.recommendation.strategy).toBe('trending');
+    expect(elasticsearchService.searchRecipesWithFilters).toHaveBeenCalledWith(expect.objectContaining({ size: 3 }));
+  });
+
+  it('interleaves strategies without duplicates', async () => {
+    elasticsearchService.searchRecipesWithFilters
+      .mockResolvedValueOnce({ recipes: [recipe('a', []), recipe('b', [])], total: 2 })
+      .mockResolvedValueOnce({ recipes: [recipe('a', []), recipe('c', [])], total: 2 });
+
+    const recommended = await service.recommend({ preferences: ['한식'], limit: 3 });
+
+    expect(recommended.map(item => [item.id, item.recommendation.strategy])).toEqual([
+      ['a', 'preferences'],
+      ['b', 'preferences'],
+      ['c', 'trending'],
+    ]);
+  });
+});
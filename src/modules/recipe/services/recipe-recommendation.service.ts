@@ -0,0 +1,347 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ElasticsearchService, ElasticsearchRecipe, IngredientExclusion } from '../../elasticsearch/elasticsearch.service';
+import { RecipeTransformUtil } from '../../langchain/utils/recipe-transform.util';
+import { RecipeLanguage } from '../../langchain/types/langchain.types';
+import { RecipeRecommendationRequest } from '../interfaces/recipe.interface';
+import { RecipeInteractionService } from './recipe-interaction.service';
+import { RecipeEventService } from './recipe-event.service';
+import { AllergenService } from '../../allergen/allergen.service';
+import type { Recipe } from '../recipe.service';
+
+export type RecommendationStrategy = NonNullable<RecipeRecommendationRequest['basedOn']>;
+
+export interface RecommendationOptions extends Omit<RecipeRecommendationRequest, 'userId'> {
+  userId?: string;
+  allergies?: string[];
+  preferences?: string[];
+}
+
+/**
+ * 전략별 검색 옵션 (알레르기를 재료명으로 펼친 제외 목록 포함)
+ */
+interface StrategyOptions extends RecommendationOptions {
+  exclusions: IngredientExclusion[];
+  lang: RecipeLanguage;
+}
+
+export interface RecommendedRecipe extends Recipe {
+  recommendation: {
+    strategy: RecommendationStrategy;
+    reason: string;
+    score: number;
+  };
+}
+
+/**
+ * 🎯 레시피 추천 엔진
+ * 선호도/이력/유사 사용자/트렌드 전략별로 후보를 만들고, 전략 미지정 시 교차 병합
+ */
+@Injectable()
+export class RecipeRecommendationService {
+  private readonly logger = new Logger(RecipeRecommendationService.name);
+  private static readonly HISTORY_SAMPLE_SIZE = 20;
+  private static readonly HISTORY_TOP_TERMS = 5;
+  private static readonly ALLERGY_OVERFETCH_FACTOR = 2;
+  private static readonly MAX_FETCH_ROUNDS = 3;
+
+  // 추천 사유 문장 (언어별)
+  private static readonly MESSAGES = {
+    ko: {
+      preferences: (preferences: string) => `선호하시는 ${preferences} 취향에 맞는 레시피`,
+      history: (terms: string) => `즐겨 찾으신 ${terms} 레시피와 비슷해요`,
+      similarUsers: (count: number) => `취향이 비슷한 사용자 ${count}명이 좋아한 레시피`,
+      popular: '많은 사용자가 찾은 인기 레시피',
+      trending: '이번 주 조회·북마크·요리 기록이 많은 레시피',
+    },
+    en: {
+      preferences: (preferences: string) => `Matches your taste for ${preferences}`,
+      history: (terms: string) => `Similar to the ${terms} recipes you often choose`,
+      similarUsers: (count: number) => `Liked by ${count} ${count === 1 ? 'user' : 'users'} with similar taste`,
+      popular: 'Popular with many users',
+      trending: 'Most viewed, bookmarked and cooked this week',
+    },
+  };
+
+  constructor(
+    private readonly elasticsearchService: ElasticsearchService,
+    private readonly recipeInteractionService: RecipeInteractionService,
+    private readonly recipeEventService: RecipeEventService,
+    private readonly allergenService: AllergenService,
+  ) {}
+
+  /**
+   * 추천 레시피 생성
+   */
+  async recommend(options: RecommendationOptions): Promise<RecommendedRecipe[]> {
+    const limit = options.limit ?? 10;
+    const strategies = this.selectStrategies(options);
+    this.logger.log(`🎯 Recommending ${limit} recipes for ${options.userId || 'anonymous'} using [${strategies.join(', ')}]`);
+
+    // 전략별 검색에는 알레르기 분류를 재료명으로 펼친 목록을 사용
+    const searchOptions: StrategyOptions = {
+      ...options,
+      exclusions: this.allergenService.expandExclusions(options.allergies),
+      lang: options.lang ?? 'ko',
+    };
+
+    const candidateLists: RecommendedRecipe[][] = [];
+    for (const strategy of strategies) {
+      try {
+        candidateLists.push(await this.collectSafeCandidates(strategy, searchOptions, limit));
+      } catch (error) {
+        this.logger.warn(`⚠️ Recommendation strategy ${strategy} failed:`, error instanceof Error ? error.message : error);
+        candidateLists.push([]);
+      }
+    }
+
+    return this.interleave(candidateLists, limit);
+  }
+
+  private selectStrategies(options: RecommendationOptions): RecommendationStrategy[] {
+    if (options.basedOn) {
+      return [options.basedOn];
+    }
+    if (options.userId) {
+      return ['history', 'preferences', 'similar_users', 'trending'];
+    }
+    return ['preferences', 'trending'];
+  }
+
+  /**
+   * 알레르기 재검사를 통과한 전략 후보 (limit 개가 안 되면 더 크게 다시 조회, 최대 MAX_FETCH_ROUNDS 회)
+   * 후보가 더 없거나 조회 횟수를 넘기면 limit 보다 적게 반환
+   */
+  private async collectSafeCandidates(
+    strategy: RecommendationStrategy,
+    options: StrategyOptions,
+    limit: number
+  ): Promise<RecommendedRecipe[]> {
+    let size = options.exclusions.length > 0 ? limit * RecipeRecommendationService.ALLERGY_OVERFETCH_FACTOR : limit;
+    for (let round = 1; ; round++) {
+      const candidates = await this.runStrategy(strategy, options, size);
+      const { recipes: safe } = this.allergenService.filterRecipes(
+        candidates,
+        recipe => ({ id: recipe.id, name: recipe.title, ingredients: recipe.ingredients }),
+        options.allergies,
+        options.lang
+      );
+
+      // 요청한 수보다 적게 왔으면 더 가져올 후보가 없음
+      if (safe.length >= limit || candidates.length < size || round >= RecipeRecommendationService.MAX_FETCH_ROUNDS) {
+        return safe;
+      }
+      size *= RecipeRecommendationService.ALLERGY_OVERFETCH_FACTOR;
+    }
+  }
+
+  private async runStrategy(
+    strategy: RecommendationStrategy,
+    options: StrategyOptions,
+    limit: number
+  ): Promise<RecommendedRecipe[]> {
+    switch (strategy) {
+      case 'preferences':
+        return this.recommendByPreferences(options, limit);
+      case 'history':
+        return this.recommendByHistory(options, limit);
+      case 'similar_users':
+        return this.recommendBySimilarUsers(options, limit);
+      case 'trending':
+        return this.recommendByTrending(options, limit);
+    }
+  }
+
+  /**
+   * 프로필 선호도(선호 태그/카테고리) 기반
+   */
+  private async recommendByPreferences(options: StrategyOptions, limit: number): Promise<RecommendedRecipe[]> {
+    const preferences = options.preferences ?? [];
+    if (preferences.length === 0) {
+      return [];
+    }
+
+    const { recipes } = await this.elasticsearchService.searchRecipesWithFilters({
+      query: preferences.join(' '),
+      preferences,
+      excludeIds: options.excludeRecipeIds,
+      excludeIngredients: options.exclusions,
+      size: limit,
+    });
+
+    const reason = RecipeRecommendationService.MESSAGES[options.lang].preferences(preferences.join(', '));
+    return this.toRecommendations(recipes, 'preferences', options.lang, () => reason);
+  }
+
+  /**
+   * 북마크/평점/요리 이력 기반 (자주 찾은 태그·카테고리와 비슷한 레시피)
+   */
+  private async recommendByHistory(options: StrategyOptions, limit: number): Promise<RecommendedRecipe[]> {
+    if (!options.userId) {
+      return [];
+    }
+
+    const engagedIds = await this.recipeInteractionService.getPositivelyEngagedRecipeIds(
+      options.userId,
+      RecipeRecommendationService.HISTORY_SAMPLE_SIZE
+    );
+    if (engagedIds.length === 0) {
+      return [];
+    }
+
+    const engagedRecipes = await this.elasticsearchService.getRecipesByIds(engagedIds);
+    const topTerms = this.extractTopTerms(engagedRecipes);
+    if (topTerms.length === 0) {
+      return [];
+    }
+
+    const { recipes } = await this.elasticsearchService.searchRecipesWithFilters({
+      query: topTerms.join(' '),
+      preferences: topTerms,
+      excludeIds: [...engagedIds, ...(options.excludeRecipeIds ?? [])],
+      excludeIngredients: options.exclusions,
+      size: limit,
+    });
+
+    return this.toRecommendations(recipes, 'history', options.lang, recipe => {
+      const matched = topTerms.filter(term => recipe.tags.includes(term) || recipe.category === term);
+      return RecipeRecommendationService.MESSAGES[options.lang].history((matched.length > 0 ? matched : topTerms.slice(0, 2)).join(', '));
+    });
+  }
+
+  /**
+   * 비슷한 취향의 사용자들이 좋아한 레시피
+   */
+  private async recommendBySimilarUsers(options: StrategyOptions, limit: number): Promise<RecommendedRecipe[]> {
+    if (!options.userId) {
+      return [];
+    }
+
+    const engagedIds = await this.recipeInteractionService.getPositivelyEngagedRecipeIds(options.userId);
+    const candidates = await this.recipeInteractionService.getRecipesLikedBySimilarUsers(
+      options.userId,
+      engagedIds,
+      limit * 2
+    );
+    const excluded = new Set(options.excludeRecipeIds ?? []);
+    const ranked = candidates.filter(candidate => !excluded.has(candidate.recipeId));
+    if (ranked.length === 0) {
+      return [];
+    }
+
+    const userCounts = new Map(ranked.map(candidate => [candidate.recipeId, candidate.userCount]));
+    const recipes = await this.fetchAllowedRecipes(ranked.map(candidate => candidate.recipeId), options);
+
+    return recipes.slice(0, limit).map(recipe => {
+      const userCount = userCounts.get(recipe.id) ?? 0;
+      return {
+        ...RecipeTransformUtil.transformRecipe(recipe, options.lang),
+        recommendation: {
+          strategy: 'similar_users' as const,
+          reason: RecipeRecommendationService.MESSAGES[options.lang].similarUsers(userCount),
+          score: userCount,
+        },
+      };
+    });
+  }
+
+  /**
+   * 최근 1주일 참여 점수가 높은 트렌드 레시피 (이벤트가 없으면 누적 인기순)
+   */
+  private async recommendByTrending(options: StrategyOptions, limit: number): Promise<RecommendedRecipe[]> {
+    const excluded = new Set(options.excludeRecipeIds ?? []);
+    const trending = (await this.recipeEventService.rankByEngagement('week', limit * 2))
+      .filter(item => !excluded.has(item.recipeId));
+
+    if (trending.length === 0) {
+      const { recipes } = await this.elasticsearchService.searchRecipesWithFilters({
+        excludeIds: options.excludeRecipeIds,
+        excludeIngredients: options.exclusions,
+        sortBy: 'popularity',
+        size: limit,
+      });
+      return this.toRecommendations(recipes, 'trending', options.lang, () => RecipeRecommendationService.MESSAGES[options.lang].popular);
+    }
+
+    const scores = new Map(trending.map(item => [item.recipeId, item.score]));
+    const recipes = await this.fetchAllowedRecipes(trending.map(item => item.recipeId), options);
+
+    return recipes.slice(0, limit).map(recipe => ({
+      ...RecipeTransformUtil.transformRecipe(recipe, options.lang),
+      recommendation: {
+        strategy: 'trending' as const,
+        reason: RecipeRecommendationService.MESSAGES[options.lang].trending,
+        score: scores.get(recipe.id) ?? 0,
+      },
+    }));
+  }
+
+  /**
+   * 후보 ID 중 알레르기 조건을 통과한 레시피를 후보 순서대로 조회
+   */
+  private async fetchAllowedRecipes(ids: string[], options: StrategyOptions): Promise<ElasticsearchRecipe[]> {
+    const { recipes } = await this.elasticsearchService.searchRecipesWithFilters({
+      ids,
+      excludeIngredients: options.exclusions,
+      size: ids.length,
+    });
+    const order = new Map(ids.map((id, index) => [id, index]));
+    return recipes.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+  }
+
+  /**
+   * 이력 레시피에서 가장 자주 등장한 태그/카테고리
+   */
+  private extractTopTerms(recipes: ElasticsearchRecipe[]): string[] {
+    const counts = new Map<string, number>();
+    recipes.forEach(recipe => {
+      [...(recipe.tags ?? []), ...(recipe.category ? [recipe.category] : [])].forEach(term => {
+        counts.set(term, (counts.get(term) ?? 0) + 1);
+      });
+    });
+
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, RecipeRecommendationService.HISTORY_TOP_TERMS)
+      .map(([term]) => term);
+  }
+
+  private toRecommendations(
+    recipes: ElasticsearchRecipe[],
+    strategy: RecommendationStrategy,
+    lang: RecipeLanguage,
+    reason: (recipe: Recipe) => string
+  ): RecommendedRecipe[] {
+    return recipes.map((esRecipe, index) => {
+      const recipe = RecipeTransformUtil.transformRecipe(esRecipe, lang);
+      return {
+        ...recipe,
+        recommendation: {
+          strategy,
+          reason: reason(recipe),
+          score: Math.round((1 - index / recipes.length) * 100) / 100,
+        },
+      };
+    });
+  }
+
+  /**
+   * 전략별 후보를 번갈아 병합 (중복 제거)
+   */
+  private interleave(candidateLists: RecommendedRecipe[][], limit: number): RecommendedRecipe[] {
+    const results: RecommendedRecipe[] = [];
+    const seen = new Set<string>();
+    const maxLength = Math.max(0, ...candidateLists.map(list => list.length));
+
+    for (let i = 0; i < maxLength && results.length < limit; i++) {
+      for (const list of candidateLists) {
+        const candidate = list[i];
+        if (candidate && !seen.has(candidate.id) && results.length < limit) {
+          seen.add(candidate.id);
+          results.push(candidate);
+        }
+      }
+    }
+
+    return results;
+  }
+}
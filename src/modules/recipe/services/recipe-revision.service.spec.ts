@@ -0,0 +1,130 @@
+import { ElasticsearchService } from '../../elasticsearch/elasticsearch.service';
+import { RecipeRevisionEntry, RecipeRevisionService } from './recipe-revision.service';
+
+describe('RecipeRevisionService', () => {
+  let documents: Map<string, any>;
+  let elasticsearchService: any;
+  let service: RecipeRevisionService;
+
+  const entry = (recipeId: string, nameKo: string): RecipeRevisionEntry => ({
+    recipeId,
+    action: 'update',
+    author: 'alice',
+    before: { nameKo: '김치찌개' },
+    after: { nameKo },
+  });
+
+  // 리비전 인덱스를 흉내 내는 create (같은 ID 는 409)
+  const createDocuments = async (_index: string, items: Array<{ id: string; document: any }>) =>
+    items.map(({ id, document }) => {
+      if (documents.has(id)) return { id, status: 409, error: 'version_conflict_engine_exception: document already exists' };
+      documents.set(id, document);
+      return { id, status: 201 };
+    });
+
+  // 레시피별 최대 리비전 번호 집계
+  const latestRevisions = async () => {
+    const latest = new Map<string, number>();
+    documents.forEach(document => latest.set(document.recipeId, Math.max(latest.get(document.recipeId) ?? 0, document.revision)));
+    return {
+      documents: [],
+      total: 0,
+      aggregations: { recipes: { buckets: [...latest].map(([key, value]) => ({ key, latest: { value } })) } },
+    };
+  };
+
+  beforeEach(() => {
+    documents = new Map();
+    elasticsearchService = {
+      bulkCreateDocuments: jest.fn(createDocuments),
+      searchDocuments: jest.fn(latestRevisions),
+    };
+    service = new RecipeRevisionService(elasticsearchService as ElasticsearchService);
+  });
+
+  describe('recordRevisions', () => {
+    it('numbers revisions after the latest one of each recipe', async () => {
+      await service.recordRevision(entry('r1', '김치찌개 1'));
+
+      const result = await service.recordRevisions([entry('r1', '김치찌개 2'), entry('r2', '된장찌개'), entry('r1', '김치찌개 3')]);
+
+      expect(result).toEqual({
+        recorded: [{ recipeId: 'r1', revision: 2 }, { recipeId: 'r2', revision: 1 }, { recipeId: 'r1', revision: 3 }],
+        failed: [],
+      });
+      expect(JSON.parse(documents.get('r1:2').changes)).toEqual([
+        { field: 'nameKo', type: 'changed', before: '김치찌개', after: '김치찌개 2' },
+      ]);
+    });
+
+    it('does not overwrite a revision another edit wrote first', async () => {
+      // 두 수정이 같은 최신 번호를 읽은 상황: 집계는 아직 r1:1 을 보지 못함
+      elasticsearchService.searchDocuments.mockResolvedValueOnce({ documents: [], total: 0, aggregations: { recipes: { buckets: [] } } });
+      documents.set('r1:1', { recipeId: 'r1', revision: 1, changes: '[]' });
+
+      const result = await service.recordRevision(entry('r1', '김치찌개 2'));
+
+      expect(result).toEqual({ recorded: [{ recipeId: 'r1', revision: 2 }], failed: [] });
+      expect(documents.get('r1:1')).toMatchObject({ changes: '[]' });
+      expect(elasticsearchService.bulkCreateDocuments).toHaveBeenCalledTimes(2);
+    });
+
+    it('retries with the next number even when the latest revision is not searchable yet', async () => {
+      elasticsearchService.searchDocuments.mockResolvedValue({ documents: [], total: 0, aggregations: { recipes: { buckets: [] } } });
+      documents.set('r1:1', { recipeId: 'r1', revision: 1 });
+      documents.set('r1:2', { recipeId: 'r1', revision: 2 });
+
+      const result = await service.recordRevision(entry('r1', '김치찌개 3'));
+
+      expect(result.recorded).toEqual([{ recipeId: 'r1', revision: 3 }]);
+    });
+
+    it('reports revisions that could not be written', async () => {
+      elasticsearchService.bulkCreateDocuments.mockResolvedValueOnce([
+        { id: 'r1:1', status: 201 },
+        { id: 'r2:1', status: 400, error: 'mapper_parsing_exception: failed to parse' },
+      ]);
+
+      const result = await service.recordRevisions([entry('r1', '김치찌개 2'), entry('r2', '된장찌개')]);
+
+      expect(result).toEqual({
+        recorded: [{ recipeId: 'r1', revision: 1 }],
+        failed: [{ recipeId: 'r2', error: 'mapper_parsing_exception: failed to parse' }],
+      });
+    });
+
+    it('reports every entry when the index cannot be reached', async () => {
+      elasticsearchService.searchDocuments.mockRejectedValue(new Error('es unavailable'));
+
+      const result = await service.recordRevisions([entry('r1', '김치찌개 2'), entry('r2', '된장찌개')]);
+
+      expect(result.failed).toEqual([
+        { recipeId: 'r1', error: 'es unavailable' },
+        { recipeId: 'r2', error: 'es unavailable' },
+      ]);
+    });
+
+    it('gives up after repeated conflicts', async () => {
+      elasticsearchService.bulkCreateDocuments.mockImplementation(async (_index: string, items: Array<{ id: string }>) =>
+        items.map(({ id }) => ({ id, status: 409, error: 'version_conflict_engine_exception' }))
+      );
+
+      const result = await service.recordRevision(entry('r1', '김치찌개 2'));
+
+      expect(result.failed).toEqual([{ recipeId: 'r1', error: 'version_conflict_engine_exception' }]);
+      expect(elasticsearchService.bulkCreateDocuments).toHaveBeenCalledTimes(5);
+    });
+  });
+
+  describe('diffSnapshots', () => {
+    it('compares list items by position and objects by key', () => {
+      expect(service.diffSnapshots(
+        { ingredientsKo: ['김치', '두부'], nutrition: { calories: 200 } },
+        { ingredientsKo: ['김치'], nutrition: { calories: 250 } }
+      )).toEqual([
+        { field: 'ingredientsKo[1]', type: 'removed', before: '두부' },
+        { field: 'nutrition.calories', type: 'changed', before: 200, after: 250 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,294 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ElasticsearchRecipe, ElasticsearchService } from '../../elasticsearch/elasticsearch.service';
+import {
+  RecipeFieldChange,
+  RecipeRevision,
+  RecipeRevisionAction,
+  RecipeRevisionDiff,
+  RecipeRevisionPage,
+  RecipeRevisionWriteResult,
+} from '../interfaces/recipe.interface';
+
+/**
+ * 리비전으로 남길 레시피 쓰기 (before/after 는 쓰기 전후의 레시피 문서)
+ */
+export interface RecipeRevisionEntry {
+  recipeId: string;
+  action: RecipeRevisionAction;
+  author?: string;
+  before: Partial<ElasticsearchRecipe> | null;
+  after: Partial<ElasticsearchRecipe> | null;
+  restoredFrom?: number;
+}
+
+/**
+ * Elasticsearch 에 저장되는 리비전 문서
+ * 변경 값은 필드마다 타입이 달라 동적 매핑이 충돌하므로 JSON 문자열로 저장
+ */
+interface StoredRecipeRevision extends Omit<RecipeRevision, 'changes'> {
+  changes: string;
+}
+
+/**
+ * 🕘 레시피 변경 이력
+ * recipes_new 에 대한 쓰기마다 작성자 입력 필드의 스냅샷과 필드 단위 변경 내역을 리비전으로 저장
+ * 집계 카운터, 타임스탬프, 식단 라벨처럼 서버가 계산하는 필드는 이력에 포함하지 않음
+ */
+@Injectable()
+export class RecipeRevisionService {
+  private readonly logger = new Logger(RecipeRevisionService.name);
+  private static readonly REVISION_INDEX = 'recipe_revisions';
+  private static readonly DEFAULT_AUTHOR = 'anonymous';
+  // 같은 번호를 다른 요청이 먼저 쓴 경우(409) 다음 번호로 다시 시도하는 횟수
+  private static readonly MAX_WRITE_ATTEMPTS = 5;
+
+  private static readonly UNTRACKED_FIELDS: ReadonlyArray<keyof ElasticsearchRecipe> = [
+    'id', 'createdAt', 'updatedAt', 'bookmarkCount', 'averageRating', 'ratingCount', 'viewCount', 'dietaryLabels',
+  ];
+
+  constructor(private readonly elasticsearchService: ElasticsearchService) {}
+
+  /**
+   * 리비전 한 건 기록
+   */
+  async recordRevision(entry: RecipeRevisionEntry): Promise<RecipeRevisionWriteResult> {
+    return this.recordRevisions([entry]);
+  }
+
+  /**
+   * 리비전 일괄 기록 (레시피별 마지막 번호 다음부터)
+   * 번호는 create 로 써서 동시에 들어온 수정이 서로 덮어쓰지 않고, 충돌하면 다음 번호로 다시 시도
+   * 이미 끝난 레시피 쓰기는 되돌리지 않으므로 기록하지 못한 리비전은 결과로 돌려줌
+   */
+  async recordRevisions(entries: RecipeRevisionEntry[]): Promise<RecipeRevisionWriteResult> {
+    const result: RecipeRevisionWriteResult = { recorded: [], failed: [] };
+    if (entries.length === 0) return result;
+
+    const timestamp = new Date().toISOString();
+    const lastTried = new Map<string, number>();
+    let pending = entries;
+
+    try {
+      for (let attempt = 1; pending.length > 0; attempt++) {
+        const nextNumbers = await this.nextRevisionNumbers(pending.map(entry => entry.recipeId), lastTried);
+        const items = pending.map(entry => {
+          const revision = nextNumbers.get(entry.recipeId) ?? 1;
+          nextNumbers.set(entry.recipeId, revision + 1);
+          lastTried.set(entry.recipeId, Math.max(lastTried.get(entry.recipeId) ?? 0, revision));
+          return { entry, id: this.revisionId(entry.recipeId, revision), document: this.toStored(entry, revision, timestamp) };
+        });
+
+        const results = await this.elasticsearchService.bulkCreateDocuments(RecipeRevisionService.REVISION_INDEX, items);
+        const conflicts: RecipeRevisionEntry[] = [];
+        items.forEach(({ entry, document }, index) => {
+          const item = results[index];
+          if (item && item.status < 300) {
+            result.recorded.push({ recipeId: entry.recipeId, revision: document.revision });
+          } else if (item?.status === 409 && attempt < RecipeRevisionService.MAX_WRITE_ATTEMPTS) {
+            conflicts.push(entry);
+          } else {
+            result.failed.push({ recipeId: entry.recipeId, error: item?.error ?? 'Revision write failed' });
+          }
+        });
+        pending = conflicts;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.failed.push(...pending.map(entry => ({ recipeId: entry.recipeId, error: message })));
+    }
+
+    if (result.recorded.length > 0) {
+      this.logger.log(`🕘 Recorded ${result.recorded.length} recipe revision(s): ${result.recorded.slice(0, 5).map(item => this.revisionId(item.recipeId, item.revision)).join(', ')}`);
+    }
+    if (result.failed.length > 0) {
+      this.logger.warn(`⚠️ Failed to record revisions for ${result.failed.map(item => item.recipeId).slice(0, 5).join(', ')}:`, result.failed[0]?.error);
+    }
+    return result;
+  }
+
+  /**
+   * 레시피의 리비전 목록 (최신순, 스냅샷 제외)
+   */
+  async listRevisions(recipeId: string, page: number = 1, limit: number = 20): Promise<RecipeRevisionPage> {
+    const { documents, total } = await this.elasticsearchService.searchDocuments<StoredRecipeRevision>(
+      RecipeRevisionService.REVISION_INDEX,
+      {
+        query: { term: { 'recipeId.keyword': recipeId } },
+        sort: [{ revision: { order: 'desc' } }],
+        _source: { excludes: ['snapshot'] },
+        from: (page - 1) * limit,
+        size: limit,
+      }
+    );
+
+    const totalPages = Math.ceil(total / limit);
+    return {
+      recipeId,
+      revisions: documents.map(document => this.fromStored(document)),
+      total,
+      page,
+      limit,
+      hasMore: page < totalPages,
+      totalPages,
+    };
+  }
+
+  /**
+   * 리비전 한 건 (스냅샷 포함)
+   */
+  async getRevision(recipeId: string, revision: number): Promise<RecipeRevision> {
+    const stored = await this.elasticsearchService.getDocument<StoredRecipeRevision>(
+      RecipeRevisionService.REVISION_INDEX,
+      this.revisionId(recipeId, revision)
+    );
+    if (!stored) {
+      throw new NotFoundException(`Revision not found: ${recipeId}@${revision}`);
+    }
+    return { ...this.fromStored(stored), snapshot: stored.snapshot };
+  }
+
+  /**
+   * 두 리비전 스냅샷 비교 (from → to)
+   */
+  async diffRevisions(recipeId: string, from: number, to: number): Promise<RecipeRevisionDiff> {
+    const [fromRevision, toRevision] = await Promise.all([
+      this.getRevision(recipeId, from),
+      this.getRevision(recipeId, to),
+    ]);
+
+    return {
+      recipeId,
+      from,
+      to,
+      changes: this.diffSnapshots(fromRevision.snapshot, toRevision.snapshot),
+    };
+  }
+
+  /**
+   * 필드 단위 변경 내역
+   * 목록 필드는 순서(인덱스)별로, 영양 정보 같은 객체 필드는 키별로 비교
+   */
+  diffSnapshots(before: Record<string, any> | null, after: Record<string, any> | null): RecipeFieldChange[] {
+    const changes: RecipeFieldChange[] = [];
+    const previous = before ?? {};
+    const current = after ?? {};
+
+    const addChange = (field: string, oldValue: unknown, newValue: unknown) => {
+      if (JSON.stringify(oldValue) === JSON.stringify(newValue)) return;
+      if (oldValue === undefined) {
+        changes.push({ field, type: 'added', after: newValue });
+      } else if (newValue === undefined) {
+        changes.push({ field, type: 'removed', before: oldValue });
+      } else {
+        changes.push({ field, type: 'changed', before: oldValue, after: newValue });
+      }
+    };
+
+    const fields = [...new Set([...Object.keys(previous), ...Object.keys(current)])];
+    for (const field of fields) {
+      const oldValue = previous[field];
+      const newValue = current[field];
+
+      if (Array.isArray(oldValue) || Array.isArray(newValue)) {
+        const oldList = this.asList(oldValue);
+        const newList = this.asList(newValue);
+        for (let i = 0; i < Math.max(oldList.length, newList.length); i++) {
+          addChange(`${field}[${i}]`, oldList[i], newList[i]);
+        }
+      } else if (this.isPlainObject(oldValue) || this.isPlainObject(newValue)) {
+        const oldObject = this.isPlainObject(oldValue) ? oldValue : {};
+        const newObject = this.isPlainObject(newValue) ? newValue : {};
+        [...new Set([...Object.keys(oldObject), ...Object.keys(newObject)])].forEach(key =>
+          addChange(`${field}.${key}`, oldObject[key], newObject[key])
+        );
+      } else {
+        addChange(field, oldValue, newValue);
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * 레시피 문서 → 작성자 입력 필드 스냅샷
+   */
+  toSnapshot(recipe: Partial<ElasticsearchRecipe>): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(recipe).filter(([field, value]) =>
+        value !== undefined && !RecipeRevisionService.UNTRACKED_FIELDS.includes(field as keyof ElasticsearchRecipe)
+      )
+    );
+  }
+
+  /**
+   * 레시피별 다음 리비전 번호 (삭제 후 같은 ID로 다시 만든 레시피도 이어서 번호 부여)
+   * 충돌 후 다시 시도할 때는 집계가 아직 반영되지 않았어도 이미 시도한 번호 다음부터
+   */
+  private async nextRevisionNumbers(recipeIds: string[], lastTried: Map<string, number> = new Map()): Promise<Map<string, number>> {
+    const uniqueIds = [...new Set(recipeIds)];
+    const { aggregations } = await this.elasticsearchService.searchDocuments<StoredRecipeRevision>(
+      RecipeRevisionService.REVISION_INDEX,
+      {
+        size: 0,
+        query: { terms: { 'recipeId.keyword': uniqueIds } },
+        aggs: {
+          recipes: {
+            terms: { field: 'recipeId.keyword', size: uniqueIds.length },
+            aggs: { latest: { max: { field: 'revision' } } },
+          },
+        },
+      }
+    );
+
+    const latest = new Map<string, number>(
+      (aggregations?.recipes?.buckets ?? []).map((bucket: any) => [bucket.key, (bucket.latest?.value ?? 0) + 1])
+    );
+    return new Map(uniqueIds.map(id => [id, Math.max(latest.get(id) ?? 1, (lastTried.get(id) ?? 0) + 1)]));
+  }
+
+  private toStored(entry: RecipeRevisionEntry, revision: number, timestamp: string): StoredRecipeRevision {
+    const before = entry.before ? this.toSnapshot(entry.before) : null;
+    const after = entry.after ? this.toSnapshot(entry.after) : null;
+    return {
+      recipeId: entry.recipeId,
+      revision,
+      action: entry.action,
+      author: entry.author?.trim() || RecipeRevisionService.DEFAULT_AUTHOR,
+      timestamp,
+      changes: JSON.stringify(this.diffSnapshots(before, after)),
+      snapshot: after,
+      ...(entry.restoredFrom !== undefined ? { restoredFrom: entry.restoredFrom } : {}),
+    };
+  }
+
+  private fromStored(stored: Omit<StoredRecipeRevision, 'snapshot'>): Omit<RecipeRevision, 'snapshot'> {
+    let changes: RecipeFieldChange[] = [];
+    try {
+      changes = JSON.parse(stored.changes);
+    } catch {
+      this.logger.warn(`⚠️ Unreadable changes in revision ${stored.recipeId}@${stored.revision}`);
+    }
+    return {
+      recipeId: stored.recipeId,
+      revision: stored.revision,
+      action: stored.action,
+      author: stored.author,
+      timestamp: stored.timestamp,
+      changes,
+      ...(stored.restoredFrom !== undefined ? { restoredFrom: stored.restoredFrom } : {}),
+    };
+  }
+
+  private revisionId(recipeId: string, revision: number): string {
+    return `${recipeId}:${revision}`;
+  }
+
+  private asList(value: unknown): unknown[] {
+    if (Array.isArray(value)) return value;
+    return value === undefined ? [] : [value];
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,52 @@
+import { RecipeImportUtil } from './recipe-import.util';
+
+describe('RecipeImportUtil', () => {
+  describe('parseJsonLines', () => {
+    it('parses objects, skips blank lines and reports bad lines by line number', () => {
+      const rows = RecipeImportUtil.parseJsonLines('{"nameKo":"김치찌개"}\n\n[1,2]\n{broken');
+
+      expect(rows).toEqual([
+        { row: 1, data: { nameKo: '김치찌개' } },
+        { row: 3, error: 'Line is not a JSON object' },
+        { row: 4, error: expect.any(String) },
+      ]);
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('splits list columns, converts numbers and groups nutrition columns', () => {
+      const csv = '\uFEFFnameKo,ingredientsKo,servings,calories,nutrition.protein\n' +
+        '김치찌개,김치 200g|돼지고기 100g,2,250,18\n';
+
+      expect(RecipeImportUtil.parseCsv(csv)).toEqual([{
+        row: 2,
+        data: {
+          nameKo: '김치찌개',
+          ingredientsKo: ['김치 200g', '돼지고기 100g'],
+          servings: 2,
+          nutrition: { calories: 250, protein: 18 },
+        },
+      }]);
+    });
+
+    it('supports quoted fields with commas, newlines and escaped quotes', () => {
+      const csv = 'nameKo,descriptionKo,stepsKo\n"떡볶이","매콤, ""달콤""\n간식","[""떡을 불린다"",""끓인다""]"\n';
+
+      expect(RecipeImportUtil.parseCsv(csv)[0]?.data).toEqual({
+        nameKo: '떡볶이',
+        descriptionKo: '매콤, "달콤"\n간식',
+        stepsKo: ['떡을 불린다', '끓인다'],
+      });
+    });
+
+    it('keeps non-numeric values for validation and reports column count mismatches', () => {
+      const rows = RecipeImportUtil.parseCsv('nameKo,servings\n김치찌개,two\n불고기\n"미완성');
+
+      expect(rows).toEqual([
+        { row: 2, data: { nameKo: '김치찌개', servings: 'two' } },
+        { row: 3, error: 'Expected 2 columns but found 1' },
+        { row: 4, error: 'Unterminated quoted field' },
+      ]);
+    });
+  });
+});
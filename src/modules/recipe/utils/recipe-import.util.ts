@@ -0,0 +1,163 @@
+/**
+ * 가져오기 파일의 한 행 (파싱 실패 시 error 포함)
+ */
+export interface ParsedImportRow {
+  row: number;
+  data?: Record<string, unknown>;
+  error?: string;
+}
+
+/**
+ * JSON Lines / CSV 레시피 파일 파싱 유틸리티
+ */
+export class RecipeImportUtil {
+  private static readonly LIST_COLUMNS = ['ingredientsKo', 'ingredientsEn', 'stepsKo', 'stepsEn', 'tags'];
+  private static readonly NUMBER_COLUMNS = ['cookingTime', 'servings'];
+  private static readonly NUTRITION_COLUMNS = ['calories', 'protein', 'carbs', 'fat'];
+  // CSV 목록 칸 구분자 (JSON 배열 문자열도 허용)
+  private static readonly LIST_SEPARATOR = '|';
+
+  /**
+   * JSON Lines 파싱 (빈 줄은 건너뜀, 행 번호는 파일 줄 번호)
+   */
+  static parseJsonLines(content: string): ParsedImportRow[] {
+    const rows: ParsedImportRow[] = [];
+
+    content.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+
+      try {
+        const data = JSON.parse(line);
+        if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+          rows.push({ row: index + 1, error: 'Line is not a JSON object' });
+        } else {
+          rows.push({ row: index + 1, data });
+        }
+      } catch (error) {
+        rows.push({ row: index + 1, error: error instanceof Error ? error.message : 'Invalid JSON' });
+      }
+    });
+
+    return rows;
+  }
+
+  /**
+   * CSV 파싱 (첫 행은 헤더, 행 번호는 데이터 시작 줄 번호)
+   * 목록 칸은 "|" 로 구분하거나 JSON 배열, 영양 정보는 calories 또는 nutrition.calories 열
+   */
+  static parseCsv(content: string): ParsedImportRow[] {
+    const [headerRecord, ...dataRecords] = this.splitCsvRecords(content.replace(/^\uFEFF/, ''));
+    if (!headerRecord) return [];
+
+    const header = headerRecord.fields.map(column => column.trim());
+
+    return dataRecords
+      .filter(record => record.fields.some(field => field.trim() !== ''))
+      .map(record => {
+        if (record.error) {
+          return { row: record.line, error: record.error };
+        }
+        if (record.fields.length !== header.length) {
+          return { row: record.line, error: `Expected ${header.length} columns but found ${record.fields.length}` };
+        }
+
+        try {
+          return { row: record.line, data: this.toRecord(header, record.fields) };
+        } catch (error) {
+          return { row: record.line, error: error instanceof Error ? error.message : 'Invalid row' };
+        }
+      });
+  }
+
+  private static toRecord(header: string[], fields: string[]): Record<string, unknown> {
+    const data: Record<string, unknown> = {};
+    const nutrition: Record<string, unknown> = {};
+
+    header.forEach((column, index) => {
+      const value = (fields[index] ?? '').trim();
+      if (value === '') return;
+
+      const nutritionKey = column.startsWith('nutrition.') ? column.slice('nutrition.'.length) : column;
+      if (column === 'nutrition') {
+        Object.assign(nutrition, JSON.parse(value));
+      } else if (this.NUTRITION_COLUMNS.includes(nutritionKey)) {
+        nutrition[nutritionKey] = this.toNumber(value);
+      } else if (this.LIST_COLUMNS.includes(column)) {
+        data[column] = value.startsWith('[')
+          ? JSON.parse(value)
+          : value.split(this.LIST_SEPARATOR).map(item => item.trim()).filter(item => item.length > 0);
+      } else if (this.NUMBER_COLUMNS.includes(column)) {
+        data[column] = this.toNumber(value);
+      } else {
+        data[column] = value;
+      }
+    });
+
+    if (Object.keys(nutrition).length > 0) {
+      data.nutrition = nutrition;
+    }
+    return data;
+  }
+
+  // 숫자가 아니면 원문을 남겨 검증 단계에서 필드 오류로 보고
+  private static toNumber(value: string): number | string {
+    const parsed = Number(value);
+    return Number.isNaN(parsed) ? value : parsed;
+  }
+
+  /**
+   * RFC 4180 방식 레코드 분리 (따옴표 안의 쉼표/줄바꿈, "" 이스케이프 지원)
+   */
+  private static splitCsvRecords(content: string): Array<{ line: number; fields: string[]; error?: string }> {
+    const records: Array<{ line: number; fields: string[]; error?: string }> = [];
+    let fields: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let line = 1;
+    let recordLine = 1;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          if (char === '\n') line++;
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        fields.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        fields.push(field);
+        records.push({ line: recordLine, fields });
+        fields = [];
+        field = '';
+        line++;
+        recordLine = line;
+      } else {
+        field += char;
+      }
+    }
+
+    if (inQuotes) {
+      fields.push(field);
+      records.push({ line: recordLine, fields, error: 'Unterminated quoted field' });
+    } else if (field !== '' || fields.length > 0) {
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+    }
+
+    return records;
+  }
+}
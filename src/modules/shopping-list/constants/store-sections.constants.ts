@@ -0,0 +1,67 @@
+/**
+ * 장보기 목록 매장 코너 (출력 순서대로)
+ */
+export const STORE_SECTIONS: Array<{ name: string; keywords: string[] }> = [
+  {
+    name: '채소',
+    keywords: [
+      '양파', '대파', '쪽파', '실파', '파', '마늘', '생강', '감자', '고구마', '당근', '애호박', '호박', '고추', '파프리카', '피망',
+      '배추', '양배추', '시금치', '버섯', '토마토', '오이', '상추', '깻잎', '무', '콩나물', '숙주', '부추', '브로콜리', '가지',
+      '셀러리', '양상추', '미나리', 'onion', 'garlic', 'ginger', 'potato', 'carrot', 'zucchini', 'pepper', 'cabbage', 'spinach',
+      'mushroom', 'tomato', 'cucumber', 'lettuce', 'broccoli',
+    ],
+  },
+  {
+    name: '과일',
+    keywords: ['사과', '배', '레몬', '라임', '바나나', '딸기', '블루베리', '키위', '오렌지', 'apple', 'lemon', 'lime', 'banana', 'strawberry'],
+  },
+  {
+    name: '육류',
+    keywords: [
+      '돼지고기', '돼지', '삼겹살', '목살', '소고기', '쇠고기', '한우', '등심', '갈비', '닭고기', '닭가슴살', '닭다리', '닭', '다짐육',
+      '베이컨', '햄', '소시지', 'pork', 'beef', 'chicken', 'bacon', 'ham', 'sausage',
+    ],
+  },
+  {
+    name: '해산물',
+    keywords: [
+      '새우', '오징어', '고등어', '연어', '참치', '조개', '바지락', '홍합', '멸치', '어묵', '낙지', '문어', '게', '굴', '명태', '황태',
+      '미역', '다시마', 'shrimp', 'squid', 'mackerel', 'salmon', 'tuna', 'clam', 'mussel', 'anchovy',
+    ],
+  },
+  {
+    name: '유제품·달걀',
+    keywords: ['우유', '치즈', '버터', '생크림', '요거트', '달걀', '계란', 'milk', 'cheese', 'butter', 'cream', 'yogurt', 'egg'],
+  },
+  {
+    name: '두부·콩',
+    keywords: ['두부', '순두부', '콩', '병아리콩', 'tofu', 'bean'],
+  },
+  {
+    name: '곡류·면·떡',
+    keywords: [
+      '쌀', '밥', '찹쌀', '밀가루', '부침가루', '튀김가루', '빵가루', '전분', '국수', '소면', '라면', '우동', '당면', '파스타',
+      '스파게티', '면', '떡', '빵', 'rice', 'flour', 'pasta', 'noodle', 'spaghetti', 'bread',
+    ],
+  },
+  {
+    name: '양념',
+    keywords: [
+      '소금', '설탕', '간장', '고추장', '된장', '쌈장', '고춧가루', '후추', '식초', '맛술', '미림', '굴소스', '참기름', '들기름',
+      '식용유', '올리브유', '올리브오일', '깨', '꿀', '물엿', '올리고당', '케첩', '마요네즈', '다시다', '액젓', '카레',
+      'salt', 'sugar', 'soy sauce', 'vinegar', 'oil', 'honey', 'ketchup', 'mayonnaise',
+    ],
+  },
+  {
+    name: '가공식품',
+    keywords: ['김치', '김', '단무지', '통조림', '스팸', 'kimchi'],
+  },
+];
+
+export const DEFAULT_STORE_SECTION = '기타';
+
+// 장볼 필요가 없는 재료
+export const NON_SHOPPING_INGREDIENTS = ['물', '찬물', '뜨거운물', '따뜻한물', '얼음물', '생수', 'water'];
+
+// 같은 재료로 합치기 위해 이름에서 제거하는 손질 표현 (단어 단위)
+export const PREPARATION_WORDS = ['다진', '채썬', '채', '썬', '송송', '삶은', '데친', '으깬', '간', '손질한', '불린', 'chopped', 'minced', 'sliced', 'diced'];
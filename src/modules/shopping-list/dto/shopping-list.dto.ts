@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { ArrayNotEmpty, IsArray, IsInt, IsNotEmpty, IsOptional, IsString, Max, Min, ValidateNested } from 'class-validator';
+
+export class ShoppingListRecipeDto {
+    @ApiProperty({ example: 'recipe_123' })
+    @IsString()
+    @IsNotEmpty()
+    recipeId!: string;
+
+    @ApiProperty({ required: false, minimum: 1, maximum: 50, description: 'Defaults to the recipe servings' })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(50)
+    servings?: number;
+}
+
+export class CreateShoppingListDto {
+    @ApiProperty({ type: [ShoppingListRecipeDto] })
+    @IsArray()
+    @ArrayNotEmpty()
+    @ValidateNested({ each: true })
+    @Type(() => ShoppingListRecipeDto)
+    recipes!: ShoppingListRecipeDto[];
+
+    @ApiProperty({ required: false, example: ['소금', '간장'], description: 'Ingredients the user already has' })
+    @IsOptional()
+    @IsArray()
+    @IsString({ each: true })
+    exclude?: string[];
+}
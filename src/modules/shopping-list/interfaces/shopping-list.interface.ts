@@ -0,0 +1,52 @@
+// Shopping list interface definitions
+
+export interface ShoppingListRecipeRequest {
+  recipeId: string;
+  servings?: number;
+}
+
+export interface ShoppingListRequest {
+  recipes: ShoppingListRecipeRequest[];
+  exclude?: string[];
+}
+
+export interface ShoppingListAmount {
+  quantity: number | null;
+  unit: string | null;
+  text: string;
+}
+
+export interface ShoppingListItemSource {
+  recipeId: string;
+  recipeName: string;
+  original: string;
+}
+
+export interface ShoppingListItem {
+  name: string;
+  section: string;
+  quantityText: string;
+  amounts: ShoppingListAmount[];
+  approximate: boolean;
+  sources: ShoppingListItemSource[];
+}
+
+export interface ShoppingListSection {
+  section: string;
+  items: ShoppingListItem[];
+}
+
+export interface ShoppingListRecipe {
+  recipeId: string;
+  name: string;
+  originalServings: number;
+  servings: number;
+}
+
+export interface ShoppingList {
+  recipes: ShoppingListRecipe[];
+  sections: ShoppingListSection[];
+  totalItems: number;
+  excludedItems: string[];
+  missingRecipeIds: string[];
+}
@@ -0,0 +1,37 @@
+import { Body, Controller, Post, Res } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import type { Response } from 'express';
+import { ShoppingListService } from './shopping-list.service';
+import { CreateShoppingListDto } from './dto/shopping-list.dto';
+import { ShoppingList } from './interfaces/shopping-list.interface';
+
+@ApiTags('Shopping List')
+@Controller('shopping-list')
+export class ShoppingListController {
+  constructor(private readonly shoppingListService: ShoppingListService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Build a consolidated shopping list from several recipes' })
+  @ApiResponse({ status: 201, description: 'Items merged across recipes and grouped by store section' })
+  @ApiResponse({ status: 404, description: 'None of the recipes were found' })
+  async createShoppingList(@Body() listDto: CreateShoppingListDto): Promise<ShoppingList> {
+    return this.shoppingListService.createShoppingList(listDto);
+  }
+
+  @Post('text')
+  @ApiOperation({ summary: 'Build a shopping list and export it as plain text' })
+  @ApiResponse({ status: 201, description: 'text/plain checklist' })
+  @ApiResponse({ status: 404, description: 'None of the recipes were found' })
+  async exportShoppingList(
+    @Body() listDto: CreateShoppingListDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<string> {
+    const list = await this.shoppingListService.createShoppingList(listDto);
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="shopping-list.txt"');
+    if (list.missingRecipeIds.length > 0) {
+      res.setHeader('X-Missing-Recipe-Ids', list.missingRecipeIds.join(','));
+    }
+    return this.shoppingListService.toPlainText(list);
+  }
+}
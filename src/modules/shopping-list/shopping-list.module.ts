@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ShoppingListController } from './shopping-list.controller';
+import { ShoppingListService } from './shopping-list.service';
+import { ElasticsearchModule } from '../elasticsearch/elasticsearch.module';
+import { ConversionModule } from '../conversion/conversion.module';
+
+@Module({
+  imports: [ElasticsearchModule, ConversionModule],
+  controllers: [ShoppingListController],
+  providers: [ShoppingListService],
+  exports: [ShoppingListService],
+})
+export class ShoppingListModule {}
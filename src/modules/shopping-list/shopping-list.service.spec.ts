@@ -0,0 +1,69 @@
+import { ConversionService } from '../conversion/conversion.service';
+import { ElasticsearchRecipe, ElasticsearchService } from '../elasticsearch/elasticsearch.service';
+import { ShoppingListService } from './shopping-list.service';
+
+describe('ShoppingListService', () => {
+  const recipes = [
+    {
+      id: 'r1',
+      nameKo: '제육볶음',
+      servings: 2,
+      ingredientsKo: ['돼지고기 300g', '다진 마늘 1큰술', '대파 1대', '파프리카 1개', '소금 약간', '물 1컵'],
+    },
+    {
+      id: 'r2',
+      nameKo: '나물무침',
+      servings: 2,
+      ingredientsKo: ['마늘 1작은술', '깨소금 1큰술', '파 1대'],
+    },
+  ] as ElasticsearchRecipe[];
+  let service: ShoppingListService;
+
+  beforeEach(() => {
+    const elasticsearchService = {
+      getRecipesByIds: jest.fn(async (ids: string[]) => recipes.filter(recipe => ids.includes(recipe.id))),
+    } as unknown as ElasticsearchService;
+    service = new ShoppingListService(elasticsearchService, new ConversionService());
+  });
+
+  const itemNames = (list: Awaited<ReturnType<ShoppingListService['createShoppingList']>>) =>
+    list.sections.flatMap(section => section.items.map(item => item.name));
+
+  it('merges the same ingredient across recipes and skips water', async () => {
+    const list = await service.createShoppingList({ recipes: [{ recipeId: 'r1' }, { recipeId: 'r2' }] });
+    const garlic = list.sections.flatMap(section => section.items).find(item => item.name === '마늘');
+
+    expect(garlic?.sources).toHaveLength(2);
+    expect(garlic?.amounts[0]).toMatchObject({ unit: 'tbsp' });
+    expect(itemNames(list)).not.toContain('물');
+  });
+
+  it('scales amounts to the requested servings', async () => {
+    const list = await service.createShoppingList({ recipes: [{ recipeId: 'r1', servings: 4 }] });
+    const pork = list.sections.flatMap(section => section.items).find(item => item.name === '돼지고기');
+
+    expect(pork?.quantityText).toBe('600g');
+  });
+
+  it('excludes owned ingredients only when the name matches', async () => {
+    const list = await service.createShoppingList({
+      recipes: [{ recipeId: 'r1' }, { recipeId: 'r2' }],
+      exclude: ['소금', '파'],
+    });
+
+    expect(list.excludedItems).toEqual(['소금', '파']);
+    expect(itemNames(list)).toEqual(expect.arrayContaining(['깨소금', '대파', '파프리카']));
+  });
+
+  it('excludes an owned ingredient regardless of preparation words', async () => {
+    const list = await service.createShoppingList({ recipes: [{ recipeId: 'r1' }, { recipeId: 'r2' }], exclude: ['마늘'] });
+
+    expect(list.excludedItems).toEqual(['다진 마늘', '마늘']);
+  });
+
+  it('reports recipes that were not found', async () => {
+    const list = await service.createShoppingList({ recipes: [{ recipeId: 'r1' }, { recipeId: 'missing' }] });
+
+    expect(list.missingRecipeIds).toEqual(['missing']);
+  });
+});
@@ -0,0 +1,246 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ElasticsearchRecipe, ElasticsearchService } from '../elasticsearch/elasticsearch.service';
+import { ConversionService } from '../conversion/conversion.service';
+import { INGREDIENT_UNITS, IngredientParserUtil } from '../langchain/utils/ingredient-parser.util';
+import { RecipeScalingUtil } from '../langchain/utils/recipe-scaling.util';
+import { ParsedIngredient } from '../langchain/types/langchain.types';
+import {
+  DEFAULT_STORE_SECTION,
+  NON_SHOPPING_INGREDIENTS,
+  PREPARATION_WORDS,
+  STORE_SECTIONS,
+} from './constants/store-sections.constants';
+import {
+  ShoppingList,
+  ShoppingListAmount,
+  ShoppingListItem,
+  ShoppingListItemSource,
+  ShoppingListRecipe,
+  ShoppingListRequest,
+} from './interfaces/shopping-list.interface';
+
+/**
+ * 합산 중인 재료 (무게는 g, 부피는 ml, 개수는 단위별로 누적)
+ */
+interface ItemAccumulator {
+  key: string;
+  name: string;
+  grams: number;
+  millilitres: number;
+  volumeUnits: Set<string>;
+  counts: Map<string, { quantity: number; unitText: string }>;
+  approximateTexts: Set<string>;
+  sources: ShoppingListItemSource[];
+}
+
+/**
+ * 🛒 여러 레시피의 재료를 합친 장보기 목록
+ * 인분 조절 → 같은 재료 병합(호환 단위 합산) → 매장 코너별 정리
+ */
+@Injectable()
+export class ShoppingListService {
+  private readonly logger = new Logger(ShoppingListService.name);
+
+  private static readonly SECTION_KEYWORDS = STORE_SECTIONS
+    .flatMap(section => section.keywords.map(keyword => ({ section: section.name, keyword: keyword.toLowerCase() })))
+    .sort((a, b) => b.keyword.length - a.keyword.length);
+
+  constructor(
+    private readonly elasticsearchService: ElasticsearchService,
+    private readonly conversionService: ConversionService,
+  ) {}
+
+  /**
+   * 장보기 목록 생성 (같은 레시피가 여러 번 요청되면 인분을 합산)
+   */
+  async createShoppingList(request: ShoppingListRequest): Promise<ShoppingList> {
+    const recipeIds = [...new Set(request.recipes.map(item => item.recipeId))];
+    const recipes = await this.elasticsearchService.getRecipesByIds(recipeIds);
+    if (recipes.length === 0) {
+      throw new NotFoundException(`Recipes not found: ${recipeIds.join(', ')}`);
+    }
+
+    const recipeById = new Map(recipes.map(recipe => [recipe.id, recipe]));
+    const missingRecipeIds = recipeIds.filter(id => !recipeById.has(id));
+    // 집에 있는 재료는 정규화한 이름이 같을 때만 제외 ("소금"이 "깨소금"을, "파"가 "대파"를 지우지 않도록)
+    const owned = new Set((request.exclude ?? []).map(item => this.normalizeName(item)).filter(Boolean));
+
+    const accumulators = new Map<string, ItemAccumulator>();
+    const excludedItems = new Set<string>();
+    const recipeSummaries: ShoppingListRecipe[] = [];
+
+    for (const recipeId of recipeIds) {
+      const recipe = recipeById.get(recipeId);
+      if (!recipe) continue;
+
+      const originalServings = recipe.servings || 2;
+      const servings = request.recipes
+        .filter(item => item.recipeId === recipeId)
+        .reduce((total, item) => total + (item.servings ?? originalServings), 0);
+      recipeSummaries.push({ recipeId, name: this.recipeName(recipe), originalServings, servings });
+
+      const ingredients = recipe.ingredientsKo?.length ? recipe.ingredientsKo : recipe.ingredientsEn || [];
+      for (const parsed of IngredientParserUtil.parseAll(ingredients)) {
+        const key = this.normalizeName(parsed.name);
+        if (!key || NON_SHOPPING_INGREDIENTS.includes(key)) continue;
+
+        if (owned.has(key)) {
+          excludedItems.add(parsed.name);
+          continue;
+        }
+
+        const accumulator = accumulators.get(key) ?? this.createAccumulator(key, parsed.name);
+        accumulators.set(key, accumulator);
+        this.addIngredient(accumulator, parsed, servings / originalServings);
+        accumulator.sources.push({ recipeId, recipeName: this.recipeName(recipe), original: parsed.original });
+      }
+    }
+
+    const items = [...accumulators.values()].map(accumulator => this.toItem(accumulator));
+    const sectionOrder = [...STORE_SECTIONS.map(section => section.name), DEFAULT_STORE_SECTION];
+    const sections = sectionOrder
+      .map(section => ({
+        section,
+        items: items
+          .filter(item => item.section === section)
+          .sort((a, b) => a.name.localeCompare(b.name, 'ko')),
+      }))
+      .filter(section => section.items.length > 0);
+
+    this.logger.log(`🛒 Shopping list: ${recipes.length} recipes → ${items.length} items (excluded: ${excludedItems.size}, missing: ${missingRecipeIds.length})`);
+
+    return {
+      recipes: recipeSummaries,
+      sections,
+      totalItems: items.length,
+      excludedItems: [...excludedItems],
+      missingRecipeIds,
+    };
+  }
+
+  /**
+   * 인쇄/메신저 공유용 텍스트
+   */
+  toPlainText(list: ShoppingList): string {
+    const lines = ['[장보기 목록]'];
+    lines.push(...list.recipes.map(recipe => `- ${recipe.name} (${recipe.servings}인분)`), '');
+
+    for (const section of list.sections) {
+      lines.push(`## ${section.section}`);
+      lines.push(...section.items.map(item => `[ ] ${item.name} ${item.quantityText}`.trimEnd()));
+      lines.push('');
+    }
+
+    if (list.excludedItems.length > 0) {
+      lines.push(`(집에 있는 재료 제외: ${list.excludedItems.join(', ')})`);
+    }
+    return lines.join('\n').trimEnd() + '\n';
+  }
+
+  private createAccumulator(key: string, name: string): ItemAccumulator {
+    return {
+      key,
+      name,
+      grams: 0,
+      millilitres: 0,
+      volumeUnits: new Set(),
+      counts: new Map(),
+      approximateTexts: new Set(),
+      sources: [],
+    };
+  }
+
+  /**
+   * 재료 한 줄을 합산 (범위는 넉넉하게 최댓값 기준)
+   */
+  private addIngredient(accumulator: ItemAccumulator, parsed: ParsedIngredient, factor: number): void {
+    // 더 짧은 표기를 대표 이름으로 ("다진 마늘" + "마늘" → "마늘")
+    if (parsed.name.length < accumulator.name.length) {
+      accumulator.name = parsed.name;
+    }
+
+    const baseQuantity = parsed.quantityMax ?? parsed.quantity;
+    if (baseQuantity === null || parsed.unitType === 'approximate') {
+      accumulator.approximateTexts.add(parsed.unitText ?? '적당량');
+      return;
+    }
+
+    const quantity = baseQuantity * factor;
+    if (parsed.unitType === 'weight' && parsed.unit) {
+      accumulator.grams += this.conversionService.convert({ value: quantity, from: parsed.unit, to: 'g' }).result;
+    } else if (parsed.unitType === 'volume' && parsed.unit) {
+      accumulator.millilitres += this.conversionService.convert({ value: quantity, from: parsed.unit, to: 'ml' }).result;
+      accumulator.volumeUnits.add(parsed.unit);
+    } else {
+      const unitKey = parsed.unit ?? '';
+      const current = accumulator.counts.get(unitKey);
+      accumulator.counts.set(unitKey, {
+        quantity: (current?.quantity ?? 0) + quantity,
+        unitText: current?.unitText ?? (parsed.unit ? INGREDIENT_UNITS[parsed.unit]?.label ?? parsed.unitText ?? '' : '개'),
+      });
+    }
+  }
+
+  private toItem(accumulator: ItemAccumulator): ShoppingListItem {
+    const amounts: ShoppingListAmount[] = [];
+
+    if (accumulator.grams > 0) {
+      amounts.push(accumulator.grams >= 1000
+        ? { quantity: Math.round(accumulator.grams / 100) / 10, unit: 'kg', text: `${Math.round(accumulator.grams / 100) / 10}kg` }
+        : { quantity: Math.round(accumulator.grams), unit: 'g', text: `${Math.round(accumulator.grams)}g` });
+    }
+    if (accumulator.millilitres > 0) {
+      amounts.push(this.formatVolume(accumulator.millilitres, accumulator.volumeUnits));
+    }
+    for (const [unit, { quantity, unitText }] of accumulator.counts) {
+      amounts.push({ quantity, unit: unit || null, text: `${RecipeScalingUtil.formatQuantity(quantity)}${unitText}` });
+    }
+
+    const approximate = amounts.length === 0;
+    const quantityText = [...amounts.map(amount => amount.text), ...accumulator.approximateTexts].join(' + ');
+
+    return {
+      name: accumulator.name,
+      section: this.findSection(accumulator.key),
+      quantityText,
+      amounts,
+      approximate,
+      sources: accumulator.sources,
+    };
+  }
+
+  /**
+   * 부피 표기: 모든 레시피가 같은 단위를 쓰면 그 단위 유지, 섞여 있으면 크기에 맞는 계량 단위로
+   */
+  private formatVolume(millilitres: number, units: Set<string>): ShoppingListAmount {
+    const [onlyUnit] = units.size === 1 ? [...units] : [];
+    const unit = onlyUnit ?? (millilitres >= 200 ? 'cup' : millilitres >= 15 ? 'tbsp' : 'tsp');
+    const quantity = this.conversionService.convert({ value: millilitres, from: 'ml', to: unit }).result;
+    const label = INGREDIENT_UNITS[unit]?.label ?? unit;
+    const text = unit === 'ml' || unit === 'l'
+      ? `${Math.round(quantity * 10) / 10}${label}`
+      : `${RecipeScalingUtil.formatQuantity(quantity)}${label}`;
+
+    return { quantity, unit, text };
+  }
+
+  private findSection(key: string): string {
+    return ShoppingListService.SECTION_KEYWORDS.find(({ keyword }) => key.includes(keyword.replace(/\s+/g, '')))?.section
+      ?? DEFAULT_STORE_SECTION;
+  }
+
+  /**
+   * 병합 키: 손질 표현 제거 후 공백 없는 소문자
+   */
+  private normalizeName(name: string): string {
+    return name
+      .toLowerCase()
+      .split(/\s+/)
+      .filter(word => word && !PREPARATION_WORDS.includes(word))
+      .join('');
+  }
+
+  private recipeName(recipe: ElasticsearchRecipe): string {
+    return recipe.nameKo || recipe.nameEn || recipe.id;
+  }
+}
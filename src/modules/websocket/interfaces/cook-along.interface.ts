@@ -0,0 +1,75 @@
+import { RecipeLanguage, RecipeStep, RecipeTiming } from '../../langchain/types/langchain.types';
+
+// Cook-along (단계별 요리 진행) interface definitions
+
+export interface CookAlongTimer {
+  name: string;
+  stepNumber: number;
+  durationSeconds: number;
+  startedAt: number;
+  endsAt: number;
+  handle: ReturnType<typeof setTimeout>;
+}
+
+export interface CookAlongSession {
+  socketId: string;
+  userId?: string;
+  recipeId: string;
+  recipeName: string;
+  // 안내 문구와 레시피 필드 언어
+  lang: RecipeLanguage;
+  ingredients: string[];
+  steps: RecipeStep[];
+  timing: RecipeTiming;
+  // 0부터 시작하는 현재 단계 위치
+  stepIndex: number;
+  timers: Map<string, CookAlongTimer>;
+  startedAt: number;
+  completed: boolean;
+}
+
+export interface CookAlongTimerState {
+  name: string;
+  stepNumber: number;
+  durationSeconds: number;
+  remainingSeconds: number;
+  endsAt: string;
+}
+
+export interface CookAlongStepState {
+  recipeId: string;
+  recipeName: string;
+  stepNumber: number;
+  totalSteps: number;
+  step: RecipeStep;
+  isFirst: boolean;
+  isLast: boolean;
+  timers: CookAlongTimerState[];
+  // 화면/음성 안내용 문장
+  content: string;
+  timestamp: number;
+}
+
+export interface CookAlongTimerRequest {
+  name?: string;
+  minutes?: number;
+  seconds?: number;
+}
+
+export interface CookAlongTimerFinished {
+  recipeId: string;
+  name: string;
+  stepNumber: number;
+  content: string;
+  timestamp: number;
+}
+
+export interface CookAlongCompletion {
+  recipeId: string;
+  recipeName: string;
+  totalSteps: number;
+  timers: CookAlongTimerState[];
+  cookCount?: number;
+  content: string;
+  timestamp: number;
+}
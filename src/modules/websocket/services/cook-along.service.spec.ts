@@ -0,0 +1,94 @@
+import { BadRequestException } from '@nestjs/common';
+import { ElasticsearchRecipe, ElasticsearchService } from '../../elasticsearch/elasticsearch.service';
+import { RecipeInteractionService } from '../../recipe/services/recipe-interaction.service';
+import { CookAlongService } from './cook-along.service';
+
+describe('CookAlongService', () => {
+  const recipe = {
+    id: 'r1',
+    nameKo: '김치찌개',
+    ingredientsKo: ['김치 200g', '돼지고기 100g'],
+    stepsKo: ['돼지고기를 중불에서 5분 볶는다.', '김치를 넣고 10분 끓인다.'],
+  } as ElasticsearchRecipe;
+  let elasticsearchService: any;
+  let service: CookAlongService;
+
+  const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>(res => {
+      resolve = res;
+    });
+    return { promise, resolve };
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    elasticsearchService = { getRecipeById: jest.fn(async () => recipe) };
+    service = new CookAlongService(
+      elasticsearchService as ElasticsearchService,
+      { markAsCooked: jest.fn(async () => ({ cookCount: 1 })) } as unknown as RecipeInteractionService,
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('startSession', () => {
+    it('starts on the first step', async () => {
+      const state = await service.startSession('s1', 'r1');
+
+      expect(state).toMatchObject({ recipeName: '김치찌개', stepNumber: 1, totalSteps: 2, isFirst: true });
+      expect(service.getSessionLanguage('s1')).toBe('ko');
+    });
+
+    it('does not keep a session for a socket that disconnected while the recipe loaded', async () => {
+      const loading = deferred<ElasticsearchRecipe | null>();
+      elasticsearchService.getRecipeById.mockReturnValueOnce(loading.promise);
+
+      const start = service.startSession('s1', 'r1');
+      expect(service.endSession('s1')).toBe(true);
+      loading.resolve(recipe);
+
+      await expect(start).rejects.toThrow(BadRequestException);
+      expect(service.getSessionLanguage('s1')).toBeNull();
+    });
+
+    it('keeps only the latest of overlapping starts', async () => {
+      const first = deferred<ElasticsearchRecipe | null>();
+      elasticsearchService.getRecipeById.mockReturnValueOnce(first.promise);
+
+      const staleStart = service.startSession('s1', 'r1', undefined, 'ko');
+      await service.startSession('s1', 'r1', undefined, 'en');
+      first.resolve(recipe);
+
+      await expect(staleStart).rejects.toThrow(BadRequestException);
+      expect(service.getSessionLanguage('s1')).toBe('en');
+    });
+  });
+
+  describe('timers', () => {
+    it('uses the step time and reports when it finishes', async () => {
+      await service.startSession('s1', 'r1');
+      const onFinish = jest.fn();
+
+      const timer = service.startTimer('s1', {}, onFinish);
+      expect(timer).toMatchObject({ name: '1단계', durationSeconds: 300 });
+
+      jest.advanceTimersByTime(300 * 1000);
+      expect(onFinish).toHaveBeenCalledWith(expect.objectContaining({ name: '1단계', stepNumber: 1 }));
+      expect(service.getTimers('s1')).toEqual([]);
+    });
+
+    it('cancels running timers when the session ends', async () => {
+      await service.startSession('s1', 'r1');
+      const onFinish = jest.fn();
+      service.startTimer('s1', { minutes: 1 }, onFinish);
+
+      service.endSession('s1');
+      jest.advanceTimersByTime(60 * 1000);
+
+      expect(onFinish).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,412 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ElasticsearchService } from '../../elasticsearch/elasticsearch.service';
+import { RecipeTransformUtil } from '../../langchain/utils/recipe-transform.util';
+import { HeatLevel, RecipeLanguage, RecipeStep } from '../../langchain/types/langchain.types';
+import { RecipeInteractionService } from '../../recipe/services/recipe-interaction.service';
+import {
+  CookAlongCompletion,
+  CookAlongSession,
+  CookAlongStepState,
+  CookAlongTimer,
+  CookAlongTimerFinished,
+  CookAlongTimerRequest,
+  CookAlongTimerState,
+} from '../interfaces/cook-along.interface';
+
+/**
+ * 👨‍🍳 단계별 요리 진행 (cook-along)
+ * 소켓마다 진행 중인 레시피/현재 단계/타이머를 메모리에 보관하고, 연결이 끊기면 정리
+ */
+@Injectable()
+export class CookAlongService {
+  private readonly logger = new Logger(CookAlongService.name);
+  private static readonly MAX_TIMER_SECONDS = 24 * 60 * 60;
+  private static readonly MAX_TIMERS = 10;
+
+  // 안내 문구 (세션 언어별)
+  private static readonly MESSAGES = {
+    ko: {
+      heat: { high: '강불', medium_high: '중강불', medium: '중불', medium_low: '중약불', low: '약불' } as Record<HeatLevel, string>,
+      intro: (name: string, steps: number, active: number, passive: number) =>
+        `🍳 ${name} 요리를 시작할게요! 총 ${steps}단계, 직접 조리 약 ${active}분${passive > 0 ? ` + 대기 ${passive}분` : ''}이 걸려요.`,
+      repeat: '🔁 다시 안내할게요.',
+      firstStep: '첫 번째 단계예요.',
+      lastStep: '마지막 단계예요!',
+      step: (number: number, total: number, instruction: string) => `👨‍🍳 ${number}/${total}단계: ${instruction}`,
+      timerName: (number: number) => `${number}단계`,
+      timerFinished: (name: string, number: number, instruction: string) => `⏰ '${name}' 타이머가 끝났어요! (${number}단계: ${instruction})`,
+      pendingTimers: (names: string) => ` 아직 ${names} 타이머가 돌아가고 있어요.`,
+      completed: (name: string) => `🎉 ${name} 완성! 모든 단계를 마쳤어요.`,
+      passive: ' (대기)',
+      seconds: (value: number) => `${value}초`,
+      minutes: (value: number) => `${value}분`,
+      hours: (value: number) => `${value}시간`,
+      context: {
+        recipe: '레시피', ingredients: '재료', none: '정보 없음', previous: '이전 단계', current: '현재 단계',
+        details: '현재 단계 정보', tip: '팁', next: '다음 단계', lastNext: '다음 단계: 없음 (마지막 단계)',
+      },
+    },
+    en: {
+      heat: { high: 'high heat', medium_high: 'medium-high heat', medium: 'medium heat', medium_low: 'medium-low heat', low: 'low heat' } as Record<HeatLevel, string>,
+      intro: (name: string, steps: number, active: number, passive: number) =>
+        `🍳 Let's start cooking ${name}! ${steps} steps, about ${active} min hands-on${passive > 0 ? ` + ${passive} min waiting` : ''}.`,
+      repeat: '🔁 Here it is again.',
+      firstStep: 'This is the first step.',
+      lastStep: 'This is the last step!',
+      step: (number: number, total: number, instruction: string) => `👨‍🍳 Step ${number}/${total}: ${instruction}`,
+      timerName: (number: number) => `Step ${number}`,
+      timerFinished: (name: string, number: number, instruction: string) => `⏰ '${name}' timer is done! (Step ${number}: ${instruction})`,
+      pendingTimers: (names: string) => ` ${names} timer(s) still running.`,
+      completed: (name: string) => `🎉 ${name} is ready! You've finished every step.`,
+      passive: ' (waiting)',
+      seconds: (value: number) => `${value} sec`,
+      minutes: (value: number) => `${value} min`,
+      hours: (value: number) => `${value} hr`,
+      context: {
+        recipe: 'Recipe', ingredients: 'Ingredients', none: 'not available', previous: 'Previous step', current: 'Current step',
+        details: 'Current step details', tip: 'Tip', next: 'Next step', lastNext: 'Next step: none (last step)',
+      },
+    },
+  };
+
+  private readonly sessions = new Map<string, CookAlongSession>();
+  // 레시피를 불러오는 중인 시작 요청 (그 사이 연결이 끊기거나 새 요청이 오면 지워짐)
+  private readonly pendingStarts = new Map<string, symbol>();
+
+  constructor(
+    private readonly elasticsearchService: ElasticsearchService,
+    private readonly recipeInteractionService: RecipeInteractionService,
+  ) {}
+
+  /**
+   * 요리 시작 (진행 중인 세션이 있으면 타이머를 정리하고 새로 시작)
+   * 레시피를 불러오는 동안 연결이 끊기거나 다시 시작하면 이 요청은 세션을 만들지 않음
+   */
+  async startSession(
+    socketId: string,
+    recipeId: string,
+    userId?: string,
+    lang: RecipeLanguage = 'ko',
+  ): Promise<CookAlongStepState> {
+    const pending = Symbol(recipeId);
+    this.pendingStarts.set(socketId, pending);
+
+    let recipe: Awaited<ReturnType<ElasticsearchService['getRecipeById']>>;
+    let cancelled = false;
+    try {
+      recipe = await this.elasticsearchService.getRecipeById(recipeId);
+    } finally {
+      cancelled = this.pendingStarts.get(socketId) !== pending;
+      if (!cancelled) {
+        this.pendingStarts.delete(socketId);
+      }
+    }
+    if (cancelled) {
+      this.logger.log(`🚫 [${socketId}] Cook-along start cancelled: ${recipeId}`);
+      throw new BadRequestException(`Cook-along start was cancelled: ${recipeId}`);
+    }
+    if (!recipe) {
+      throw new NotFoundException(`Recipe not found: ${recipeId}`);
+    }
+
+    const transformed = RecipeTransformUtil.transformRecipe(recipe, lang);
+    if (transformed.steps.length === 0) {
+      throw new BadRequestException(`Recipe has no steps: ${recipeId}`);
+    }
+
+    this.endSession(socketId);
+    const session: CookAlongSession = {
+      socketId,
+      userId,
+      recipeId,
+      recipeName: transformed.title,
+      lang,
+      ingredients: transformed.ingredients,
+      steps: transformed.steps,
+      timing: transformed.timing,
+      stepIndex: 0,
+      timers: new Map(),
+      startedAt: Date.now(),
+      completed: false,
+    };
+    this.sessions.set(socketId, session);
+    this.logger.log(`👨‍🍳 [${socketId}] Cook-along started: ${recipeId} (${session.steps.length} steps, ${lang})`);
+
+    const { activeMinutes, passiveMinutes } = session.timing;
+    const intro = CookAlongService.MESSAGES[lang].intro(session.recipeName, session.steps.length, activeMinutes, passiveMinutes);
+    return this.describeStep(session, intro);
+  }
+
+  /**
+   * 현재 단계
+   */
+  getCurrentStep(socketId: string): CookAlongStepState {
+    return this.describeStep(this.requireSession(socketId));
+  }
+
+  /**
+   * 진행 중인 세션의 언어 (세션이 없으면 null)
+   */
+  getSessionLanguage(socketId: string): RecipeLanguage | null {
+    return this.sessions.get(socketId)?.lang ?? null;
+  }
+
+  /**
+   * 현재 단계 다시 안내
+   */
+  repeatStep(socketId: string): CookAlongStepState {
+    const session = this.requireSession(socketId);
+    return this.describeStep(session, CookAlongService.MESSAGES[session.lang].repeat);
+  }
+
+  /**
+   * 다음 단계 (마지막 단계였으면 null → 완료 처리)
+   */
+  nextStep(socketId: string): CookAlongStepState | null {
+    const session = this.requireSession(socketId);
+    if (session.stepIndex >= session.steps.length - 1) {
+      return null;
+    }
+
+    session.stepIndex++;
+    return this.describeStep(session);
+  }
+
+  /**
+   * 이전 단계 (첫 단계에서는 그대로)
+   */
+  previousStep(socketId: string): CookAlongStepState {
+    const session = this.requireSession(socketId);
+    if (session.stepIndex === 0) {
+      return this.describeStep(session, CookAlongService.MESSAGES[session.lang].firstStep);
+    }
+
+    session.stepIndex--;
+    return this.describeStep(session);
+  }
+
+  /**
+   * 요리 완료 (사용자 ID가 있으면 요리 기록 저장, 실패해도 완료 응답은 보냄)
+   */
+  async completeSession(socketId: string): Promise<CookAlongCompletion> {
+    const session = this.requireSession(socketId);
+    let cookCount: number | undefined;
+
+    if (session.userId && !session.completed) {
+      try {
+        cookCount = (await this.recipeInteractionService.markAsCooked(session.userId, session.recipeId)).cookCount;
+      } catch (error) {
+        this.logger.warn(`⚠️ [${socketId}] Failed to record cooking for ${session.recipeId}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    session.completed = true;
+
+    const messages = CookAlongService.MESSAGES[session.lang];
+    const timers = this.getTimers(socketId);
+    const pending = timers.length > 0 ? messages.pendingTimers(timers.map(timer => `'${timer.name}'`).join(', ')) : '';
+    return {
+      recipeId: session.recipeId,
+      recipeName: session.recipeName,
+      totalSteps: session.steps.length,
+      timers,
+      cookCount,
+      content: `${messages.completed(session.recipeName)}${pending}`,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * 요리 종료 (타이머 모두 취소, 레시피를 불러오는 중인 시작 요청도 취소)
+   */
+  endSession(socketId: string): boolean {
+    const cancelled = this.pendingStarts.delete(socketId);
+    const session = this.sessions.get(socketId);
+    if (!session) {
+      return cancelled;
+    }
+
+    session.timers.forEach(timer => clearTimeout(timer.handle));
+    this.sessions.delete(socketId);
+    this.logger.log(`👋 [${socketId}] Cook-along ended: ${session.recipeId}`);
+    return true;
+  }
+
+  /**
+   * 이름 있는 타이머 시작 (시간을 주지 않으면 현재 단계 시간, 같은 이름이면 다시 시작)
+   */
+  startTimer(
+    socketId: string,
+    request: CookAlongTimerRequest,
+    onFinish: (finished: CookAlongTimerFinished) => void,
+  ): CookAlongTimerState {
+    const session = this.requireSession(socketId);
+    const step = this.currentStep(session);
+
+    const requestedSeconds = (request.minutes ?? 0) * 60 + (request.seconds ?? 0);
+    const durationSeconds = Math.round(requestedSeconds > 0 ? requestedSeconds : (step.time ?? 0) * 60);
+    if (durationSeconds <= 0) {
+      throw new BadRequestException('Timer duration is required (this step has no time)');
+    }
+    if (durationSeconds > CookAlongService.MAX_TIMER_SECONDS) {
+      throw new BadRequestException(`Timer cannot exceed ${CookAlongService.MAX_TIMER_SECONDS / 3600} hours`);
+    }
+
+    const messages = CookAlongService.MESSAGES[session.lang];
+    const name = request.name?.trim() || messages.timerName(step.step);
+    const existing = session.timers.get(name);
+    if (existing) {
+      clearTimeout(existing.handle);
+    } else if (session.timers.size >= CookAlongService.MAX_TIMERS) {
+      throw new BadRequestException(`At most ${CookAlongService.MAX_TIMERS} timers can run at once`);
+    }
+
+    const startedAt = Date.now();
+    const timer: CookAlongTimer = {
+      name,
+      stepNumber: step.step,
+      durationSeconds,
+      startedAt,
+      endsAt: startedAt + durationSeconds * 1000,
+      handle: setTimeout(() => {
+        session.timers.delete(name);
+        this.logger.log(`⏰ [${socketId}] Timer finished: ${name}`);
+        onFinish({
+          recipeId: session.recipeId,
+          name,
+          stepNumber: step.step,
+          content: messages.timerFinished(name, step.step, step.instruction),
+          timestamp: Date.now(),
+        });
+      }, durationSeconds * 1000),
+    };
+    session.timers.set(name, timer);
+    this.logger.log(`⏱️ [${socketId}] Timer started: ${name} (${durationSeconds}s)`);
+
+    return this.toTimerState(timer);
+  }
+
+  /**
+   * 타이머 중지 (이름이 없으면 하나만 돌고 있을 때 그 타이머)
+   */
+  stopTimer(socketId: string, name?: string): CookAlongTimerState {
+    const session = this.requireSession(socketId);
+    const timer = name?.trim()
+      ? session.timers.get(name.trim())
+      : session.timers.size === 1 ? [...session.timers.values()][0] : undefined;
+
+    if (!timer) {
+      throw new NotFoundException(name ? `Timer not found: ${name}` : 'Timer name is required');
+    }
+
+    clearTimeout(timer.handle);
+    session.timers.delete(timer.name);
+    this.logger.log(`⏹️ [${socketId}] Timer stopped: ${timer.name}`);
+    return this.toTimerState(timer);
+  }
+
+  getTimers(socketId: string): CookAlongTimerState[] {
+    const session = this.sessions.get(socketId);
+    return session ? [...session.timers.values()].map(timer => this.toTimerState(timer)) : [];
+  }
+
+  /**
+   * 현재 단계 질문용 컨텍스트 (레시피, 재료, 앞/현재/다음 단계)
+   */
+  buildStepContext(socketId: string): string {
+    const session = this.requireSession(socketId);
+    const step = this.currentStep(session);
+    const previous = session.steps[session.stepIndex - 1];
+    const next = session.steps[session.stepIndex + 1];
+    const details = this.describeStepDetails(step, session.lang);
+    const labels = CookAlongService.MESSAGES[session.lang].context;
+
+    const lines = [
+      `${labels.recipe}: ${session.recipeName}`,
+      `${labels.ingredients}: ${session.ingredients.join(', ') || labels.none}`,
+      previous ? `${labels.previous}(${previous.step}): ${previous.instruction}` : null,
+      `${labels.current}(${step.step}/${session.steps.length}): ${step.instruction}`,
+      details ? `${labels.details}: ${details}` : null,
+      step.tip ? `${labels.tip}: ${step.tip}` : null,
+      next ? `${labels.next}(${next.step}): ${next.instruction}` : labels.lastNext,
+    ];
+    return lines.filter(line => line !== null).join('\n');
+  }
+
+  private requireSession(socketId: string): CookAlongSession {
+    const session = this.sessions.get(socketId);
+    if (!session) {
+      throw new NotFoundException('No cook-along session in progress. Start one with cook_start');
+    }
+    return session;
+  }
+
+  private currentStep(session: CookAlongSession): RecipeStep {
+    const step = session.steps[session.stepIndex];
+    if (!step) {
+      throw new NotFoundException(`Step not found: ${session.stepIndex + 1}`);
+    }
+    return step;
+  }
+
+  /**
+   * 단계 안내 ("2/5단계: ... · ⏱️ 5분 · 🔥 중불 · 🍳 냄비 · 💡 팁")
+   */
+  private describeStep(session: CookAlongSession, notice?: string): CookAlongStepState {
+    const step = this.currentStep(session);
+    const total = session.steps.length;
+    const isLast = session.stepIndex === total - 1;
+    const details = this.describeStepDetails(step, session.lang);
+    const messages = CookAlongService.MESSAGES[session.lang];
+
+    const lines = [
+      notice ?? null,
+      messages.step(step.step, total, step.instruction),
+      details || null,
+      step.tip ? `💡 ${step.tip}` : null,
+      isLast ? messages.lastStep : null,
+    ];
+
+    return {
+      recipeId: session.recipeId,
+      recipeName: session.recipeName,
+      stepNumber: step.step,
+      totalSteps: total,
+      step,
+      isFirst: session.stepIndex === 0,
+      isLast,
+      timers: [...session.timers.values()].map(timer => this.toTimerState(timer)),
+      content: lines.filter(line => line !== null).join('\n'),
+      timestamp: Date.now(),
+    };
+  }
+
+  private describeStepDetails(step: RecipeStep, lang: RecipeLanguage): string {
+    const messages = CookAlongService.MESSAGES[lang];
+    const details = [
+      step.time !== null ? `⏱️ ${this.formatMinutes(step.time, lang)}${step.passive ? messages.passive : ''}` : null,
+      step.heat ? `🔥 ${messages.heat[step.heat]}` : null,
+      step.temperature ? `🌡️ ${step.temperature.value}°${step.temperature.unit}` : null,
+      step.equipment.length > 0 ? `🍳 ${step.equipment.join(', ')}` : null,
+    ];
+    return details.filter(detail => detail !== null).join(' · ');
+  }
+
+  private formatMinutes(minutes: number, lang: RecipeLanguage): string {
+    const messages = CookAlongService.MESSAGES[lang];
+    if (minutes < 1) return messages.seconds(Math.round(minutes * 60));
+    const hours = Math.floor(minutes / 60);
+    const rest = Math.round(minutes % 60);
+    if (hours === 0) return messages.minutes(rest);
+    return rest > 0 ? `${messages.hours(hours)} ${messages.minutes(rest)}` : messages.hours(hours);
+  }
+
+  private toTimerState(timer: CookAlongTimer): CookAlongTimerState {
+    return {
+      name: timer.name,
+      stepNumber: timer.stepNumber,
+      durationSeconds: timer.durationSeconds,
+      remainingSeconds: Math.max(0, Math.round((timer.endsAt - Date.now()) / 1000)),
+      endsAt: new Date(timer.endsAt).toISOString(),
+    };
+  }
+}
@@ -12,7 +12,13 @@ import { Server, Socket } from 'socket.io';
 import { Logger } from '@nestjs/common';
 import { LangChainService } from '../langchain/langchain.service';
 import { ReactAgentService } from '../langchain/services/react-agent.service';
+import { StreamingService } from '../langchain/services/streaming.service';
+import { ConversationContext, RecipeLanguage } from '../langchain/types/langchain.types';
+import { LanguageUtil } from '../langchain/utils/language.util';
+import { RecipeInteractionService } from '../recipe/services/recipe-interaction.service';
 import { WEBSOCKET_CONFIG } from './constants/websocket.constants';
+import { CookAlongService } from './services/cook-along.service';
+import { CookAlongTimerRequest } from './interfaces/cook-along.interface';
 
 @WebSocketGateway({
   cors: {
@@ -34,6 +40,9 @@ export class ChatGateway implements OnGatewayInit, OnGatewayConnection, OnGatewa
   constructor(
     private readonly langChainService: LangChainService,
     private readonly reactAgentService: ReactAgentService,
+    private readonly recipeInteractionService: RecipeInteractionService,
+    private readonly cookAlongService: CookAlongService,
+    private readonly streamingService: StreamingService,
   ) {}
 
   afterInit(_server: Server) {
@@ -57,6 +66,7 @@ export class ChatGateway implements OnGatewayInit, OnGatewayConnection, OnGatewa
     const clientId = client.id;
     const hadClient = this.connectedClients.has(clientId);
     this.connectedClients.delete(clientId);
+    this.cookAlongService.endSession(clientId);
     
     this.logger.log(`🔌 [${clientId}] Client disconnected (was tracked: ${hadClient}). Total connected: ${this.connectedClients.size}`);
     
@@ -89,10 +99,14 @@ export class ChatGateway implements OnGatewayInit, OnGatewayConnection, OnGatewa
     @MessageBody() data: { 
       message: string; 
       sessionId?: string;
+      lang?: RecipeLanguage;
       context?: {
         history?: Array<{ type: string; text: string; timestamp: string }>;
         allergies?: string[];
+        dietaryRestrictions?: string[];
         cookingLevel?: string;
+        userId?: string;
+        lang?: RecipeLanguage;
       }
     },
     @ConnectedSocket() client: Socket,
@@ -102,7 +116,8 @@ export class ChatGateway implements OnGatewayInit, OnGatewayConnection, OnGatewa
 
     try {
       // LangChain 서비스에서 일반 응답 처리
-      const searchResponse = await this.langChainService.searchAndProcessRecipes(data.message, data.context);
+      const context = await this.buildConversationContext(data.message, data.context, data.lang);
+      const searchResponse = await this.langChainService.searchAndProcessRecipes(data.message, context);
       
       const response = {
         content: searchResponse.content,
@@ -134,10 +149,14 @@ export class ChatGateway implements OnGatewayInit, OnGatewayConnection, OnGatewa
     @MessageBody() data: { 
       message: string; 
       sessionId?: string;
+      lang?: RecipeLanguage;
       context?: {
         history?: Array<{ type: string; text: string; timestamp: string }>;
         allergies?: string[];
+        dietaryRestrictions?: string[];
         cookingLevel?: string;
+        userId?: string;
+        lang?: RecipeLanguage;
       }
     },
     @ConnectedSocket() client: Socket,
@@ -152,10 +171,11 @@ export class ChatGateway implements OnGatewayInit, OnGatewayConnection, OnGatewa
 
     try {
       // LangChain 모듈의 통합된 스트리밍 서비스 호출
+      const context = await this.buildConversationContext(data.message, data.context, data.lang);
       const streamGenerator = this.langChainService.processConversationStream(
         data.message, 
         sessionId, 
-        data.context
+        context
       );
 
       let chunkCount = 0;
@@ -224,10 +244,14 @@ export class ChatGateway implements OnGatewayInit, OnGatewayConnection, OnGatewa
     @MessageBody() data: { 
       message: string; 
       sessionId?: string;
+      lang?: RecipeLanguage;
       context?: {
         history?: Array<{ type: string; text: string; timestamp: string }>;
         allergies?: string[];
+        dietaryRestrictions?: string[];
         cookingLevel?: string;
+        userId?: string;
+        lang?: RecipeLanguage;
       }
     },
     @ConnectedSocket() client: Socket,
@@ -242,10 +266,11 @@ export class ChatGateway implements OnGatewayInit, OnGatewayConnection, OnGatewa
 
     try {
       // ReAct 에이전트 스트리밍 실행
+      const context = await this.buildConversationContext(data.message, data.context, data.lang);
       const reactStreamGenerator = this.reactAgentService.executeReactStream(
         data.message, 
         sessionId, 
-        data.context
+        context
       );
 
       let chunkCount = 0;
@@ -317,6 +342,164 @@ export class ChatGateway implements OnGatewayInit, OnGatewayConnection, OnGatewa
     }
   }
 
+  /**
+   * 👨‍🍳 요리 진행 시작 (소켓별 세션)
+   */
+  @SubscribeMessage('cook_start')
+  async handleCookStart(
+    @MessageBody() data: { recipeId: string; userId?: string; lang?: RecipeLanguage },
+    @ConnectedSocket() client: Socket,
+  ) {
+    try {
+      const lang = LanguageUtil.resolve(data.lang);
+      const state = await this.cookAlongService.startSession(client.id, data.recipeId, data.userId, lang);
+      client.emit('cook_step', state);
+    } catch (error) {
+      this.emitCookError(client, error);
+    }
+  }
+
+  /**
+   * 다음 단계 (마지막 단계 뒤에는 완료 이벤트)
+   */
+  @SubscribeMessage('cook_next')
+  async handleCookNext(@ConnectedSocket() client: Socket) {
+    try {
+      const state = this.cookAlongService.nextStep(client.id);
+      if (state) {
+        client.emit('cook_step', state);
+      } else {
+        client.emit('cook_completed', await this.cookAlongService.completeSession(client.id));
+      }
+    } catch (error) {
+      this.emitCookError(client, error);
+    }
+  }
+
+  @SubscribeMessage('cook_prev')
+  handleCookPrevious(@ConnectedSocket() client: Socket) {
+    try {
+      client.emit('cook_step', this.cookAlongService.previousStep(client.id));
+    } catch (error) {
+      this.emitCookError(client, error);
+    }
+  }
+
+  @SubscribeMessage('cook_current')
+  handleCookCurrent(@ConnectedSocket() client: Socket) {
+    try {
+      client.emit('cook_step', this.cookAlongService.getCurrentStep(client.id));
+    } catch (error) {
+      this.emitCookError(client, error);
+    }
+  }
+
+  @SubscribeMessage('cook_repeat')
+  handleCookRepeat(@ConnectedSocket() client: Socket) {
+    try {
+      client.emit('cook_step', this.cookAlongService.repeatStep(client.id));
+    } catch (error) {
+      this.emitCookError(client, error);
+    }
+  }
+
+  /**
+   * ⏱️ 이름 있는 타이머 시작 (끝나면 cook_timer_finished 푸시)
+   */
+  @SubscribeMessage('cook_timer_start')
+  handleCookTimerStart(
+    @MessageBody() data: CookAlongTimerRequest,
+    @ConnectedSocket() client: Socket,
+  ) {
+    try {
+      const timer = this.cookAlongService.startTimer(client.id, data ?? {}, finished => {
+        if (client.connected) {
+          client.emit('cook_timer_finished', finished);
+        }
+      });
+      client.emit('cook_timer_started', { ...timer, timestamp: Date.now() });
+    } catch (error) {
+      this.emitCookError(client, error);
+    }
+  }
+
+  @SubscribeMessage('cook_timer_stop')
+  handleCookTimerStop(
+    @MessageBody() data: { name?: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    try {
+      const timer = this.cookAlongService.stopTimer(client.id, data?.name);
+      client.emit('cook_timer_stopped', { ...timer, timestamp: Date.now() });
+    } catch (error) {
+      this.emitCookError(client, error);
+    }
+  }
+
+  /**
+   * 💬 현재 단계에 대한 자유 질문 (단계 정보를 컨텍스트로 스트리밍 답변)
+   * 답변 언어: 요청 lang > 질문에서 감지 > 세션 언어
+   */
+  @SubscribeMessage('cook_question')
+  async handleCookQuestion(
+    @MessageBody() data: { question: string; lang?: RecipeLanguage },
+    @ConnectedSocket() client: Socket,
+  ) {
+    try {
+      const stepContext = this.cookAlongService.buildStepContext(client.id);
+      const lang = LanguageUtil.isSupported(data.lang)
+        ? data.lang
+        : LanguageUtil.detect(data.question) ?? this.cookAlongService.getSessionLanguage(client.id) ?? LanguageUtil.DEFAULT_LANGUAGE;
+      this.logger.log(`💬 [${client.id}] Cook-along question (${lang}): ${data.question.substring(0, 50)}...`);
+
+      for await (const chunk of this.streamingService.generateStepAnswer(data.question, stepContext, lang)) {
+        if (!client.connected) break;
+        client.emit('cook_answer_chunk', { ...chunk, timestamp: Date.now() });
+      }
+    } catch (error) {
+      this.emitCookError(client, error);
+    }
+  }
+
+  @SubscribeMessage('cook_end')
+  handleCookEnd(@ConnectedSocket() client: Socket) {
+    const ended = this.cookAlongService.endSession(client.id);
+    client.emit('cook_ended', { ended, timestamp: Date.now() });
+  }
+
+  private emitCookError(client: Socket, error: unknown) {
+    this.logger.warn(`⚠️ [${client.id}] Cook-along error:`, error instanceof Error ? error.message : error);
+    client.emit('cook_error', {
+      message: '요리 진행 중 오류가 발생했습니다.',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * 응답 언어(lang > context.lang > 메시지에서 감지)를 정하고, 사용자 ID가 있으면 요리 기록을 대화 컨텍스트에 추가
+   */
+  private async buildConversationContext(
+    message: string,
+    context?: ConversationContext,
+    lang?: RecipeLanguage,
+  ): Promise<ConversationContext> {
+    const resolved: ConversationContext = {
+      ...context,
+      lang: LanguageUtil.resolve(LanguageUtil.isSupported(lang) ? lang : context?.lang, message),
+    };
+    if (!resolved.userId) {
+      return resolved;
+    }
+
+    try {
+      const cookingHistory = await this.recipeInteractionService.getCookingSummaries(resolved.userId);
+      return { ...resolved, cookingHistory };
+    } catch (error) {
+      this.logger.warn(`⚠️ [${resolved.userId}] Failed to load cooking history:`, error instanceof Error ? error.message : error);
+      return resolved;
+    }
+  }
 
   /**
    * 연결된 클라이언트 수 반환
@@ -1,16 +1,20 @@
 import { Module } from '@nestjs/common';
 import { LangChainModule } from '../langchain/langchain.module';
 import { RecipeModule } from '../recipe/recipe.module';
+import { ElasticsearchModule } from '../elasticsearch/elasticsearch.module';
 
 import { ChatGateway } from './websocket.gateway';
+import { CookAlongService } from './services/cook-along.service';
 
 @Module({
   imports: [
     LangChainModule,
     RecipeModule,
+    ElasticsearchModule,
   ],
   providers: [
     ChatGateway,
+    CookAlongService,
   ],
   exports: [
     ChatGateway,